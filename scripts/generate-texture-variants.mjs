@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+
+/**
+ * Live2Dモデルのテクスチャの解像度違いを生成するスクリプト
+ * 8192pxのテクスチャをそのままGPUに載せるとモバイル端末でメモリが足りなくなるため、
+ * 2048px・4096pxに縮小したテクスチャと、実行時に選ぶための一覧（<モデル名>.textures.json）を書き出す
+ *
+ * 使い方: npm run textures [-- <model3.jsonのパス>...]
+ * （省略時は public/live2d/models.json のモデルすべて。npm run build の前にも実行する）
+ *
+ * - 縮小したテクスチャは元のフォルダ名のサイズを置き換えたフォルダ（nike01.8192 → nike01.2048）に書き出す
+ *   フォルダ名にサイズがない場合はファイル名にサイズを付ける（texture_00.png → texture_00.2048.png）
+ * - 元のテクスチャより新しい縮小済みのテクスチャは生成し直さない
+ * - 元のテクスチャがない場合は警告して飛ばす（実行時はmodel3.jsonのテクスチャをそのまま読み込む）
+ * - 画像の縮小にはNext.jsの画像最適化と同じsharpを使う
+ */
+
+import { readFile, stat, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const LIVE2D_DIR = path.join(process.cwd(), 'public', 'live2d');
+const VARIANT_SIZES = [2048, 4096];
+
+async function loadSharp() {
+  try {
+    return (await import('sharp')).default;
+  } catch {
+    console.error('sharp is not installed. Run `npm install` and try again.');
+    process.exit(1);
+  }
+}
+
+async function listModelFiles() {
+  const manifest = JSON.parse(await readFile(path.join(LIVE2D_DIR, 'models.json'), 'utf8'));
+  return manifest.models.map((model) => path.join(LIVE2D_DIR, model.model3));
+}
+
+async function exists(file) {
+  try {
+    await stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function isUpToDate(source, output) {
+  try {
+    const [sourceStat, outputStat] = await Promise.all([stat(source), stat(output)]);
+    return outputStat.mtimeMs >= sourceStat.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 縮小したテクスチャのmodel3.jsonからの相対パス
+ */
+function variantFile(texture, size) {
+  const dir = path.posix.dirname(texture);
+  const sizedDir = dir.match(/^(.*)\.(\d+)$/);
+  if (sizedDir) {
+    return path.posix.join(`${sizedDir[1]}.${size}`, path.posix.basename(texture));
+  }
+  const ext = path.posix.extname(texture);
+  return `${texture.slice(0, -ext.length)}.${size}${ext}`;
+}
+
+async function generateModel(sharp, modelFile) {
+  const modelDir = path.dirname(modelFile);
+  const model = JSON.parse(await readFile(modelFile, 'utf8'));
+  const textures = model.FileReferences?.Textures ?? [];
+  const variants = {};
+
+  for (const texture of textures) {
+    const source = path.join(modelDir, texture);
+    if (!(await exists(source))) {
+      console.warn(`! ${texture} (not found, skipped)`);
+      continue;
+    }
+    const { width, height } = await sharp(source).metadata();
+    const originalSize = Math.max(width, height);
+    variants[texture] = [];
+
+    for (const size of VARIANT_SIZES.filter((size) => size < originalSize)) {
+      const file = variantFile(texture, size);
+      const output = path.join(modelDir, file);
+      variants[texture].push({ size, file });
+
+      if (await isUpToDate(source, output)) {
+        console.log(`- ${file} (up to date)`);
+        continue;
+      }
+
+      const scale = size / originalSize;
+      await mkdir(path.dirname(output), { recursive: true });
+      // sharpはアルファ付きの画像をPremultiplyしてから縮小するため、半透明の境界に色がにじまない
+      await sharp(source)
+        .resize(Math.round(width * scale), Math.round(height * scale))
+        .png({ compressionLevel: 9 })
+        .toFile(output);
+      console.log(`✓ ${file}`);
+    }
+
+    variants[texture].push({ size: originalSize, file: texture });
+  }
+
+  const manifestFile = modelFile.replace(/\.model3\.json$/, '.textures.json');
+  await writeFile(manifestFile, `${JSON.stringify({ textures: variants }, null, 2)}\n`);
+  console.log(`✓ ${path.relative(process.cwd(), manifestFile)}`);
+}
+
+async function main() {
+  const sharp = await loadSharp();
+  const args = process.argv.slice(2);
+  const modelFiles = args.length > 0 ? args.map((file) => path.resolve(file)) : await listModelFiles();
+
+  for (const modelFile of modelFiles) {
+    console.log(`Generating texture variants: ${path.relative(process.cwd(), modelFile)}`);
+    await generateModel(sharp, modelFile);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
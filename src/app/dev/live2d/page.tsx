@@ -0,0 +1,18 @@
+import { notFound } from 'next/navigation';
+import { Live2DModelDiagnosticsPanel } from '@/components/Live2DModelDiagnosticsPanel';
+
+/**
+ * Live2Dモデルの診断（開発用。本番環境では表示しない）
+ */
+export default function Live2DDiagnosticsPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+
+  return (
+    <div className="relative z-10 max-w-4xl mx-auto px-4 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Live2Dモデルの診断</h1>
+      <Live2DModelDiagnosticsPanel />
+    </div>
+  );
+}
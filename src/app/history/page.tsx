@@ -2,33 +2,17 @@
 
 import { useAuth } from '@/contexts/AuthContextOptimized';
 import { useRouter } from 'next/navigation';
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import BottomNav from '@/components/BottomNav';
 import { HistoryList } from '@/components/History/HistoryList';
-import dynamic from 'next/dynamic';
+import Live2DStage from '@/components/Live2DStage';
 import { PlusIcon } from '@heroicons/react/24/outline';
 import { useChatStore } from '@/stores/chatStore';
 
-// Live2Dコンポーネントを動的インポート（SSR無効化）- コンテナ内表示版
-const Live2DContainedComponent = dynamic(() => import('@/components/Live2DContainedComponent'), {
-  ssr: false,
-  loading: () => (
-    <div className="flex items-center justify-center h-full">
-      <div className="text-gray-400 text-center">
-        <div className="animate-pulse">
-          <div className="w-24 h-24 bg-gray-200 rounded-full mx-auto mb-2"></div>
-          <p className="text-xs">キャラクター準備中...</p>
-        </div>
-      </div>
-    </div>
-  ),
-});
-
 export default function HistoryPage() {
   const { user, isLoading } = useAuth();
   const router = useRouter();
   const { newSession } = useChatStore();
-  const [showLive2D, setShowLive2D] = useState(false);
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -36,16 +20,6 @@ export default function HistoryPage() {
     }
   }, [user, isLoading, router]);
 
-  useEffect(() => {
-    // Live2Dを遅延ロード
-    if (user) {
-      const timer = setTimeout(() => {
-        setShowLive2D(true);
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [user]);
-
   const handleNewChat = () => {
     newSession();
     router.push('/chat');
@@ -70,20 +44,7 @@ export default function HistoryPage() {
         {/* Left Side - Live2D Character エリア - 拡大版 */}
         <div className="w-80 lg:w-96 xl:w-[28rem] bg-transparent border-r border-gray-200 flex-shrink-0 relative overflow-hidden">
           {/* Live2Dコンポーネントを配置 - コンテナ全域を表示領域として使用 */}
-          {showLive2D ? (
-            <div className="absolute inset-0">
-              <Live2DContainedComponent screenType="history" />
-            </div>
-          ) : (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <div className="text-gray-400 text-center">
-                <div className="animate-pulse">
-                  <div className="w-24 h-24 bg-gray-200 rounded-full mx-auto mb-2"></div>
-                  <p className="text-xs">キャラクターを読み込み中...</p>
-                </div>
-              </div>
-            </div>
-          )}
+          <Live2DStage layout="contained" screenType="history" className="absolute inset-0" />
         </div>
 
         {/* Right Side - History List */}
@@ -2,7 +2,10 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/contexts/AuthContextOptimized";
+import { Live2DCharacterProvider } from "@/contexts/Live2DCharacterContext";
+import { Live2DStageProvider } from "@/contexts/Live2DStageContext";
 import Header from "@/components/Header";
+import Live2DStageHost from "@/components/Live2DStageHost";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import "@/services/authService"; // authServiceを初期化（インターセプター有効化）
 
@@ -33,8 +36,14 @@ export default function RootLayout({
       >
         <ErrorBoundary>
           <AuthProvider>
-            <Header />
-            {children}
+            <Live2DCharacterProvider>
+              <Live2DStageProvider>
+                {/* キャラクターは画面遷移をまたいで表示し続ける（各画面はLive2DStageで表示位置を指定） */}
+                <Live2DStageHost />
+                <Header />
+                {children}
+              </Live2DStageProvider>
+            </Live2DCharacterProvider>
           </AuthProvider>
         </ErrorBoundary>
       </body>
@@ -3,6 +3,10 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContextOptimized';
+import { VoiceService } from '@/services/voiceApi';
+import { VoiceCacheUsage } from '@/services/voiceCacheStore';
+import { VoiceSettingsPanel } from '@/components/VoiceSettingsPanel';
+import { CharacterSettingsPanel } from '@/components/CharacterSettingsPanel';
 
 export default function MyPage() {
   const router = useRouter();
@@ -14,6 +18,8 @@ export default function MyPage() {
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
+  const [voiceCacheUsage, setVoiceCacheUsage] = useState<VoiceCacheUsage | null>(null);
+  const [clearingVoiceCache, setClearingVoiceCache] = useState(false);
 
   useEffect(() => {
     if (!user) {
@@ -26,6 +32,10 @@ export default function MyPage() {
     }
   }, [user, router]);
 
+  useEffect(() => {
+    VoiceService.getCacheUsage().then(setVoiceCacheUsage).catch(() => setVoiceCacheUsage(null));
+  }, []);
+
   // 変更があるかチェック
   const hasChanges = name !== originalName || email !== originalEmail;
 
@@ -68,6 +78,21 @@ export default function MyPage() {
     }
   };
 
+  const handleClearVoiceCache = async () => {
+    setClearingVoiceCache(true);
+    setMessage('');
+    setError('');
+
+    try {
+      await VoiceService.clearCache();
+      setVoiceCacheUsage(await VoiceService.getCacheUsage());
+      setMessage('音声キャッシュを削除しました');
+    } catch {
+      setError('音声キャッシュの削除に失敗しました');
+    } finally {
+      setClearingVoiceCache(false);
+    }
+  };
 
   const handleLogout = async () => {
     await logout();
@@ -148,6 +173,29 @@ export default function MyPage() {
             </button>
           </form>
         </div>
+
+        <CharacterSettingsPanel />
+
+        <VoiceSettingsPanel />
+
+        <div className="bg-white/75 backdrop-blur-sm shadow rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">音声キャッシュ</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            読み上げた音声はこの端末に保存され、次回からすぐに再生されます。
+            {voiceCacheUsage && (
+              <span className="block mt-1">
+                保存中: {voiceCacheUsage.entries}件（{(voiceCacheUsage.bytes / (1024 * 1024)).toFixed(1)} MB）
+              </span>
+            )}
+          </p>
+          <button
+            onClick={handleClearVoiceCache}
+            disabled={clearingVoiceCache || voiceCacheUsage?.entries === 0}
+            className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {clearingVoiceCache ? '削除中...' : '音声キャッシュを削除'}
+          </button>
+        </div>
       </div>
     </div>
   );
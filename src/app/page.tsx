@@ -3,24 +3,13 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContextOptimized';
-import dynamic from 'next/dynamic';
 import BottomNav from '@/components/BottomNav';
+import Live2DStage from '@/components/Live2DStage';
 import { logger } from '@/utils/logger';
 
-// Live2Dコンポーネントを動的インポート（SSR無効化 + ローディング表示）
-const Live2DComponent = dynamic(() => import('@/components/Live2DComponent'), {
-  ssr: false,
-  loading: () => (
-    <div className="fixed top-4 right-4 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg shadow">
-      Live2Dを準備中...
-    </div>
-  ),
-});
-
 export default function Home() {
   const { user, isLoading } = useAuth();
   const router = useRouter();
-  const [showLive2D, setShowLive2D] = useState(false);
   const [showWelcomeCard, setShowWelcomeCard] = useState(true);
 
   useEffect(() => {
@@ -31,13 +20,6 @@ export default function Home() {
     }
   }, [user, isLoading, router]);
 
-  // Live2Dを即座にロード（遅延削除）
-  useEffect(() => {
-    if (user) {
-      setShowLive2D(true);
-    }
-  }, [user]);
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -52,7 +34,7 @@ export default function Home() {
 
   return (
     <>
-      {showLive2D && <Live2DComponent />}
+      <Live2DStage screenType="home" />
       <div className="flex flex-col items-center justify-center min-h-screen relative z-10 pt-16 pb-24">
         {showWelcomeCard && (
           <div className="bg-white/75 backdrop-blur-sm shadow-lg rounded-lg p-6 max-w-md relative">
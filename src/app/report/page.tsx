@@ -8,31 +8,15 @@ import LoadingSpinner from '@/components/LoadingSpinner';
 import { UserReport } from '@/types/report';
 import reportService from '@/services/reportService';
 import PersonalAdviceSection from '@/components/PersonalAdviceSection';
-import dynamic from 'next/dynamic';
+import Live2DStage from '@/components/Live2DStage';
 import { logger } from '@/utils/logger';
 
-// Live2Dコンポーネントを動的インポート（SSR無効化）- コンテナ内表示版
-const Live2DContainedComponent = dynamic(() => import('@/components/Live2DContainedComponent'), {
-  ssr: false,
-  loading: () => (
-    <div className="flex items-center justify-center h-full">
-      <div className="text-gray-400 text-center">
-        <div className="animate-pulse">
-          <div className="w-24 h-24 bg-gray-200 rounded-full mx-auto mb-2"></div>
-          <p className="text-xs">キャラクター準備中...</p>
-        </div>
-      </div>
-    </div>
-  ),
-});
-
 export default function ReportPage() {
   const { user, isLoading } = useAuth();
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<'week' | 'month'>('week');
   const [reportData, setReportData] = useState<UserReport | null>(null);
   const [isLoadingData, setIsLoadingData] = useState(true);
-  const [showLive2D, setShowLive2D] = useState(false);
   const [needsAnalysis, setNeedsAnalysis] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [lastAnalyzedAt, setLastAnalyzedAt] = useState<string | null>(null);
@@ -54,16 +38,6 @@ export default function ReportPage() {
     }
   }, [user]);
 
-  useEffect(() => {
-    // Live2Dを遅延ロード
-    if (user) {
-      const timer = setTimeout(() => {
-        setShowLive2D(true);
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [user]);
-
   // クールダウンタイマー
   useEffect(() => {
     if (!lastExecutionTime) return;
@@ -253,20 +227,7 @@ export default function ReportPage() {
         {/* 左カラム - Live2D Character エリア - 拡大版 */}
         <div className="w-80 lg:w-96 xl:w-[28rem] bg-transparent border-r border-gray-200 flex-shrink-0 relative overflow-hidden">
           {/* Live2Dコンポーネントを配置 - コンテナ全域を表示領域として使用 */}
-          {showLive2D ? (
-            <div className="absolute inset-0">
-              <Live2DContainedComponent screenType="report" />
-            </div>
-          ) : (
-            <div className="absolute inset-0 flex items-center justify-center">
-              <div className="text-gray-400 text-center">
-                <div className="animate-pulse">
-                  <div className="w-24 h-24 bg-gray-200 rounded-full mx-auto mb-2"></div>
-                  <p className="text-xs">キャラクターを読み込み中...</p>
-                </div>
-              </div>
-            </div>
-          )}
+          <Live2DStage layout="contained" screenType="report" className="absolute inset-0" />
         </div>
 
         {/* 右カラム - レポートコンテンツ */}
@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { CheckCircleIcon } from '@heroicons/react/24/solid';
+import { useLive2DModelSelection } from '@/lib/hooks/useLive2DModelSelection';
+import { useLive2DQuality } from '@/lib/hooks/useLive2DQuality';
+import type { Quality } from '@/lib/live2d/AdaptiveQualityController';
+
+// Live2Dコンポーネントを動的インポート（SSR無効化）
+const Live2DCanvas = dynamic(() => import('@/components/Live2DCanvas'), { ssr: false });
+
+const QUALITY_LABELS: Record<Quality, string> = {
+  high: '高',
+  medium: '中',
+  low: '低'
+};
+
+/**
+ * キャラクター（Live2Dモデル）の選択
+ * 一覧から選んだモデルをプレビューし、決定するとユーザーごとに保存する
+ */
+export const CharacterSettingsPanel: React.FC = () => {
+  const { models, model: selectedModel, isLoading, selectModel } = useLive2DModelSelection();
+  const [previewModelId, setPreviewModelId] = useState<string | null>(null);
+  const previewModel = models.find((model) => model.id === previewModelId) ?? selectedModel;
+  const quality = useLive2DQuality();
+
+  return (
+    <div className="bg-white/75 backdrop-blur-sm shadow rounded-lg p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">キャラクター</h2>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">キャラクターを読み込み中...</p>
+      ) : (
+        <div className="flex flex-col sm:flex-row gap-4">
+          {/* プレビュー（ホーム・チャット等の表示とは別のキャンバス） */}
+          <div className="w-full sm:w-56 h-72 flex-shrink-0 rounded-lg border border-gray-200 overflow-hidden">
+            <Live2DCanvas
+              layout="contained"
+              screenType="home"
+              modelUrl={previewModel.modelUrl}
+              controllable={false}
+            />
+          </div>
+
+          <div className="flex-1 space-y-2">
+            {models.map((model) => {
+              const isPreviewing = model.id === previewModel.id;
+              const isSelected = model.id === selectedModel.id;
+              return (
+                <button
+                  key={model.id}
+                  type="button"
+                  onClick={() => setPreviewModelId(model.id)}
+                  aria-pressed={isPreviewing}
+                  className={`w-full text-left px-4 py-3 rounded-lg border transition-colors ${
+                    isPreviewing ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    {model.name}
+                    {isSelected && <CheckCircleIcon className="w-4 h-4 text-blue-500" aria-label="選択中" />}
+                  </span>
+                  {model.description && (
+                    <span className="block mt-0.5 text-xs text-gray-500">{model.description}</span>
+                  )}
+                </button>
+              );
+            })}
+
+            <button
+              type="button"
+              onClick={() => selectModel(previewModel.id)}
+              disabled={previewModel.id === selectedModel.id}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {previewModel.id === selectedModel.id ? '選択中' : 'このキャラクターにする'}
+            </button>
+
+            {quality && (
+              <p className="text-xs text-gray-500">
+                表示品質: {QUALITY_LABELS[quality]}（端末の性能に合わせて自動で調整します）
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
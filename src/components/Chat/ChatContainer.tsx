@@ -1,45 +1,97 @@
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { useChatStore } from '@/stores/chatStore';
-import { chatApi } from '@/services/chatApi';
+import React, { useEffect, useLayoutEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { useChatStore, ROOT_BRANCH_KEY } from '@/stores/chatStore';
+import { useAuth } from '@/contexts/AuthContextOptimized';
+import { chatApi, isChatAbortError, isChatNetworkError } from '@/services/chatApi';
+import { ChatMessage as ChatMessageType, OutboxEntry } from '@/types/chat';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
-import dynamic from 'next/dynamic';
+import { LiveEmotionIndicator } from './EmotionBadges';
+import Live2DStage from '@/components/Live2DStage';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@/utils/logger';
+import { getOutboxRetryDelay, isOutboxEntryFor, toPendingMessage } from '@/utils/outbox';
+import { useChatOutbox } from '@/lib/hooks/useChatOutbox';
+import { useVirtualList } from '@/lib/hooks/useVirtualList';
+import { useEmotionExpression } from '@/lib/hooks/useEmotionExpression';
+import { useAutoSpeak } from '@/lib/hooks/useAutoSpeak';
+import { useMicrophoneLipSync } from '@/lib/hooks/useMicrophoneLipSync';
 
-// Live2Dコンポーネントを動的インポート（SSR無効化）
-const Live2DComponent = dynamic(() => import('@/components/Live2DComponent'), {
-  ssr: false,
-  loading: () => (
-    <div className="fixed top-4 right-4 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg shadow">
-      Live2Dを準備中...
-    </div>
-  ),
-});
+const MESSAGES_PER_PAGE = 20;
+// 上端からこの距離以内までスクロールしたら過去のメッセージを読み込む
+const LOAD_OLDER_THRESHOLD_PX = 200;
 
 export const ChatContainer: React.FC = () => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<HTMLDivElement>(null);
   const {
     messages,
     sessionId,
     isLoading,
     error,
     settings,
+    updateSettings,
     addMessage,
+    updateMessage,
+    appendMessageContent,
+    removeMessage,
+    replyAlternatives,
+    addReplyAlternative,
+    selectReplyAlternative,
+    conversationBranches,
+    forkConversation,
+    selectBranch,
+    discardActiveBranch,
+    enqueueOutbox,
+    removeFromOutbox,
+    historyPage,
+    historyTotalPages,
+    prependMessages,
+    setHistoryPagination,
     setLoading,
     setError,
-    setMessages
+    setMessages,
+    playingMessageId
   } = useChatStore();
+  const { user } = useAuth();
+  const userId = user ? String(user.id) : null;
+  const { reactToReply } = useEmotionExpression();
+  const { enqueueAutoSpeak } = useAutoSpeak(!!settings.auto_speak);
+  // 応答の読み上げ中は読み上げのリップシンクを優先する
+  const mirrorMode = useMicrophoneLipSync({ paused: playingMessageId !== null });
 
   const [token, setToken] = useState<string | null>(null);
-  const [showLive2D, setShowLive2D] = useState(false);
   const hasAddedGreetingRef = useRef(false);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  const isStreaming = messages.some(m => m.status === 'streaming');
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const isLoadingOlderRef = useRef(false);
+  // 過去メッセージ追加前のスクロール位置（追加後に表示位置を維持するため）
+  const prependSnapshotRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // 最初のメッセージ表示で最下部に位置を合わせたか（合わせるまでは過去のページを読み込まない）
+  const hasInitialScrollRef = useRef(false);
+
+  const messageKeys = useMemo(() => messages.map(m => m.id), [messages]);
+  const { range, paddingTop, paddingBottom, measureElement } = useVirtualList({
+    keys: messageKeys,
+    scrollElementRef: scrollContainerRef,
+    listElementRef: messageListRef
+  });
 
   // セッションIDが変わったときにグリーティングフラグをリセット
   useEffect(() => {
     hasAddedGreetingRef.current = false;
+    hasInitialScrollRef.current = false;
+  }, [sessionId]);
+
+  // セッション切り替え・アンマウント時に受信中のストリームを中断
+  useEffect(() => {
+    return () => {
+      streamControllerRef.current?.abort();
+      streamControllerRef.current = null;
+    };
   }, [sessionId]);
 
   const scrollToBottom = () => {
@@ -63,10 +115,22 @@ export const ChatContainer: React.FC = () => {
     }
   }, [sessionId, addMessage]);
 
+  // 送信待ちキューに残っている未送信メッセージを表示に含める
+  const withPendingMessages = useCallback((loaded: ChatMessageType[]) => {
+    if (!userId) {
+      return loaded;
+    }
+    const pending = useChatStore.getState().outbox
+      .filter(e => isOutboxEntryFor(e, userId, sessionId) && !loaded.some(m => m.id === e.clientMessageId))
+      .map(toPendingMessage);
+    return [...loaded, ...pending];
+  }, [userId, sessionId]);
+
   const loadMessages = useCallback(async (retryCount = 0) => {
     try {
-      const response = await chatApi.getMessages(sessionId);
-      setMessages(response.messages);
+      const response = await chatApi.getMessages(sessionId, 1, MESSAGES_PER_PAGE);
+      setMessages(withPendingMessages(response.messages));
+      setHistoryPagination(1, response.total_pages);
       // メッセージが空の場合にグリーティングを追加
       if (response.messages.length === 0) {
         setTimeout(() => {
@@ -79,7 +143,7 @@ export const ChatContainer: React.FC = () => {
       if (axiosError?.response?.status === 401) {
         logger.log('Authentication error - messages will be loaded after login');
         // メッセージをクリア
-        setMessages([]);
+        setMessages(withPendingMessages([]));
         // 認証エラー後も、グリーティングを追加
         setTimeout(() => {
           addGreetingMessage();
@@ -93,16 +157,66 @@ export const ChatContainer: React.FC = () => {
       } else if (axiosError?.response?.status === 404) {
         // リトライ後も404の場合は、新規セッションとして扱う
         logger.log('No messages found for this session - starting fresh');
-        setMessages([]);
+        setMessages(withPendingMessages([]));
         // 新規セッションの場合もグリーティングを追加
         setTimeout(() => {
           addGreetingMessage();
         }, 100);
+      } else if (isChatNetworkError(error)) {
+        // オフライン時も未送信メッセージは表示しておく
+        logger.log('Network unavailable - showing pending messages only');
+        setMessages(withPendingMessages(useChatStore.getState().messages));
       } else {
         logger.error('Failed to load messages:', error);
       }
     }
-  }, [sessionId, setMessages, addGreetingMessage]);
+  }, [sessionId, setMessages, setHistoryPagination, addGreetingMessage, withPendingMessages]);
+
+  // 上方向スクロールで過去のページを読み込む（1ページ目が最新）
+  const loadOlderMessages = useCallback(async () => {
+    if (isLoadingOlderRef.current || historyPage >= historyTotalPages) {
+      return;
+    }
+
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const nextPage = historyPage + 1;
+      const response = await chatApi.getMessages(sessionId, nextPage, MESSAGES_PER_PAGE);
+      const container = scrollContainerRef.current;
+      if (container) {
+        prependSnapshotRef.current = {
+          scrollHeight: container.scrollHeight,
+          scrollTop: container.scrollTop
+        };
+      }
+      prependMessages(response.messages);
+      setHistoryPagination(nextPage, response.total_pages);
+    } catch (error) {
+      logger.error('Failed to load older messages:', error);
+    } finally {
+      isLoadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [sessionId, historyPage, historyTotalPages, prependMessages, setHistoryPagination]);
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (hasInitialScrollRef.current && container && container.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      loadOlderMessages();
+    }
+  };
+
+  // 過去メッセージを先頭に追加した後、見ていた位置を維持する
+  useLayoutEffect(() => {
+    const snapshot = prependSnapshotRef.current;
+    const container = scrollContainerRef.current;
+    if (!snapshot || !container) {
+      return;
+    }
+    prependSnapshotRef.current = null;
+    container.scrollTop = container.scrollHeight - snapshot.scrollHeight + snapshot.scrollTop;
+  }, [messages]);
 
   useEffect(() => {
     // トークンを取得
@@ -111,10 +225,6 @@ export const ChatContainer: React.FC = () => {
       setToken(storedToken);
       // chatApiにトークンを設定
       chatApi.setToken(storedToken);
-      // Live2Dを遅延ロード
-      const timer = setTimeout(() => {
-        setShowLive2D(true);
-      }, 500);
       // メッセージ読み込み（エラーハンドリング改善）
       loadMessages().catch((error) => {
         // 401と404エラー以外はコンソールにログ出力
@@ -124,23 +234,153 @@ export const ChatContainer: React.FC = () => {
         }
         // 新規セッションの可能性があるため、エラーは表示しない
       });
-      return () => clearTimeout(timer);
     }
   }, [sessionId, loadMessages]);
 
-  useEffect(() => {
+  // 末尾のメッセージが追加・更新されたときだけ最下部へ（過去メッセージの追加では動かさない）
+  const lastMessageKey = messages.length > 0
+    ? `${messages[messages.length - 1].id}:${messages[messages.length - 1].content.length}`
+    : '';
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!lastMessageKey || !container) {
+      return;
+    }
+    // 最初の表示は即座に最下部へ（スムーズスクロールだと途中で上端付近を通り、過去のページを読み込んでしまう）
+    if (!hasInitialScrollRef.current) {
+      container.scrollTop = container.scrollHeight;
+      hasInitialScrollRef.current = true;
+      return;
+    }
     scrollToBottom();
-  }, [messages]);
+  }, [lastMessageKey]);
+
+  // アシスタントの応答を受信してメッセージ一覧に反映する
+  // 確定した応答を返す（中断時は受信済みの部分応答、応答がない・失敗時はnull）
+  const requestAssistantReply = async (
+    content: string,
+    userMessageId: string,
+    options: { regenerate?: boolean; parentMessageId?: string; queueOnNetworkError?: boolean } = {}
+  ): Promise<ChatMessageType | null> => {
+    const { regenerate = false, parentMessageId, queueOnNetworkError = false } = options;
+    setLoading(true);
+    setError(null);
+
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    let currentUserMessageId = userMessageId;
+    const assistantMessageId = uuidv4();
+    let hasStreamedContent = false;
+
+    try {
+      const response = await chatApi.sendMessageStream(
+        {
+          content,
+          session_id: sessionId,
+          provider: settings.provider,
+          api_key: settings.api_key,
+          model: settings.model,
+          temperature: settings.temperature,
+          max_tokens: settings.max_tokens,
+          system_prompt: settings.system_prompt,
+          ...(regenerate && { regenerate: true }),
+          ...(parentMessageId && { parent_message_id: parentMessageId }),
+          ...(!regenerate && { client_message_id: userMessageId })
+        },
+        {
+          // 再生成時はユーザーメッセージを表示済みのまま使う
+          onUserMessage: regenerate ? undefined : (userMessage) => {
+            // 仮メッセージをサーバー側のメッセージで置き換え
+            updateMessage(currentUserMessageId, { ...userMessage, status: undefined });
+            currentUserMessageId = userMessage.id;
+          },
+          onDelta: (chunk) => {
+            if (!hasStreamedContent) {
+              hasStreamedContent = true;
+              addMessage({
+                id: assistantMessageId,
+                content: chunk,
+                role: 'assistant',
+                session_id: sessionId,
+                status: 'streaming',
+                created_at: new Date().toISOString(),
+                updated_at: new Date().toISOString()
+              });
+            } else {
+              appendMessageContent(assistantMessageId, chunk);
+            }
+          }
+        },
+        controller.signal
+      );
+
+      // 実際のメッセージで置き換え
+      const replacedIds = regenerate
+        ? [assistantMessageId, response.assistant_message.id]
+        : [
+            userMessageId,
+            currentUserMessageId,
+            assistantMessageId,
+            response.user_message.id,
+            response.assistant_message.id
+          ];
+      const remaining = useChatStore.getState().messages.filter(m => !replacedIds.includes(m.id));
+      setMessages(regenerate
+        ? [...remaining, response.assistant_message]
+        : [...remaining, response.user_message, response.assistant_message]);
+      removeFromOutbox(userMessageId);
+      reactToReply(response.assistant_message, response.user_message);
+      enqueueAutoSpeak(response.assistant_message);
+      return response.assistant_message;
+    } catch (error) {
+      if (queueOnNetworkError && userId && isChatNetworkError(error)) {
+        // 接続できなかった場合は入力内容を送信待ちとして残し、後で再送する
+        updateMessage(currentUserMessageId, { id: userMessageId, status: 'pending' });
+        removeMessage(assistantMessageId);
+        enqueueOutbox({
+          clientMessageId: userMessageId,
+          userId,
+          sessionId,
+          content,
+          createdAt: new Date().toISOString(),
+          attempts: 1,
+          nextAttemptAt: Date.now() + getOutboxRetryDelay(1)
+        });
+        return null;
+      }
+
+      removeFromOutbox(userMessageId);
+      if (isChatAbortError(error)) {
+        // キャンセル時は受信済みの内容を残して確定する
+        if (!hasStreamedContent) {
+          return null;
+        }
+        updateMessage(assistantMessageId, { status: undefined });
+        return useChatStore.getState().messages.find(m => m.id === assistantMessageId) ?? null;
+      }
+
+      const axiosError = error as { response?: { data?: { error?: string } } };
+      setError(axiosError.response?.data?.error || 'メッセージの送信に失敗しました');
+      // エラー時は仮メッセージを削除
+      if (!regenerate) {
+        removeMessage(currentUserMessageId);
+      }
+      removeMessage(assistantMessageId);
+      return null;
+    } finally {
+      if (streamControllerRef.current === controller) {
+        streamControllerRef.current = null;
+      }
+      setLoading(false);
+    }
+  };
 
   const handleSendMessage = async (content: string) => {
-    if (!token) {
+    if (!token || !userId) {
       setError('ログインが必要です');
       return;
     }
 
-    setLoading(true);
-    setError(null);
-
     // 仮のユーザーメッセージを追加
     const tempUserMessage = {
       id: uuidv4(),
@@ -150,51 +390,175 @@ export const ChatContainer: React.FC = () => {
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     };
-    addMessage(tempUserMessage);
 
-    try {
-      const response = await chatApi.sendMessage({
+    // オフライン時は送信せずに送信待ちキューへ
+    if (!navigator.onLine) {
+      addMessage({ ...tempUserMessage, status: 'pending' });
+      enqueueOutbox({
+        clientMessageId: tempUserMessage.id,
+        userId,
+        sessionId,
         content,
-        session_id: sessionId,
-        provider: settings.provider,
-        api_key: settings.api_key,
-        model: settings.model,
-        temperature: settings.temperature,
-        max_tokens: settings.max_tokens,
-        system_prompt: settings.system_prompt
+        createdAt: tempUserMessage.created_at,
+        attempts: 0,
+        nextAttemptAt: 0
       });
+      return;
+    }
 
-      // 実際のメッセージで置き換え
-      setMessages([
-        ...messages.filter(m => m.id !== tempUserMessage.id),
-        response.user_message,
-        response.assistant_message
-      ]);
-    } catch (error) {
-      const axiosError = error as { response?: { data?: { error?: string } } };
-      setError(axiosError.response?.data?.error || 'メッセージの送信に失敗しました');
-      // エラー時は仮メッセージを削除
-      setMessages(messages.filter(m => m.id !== tempUserMessage.id));
-    } finally {
-      setLoading(false);
+    addMessage(tempUserMessage);
+
+    await requestAssistantReply(content, tempUserMessage.id, { queueOnNetworkError: true });
+  };
+
+  // 送信待ちメッセージの再送（useChatOutboxから呼ばれる）
+  const resendOutboxEntry = async (entry: OutboxEntry) => {
+    if (!useChatStore.getState().messages.some(m => m.id === entry.clientMessageId)) {
+      addMessage(toPendingMessage(entry));
+    }
+    await requestAssistantReply(entry.content, entry.clientMessageId, { queueOnNetworkError: true });
+  };
+
+  useChatOutbox(userId, sessionId, resendOutboxEntry, !!token);
+
+  // 応答生成を中断
+  const handleStop = () => {
+    streamControllerRef.current?.abort();
+  };
+
+  // 直前のユーザー発言に対する応答を作り直し、元の応答は候補として残す
+  const handleRegenerate = async (assistantMessage: ChatMessageType) => {
+    if (!token || isLoading) {
+      return;
+    }
+
+    const currentMessages = useChatStore.getState().messages;
+    const index = currentMessages.findIndex(m => m.id === assistantMessage.id);
+    const userMessage = currentMessages[index - 1];
+    if (index < 1 || userMessage.role !== 'user') {
+      return;
+    }
+
+    if (!replyAlternatives[userMessage.id]) {
+      addReplyAlternative(userMessage.id, assistantMessage);
+    }
+    removeMessage(assistantMessage.id);
+
+    const reply = await requestAssistantReply(userMessage.content, userMessage.id, { regenerate: true });
+    if (reply) {
+      addReplyAlternative(userMessage.id, reply);
+    } else {
+      // 再生成できなかった場合は元の応答に戻す
+      addMessage(assistantMessage);
+    }
+  };
+
+  // ユーザーメッセージを編集して再送し、元の続きは分岐として残す
+  const handleEditMessage = async (message: ChatMessageType, content: string) => {
+    if (!token || isLoading) {
+      return;
+    }
+
+    const currentMessages = useChatStore.getState().messages;
+    const index = currentMessages.findIndex(m => m.id === message.id);
+    if (index === -1) {
+      return;
+    }
+    const parentMessage = index > 0 ? currentMessages[index - 1] : undefined;
+    const forkKey = parentMessage ? parentMessage.id : ROOT_BRANCH_KEY;
+
+    forkConversation(forkKey);
+
+    const tempUserMessage = {
+      id: uuidv4(),
+      content,
+      role: 'user' as const,
+      session_id: sessionId,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+    addMessage(tempUserMessage);
+
+    await requestAssistantReply(content, tempUserMessage.id, { parentMessageId: parentMessage?.id });
+
+    // 送信に失敗して分岐が空のままなら元の会話に戻す
+    if (useChatStore.getState().messages.length === index) {
+      discardActiveBranch(forkKey);
     }
   };
 
+  // 最新の応答のみ再生成・候補切り替えを許可する
+  const lastMessage = messages[messages.length - 1];
+  const lastUserMessage = messages[messages.length - 2];
+  const canRegenerate = !isLoading && !!token &&
+    lastMessage?.role === 'assistant' && lastUserMessage?.role === 'user';
+  const latestAlternatives = canRegenerate ? replyAlternatives[lastUserMessage.id] : undefined;
+
+  // 直近のユーザー発言から検出された感情
+  const latestUserEmotions = useMemo(() => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i];
+      if (message.role === 'user' && message.emotions && message.emotions.length > 0) {
+        return message.emotions;
+      }
+    }
+    return [];
+  }, [messages]);
+
   return (
     <>
       {/* Live2D Character - 背景として表示（チャット画面用モデル） */}
-      {showLive2D && <Live2DComponent screenType="chat" />}
+      <Live2DStage screenType="chat" />
 
       {/* チャット画面 - ChatGPT風 */}
       <div className="flex flex-col h-full relative z-10">
         {/* メッセージエリア */}
-        <div className="flex-1 overflow-y-auto pb-40">
+        <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto pb-40">
+          <LiveEmotionIndicator emotions={latestUserEmotions} />
           <div className="w-full py-6 px-6 sm:px-8 md:px-12 lg:px-16">
-            {messages.map((message) => (
-              <ChatMessage key={message.id} message={message} />
-            ))}
+            {isLoadingOlder && (
+              <div className="flex justify-center mb-4">
+                <div className="w-5 h-5 border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
+
+            {/* 表示範囲外のメッセージは余白に置き換えて描画しない */}
+            <div ref={messageListRef}>
+              <div style={{ height: paddingTop }} />
+              {messages.slice(range.start, range.end).map((message, offset) => {
+                const index = range.start + offset;
+                const forkKey = index === 0 ? ROOT_BRANCH_KEY : messages[index - 1].id;
+                const branchInfo = conversationBranches[forkKey];
+                const isLatestReply = canRegenerate && message.id === lastMessage.id;
+
+                return (
+                  <div key={message.id} ref={measureElement} data-virtual-key={message.id} className="flow-root">
+                    <ChatMessage
+                      message={message}
+                      onEdit={message.role === 'user' && !message.status && token && !isLoading
+                        ? (content) => handleEditMessage(message, content)
+                        : undefined}
+                      branches={branchInfo && {
+                        index: branchInfo.activeIndex,
+                        total: branchInfo.branches.length
+                      }}
+                      onSelectBranch={isLoading ? undefined : (i) => selectBranch(forkKey, i)}
+                      onRegenerate={isLatestReply ? () => handleRegenerate(message) : undefined}
+                      alternatives={isLatestReply && latestAlternatives ? {
+                        index: latestAlternatives.activeIndex,
+                        total: latestAlternatives.replies.length
+                      } : undefined}
+                      onSelectAlternative={isLatestReply
+                        ? (i) => selectReplyAlternative(lastUserMessage.id, i)
+                        : undefined}
+                    />
+                  </div>
+                );
+              })}
+              <div style={{ height: paddingBottom }} />
+            </div>
             
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex gap-3 mb-6">
                 <div className="flex-shrink-0">
                   <div className="w-8 h-8 bg-gradient-to-br from-green-400 to-blue-500 rounded-full flex items-center justify-center">
@@ -227,7 +591,22 @@ export const ChatContainer: React.FC = () => {
         </div>
         
         {/* 入力エリア - ボトムナビの上に固定 */}
-        <ChatInput onSend={handleSendMessage} disabled={isLoading || !token} />
+        <ChatInput
+          onSend={handleSendMessage}
+          disabled={isLoading || !token}
+          isGenerating={isLoading}
+          onStop={handleStop}
+          voiceInputMode={settings.voice_input_mode}
+          onVoiceInputModeChange={(mode) => updateSettings({ voice_input_mode: mode })}
+          autoSpeak={!!settings.auto_speak}
+          onAutoSpeakChange={(enabled) => updateSettings({ auto_speak: enabled })}
+          mirrorMode={mirrorMode.isSupported && token ? {
+            active: mirrorMode.isActive || mirrorMode.isStarting,
+            latencyMs: mirrorMode.latencyMs,
+            error: mirrorMode.error
+          } : undefined}
+          onMirrorModeToggle={mirrorMode.toggle}
+        />
       </div>
     </>
   );
@@ -1,21 +1,75 @@
 'use client';
 
-import React, { useState, KeyboardEvent, useRef, useEffect } from 'react';
-import { PaperAirplaneIcon } from '@heroicons/react/24/solid';
+import React, { useState, KeyboardEvent, useRef, useEffect, useCallback } from 'react';
+import { PaperAirplaneIcon, StopIcon, MicrophoneIcon, SpeakerWaveIcon, FaceSmileIcon } from '@heroicons/react/24/solid';
+import { useSpeechInput } from '@/lib/hooks/useSpeechInput';
+import { VoiceInputMode } from '@/types/chat';
 
 interface ChatInputProps {
   onSend: (message: string) => void;
   disabled?: boolean;
   placeholder?: string;
+  isGenerating?: boolean; // 応答生成中は送信ボタンの代わりに停止ボタンを表示
+  onStop?: () => void;
+  voiceInputMode?: VoiceInputMode;
+  onVoiceInputModeChange?: (mode: VoiceInputMode) => void;
+  autoSpeak?: boolean; // 新しい応答の自動読み上げ
+  onAutoSpeakChange?: (enabled: boolean) => void;
+  mirrorMode?: MirrorModeState; // マイク入力でキャラクターの口を動かすミラーモード
+  onMirrorModeToggle?: () => void;
 }
 
+interface MirrorModeState {
+  active: boolean;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+// 入力済みのテキストに音声入力の結果を続ける
+const joinTranscript = (base: string, transcript: string): string =>
+  base && transcript ? `${base}${/\s$/.test(base) ? '' : ' '}${transcript}` : base + transcript;
+
 export const ChatInput: React.FC<ChatInputProps> = ({ 
   onSend, 
   disabled = false,
-  placeholder = "メッセージを入力..."
+  placeholder = "メッセージを入力...",
+  isGenerating = false,
+  onStop,
+  voiceInputMode = 'hands-free',
+  onVoiceInputModeChange,
+  autoSpeak = false,
+  onAutoSpeakChange,
+  mirrorMode,
+  onMirrorModeToggle
 }) => {
   const [message, setMessage] = useState('');
+  const [voiceError, setVoiceError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // 録音開始時点の入力内容（暫定結果はこの後ろに表示する）
+  const voiceBaseTextRef = useRef('');
+
+  const handleInterim = useCallback((text: string) => {
+    setMessage(joinTranscript(voiceBaseTextRef.current, text));
+  }, []);
+
+  const handleFinal = useCallback((text: string) => {
+    setMessage(joinTranscript(voiceBaseTextRef.current, text.trim()));
+    textareaRef.current?.focus();
+  }, []);
+
+  const {
+    status: voiceStatus,
+    isSpeaking,
+    isSupported: isVoiceSupported,
+    start: startVoiceInput,
+    stop: stopVoiceInput
+  } = useSpeechInput({
+    mode: voiceInputMode,
+    onInterim: handleInterim,
+    onFinal: handleFinal,
+    onError: setVoiceError
+  });
+  const isVoiceActive = voiceStatus !== 'idle';
 
   useEffect(() => {
     if (textareaRef.current) {
@@ -24,8 +78,44 @@ export const ChatInput: React.FC<ChatInputProps> = ({
     }
   }, [message]);
 
+  const handleStartVoice = () => {
+    if (disabled || isVoiceActive) {
+      return;
+    }
+    setVoiceError(null);
+    voiceBaseTextRef.current = message;
+    startVoiceInput();
+  };
+
+  // 押して話す: ボタンを押している間だけ録音 / ハンズフリー: クリックで開始・停止
+  const voiceButtonHandlers = voiceInputMode === 'push-to-talk'
+    ? {
+        onPointerDown: handleStartVoice,
+        onPointerUp: stopVoiceInput,
+        onPointerLeave: stopVoiceInput,
+        onKeyDown: (e: KeyboardEvent<HTMLButtonElement>) => {
+          if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) {
+            e.preventDefault();
+            handleStartVoice();
+          }
+        },
+        onKeyUp: (e: KeyboardEvent<HTMLButtonElement>) => {
+          if (e.key === ' ' || e.key === 'Enter') {
+            stopVoiceInput();
+          }
+        }
+      }
+    : {
+        onClick: () => (isVoiceActive ? stopVoiceInput() : handleStartVoice())
+      };
+
+  const voicePlaceholder =
+    voiceStatus === 'transcribing' ? '文字起こし中...' :
+    voiceStatus !== 'idle' ? (isSpeaking ? '聞き取り中...' : 'お話しください...') :
+    placeholder;
+
   const handleSend = () => {
-    if (message.trim() && !disabled) {
+    if (message.trim() && !disabled && !isVoiceActive) {
       onSend(message);
       setMessage('');
     }
@@ -49,36 +139,121 @@ export const ChatInput: React.FC<ChatInputProps> = ({
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder={placeholder}
+              placeholder={voicePlaceholder}
               disabled={disabled}
-              className="w-full resize-none rounded-lg border border-gray-300 bg-white/70 backdrop-blur-sm px-4 py-3 pr-12 focus:outline-none focus:border-gray-500 text-gray-900 placeholder-gray-500 text-[15px] leading-6 max-h-[200px] overflow-y-auto shadow-md"
+              readOnly={isVoiceActive}
+              className={`w-full resize-none rounded-lg border border-gray-300 bg-white/70 backdrop-blur-sm px-4 py-3 ${isVoiceSupported ? 'pr-20' : 'pr-12'} focus:outline-none focus:border-gray-500 text-gray-900 placeholder-gray-500 text-[15px] leading-6 max-h-[200px] overflow-y-auto shadow-md`}
               rows={1}
               style={{ 
                 minHeight: '48px'
               }}
             />
-            
-            {/* 送信ボタン */}
-            <button
-              onClick={handleSend}
-              disabled={disabled || !message.trim()}
-              className={`absolute right-2 bottom-2 p-2 rounded-md transition-all ${
-                message.trim() 
-                  ? 'text-gray-700 hover:bg-gray-100' 
-                  : 'text-gray-400 cursor-not-allowed'
-              }`}
-              aria-label="送信"
-            >
-              <PaperAirplaneIcon className="w-5 h-5 rotate-0" />
-            </button>
+
+            {isVoiceSupported && (
+              /* 音声入力ボタン */
+              <button
+                type="button"
+                {...voiceButtonHandlers}
+                disabled={disabled || voiceStatus === 'transcribing'}
+                className={`absolute right-11 bottom-2 p-2 rounded-md transition-all touch-none select-none ${
+                  voiceStatus === 'recording'
+                    ? `text-red-500 bg-red-50 ${isSpeaking ? 'animate-pulse' : ''}`
+                    : voiceStatus === 'idle'
+                      ? 'text-gray-700 hover:bg-gray-100'
+                      : 'text-gray-400'
+                }`}
+                aria-label={voiceInputMode === 'push-to-talk' ? '押している間、音声入力' : isVoiceActive ? '音声入力を終了' : '音声入力'}
+                aria-pressed={isVoiceActive}
+                title={voiceInputMode === 'push-to-talk' ? '押している間、音声入力' : isVoiceActive ? '音声入力を終了' : '音声入力'}
+              >
+                <MicrophoneIcon className="w-5 h-5" />
+              </button>
+            )}
+
+            {isGenerating && onStop ? (
+              /* 停止ボタン */
+              <button
+                onClick={onStop}
+                className="absolute right-2 bottom-2 p-2 rounded-md transition-all text-gray-700 hover:bg-gray-100"
+                aria-label="生成を停止"
+                title="生成を停止"
+              >
+                <StopIcon className="w-5 h-5" />
+              </button>
+            ) : (
+              /* 送信ボタン */
+              <button
+                onClick={handleSend}
+                disabled={disabled || !message.trim() || isVoiceActive}
+                className={`absolute right-2 bottom-2 p-2 rounded-md transition-all ${
+                  message.trim() 
+                    ? 'text-gray-700 hover:bg-gray-100' 
+                    : 'text-gray-400 cursor-not-allowed'
+                }`}
+                aria-label="送信"
+              >
+                <PaperAirplaneIcon className="w-5 h-5 rotate-0" />
+              </button>
+            )}
             </div>
           </div>
           
           {/* 注意書き（ChatGPT風） */}
           <div className="text-xs text-gray-600 text-center mt-2">
-          <span className="bg-white/60 backdrop-blur-sm rounded-lg px-3 py-1 inline-block">
-            AIアシスタントは間違える可能性があります。重要な情報は確認してください。
-          </span>
+          {voiceError || mirrorMode?.error ? (
+            <span className="bg-white/60 backdrop-blur-sm rounded-lg px-3 py-1 inline-block text-red-600">
+              {voiceError || mirrorMode?.error}
+            </span>
+          ) : (
+            <span className="bg-white/60 backdrop-blur-sm rounded-lg px-3 py-1 inline-block">
+              AIアシスタントは間違える可能性があります。重要な情報は確認してください。
+            </span>
+          )}
+          {isVoiceSupported && onVoiceInputModeChange && (
+            /* 音声入力モードの切り替え */
+            <button
+              type="button"
+              onClick={() => onVoiceInputModeChange(voiceInputMode === 'push-to-talk' ? 'hands-free' : 'push-to-talk')}
+              disabled={isVoiceActive}
+              className="ml-2 bg-white/60 backdrop-blur-sm rounded-lg px-2 py-1 inline-block hover:bg-white/80 disabled:opacity-50"
+              title="音声入力モードを切り替え"
+            >
+              {voiceInputMode === 'push-to-talk' ? '押して話す' : 'ハンズフリー'}
+            </button>
+          )}
+          {onAutoSpeakChange && (
+            /* 自動読み上げの切り替え */
+            <button
+              type="button"
+              onClick={() => onAutoSpeakChange(!autoSpeak)}
+              aria-pressed={autoSpeak}
+              className={`ml-2 backdrop-blur-sm rounded-lg px-2 py-1 inline-flex items-center gap-1 align-top ${
+                autoSpeak ? 'bg-blue-500/80 text-white hover:bg-blue-500' : 'bg-white/60 hover:bg-white/80'
+              }`}
+              title="新しい応答を自動で読み上げる"
+            >
+              <SpeakerWaveIcon className="w-3 h-3" />
+              自動読み上げ
+            </button>
+          )}
+          {mirrorMode && onMirrorModeToggle && (
+            /* ミラーモードの切り替え（遅延はWorkletの処理時間） */
+            <button
+              type="button"
+              onClick={onMirrorModeToggle}
+              aria-pressed={mirrorMode.active}
+              className={`ml-2 backdrop-blur-sm rounded-lg px-2 py-1 inline-flex items-center gap-1 align-top ${
+                mirrorMode.active ? 'bg-blue-500/80 text-white hover:bg-blue-500' : 'bg-white/60 hover:bg-white/80'
+              }`}
+              title="マイクの声に合わせてキャラクターの口を動かす"
+            >
+              <FaceSmileIcon className="w-3 h-3" />
+              ミラー
+              {mirrorMode.active && mirrorMode.latencyMs !== null && (
+                <span className="tabular-nums">{mirrorMode.latencyMs.toFixed(1)}ms</span>
+              )}
+            </button>
+          )}
           </div>
         </div>
       </div>
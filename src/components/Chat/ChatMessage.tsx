@@ -2,26 +2,89 @@
 
 import React, { useMemo, useState } from 'react';
 import { ChatMessage as ChatMessageType } from '@/types/chat';
-import { UserCircleIcon, SpeakerWaveIcon, StopIcon } from '@heroicons/react/24/solid';
+import {
+  UserCircleIcon,
+  SpeakerWaveIcon,
+  StopIcon,
+  ArrowPathIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  PencilSquareIcon,
+  ClockIcon
+} from '@heroicons/react/24/solid';
 import DOMPurify from 'dompurify';
 import { VoiceService } from '@/services/voiceApi';
 import { useLipSyncHandler } from '@/lib/hooks/useLipSyncHandler';
 import { logger } from '@/utils/logger';
 import { useChatStore } from '@/stores/chatStore';
+import { useVoiceSettings } from '@/lib/hooks/useVoiceSettings';
+import { EmotionBadges } from './EmotionBadges';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  onRegenerate?: () => void; // 最新の応答にのみ渡される
+  alternatives?: { index: number; total: number }; // 応答候補の表示位置
+  onSelectAlternative?: (index: number) => void;
+  onEdit?: (content: string) => void; // 編集して再送（ユーザーメッセージのみ）
+  branches?: { index: number; total: number }; // 会話分岐の表示位置
+  onSelectBranch?: (index: number) => void;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+interface VariantNavigatorProps {
+  index: number;
+  total: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+  label: string;
+}
+
+// 「< 2/3 >」形式の切り替えボタン
+const VariantNavigator: React.FC<VariantNavigatorProps> = ({ index, total, onSelect, disabled = false, label }) => (
+  <div className="flex items-center gap-0.5 text-xs text-gray-500">
+    <button
+      onClick={() => onSelect(index - 1)}
+      disabled={disabled || index === 0}
+      className="p-0.5 rounded hover:bg-gray-200/70 disabled:opacity-40 disabled:cursor-not-allowed"
+      aria-label={`前の${label}`}
+    >
+      <ChevronLeftIcon className="w-3.5 h-3.5" />
+    </button>
+    <span className="tabular-nums">
+      {index + 1}/{total}
+    </span>
+    <button
+      onClick={() => onSelect(index + 1)}
+      disabled={disabled || index === total - 1}
+      className="p-0.5 rounded hover:bg-gray-200/70 disabled:opacity-40 disabled:cursor-not-allowed"
+      aria-label={`次の${label}`}
+    >
+      <ChevronRightIcon className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+export const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  onRegenerate,
+  alternatives,
+  onSelectAlternative,
+  onEdit,
+  branches,
+  onSelectBranch
+}) => {
   const isUser = message.role === 'user';
-  const [isPlaying, setIsPlaying] = useState(false);
+  const isStreaming = message.status === 'streaming';
+  const isPending = message.status === 'pending';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { startLipSync, stopLipSync } = useLipSyncHandler();
 
-  // グローバルな音声再生状態を取得
+  // グローバルな音声再生状態を取得（自動読み上げによる再生も含む）
   const { playingMessageId, setPlayingMessageId } = useChatStore();
+  const { voiceSettings } = useVoiceSettings();
   const isOtherMessagePlaying = playingMessageId !== null && playingMessageId !== message.id;
+  const isPlaying = playingMessageId === message.id && !isLoading;
 
   // XSS対策：メッセージ内容をサニタイズ
   const sanitizedContent = useMemo(() => {
@@ -33,6 +96,20 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
     });
   }, [message.content]);
 
+  const handleEditStart = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const handleEditSubmit = () => {
+    const content = draft.trim();
+    setIsEditing(false);
+    // 変更がなければ再送しない
+    if (onEdit && content && content !== message.content.trim()) {
+      onEdit(content);
+    }
+  };
+
   // 音声読み上げ処理
   const handleVoicePlay = async () => {
     // 連打対策：ローディング中または他のメッセージが再生中は何もしない
@@ -44,7 +121,6 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
       // 再生中の場合は停止
       VoiceService.stopVoice();
       stopLipSync();  // リップシンクも停止
-      setIsPlaying(false);
       setPlayingMessageId(null);  // グローバル状態をクリア
     } else {
       // 再生開始
@@ -52,32 +128,30 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
       setPlayingMessageId(message.id);  // グローバル状態を設定
       try {
         await VoiceService.playVoice(sanitizedContent, {
+          messageId: message.id,
+          voice: voiceSettings,
           onEnded: () => {
             // 音声再生終了時のコールバック
             stopLipSync();  // リップシンクを停止
-            setIsPlaying(false);
             setPlayingMessageId(null);  // グローバル状態をクリア
           },
           onError: (error) => {
             // エラー時のコールバック
             logger.error('音声再生エラー:', error);
             stopLipSync();  // リップシンクを停止
-            setIsPlaying(false);
             setPlayingMessageId(null);  // グローバル状態をクリア
             alert('音声再生に失敗しました');
           },
-          onLipSyncReady: (audioUrl) => {
+          onLipSyncReady: (audioUrl, alignment) => {
             // リップシンクを開始
-            startLipSync(audioUrl).catch(error => {
+            startLipSync(audioUrl, voiceSettings.volume, alignment).catch(error => {
               logger.error('リップシンク開始エラー:', error);
             });
           }
         });
-        setIsPlaying(true);
       } catch (error) {
         logger.error('音声再生エラー:', error);
         alert('音声再生に失敗しました');
-        setIsPlaying(false);
         setPlayingMessageId(null);  // グローバル状態をクリア
       } finally {
         setIsLoading(false);
@@ -104,16 +178,57 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
       <div className={`flex-1 ${isUser ? 'text-right' : ''}`}>
         <div className={`inline-block ${isUser ? 'text-left' : ''}`} 
              style={{ maxWidth: 'calc(100% - 48px)' }}>
-          <div className={`rounded-lg px-4 py-2 ${
-            isUser
-              ? 'bg-gray-100/70 backdrop-blur-sm text-gray-900'
-              : 'bg-white/70 backdrop-blur-sm text-gray-900 shadow-sm'
-          }`}>
-            <p className="text-[15px] leading-relaxed whitespace-pre-wrap break-all"
-               style={{ maxWidth: '28ch', wordBreak: 'break-all', overflowWrap: 'anywhere' }}>
-              {sanitizedContent}
-            </p>
-          </div>
+          {isEditing ? (
+            /* 編集フォーム */
+            <div className="rounded-lg px-3 py-2 bg-white/80 backdrop-blur-sm shadow-sm">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                autoFocus
+                rows={3}
+                className="w-full min-w-[16rem] resize-none rounded-md border border-gray-300 bg-white px-3 py-2 text-[15px] leading-relaxed text-gray-900 focus:outline-none focus:border-gray-500"
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1 text-sm rounded-md text-gray-700 hover:bg-gray-100"
+                >
+                  キャンセル
+                </button>
+                <button
+                  onClick={handleEditSubmit}
+                  disabled={!draft.trim()}
+                  className="px-3 py-1 text-sm rounded-md bg-gray-800 text-white hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  送信
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className={`rounded-lg px-4 py-2 ${isPending ? 'opacity-60' : ''} ${
+              isUser
+                ? 'bg-gray-100/70 backdrop-blur-sm text-gray-900'
+                : 'bg-white/70 backdrop-blur-sm text-gray-900 shadow-sm'
+            }`}>
+              <p className="text-[15px] leading-relaxed whitespace-pre-wrap break-all"
+                 style={{ maxWidth: '28ch', wordBreak: 'break-all', overflowWrap: 'anywhere' }}>
+                {sanitizedContent}
+                {isStreaming && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-500 animate-pulse" />
+                )}
+              </p>
+            </div>
+          )}
+
+          {/* 感情チップ */}
+          {!isEditing && message.emotions && message.emotions.length > 0 && (
+            <EmotionBadges emotions={message.emotions} align={isUser ? 'right' : 'left'} />
+          )}
           
           {/* タイムスタンプとボイスボタン */}
           <div className={`flex items-center gap-2 mt-1 ${isUser ? 'justify-end' : ''}`}>
@@ -124,8 +239,16 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
               })}
             </div>
 
-            {/* AIメッセージにのみボイスボタンを表示 */}
-            {!isUser && message.role === 'assistant' && (
+            {/* 未送信（送信待ち）表示 */}
+            {isPending && (
+              <div className="flex items-center gap-0.5 text-xs text-amber-600" title="オンラインに戻ると自動で送信します">
+                <ClockIcon className="w-3.5 h-3.5" />
+                <span>送信待ち</span>
+              </div>
+            )}
+
+            {/* AIメッセージにのみボイスボタンを表示（受信中は非表示） */}
+            {!isUser && message.role === 'assistant' && !isStreaming && (
               <button
                 onClick={handleVoicePlay}
                 disabled={isLoading || isOtherMessagePlaying}
@@ -147,6 +270,53 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
                 )}
               </button>
             )}
+
+            {/* 会話分岐の切り替え */}
+            {branches && branches.total > 1 && onSelectBranch && (
+              <VariantNavigator
+                index={branches.index}
+                total={branches.total}
+                onSelect={onSelectBranch}
+                disabled={playingMessageId !== null}
+                label="分岐"
+              />
+            )}
+
+            {/* 応答候補の切り替え（1/3, 2/3 ...） */}
+            {alternatives && alternatives.total > 1 && onSelectAlternative && (
+              <VariantNavigator
+                index={alternatives.index}
+                total={alternatives.total}
+                onSelect={onSelectAlternative}
+                disabled={playingMessageId !== null}
+                label="応答"
+              />
+            )}
+
+            {/* ユーザーメッセージの編集ボタン */}
+            {isUser && onEdit && !isEditing && (
+              <button
+                onClick={handleEditStart}
+                className="p-1 rounded-full text-gray-500 hover:bg-gray-200/70 transition-all duration-200"
+                title="編集して再送信"
+                aria-label="編集して再送信"
+              >
+                <PencilSquareIcon className="w-4 h-4" />
+              </button>
+            )}
+
+            {/* 最新の応答の再生成ボタン */}
+            {onRegenerate && !isStreaming && (
+              <button
+                onClick={onRegenerate}
+                disabled={playingMessageId !== null}
+                className="p-1 rounded-full text-gray-500 hover:bg-gray-200/70 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="応答を再生成"
+                aria-label="応答を再生成"
+              >
+                <ArrowPathIcon className="w-4 h-4" />
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,83 @@
+'use client';
+
+import React from 'react';
+import { Emotion } from '@/types/chat';
+import { getEmotionColor, normalizeEmotionIntensity } from '@/utils/emotionPalette';
+
+interface EmotionBadgesProps {
+  emotions: Emotion[];
+  maxCount?: number; // 強度の高い順に表示する最大件数
+  align?: 'left' | 'right';
+}
+
+// 強度の高い順に並べる
+const sortByIntensity = (emotions: Emotion[]): Emotion[] =>
+  [...emotions].sort((a, b) => b.intensity - a.intensity);
+
+/**
+ * メッセージごとの感情チップ（強度バー付き）
+ */
+export const EmotionBadges: React.FC<EmotionBadgesProps> = ({ emotions, maxCount = 3, align = 'left' }) => {
+  if (emotions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${align === 'right' ? 'justify-end' : ''}`}>
+      {sortByIntensity(emotions).slice(0, maxCount).map((emotion) => {
+        const color = getEmotionColor(emotion.name);
+        const intensity = normalizeEmotionIntensity(emotion.intensity);
+
+        return (
+          <span
+            key={emotion.name}
+            className={`inline-flex flex-col px-2 pt-0.5 pb-1 rounded-full text-xs font-medium ${color.translucentChip}`}
+            title={`強度: ${emotion.intensity}${emotion.frequency ? `, 頻度: ${emotion.frequency}` : ''}`}
+          >
+            <span>{emotion.label}</span>
+            {/* 強度バー */}
+            <span className="block h-0.5 w-full rounded-full bg-white/60 overflow-hidden">
+              <span
+                className={`block h-full rounded-full ${color.bar}`}
+                style={{ width: `${Math.round(intensity * 100)}%` }}
+              />
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+interface LiveEmotionIndicatorProps {
+  emotions: Emotion[];
+}
+
+/**
+ * 会話中の最新の感情をチャット画面上部に表示
+ */
+export const LiveEmotionIndicator: React.FC<LiveEmotionIndicatorProps> = ({ emotions }) => {
+  if (emotions.length === 0) {
+    return null;
+  }
+
+  const [primary] = sortByIntensity(emotions);
+  const color = getEmotionColor(primary.name);
+
+  return (
+    <div className="sticky top-2 z-20 flex justify-center pointer-events-none">
+      <div className="flex items-center gap-2 bg-white/70 backdrop-blur-sm rounded-full px-3 py-1 shadow-sm text-xs text-gray-600">
+        <span>いまの気持ち</span>
+        <span className={`px-2 py-0.5 rounded-full font-medium transition-colors duration-500 ${color.chip}`}>
+          {primary.label}
+        </span>
+        <span className="w-12 h-1 rounded-full bg-gray-200 overflow-hidden">
+          <span
+            className={`block h-full rounded-full transition-all duration-500 ${color.bar}`}
+            style={{ width: `${Math.round(normalizeEmotionIntensity(primary.intensity) * 100)}%` }}
+          />
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ import { chatApi } from '@/services/chatApi';
 import { useRouter } from 'next/navigation';
 import { useChatStore } from '@/stores/chatStore';
 import { logger } from '@/utils/logger';
+import { getEmotionColor } from '@/utils/emotionPalette';
 import {
   ChatBubbleLeftRightIcon,
   ClockIcon,
@@ -212,39 +213,6 @@ export const HistoryList: React.FC = () => {
     setSearchParams(params);
   };
 
-  // 感情に応じた色を返す関数
-  const getEmotionColor = (emotionName: string): string => {
-    const colorMap: Record<string, string> = {
-      // ポジティブな感情
-      joy: 'bg-yellow-100/70 text-yellow-800',
-      love: 'bg-pink-100/70 text-pink-800',
-      trust: 'bg-green-100/70 text-green-800',
-      gratitude: 'bg-purple-100/70 text-purple-800',
-      hope: 'bg-blue-100/70 text-blue-800',
-      relief: 'bg-teal-100/70 text-teal-800',
-      pride: 'bg-indigo-100/70 text-indigo-800',
-      contentment: 'bg-lime-100/70 text-lime-800',
-      anticipation: 'bg-cyan-100/70 text-cyan-800',
-
-      // ネガティブな感情
-      sadness: 'bg-gray-100/70 text-gray-800',
-      anger: 'bg-red-100/70 text-red-800',
-      fear: 'bg-orange-100/70 text-orange-800',
-      anxiety: 'bg-amber-100/70 text-amber-800',
-      frustration: 'bg-rose-100/70 text-rose-800',
-      guilt: 'bg-stone-100/70 text-stone-800',
-      shame: 'bg-zinc-100/70 text-zinc-800',
-      disappointment: 'bg-slate-100/70 text-slate-800',
-      loneliness: 'bg-gray-200/70 text-gray-700',
-      disgust: 'bg-emerald-100/70 text-emerald-800',
-
-      // ニュートラルな感情
-      surprise: 'bg-violet-100/70 text-violet-800'
-    };
-
-    return colorMap[emotionName] || 'bg-gray-100/70 text-gray-800';
-  };
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -339,7 +307,7 @@ export const HistoryList: React.FC = () => {
                       <span
                         key={index}
                         className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
-                          getEmotionColor(emotion.name)
+                          getEmotionColor(emotion.name).translucentChip
                         }`}
                         title={`強度: ${emotion.intensity}, 頻度: ${emotion.frequency || 1}`}
                       >
@@ -3,6 +3,7 @@
 import React, { useState } from 'react';
 import { MagnifyingGlassIcon, XMarkIcon, TagIcon } from '@heroicons/react/24/outline';
 import { Emotion } from '@/types/chat';
+import { getEmotionColor } from '@/utils/emotionPalette';
 
 interface SearchBoxProps {
   onSearch: (params: {
@@ -51,30 +52,10 @@ export const SearchBox: React.FC<SearchBoxProps> = ({ onSearch, availableEmotion
     );
   };
 
-  const getEmotionColor = (emotionName: string): string => {
-    const colorMap: Record<string, string> = {
-      joy: 'bg-yellow-100 text-yellow-800 border-yellow-300',
-      love: 'bg-pink-100 text-pink-800 border-pink-300',
-      trust: 'bg-green-100 text-green-800 border-green-300',
-      gratitude: 'bg-purple-100 text-purple-800 border-purple-300',
-      hope: 'bg-blue-100 text-blue-800 border-blue-300',
-      relief: 'bg-teal-100 text-teal-800 border-teal-300',
-      pride: 'bg-indigo-100 text-indigo-800 border-indigo-300',
-      contentment: 'bg-lime-100 text-lime-800 border-lime-300',
-      anticipation: 'bg-cyan-100 text-cyan-800 border-cyan-300',
-      sadness: 'bg-gray-100 text-gray-800 border-gray-300',
-      anger: 'bg-red-100 text-red-800 border-red-300',
-      fear: 'bg-orange-100 text-orange-800 border-orange-300',
-      anxiety: 'bg-amber-100 text-amber-800 border-amber-300',
-      frustration: 'bg-rose-100 text-rose-800 border-rose-300',
-      guilt: 'bg-stone-100 text-stone-800 border-stone-300',
-      shame: 'bg-zinc-100 text-zinc-800 border-zinc-300',
-      disappointment: 'bg-slate-100 text-slate-800 border-slate-300',
-      loneliness: 'bg-gray-200 text-gray-700 border-gray-400',
-      disgust: 'bg-emerald-100 text-emerald-800 border-emerald-300',
-      surprise: 'bg-violet-100 text-violet-800 border-violet-300',
-    };
-    return colorMap[emotionName] || 'bg-gray-100 text-gray-800 border-gray-300';
+  // 感情タグのクラス（チップの色 + 枠線色）
+  const getEmotionTagClass = (emotionName: string): string => {
+    const color = getEmotionColor(emotionName);
+    return `${color.chip} ${color.border}`;
   };
 
   const hasFilters = keyword || startDate || endDate || selectedEmotions.length > 0;
@@ -161,7 +142,7 @@ export const SearchBox: React.FC<SearchBoxProps> = ({ onSearch, availableEmotion
                       />
                       <span
                         className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium border ${
-                          getEmotionColor(emotion.name)
+                          getEmotionTagClass(emotion.name)
                         }`}
                       >
                         {emotion.label}
@@ -182,7 +163,7 @@ export const SearchBox: React.FC<SearchBoxProps> = ({ onSearch, availableEmotion
                   <span
                     key={emotionName}
                     className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border ${
-                      getEmotionColor(emotionName)
+                      getEmotionTagClass(emotionName)
                     }`}
                   >
                     {emotion.label}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useLive2DCharacter } from '@/contexts/Live2DCharacterContext';
+import { ScreenType, toScreenType } from '@/lib/live2d/demo/lappscreenbehavior';
+import { NativeLive2DWrapper } from '@/lib/live2d/NativeLive2DWrapper';
+
+export type Live2DCanvasLayout = 'fullscreen' | 'contained';
+
+interface Live2DCanvasProps {
+  layout?: Live2DCanvasLayout; // fullscreen: 画面全体の背面に表示 / contained: 親要素内に収める
+  screenType?: ScreenType | string; // 画面タイプ（文字列も受け付ける、変更時はモデルを読み込み直さず振る舞いを切り替える）
+  modelUrl?: string; // 表示するモデルのmodel3.json（変更時はWebGLコンテキストを作り直さずモデルを差し替える）
+  disableMotions?: boolean; // アイドル等のモーションを無効化
+  controllable?: boolean; // useLive2DCharacter()の操作対象にする（複数表示時は最後に表示したもの）
+  active?: boolean; // falseの間は描画ループを止める（モデル・コンテキストは保持）
+  adaptiveQuality?: boolean; // 描画中のFPSに合わせて描画品質を自動調整する
+  offscreen?: boolean; // Web Workerで描画する（OffscreenCanvasのWebGLが使えない場合はメインスレッドで描画）
+}
+
+/**
+ * Live2Dキャラクターを描画するキャンバス
+ * インスタンスごとにWebGLコンテキストとモデルを持つため複数同時に表示でき、
+ * アンマウント時にモデル・コンテキストを解放する
+ * （画面遷移をまたいで表示し続ける場合はLive2DStageを使う）
+ */
+const Live2DCanvas = ({
+  layout = 'fullscreen',
+  screenType,
+  modelUrl,
+  disableMotions = false,
+  controllable = true,
+  active = true,
+  adaptiveQuality = false,
+  offscreen = false
+}: Live2DCanvasProps) => {
+  const character = useLive2DCharacter();
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const wrapperRef = useRef<NativeLive2DWrapper | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const resolvedScreenType = toScreenType(screenType) ?? ScreenType.Home;
+  // 初期化時の画面タイプ（以降の変更は初期化し直さず下のeffectで反映する）
+  const screenTypeRef = useRef(resolvedScreenType);
+  screenTypeRef.current = resolvedScreenType;
+  const modelUrlRef = useRef(modelUrl);
+  modelUrlRef.current = modelUrl;
+  const activeRef = useRef(active);
+  activeRef.current = active;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    const wrapper = new NativeLive2DWrapper();
+    let detach: (() => void) | null = null;
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+
+    wrapper.initialize(container, {
+      disableMotions,
+      screenType: screenTypeRef.current,
+      modelUrl: modelUrlRef.current,
+      adaptiveQuality,
+      offscreen
+    }).then((initialized) => {
+      // 初期化中にアンマウントされた場合
+      if (cancelled) {
+        return;
+      }
+      if (!initialized) {
+        setError('Failed to initialize Live2D');
+        setIsLoading(false);
+        return;
+      }
+
+      wrapperRef.current = wrapper;
+      if (activeRef.current) {
+        wrapper.startRendering();
+      }
+      if (controllable) {
+        detach = character.attach(wrapper);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      wrapperRef.current = null;
+      detach?.();
+      wrapper.dispose();
+    };
+  }, [character, controllable, disableMotions, adaptiveQuality, offscreen]);
+
+  // 画面タイプの変更はモデルを読み込み直さずに反映する
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!isLoading && wrapper && wrapper.getScreenType() !== resolvedScreenType) {
+      wrapper.setScreenType(resolvedScreenType);
+    }
+  }, [isLoading, resolvedScreenType]);
+
+  // モデルの変更は同じキャンバスのままモデルだけを読み込み直す
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!isLoading && wrapper && modelUrl && wrapper.getCurrentModelId() !== modelUrl) {
+      void wrapper.loadModel(modelUrl);
+    }
+  }, [isLoading, modelUrl]);
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (isLoading || !wrapper) {
+      return;
+    }
+    if (active) {
+      wrapper.startRendering();
+    } else {
+      wrapper.stopRendering();
+    }
+  }, [isLoading, active]);
+
+  if (layout === 'contained') {
+    return (
+      <div className="w-full h-full relative" data-screen-type={resolvedScreenType}>
+        {error && (
+          <div className="absolute top-4 left-4 bg-red-100 text-red-700 p-2 rounded z-10 text-xs">
+            {error}
+          </div>
+        )}
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-gray-400 text-center">
+              <div className="animate-pulse">
+                <div className="w-16 h-16 bg-gray-200 rounded-full mx-auto mb-2"></div>
+                <p className="text-xs">読み込み中...</p>
+              </div>
+            </div>
+          </div>
+        )}
+        <div
+          ref={containerRef}
+          className="w-full h-full"
+          style={{ visibility: isLoading ? 'hidden' : 'visible' }}
+          onContextMenu={(e) => e.preventDefault()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-screen h-screen fixed top-0 left-0 pointer-events-none z-0" data-screen-type={resolvedScreenType}>
+      {error && (
+        <div className="absolute top-20 left-4 bg-red-100 text-red-700 p-2 rounded z-10">
+          {error}
+        </div>
+      )}
+      {isLoading && (
+        <div className="absolute top-20 right-4 bg-blue-100 text-blue-700 p-2 rounded z-10">
+          Loading Live2D...
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        className="w-full h-full pointer-events-auto"
+        onContextMenu={(e) => e.preventDefault()}
+      />
+    </div>
+  );
+};
+
+export default Live2DCanvas;
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { loadCubismCore } from '@/lib/live2d/loadCubismCore';
+import { loadModelCatalog, Live2DModelEntry } from '@/lib/live2d/modelCatalog';
+import {
+  Live2DModelValidator,
+  ModelDiagnosticSeverity,
+  ModelDiagnosticsReport
+} from '@/lib/live2d/Live2DModelValidator';
+import { logger } from '@/utils/logger';
+
+interface ModelReport {
+  model: Live2DModelEntry;
+  report: ModelDiagnosticsReport;
+}
+
+const SEVERITY_STYLES: Record<ModelDiagnosticSeverity, string> = {
+  error: 'bg-red-100 text-red-700',
+  warning: 'bg-yellow-100 text-yellow-800',
+  info: 'bg-gray-100 text-gray-600'
+};
+
+/**
+ * カタログの全モデルを検証し、診断結果を表示する
+ */
+export const Live2DModelDiagnosticsPanel: React.FC = () => {
+  const [reports, setReports] = useState<ModelReport[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const validate = useCallback(async () => {
+    setReports(null);
+    setError(null);
+
+    try {
+      // Coreを読み込めない場合は表示情報（cdi3.json）との照合になる
+      await loadCubismCore().catch((error) => logger.warn('Cubism Coreを読み込めません', error));
+
+      const catalog = await loadModelCatalog();
+      const validator = new Live2DModelValidator();
+      const results: ModelReport[] = [];
+      for (const model of catalog.models) {
+        const report = await validator.validate(model.modelUrl, {
+          neutralExpression: model.neutralExpression,
+          emotions: model.emotions
+        });
+        results.push({ model, report });
+      }
+      setReports(results);
+    } catch (validationError) {
+      logger.error('モデルの検証に失敗しました', validationError);
+      setError(validationError instanceof Error ? validationError.message : String(validationError));
+    }
+  }, []);
+
+  useEffect(() => {
+    validate();
+  }, [validate]);
+
+  const retryButton = (
+    <button
+      type="button"
+      onClick={validate}
+      className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+    >
+      再検証
+    </button>
+  );
+
+  if (error) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-red-600">モデルの検証に失敗しました: {error}</p>
+        {retryButton}
+      </div>
+    );
+  }
+
+  if (!reports) {
+    return <p className="text-sm text-gray-500">モデルを検証中...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {retryButton}
+
+      {reports.map(({ model, report }) => (
+        <section key={model.id} className="bg-white/75 backdrop-blur-sm shadow rounded-lg p-6">
+          <div className="flex items-center gap-3 mb-1">
+            <h2 className="text-lg font-semibold text-gray-900">{model.name}</h2>
+            <span
+              className={`px-2 py-0.5 rounded text-xs font-medium ${
+                report.ok ? 'bg-green-100 text-green-700' : SEVERITY_STYLES.error
+              }`}
+            >
+              {report.ok ? '読み込み可能' : '読み込みが止まります'}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            {report.modelUrl}（{report.checkedFiles}ファイル・パラメータの照合元: {report.parameterSource ?? 'なし'}）
+          </p>
+
+          {report.diagnostics.length === 0 ? (
+            <p className="text-sm text-gray-600">問題は見つかりませんでした</p>
+          ) : (
+            <ul className="space-y-2">
+              {report.diagnostics.map((diagnostic, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[diagnostic.severity]}`}>
+                    {diagnostic.severity}
+                  </span>
+                  <span className="text-gray-800">
+                    {diagnostic.message}
+                    <span className="ml-2 text-xs text-gray-400">
+                      {diagnostic.stage} / {diagnostic.code}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+};
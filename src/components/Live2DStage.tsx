@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useLive2DStage } from '@/contexts/Live2DStageContext';
+import { ScreenType, toScreenType } from '@/lib/live2d/demo/lappscreenbehavior';
+import type { Live2DCanvasLayout } from './Live2DCanvas';
+
+interface Live2DStageProps {
+  layout?: Live2DCanvasLayout; // fullscreen: 画面全体の背面に表示 / contained: この要素の位置・大きさに表示
+  screenType: ScreenType | string; // 画面タイプ（文字列も受け付ける）
+  className?: string; // containedの場合の表示領域のクラス
+}
+
+/**
+ * 画面にキャラクターを表示する
+ * キャンバスはレイアウト（Live2DStageHost）が保持し続けるため、画面遷移でモデルを読み込み直さず、
+ * 表示位置と画面タイプの振る舞いだけを切り替える
+ */
+const Live2DStage = ({ layout = 'fullscreen', screenType, className = 'w-full h-full' }: Live2DStageProps) => {
+  const { show } = useLive2DStage();
+  const [anchor, setAnchor] = useState<HTMLDivElement | null>(null);
+  const resolvedScreenType = toScreenType(screenType) ?? ScreenType.Home;
+
+  useEffect(() => {
+    if (layout === 'contained') {
+      if (!anchor) {
+        return;
+      }
+      return show({ screenType: resolvedScreenType, anchor });
+    }
+    return show({ screenType: resolvedScreenType, anchor: null });
+  }, [show, layout, resolvedScreenType, anchor]);
+
+  if (layout === 'contained') {
+    return <div ref={setAnchor} className={className} data-screen-type={resolvedScreenType} />;
+  }
+  return null;
+};
+
+export default Live2DStage;
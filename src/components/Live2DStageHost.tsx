@@ -0,0 +1,113 @@
+'use client';
+
+import { CSSProperties, useEffect, useLayoutEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { useLive2DStage } from '@/contexts/Live2DStageContext';
+import { ScreenType } from '@/lib/live2d/demo/lappscreenbehavior';
+import { useLive2DModelSelection } from '@/lib/hooks/useLive2DModelSelection';
+
+// Live2Dコンポーネントを動的インポート（SSR無効化）
+const Live2DCanvas = dynamic(() => import('@/components/Live2DCanvas'), { ssr: false });
+
+interface AnchorRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 表示領域の要素の位置・大きさを追跡する
+ */
+function useAnchorRect(anchor: HTMLElement | null): AnchorRect | null {
+  const [rect, setRect] = useState<AnchorRect | null>(null);
+
+  useLayoutEffect(() => {
+    if (!anchor) {
+      setRect(null);
+      return;
+    }
+
+    const update = () => {
+      const { top, left, width, height } = anchor.getBoundingClientRect();
+      setRect((current) =>
+        current &&
+        current.top === top &&
+        current.left === left &&
+        current.width === width &&
+        current.height === height
+          ? current
+          : { top, left, width, height }
+      );
+    };
+
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(anchor);
+    window.addEventListener('resize', update);
+    window.addEventListener('scroll', update, true);
+
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', update);
+      window.removeEventListener('scroll', update, true);
+    };
+  }, [anchor]);
+
+  return rect;
+}
+
+/**
+ * 画面遷移をまたいでキャラクターを表示し続けるキャンバス（app/layout.tsxに1つだけ置く）
+ * - 最初にLive2DStageが表示を指定したときにモデルを読み込み、以降はWebGLコンテキストとモデルを保持する
+ * - 表示するモデルはユーザーが選択したモデル（選択を変えるとコンテキストはそのままモデルを差し替える）
+ * - 画面ごとの表示位置へはCSSのトランジションで移動し、画面タイプの振る舞いはモデル側で徐々に切り替える
+ * - どの画面も表示を指定していない間は非表示にし、描画ループを止める
+ * - 描画品質は端末のFPSに合わせて自動調整する
+ * - 描画はWeb Workerで行い、チャットの入力・スクロールと同じスレッドで動かさない（使えない端末ではメインスレッド）
+ */
+const Live2DStageHost = () => {
+  const { placement } = useLive2DStage();
+  const { model, isLoading: isLoadingModels } = useLive2DModelSelection();
+  const rect = useAnchorRect(placement?.anchor ?? null);
+  const [mounted, setMounted] = useState(false);
+  const [screenType, setScreenType] = useState<ScreenType>(ScreenType.Home);
+
+  useEffect(() => {
+    if (placement) {
+      setMounted(true);
+      setScreenType(placement.screenType);
+    }
+  }, [placement]);
+
+  // 既定のモデルを読み込んでから差し替えないよう、モデルの一覧を読み込むまで待つ
+  if (!mounted || isLoadingModels) {
+    return null;
+  }
+
+  const visible = placement !== null;
+  const style: CSSProperties = placement?.anchor && rect
+    ? { top: rect.top, left: rect.left, width: rect.width, height: rect.height }
+    : { top: 0, left: 0, width: '100vw', height: '100vh' };
+
+  return (
+    <div
+      className={`fixed z-0 transition-[top,left,width,height,opacity,visibility] duration-500 ease-in-out ${
+        visible ? 'opacity-100 visible' : 'opacity-0 invisible'
+      }`}
+      style={style}
+      data-screen-type={screenType}
+    >
+      <Live2DCanvas
+        layout="contained"
+        screenType={screenType}
+        modelUrl={model.modelUrl}
+        active={visible}
+        adaptiveQuality
+        offscreen
+      />
+    </div>
+  );
+};
+
+export default Live2DStageHost;
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { SpeakerWaveIcon, StopIcon } from '@heroicons/react/24/solid';
+import { VoiceService } from '@/services/voiceApi';
+import { useVoiceSettings } from '@/lib/hooks/useVoiceSettings';
+import { VoiceSpeaker } from '@/types/voice';
+import { logger } from '@/utils/logger';
+
+const PREVIEW_TEXT = 'こんにちは。今日はどんな一日でしたか？';
+
+interface SliderProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ id, label, value, min, max, step, format, onChange }) => (
+  <div>
+    <div className="flex justify-between text-sm font-medium text-gray-700">
+      <label htmlFor={id}>{label}</label>
+      <span className="text-gray-500">{format(value)}</span>
+    </div>
+    <input
+      id={id}
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="mt-1 w-full accent-blue-500"
+    />
+  </div>
+);
+
+/**
+ * 読み上げ音声の設定（話者・話速・高さ・音量）
+ */
+export const VoiceSettingsPanel: React.FC = () => {
+  const { voiceSettings, updateVoiceSettings } = useVoiceSettings();
+  const [voices, setVoices] = useState<VoiceSpeaker[]>([]);
+  const [isLoadingVoices, setIsLoadingVoices] = useState(true);
+  const [voicesError, setVoicesError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    VoiceService.listVoices()
+      .then((list) => {
+        if (!cancelled) {
+          setVoices(list);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setVoicesError('話者の一覧を取得できませんでした');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoadingVoices(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      VoiceService.stopVoice();
+    };
+  }, []);
+
+  const handlePreview = async () => {
+    if (isPreviewing) {
+      VoiceService.stopVoice();
+      setIsPreviewing(false);
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      await VoiceService.playVoice(PREVIEW_TEXT, {
+        voice: voiceSettings,
+        onEnded: () => setIsPreviewing(false),
+        onError: () => setIsPreviewing(false)
+      });
+    } catch (error) {
+      logger.error('試聴エラー:', error);
+      setIsPreviewing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/75 backdrop-blur-sm shadow rounded-lg p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">音声設定</h2>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="voice-speaker" className="block text-sm font-medium text-gray-700">
+            話者
+          </label>
+          <select
+            id="voice-speaker"
+            value={voiceSettings.speaker_id ?? ''}
+            onChange={(e) => updateVoiceSettings({ speaker_id: e.target.value || undefined })}
+            disabled={isLoadingVoices}
+            className="mt-1 w-full px-3 py-2 text-black border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <option value="">標準</option>
+            {voices.map((voice) => (
+              <option key={voice.id} value={voice.id}>
+                {voice.description ? `${voice.name}（${voice.description}）` : voice.name}
+              </option>
+            ))}
+          </select>
+          {voicesError && <p className="mt-1 text-sm text-red-600">{voicesError}</p>}
+        </div>
+
+        <Slider
+          id="voice-speed"
+          label="話す速さ"
+          value={voiceSettings.speed}
+          min={0.5}
+          max={2}
+          step={0.1}
+          format={(value) => `${value.toFixed(1)}倍`}
+          onChange={(speed) => updateVoiceSettings({ speed })}
+        />
+        <Slider
+          id="voice-pitch"
+          label="声の高さ"
+          value={voiceSettings.pitch}
+          min={-6}
+          max={6}
+          step={1}
+          format={(value) => (value > 0 ? `+${value}` : `${value}`)}
+          onChange={(pitch) => updateVoiceSettings({ pitch })}
+        />
+        <Slider
+          id="voice-volume"
+          label="音量"
+          value={voiceSettings.volume}
+          min={0}
+          max={1}
+          step={0.05}
+          format={(value) => `${Math.round(value * 100)}%`}
+          onChange={(volume) => updateVoiceSettings({ volume })}
+        />
+
+        <button
+          type="button"
+          onClick={handlePreview}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+        >
+          {isPreviewing ? <StopIcon className="w-4 h-4" /> : <SpeakerWaveIcon className="w-4 h-4" />}
+          {isPreviewing ? '停止' : '試聴する'}
+        </button>
+      </div>
+    </div>
+  );
+};
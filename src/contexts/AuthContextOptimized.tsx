@@ -3,6 +3,8 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { logger } from '@/utils/logger';
+import { useChatStore } from '@/stores/chatStore';
+import { VoiceService } from '@/services/voiceApi';
 
 interface User {
   id: number;
@@ -115,6 +117,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     localStorage.removeItem('access_token');
     localStorage.removeItem('refresh_token');
     localStorage.removeItem('user');
+    // 同じブラウザで次にログインしたユーザーに未送信メッセージが送信されないよう、会話も消す
+    useChatStore.getState().clearUserData();
+    // 合成済みの音声にも会話の内容が含まれるため、メモリとIndexedDBのキャッシュを消す
+    try {
+      await VoiceService.clearCache();
+    } catch (error) {
+      logger.warn('[Auth] logout - Failed to clear voice cache:', error);
+    }
     setUser(null);
     router.push('/login');
   };
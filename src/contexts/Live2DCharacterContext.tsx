@@ -0,0 +1,32 @@
+'use client';
+
+import React, { createContext, useContext, useState } from 'react';
+import { Live2DCharacter, Live2DCharacterController } from '@/lib/live2d/Live2DCharacterController';
+
+const Live2DCharacterContext = createContext<Live2DCharacter | undefined>(undefined);
+
+interface Live2DCharacterProviderProps {
+  children: React.ReactNode;
+  character?: Live2DCharacter; // 差し替え用（省略時はLive2DCanvasが登録したモデルを操作するコントローラー）
+}
+
+export function Live2DCharacterProvider({ children, character }: Live2DCharacterProviderProps) {
+  const [defaultCharacter] = useState(() => new Live2DCharacterController());
+
+  return (
+    <Live2DCharacterContext.Provider value={character ?? defaultCharacter}>
+      {children}
+    </Live2DCharacterContext.Provider>
+  );
+}
+
+/**
+ * Live2Dキャラクターの操作API（表情・モーション・リップシンク・視線・表示）
+ */
+export function useLive2DCharacter() {
+  const context = useContext(Live2DCharacterContext);
+  if (context === undefined) {
+    throw new Error('useLive2DCharacter must be used within a Live2DCharacterProvider');
+  }
+  return context;
+}
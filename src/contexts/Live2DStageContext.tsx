@@ -0,0 +1,53 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { ScreenType } from '@/lib/live2d/demo/lappscreenbehavior';
+
+/**
+ * キャラクターの表示位置と画面タイプ
+ */
+export interface Live2DStagePlacement {
+  screenType: ScreenType;
+  anchor: HTMLElement | null; // 表示領域の要素（nullの場合は画面全体の背面に表示）
+}
+
+interface Live2DStageContextType {
+  placement: Live2DStagePlacement | null; // 表示中の画面の指定（nullの場合は非表示）
+  show: (placement: Live2DStagePlacement) => () => void;
+}
+
+const Live2DStageContext = createContext<Live2DStageContextType | undefined>(undefined);
+
+export function Live2DStageProvider({ children }: { children: React.ReactNode }) {
+  const [placement, setPlacement] = useState<Live2DStagePlacement | null>(null);
+
+  /**
+   * キャラクターを表示する
+   * @returns 表示をやめる関数（後から別の画面が表示を指定していた場合は何もしない）
+   */
+  const show = useCallback((next: Live2DStagePlacement) => {
+    setPlacement(next);
+    return () => {
+      setPlacement((current) => (current === next ? null : current));
+    };
+  }, []);
+
+  const value = useMemo(() => ({ placement, show }), [placement, show]);
+
+  return (
+    <Live2DStageContext.Provider value={value}>
+      {children}
+    </Live2DStageContext.Provider>
+  );
+}
+
+/**
+ * 画面遷移をまたいで表示し続けるキャラクターの表示位置・画面タイプの指定
+ */
+export function useLive2DStage() {
+  const context = useContext(Live2DStageContext);
+  if (context === undefined) {
+    throw new Error('useLive2DStage must be used within a Live2DStageProvider');
+  }
+  return context;
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import DOMPurify from 'dompurify';
+import { VoiceService } from '@/services/voiceApi';
+import { useLipSyncHandler } from '@/lib/hooks/useLipSyncHandler';
+import { useVoiceSettings } from '@/lib/hooks/useVoiceSettings';
+import { useChatStore } from '@/stores/chatStore';
+import { ChatMessage } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+/**
+ * 新しいアシスタントの応答を自動で読み上げる
+ * 複数の応答は順番に再生し、手動再生中（playingMessageIdが設定中）は終わるまで待つ
+ */
+export function useAutoSpeak(enabled: boolean) {
+  const queueRef = useRef<ChatMessage[]>([]);
+  const currentIdRef = useRef<string | null>(null); // 自動再生中のメッセージID
+  const enabledRef = useRef(enabled);
+  const { voiceSettings } = useVoiceSettings();
+  // 再生開始時点のログイン中のユーザーの設定を使う
+  const voiceSettingsRef = useRef(voiceSettings);
+  const { startLipSync, stopLipSync } = useLipSyncHandler();
+  const playingMessageId = useChatStore((state) => state.playingMessageId);
+  const setPlayingMessageId = useChatStore((state) => state.setPlayingMessageId);
+
+  /**
+   * 自動再生を止めて待機中の応答も破棄する
+   */
+  const stopAutoSpeak = useCallback(() => {
+    queueRef.current = [];
+    const currentId = currentIdRef.current;
+    if (!currentId) {
+      return;
+    }
+    currentIdRef.current = null;
+    VoiceService.stopVoice();
+    stopLipSync();
+    if (useChatStore.getState().playingMessageId === currentId) {
+      setPlayingMessageId(null);
+    }
+  }, [setPlayingMessageId, stopLipSync]);
+
+  const playNext = useCallback(async () => {
+    if (currentIdRef.current || useChatStore.getState().playingMessageId !== null) {
+      return;
+    }
+
+    const next = queueRef.current.shift();
+    if (!next) {
+      return;
+    }
+
+    // XSS対策：ChatMessageの読み上げと同じくテキストのみを残す
+    const text = DOMPurify.sanitize(next.content, { ALLOWED_TAGS: [], ALLOWED_ATTR: [], KEEP_CONTENT: true });
+    if (!text.trim()) {
+      playNext();
+      return;
+    }
+
+    currentIdRef.current = next.id;
+    setPlayingMessageId(next.id);
+
+    // 再生終了後にplayingMessageIdが空くと次の応答を再生する
+    const finish = () => {
+      if (currentIdRef.current !== next.id) {
+        return;
+      }
+      currentIdRef.current = null;
+      stopLipSync();
+      if (useChatStore.getState().playingMessageId === next.id) {
+        setPlayingMessageId(null);
+      }
+    };
+
+    const voiceSettings = voiceSettingsRef.current;
+    try {
+      await VoiceService.playVoice(text, {
+        messageId: next.id,
+        voice: voiceSettings,
+        onEnded: finish,
+        onError: (error) => {
+          logger.error('自動読み上げエラー:', error);
+          finish();
+        },
+        onLipSyncReady: (audioUrl, alignment) => {
+          startLipSync(audioUrl, voiceSettings.volume, alignment).catch(error => {
+            logger.error('リップシンク開始エラー:', error);
+          });
+        }
+      });
+      // 音声の準備中に停止された場合
+      if (currentIdRef.current !== next.id) {
+        VoiceService.stopVoice();
+        stopLipSync();
+      }
+    } catch (error) {
+      logger.error('自動読み上げエラー:', error);
+      finish();
+    }
+  }, [setPlayingMessageId, startLipSync, stopLipSync]);
+
+  useEffect(() => {
+    if (playingMessageId !== null) {
+      return;
+    }
+    if (currentIdRef.current) {
+      // 再生中のメッセージの停止ボタンやセッション切り替えで止められた
+      stopAutoSpeak();
+      return;
+    }
+    playNext();
+  }, [playingMessageId, playNext, stopAutoSpeak]);
+
+  useEffect(() => {
+    voiceSettingsRef.current = voiceSettings;
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    enabledRef.current = enabled;
+    if (!enabled) {
+      stopAutoSpeak();
+    }
+  }, [enabled, stopAutoSpeak]);
+
+  useEffect(() => {
+    return () => stopAutoSpeak();
+  }, [stopAutoSpeak]);
+
+  /**
+   * 受信した応答を読み上げ待ちに追加
+   */
+  const enqueueAutoSpeak = useCallback((message: ChatMessage) => {
+    if (!enabledRef.current) {
+      return;
+    }
+    queueRef.current.push(message);
+    playNext();
+  }, [playNext]);
+
+  return { enqueueAutoSpeak, stopAutoSpeak };
+}
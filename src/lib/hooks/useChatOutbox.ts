@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useChatStore } from '@/stores/chatStore';
+import { getDueOutboxEntries, isOutboxEntryFor } from '@/utils/outbox';
+import { OutboxEntry } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+// 応答受信中などで再送を見送った場合の再確認間隔
+const OUTBOX_RECHECK_MS = 1000;
+
+/**
+ * 送信待ちキューの自動再送
+ * オンライン復帰時とバックオフ時刻の到来時に、ログイン中のユーザーの現在のセッションの未送信メッセージを古い順に再送する
+ * @param userId ログイン中のユーザー（他のユーザーが送信した項目は再送しない）
+ * @param resend 再送処理。完了後もキューに残っている項目は失敗として扱いバックオフする
+ */
+export function useChatOutbox(
+  userId: string | null,
+  sessionId: string,
+  resend: (entry: OutboxEntry) => Promise<void>,
+  enabled: boolean
+) {
+  const resendRef = useRef(resend);
+  const isFlushingRef = useRef(false);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const outboxLength = useChatStore((state) =>
+    userId ? state.outbox.filter((e) => isOutboxEntryFor(e, userId, sessionId)).length : 0
+  );
+
+  useEffect(() => {
+    resendRef.current = resend;
+  }, [resend]);
+
+  const flushRef = useRef<() => Promise<void>>(async () => {});
+
+  /**
+   * 次の再送タイミングを予約（オフライン中はonlineイベントを待つ）
+   */
+  const scheduleNext = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (!enabled || !userId || !navigator.onLine) {
+      return;
+    }
+
+    const entries = useChatStore.getState().outbox.filter((e) => isOutboxEntryFor(e, userId, sessionId));
+    if (entries.length === 0) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...entries.map((e) => e.nextAttemptAt));
+    const delay = Math.max(OUTBOX_RECHECK_MS, nextAttemptAt - Date.now());
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      flushRef.current();
+    }, delay);
+  }, [enabled, userId, sessionId]);
+
+  const flush = useCallback(async () => {
+    if (!enabled || !userId || isFlushingRef.current || !navigator.onLine) {
+      return;
+    }
+
+    isFlushingRef.current = true;
+    try {
+      const due = getDueOutboxEntries(useChatStore.getState().outbox, userId, sessionId, Date.now());
+      for (const entry of due) {
+        // 応答受信中は終わってから再送する
+        if (useChatStore.getState().isLoading) {
+          break;
+        }
+
+        logger.log(`Outbox: resending ${entry.clientMessageId} (attempt ${entry.attempts + 1})`);
+        await resendRef.current(entry);
+
+        const { outbox, markOutboxAttempt } = useChatStore.getState();
+        if (outbox.some((e) => e.clientMessageId === entry.clientMessageId)) {
+          markOutboxAttempt(entry.clientMessageId);
+          // 送信順を保つため後続は次回に回す
+          break;
+        }
+      }
+    } finally {
+      isFlushingRef.current = false;
+      scheduleNext();
+    }
+  }, [enabled, userId, sessionId, scheduleNext]);
+
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  // オンライン復帰時は待ち時間をリセットして即座に再送
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleOnline = () => {
+      logger.log('Outbox: network is back online');
+      useChatStore.getState().resetOutboxBackoff();
+      flush();
+    };
+
+    window.addEventListener('online', handleOnline);
+    flush();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+        timerRef.current = null;
+      }
+    };
+  }, [enabled, flush]);
+
+  // キューに追加されたら再送を予約
+  useEffect(() => {
+    if (outboxLength > 0 && !isFlushingRef.current) {
+      scheduleNext();
+    }
+  }, [outboxLength, scheduleNext]);
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useLive2DCharacter } from '@/contexts/Live2DCharacterContext';
+import {
+  EmotionExpressionConfig,
+  EmotionExpressionController
+} from '@/lib/live2d/EmotionExpressionController';
+import { getReadyCharacter } from '@/lib/live2d/Live2DCharacterController';
+import { getEmotionExpressionConfig } from '@/lib/live2d/modelCatalog';
+import { useLive2DModelSelection } from './useLive2DModelSelection';
+import { ChatMessage } from '@/types/chat';
+
+interface UseEmotionExpressionOptions {
+  reactToUserEmotions?: boolean; // 応答に感情がない場合にユーザー発言の感情に反応する
+  config?: Partial<EmotionExpressionConfig>; // 感情→表情マッピング等（省略時は選択中のモデルのマッピング）
+}
+
+/**
+ * チャット画面のLive2Dモデルの表情を、メッセージの感情に合わせて切り替える
+ */
+export function useEmotionExpression({ reactToUserEmotions = true, config }: UseEmotionExpressionOptions = {}) {
+  const character = useLive2DCharacter();
+  const { model } = useLive2DModelSelection();
+  const controllerRef = useRef<EmotionExpressionController | null>(null);
+  const modelConfig = useMemo(() => getEmotionExpressionConfig(model), [model]);
+
+  useEffect(() => {
+    controllerRef.current = new EmotionExpressionController(
+      () => getReadyCharacter(character),
+      { ...modelConfig, ...config }
+    );
+
+    return () => {
+      controllerRef.current?.dispose();
+      controllerRef.current = null;
+    };
+  }, [character, modelConfig, config]);
+
+  /**
+   * 新しい応答を受け取ったときに表情を切り替える
+   * @param assistantMessage 受信したアシスタントの応答
+   * @param userMessage 応答の元になったユーザー発言
+   */
+  const reactToReply = useCallback((assistantMessage: ChatMessage, userMessage?: ChatMessage) => {
+    const controller = controllerRef.current;
+    if (!controller) {
+      return;
+    }
+
+    if (assistantMessage.emotions && controller.applyEmotions(assistantMessage.emotions)) {
+      return;
+    }
+    if (reactToUserEmotions && userMessage?.emotions) {
+      controller.applyEmotions(userMessage.emotions);
+    }
+  }, [reactToUserEmotions]);
+
+  const resetExpression = useCallback(() => {
+    controllerRef.current?.resetToNeutral();
+  }, []);
+
+  return { reactToReply, resetExpression };
+}
@@ -2,41 +2,50 @@
 
 import { useEffect, useRef, useCallback } from 'react';
 import { LAppWavFileHandler } from '@/lib/live2d/demo/lappwavfilehandler';
-import { LAppDelegate } from '@/lib/live2d/demo/lappdelegate';
-import { RMSProcessor } from '@/lib/live2d/lipsync/RMSProcessor';
+import { useLive2DCharacter } from '@/contexts/Live2DCharacterContext';
+import { getReadyCharacter } from '@/lib/live2d/Live2DCharacterController';
+import { VowelLipSync } from '@/lib/live2d/lipsync/VowelLipSync';
+import { AlignmentLipSyncScheduler } from '@/lib/live2d/lipsync/AlignmentLipSyncScheduler';
+import { VoiceAlignmentPlayback } from '@/types/voice';
 import { logger } from '@/utils/logger';
 
-// LAppDelegateの内部構造の型定義
-interface DelegateWithSubdelegates {
-  _subdelegates: {
-    getSize: () => number;
-    at: (index: number) => {
-      getLive2DManager: () => {
-        getModel: (index: number) => {
-          setLipSyncValue: (value: number) => void;
-        } | null;
-      } | null;
-    };
-  };
-}
+// 標準音量でのRMS感度
+const BASE_RMS_SCALE_FACTOR = 8;
+const REFERENCE_VOLUME = 0.8;
+// 口形解析に使う直近のサンプル数
+const ANALYSIS_WINDOW_SIZE = 2048;
+// これ未満の口の開き（感度調整後）は閉じる
+const MIN_LIPSYNC_VALUE = 0.02;
+// 約30FPSの更新で滑らかに口形を遷移させる
+const LIPSYNC_SMOOTHING_FACTOR = 0.85;
+
+/**
+ * 音量設定に合わせた口の動きの大きさ（標準音量で1）
+ */
+const getVolumeGain = (volume: number): number =>
+  Math.min(1.5, Math.max(0.25, volume / REFERENCE_VOLUME));
 
 export function useLipSyncHandler() {
+  const character = useLive2DCharacter();
   const wavFileHandlerRef = useRef<LAppWavFileHandler | null>(null);
-  const rmsProcessorRef = useRef<RMSProcessor | null>(null);
+  const vowelLipSyncRef = useRef<VowelLipSync | null>(null);
+  const alignmentSchedulerRef = useRef<AlignmentLipSyncScheduler | null>(null);
   const isLipSyncingRef = useRef<boolean>(false);
   const updateIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const audioStartTimeRef = useRef<number>(0);
-  const previousRmsRef = useRef<number>(0);
   const lastUpdateTimeRef = useRef<number>(0);
   const lastSampleOffsetRef = useRef<number>(0);
   const debugLogCountRef = useRef<number>(0);
-  const rmsScaleFactorRef = useRef<number>(8); // バランスの取れた感度設定
-  const rmsWindowSizeRef = useRef<number>(2048); // RMS計算のウィンドウサイズ
+
+  /**
+   * リップシンク対象のLive2Dモデルを取得（未ロード時はnull）
+   */
+  const getLipSyncModel = useCallback(() => getReadyCharacter(character), [character]);
 
   useEffect(() => {
-    // WAVファイルハンドラーとRMSプロセッサを初期化
+    // WAVファイルハンドラーを初期化（口形の解析はWAVのサンプルレートに合わせて開始時に作成）
     wavFileHandlerRef.current = new LAppWavFileHandler();
-    rmsProcessorRef.current = new RMSProcessor(2048, 0.3); // 2048サンプル、スムージング係数0.3
+    alignmentSchedulerRef.current = new AlignmentLipSyncScheduler(getLipSyncModel);
 
     // クリーンアップ
     return () => {
@@ -44,29 +53,34 @@ export function useLipSyncHandler() {
         wavFileHandlerRef.current.releasePcmData();
         wavFileHandlerRef.current = null;
       }
-      if (rmsProcessorRef.current) {
-        rmsProcessorRef.current = null;
+      if (vowelLipSyncRef.current) {
+        vowelLipSyncRef.current.dispose();
+        vowelLipSyncRef.current = null;
+      }
+      if (alignmentSchedulerRef.current) {
+        alignmentSchedulerRef.current.dispose();
+        alignmentSchedulerRef.current = null;
       }
       if (updateIntervalRef.current) {
         clearInterval(updateIntervalRef.current);
         updateIntervalRef.current = null;
       }
     };
-  }, []);
+  }, [getLipSyncModel]);
 
   /**
    * リップシンクを停止
    */
   const stopLipSync = useCallback(() => {
     isLipSyncingRef.current = false;
-    previousRmsRef.current = 0;
     lastUpdateTimeRef.current = 0;
     lastSampleOffsetRef.current = 0;
     debugLogCountRef.current = 0;
 
-    // RMSプロセッサをリセット
-    if (rmsProcessorRef.current) {
-      rmsProcessorRef.current.reset();
+    // 口形の解析を破棄
+    if (vowelLipSyncRef.current) {
+      vowelLipSyncRef.current.dispose();
+      vowelLipSyncRef.current = null;
     }
 
     // 更新タイマーを停止
@@ -75,25 +89,22 @@ export function useLipSyncHandler() {
       updateIntervalRef.current = null;
     }
 
-    // Live2Dモデルのリップシンク値をリセット
+    // アライメントによるリップシンクを停止
+    if (alignmentSchedulerRef.current?.isActive()) {
+      alignmentSchedulerRef.current.stop();
+    }
+
+    // Live2Dモデルのリップシンク値と口の形をリセット
     try {
-      const appDelegate = LAppDelegate.getInstance();
-      // subdelegateを取得（通常最初の1つを使用）
-      const subdelegates = (appDelegate as unknown as DelegateWithSubdelegates)._subdelegates;
-      if (subdelegates && subdelegates.getSize() > 0) {
-        const subdelegate = subdelegates.at(0);
-        const manager = subdelegate.getLive2DManager();
-        if (manager) {
-          const model = manager.getModel(0);
-          if (model) {
-            model.setLipSyncValue(0);
-          }
-        }
+      const model = getLipSyncModel();
+      if (model) {
+        model.setLipSyncValue(0);
+        model.setMouthFormValue(null);
       }
     } catch (error) {
       logger.error('リップシンク値のリセットエラー:', error);
     }
-  }, []);
+  }, [getLipSyncModel]);
 
   /**
    * リップシンク値を更新
@@ -107,29 +118,14 @@ export function useLipSyncHandler() {
       }
 
       try {
-        // Live2Dマネージャーを取得
-        const appDelegate = LAppDelegate.getInstance();
-        const subdelegates = (appDelegate as unknown as DelegateWithSubdelegates)._subdelegates;
-        if (!subdelegates || subdelegates.getSize() === 0) {
-          logger.error('Subdelegateが見つかりません');
-          return;
-        }
-
-        const subdelegate = subdelegates.at(0);
-        const manager = subdelegate.getLive2DManager();
-        if (!manager) {
-          logger.error('Live2Dマネージャーが見つかりません');
-          return;
-        }
-
-        const model = manager.getModel(0);
-        if (!model) {
+        // Live2Dモデルを取得
+        if (!getLipSyncModel()) {
           logger.error('Live2Dモデルが見つかりません');
           return;
         }
 
-        // 安定したRMS値を計算
-        if (wavFileHandlerRef.current && rmsProcessorRef.current) {
+        // 直近のサンプルから口形を計算
+        if (wavFileHandlerRef.current && vowelLipSyncRef.current) {
           // 現在時刻を取得
           const currentTime = Date.now();
 
@@ -162,63 +158,30 @@ export function useLipSyncHandler() {
           const pcmData = wavFileHandlerRef.current._pcmData;
           const samplesPerChannel = wavFileHandlerRef.current._wavFileInfo?._samplesPerChannel || 0;
 
-          // 新しいサンプルを取得してRMSプロセッサに送る
+          // 新しいサンプルを取得して口形を解析する
           if (pcmData && pcmData[0] && currentSampleOffset < samplesPerChannel) {
-            // 前回の位置から現在位置までのサンプルを取得
-            const startIdx = Math.floor(lastSampleOffsetRef.current);
+            // 現在位置までの固定サイズのウィンドウ（最初のチャンネルのみ使用）
             const endIdx = Math.min(Math.floor(currentSampleOffset), samplesPerChannel);
-
-            // 固定サイズのウィンドウでRMSを計算
-            const windowSize = 2048;
-            const windowStart = Math.max(0, endIdx - windowSize);
+            const windowStart = Math.max(0, endIdx - ANALYSIS_WINDOW_SIZE);
             const windowEnd = endIdx;
 
-            // ウィンドウ内のサンプルでRMS計算
-            let rms = 0;
-            let sampleCount = 0;
-            for (let i = windowStart; i < windowEnd; i++) {
-              const sample = pcmData[0][i]; // 最初のチャンネルのみ使用
-              rms += sample * sample;
-              sampleCount++;
-            }
-
-            if (sampleCount > 0) {
-              rms = Math.sqrt(rms / sampleCount);
-            }
-
-            // RMS値の検証と正規化
-            const validatedRms = isNaN(rms) || !isFinite(rms) ? 0 : Math.abs(rms);
-
-            // スケーリング（感度調整）
-            let targetRms = Math.min(validatedRms * rmsScaleFactorRef.current, 1);
-
-            // 最小値の閾値設定（微小な値を除外）
-            if (targetRms < 0.02) {  // より低い閾値
-              targetRms = 0;
-            }
-
-            // スムージング処理（前の値との線形補間）
-            // 上昇時と下降時で異なるスムージングファクターを使用
-            const isIncreasing = targetRms > previousRmsRef.current;
-            const smoothingFactor = isIncreasing ? 0.4 : 0.15; // 開く時は速く、閉じる時はより滑らか
-            const smoothedRms = previousRmsRef.current + (targetRms - previousRmsRef.current) * smoothingFactor;
-            previousRmsRef.current = smoothedRms;
+            // 母音の口形（ParamMouthOpenY・ParamMouthForm）をモデルに適用
+            // 母音の信頼度が低い場合は音量のみで口を開く
+            const params = vowelLipSyncRef.current.process(
+              pcmData[0].subarray(windowStart, windowEnd),
+              currentTime
+            );
 
             if (shouldLog) {
               logger.log('リップシンク値計算:', {
                 windowStart,
                 windowEnd,
-                sampleCount,
-                rawRms: validatedRms,
-                targetRms,
-                smoothedRms,
+                mouthOpenY: params.ParamMouthOpenY,
+                mouthForm: params.ParamMouthForm,
                 totalElapsed
               });
             }
 
-            // モデルにリップシンク値を設定
-            model.setLipSyncValue(smoothedRms);
-
             // 現在のサンプル位置を記録
             lastSampleOffsetRef.current = currentSampleOffset;
           }
@@ -228,24 +191,66 @@ export function useLipSyncHandler() {
       }
     };
 
-    // 定期的に更新
+    // 定期的に更新（描画の一時停止中は止め、再開時に呼び直す）
+    if (updateIntervalRef.current || character.isPaused()) {
+      return;
+    }
     updateIntervalRef.current = setInterval(update, updateInterval);
-  }, [stopLipSync]);
+  }, [character, getLipSyncModel, stopLipSync]);
+
+  // 描画の一時停止中（タブが裏にある・画面外・描画の停止中）は口形の更新を止める
+  // 音声解析は再開後の最初の更新で止まっていた間の分だけ再生位置を進めて続ける
+  useEffect(() => {
+    const handlePausedChange = () => {
+      const paused = character.isPaused();
+      alignmentSchedulerRef.current?.setPaused(paused);
+
+      if (paused) {
+        if (updateIntervalRef.current) {
+          clearInterval(updateIntervalRef.current);
+          updateIntervalRef.current = null;
+        }
+      } else if (isLipSyncingRef.current) {
+        updateLipSync();
+      }
+    };
+
+    handlePausedChange();
+    return character.subscribePaused(handlePausedChange);
+  }, [character, updateLipSync]);
 
   /**
    * リップシンクを開始
+   * 文単位の再生では各文の再生開始時に呼ばれ、再生中の文のWAVに切り替える
    * @param audioUrl 音声ファイルのURL（WAV形式）
+   * @param volume 再生音量（口の動きの大きさを合わせる）
+   * @param alignment 音声合成のアライメント（ある場合は音声解析の代わりに発音時刻で口を動かす）
    */
-  const startLipSync = useCallback(async (audioUrl: string): Promise<void> => {
+  const startLipSync = useCallback(async (
+    audioUrl: string,
+    volume: number = REFERENCE_VOLUME,
+    alignment?: VoiceAlignmentPlayback
+  ): Promise<void> => {
     logger.log('useLipSyncHandler: リップシンク開始', {
       urlType: audioUrl.startsWith('data:') ? 'Base64 Data URL' : audioUrl.startsWith('blob:') ? 'Blob URL' : 'External URL',
       urlPreview: audioUrl.substring(0, 100),
-      hasWavFileHandler: !!wavFileHandlerRef.current
+      hasWavFileHandler: !!wavFileHandlerRef.current,
+      alignmentUnits: alignment?.units.length ?? 0
     });
 
     // 既存のリップシンクを停止
     stopLipSync();
 
+    // アライメントがあれば再生位置に合わせて口形を切り替える
+    const scheduler = alignmentSchedulerRef.current;
+    if (alignment && scheduler) {
+      scheduler.setOpenScale(getVolumeGain(volume));
+      if (scheduler.start(alignment.units, alignment.getCurrentTime)) {
+        return;
+      }
+      logger.warn('アライメントが空のため音声解析でリップシンクします');
+    }
+
     if (!wavFileHandlerRef.current) {
       logger.error('リップシンク用のオブジェクトが初期化されていません');
       return;
@@ -293,23 +298,26 @@ export function useLipSyncHandler() {
           totalSamples: pcmChannel.length,
           avgAmplitude: avgValue
         });
-
-        // 適切な固定感度を設定（自動調整は行わない）
-        // 一般的な音声データに対して適切な値
-        rmsScaleFactorRef.current = 8;
-        logger.log('感度設定: 固定値', rmsScaleFactorRef.current);
       }
 
+      // 音量設定に合わせた感度を設定（音声データからの自動調整は行わない）
+      const rmsScale = BASE_RMS_SCALE_FACTOR * getVolumeGain(volume);
+      logger.log('感度設定:', rmsScale);
+
+      // WAVのサンプルレートで口形の解析を開始
+      vowelLipSyncRef.current?.dispose();
+      vowelLipSyncRef.current = new VowelLipSync(getLipSyncModel, {
+        sampleRate: wavFileHandlerRef.current._wavFileInfo._samplingRate,
+        rmsScale,
+        silenceThreshold: MIN_LIPSYNC_VALUE / rmsScale,
+        smoothingFactor: LIPSYNC_SMOOTHING_FACTOR
+      });
+
       // サンプル位置とRMS値をリセット（startメソッドの処理を直接実行）
       wavFileHandlerRef.current._sampleOffset = 0;
       wavFileHandlerRef.current._userTimeSeconds = 0.0;
       wavFileHandlerRef.current._lastRms = 0.0;
 
-      // RMSプロセッサをリセット
-      if (rmsProcessorRef.current) {
-        rmsProcessorRef.current.reset();
-      }
-
       // 音声再生開始時刻を記録（タイミング同期のため）
       audioStartTimeRef.current = Date.now();
       lastUpdateTimeRef.current = audioStartTimeRef.current; // 最初の更新時刻も記録
@@ -326,7 +334,7 @@ export function useLipSyncHandler() {
       logger.error('リップシンク開始エラー:', error);
       stopLipSync();
     }
-  }, [stopLipSync, updateLipSync]);
+  }, [getLipSyncModel, stopLipSync, updateLipSync]);
 
   return {
     startLipSync,
@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContextOptimized';
+import {
+  DEFAULT_LIVE2D_MODEL_CATALOG,
+  Live2DModelCatalog,
+  findModel,
+  loadModelCatalog
+} from '@/lib/live2d/modelCatalog';
+import { useCharacterStore } from '@/stores/characterStore';
+
+/**
+ * ログイン中のユーザーが選択したLive2Dモデル
+ * - モデルの一覧はマニフェスト（public/live2d/models.json）から読み込む
+ * - 選択はユーザーごとに保存し、未選択・一覧にないモデルの場合は既定のモデルを返す
+ */
+export function useLive2DModelSelection() {
+  const { user } = useAuth();
+  const [catalog, setCatalog] = useState<Live2DModelCatalog | null>(null);
+  const selectedModelIds = useCharacterStore((state) => state.selectedModelIds);
+  const storeSelectModel = useCharacterStore((state) => state.selectModel);
+  const userId = user ? String(user.id) : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadModelCatalog().then((loaded) => {
+      if (!cancelled) {
+        setCatalog(loaded);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const model = useMemo(
+    () => findModel(catalog ?? DEFAULT_LIVE2D_MODEL_CATALOG, userId ? selectedModelIds[userId] : null),
+    [catalog, userId, selectedModelIds]
+  );
+
+  const selectModel = useCallback((modelId: string) => {
+    if (userId) {
+      storeSelectModel(userId, modelId);
+    }
+  }, [userId, storeSelectModel]);
+
+  return {
+    models: catalog?.models ?? [],
+    model, // カタログの読み込み中は既定のモデル
+    isLoading: catalog === null,
+    selectModel
+  };
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useLive2DCharacter } from '@/contexts/Live2DCharacterContext';
+import type { Quality } from '@/lib/live2d/AdaptiveQualityController';
+
+/**
+ * 表示中のキャラクターの描画品質（自動調整で変わる）
+ * キャラクターを表示していない場合はnull
+ */
+export function useLive2DQuality(): Quality | null {
+  const character = useLive2DCharacter();
+  const subscribe = useCallback((listener: () => void) => character.subscribeQuality(listener), [character]);
+  const getSnapshot = useCallback(() => character.getQuality(), [character]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => null);
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLive2DCharacter } from '@/contexts/Live2DCharacterContext';
+import { getReadyCharacter } from '@/lib/live2d/Live2DCharacterController';
+import { AudioWorkletManager, AudioWorkletData } from '@/lib/live2d/lipsync/AudioWorkletManager';
+import { VowelLipSync } from '@/lib/live2d/lipsync/VowelLipSync';
+
+// 口の動きの更新間隔（サンプル数、48kHzで約10ms）
+const MIRROR_UPDATE_INTERVAL = 512;
+// レイテンシ表示の更新間隔
+const LATENCY_POLL_INTERVAL_MS = 1000;
+
+interface UseMicrophoneLipSyncOptions {
+  paused?: boolean; // 応答の読み上げ中など、一時的に口の制御を止める
+}
+
+/**
+ * ミラーモード：ユーザーのマイク入力でキャラクターの口をリアルタイムに動かす
+ * ページを離れる・非表示になるとマイクを解放して停止する
+ */
+export function useMicrophoneLipSync({ paused = false }: UseMicrophoneLipSyncOptions = {}) {
+  const character = useLive2DCharacter();
+  const [isActive, setIsActive] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isSupported, setIsSupported] = useState(false);
+  const [latencyMs, setLatencyMs] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const managerRef = useRef<AudioWorkletManager | null>(null);
+  const lipSyncRef = useRef<VowelLipSync | null>(null);
+  const pausedRef = useRef(paused);
+
+  // SSR時とのずれを避けるためマウント後に判定
+  useEffect(() => {
+    setIsSupported(!!navigator.mediaDevices?.getUserMedia && typeof AudioWorkletNode !== 'undefined');
+  }, []);
+
+  /**
+   * ミラーモードを停止してマイクを解放
+   */
+  const stop = useCallback(() => {
+    managerRef.current?.dispose();
+    managerRef.current = null;
+    lipSyncRef.current?.dispose();
+    lipSyncRef.current = null;
+    setIsActive(false);
+    setIsStarting(false);
+    setLatencyMs(null);
+  }, []);
+
+  const handleAudio = useCallback((data: AudioWorkletData) => {
+    if (pausedRef.current || !data.samples) {
+      return;
+    }
+    lipSyncRef.current?.process(data.samples);
+  }, []);
+
+  /**
+   * ミラーモードを開始
+   */
+  const start = useCallback(async () => {
+    if (managerRef.current) {
+      return;
+    }
+
+    setIsStarting(true);
+    setError(null);
+
+    const manager = new AudioWorkletManager();
+    managerRef.current = manager;
+    const fail = (message: string) => {
+      stop();
+      setError(message);
+    };
+
+    const initialized = await manager.initialize();
+    // 準備中に停止された場合
+    if (managerRef.current !== manager) {
+      manager.dispose();
+      return;
+    }
+    const context = manager.getContext();
+    if (!initialized || !context) {
+      fail('マイクを初期化できませんでした');
+      return;
+    }
+    manager.setUpdateInterval(MIRROR_UPDATE_INTERVAL);
+    lipSyncRef.current = new VowelLipSync(() => getReadyCharacter(character), { sampleRate: context.sampleRate });
+
+    const started = await manager.startMicrophone(handleAudio);
+    if (managerRef.current !== manager) {
+      manager.dispose();
+      return;
+    }
+    if (!started) {
+      fail('マイクへのアクセスが許可されていません');
+      return;
+    }
+
+    setIsStarting(false);
+    setIsActive(true);
+  }, [character, handleAudio, stop]);
+
+  const toggle = useCallback(() => {
+    if (managerRef.current) {
+      stop();
+    } else {
+      start();
+    }
+  }, [start, stop]);
+
+  useEffect(() => {
+    pausedRef.current = paused;
+    // 一時停止中は他のリップシンクに口の制御を譲る
+    if (paused) {
+      lipSyncRef.current?.reset();
+    }
+  }, [paused]);
+
+  // キャラクターの描画の一時停止中（画面外・描画の停止中）は音声の処理ごと止める
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const handlePausedChange = () => {
+      const context = managerRef.current?.getContext();
+      if (!context) {
+        return;
+      }
+      if (character.isPaused()) {
+        lipSyncRef.current?.reset();
+        if (context.state === 'running') {
+          void context.suspend();
+        }
+      } else if (context.state === 'suspended') {
+        void context.resume();
+      }
+    };
+
+    handlePausedChange();
+    return character.subscribePaused(handlePausedChange);
+  }, [character, isActive]);
+
+  // Workletの処理時間を定期的に表示へ反映
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+    const timer = setInterval(() => {
+      const manager = managerRef.current;
+      if (manager) {
+        setLatencyMs(manager.getLatency());
+      }
+    }, LATENCY_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  // ページ離脱・タブ非表示・アンマウント時はマイクを解放
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        stop();
+      }
+    };
+    window.addEventListener('pagehide', stop);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('pagehide', stop);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      stop();
+    };
+  }, [stop]);
+
+  return { isActive, isStarting, isSupported, latencyMs, error, start, stop, toggle };
+}
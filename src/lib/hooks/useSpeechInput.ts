@@ -0,0 +1,277 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioWorkletManager, AudioWorkletData } from '@/lib/live2d/lipsync/AudioWorkletManager';
+import { SilenceDetector } from '@/lib/live2d/lipsync/SilenceDetector';
+import { getSpeechTranscriber } from '@/services/speechApi';
+import { VoiceInputMode } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+// 無音検出に使うWorkletの更新間隔（サンプル数）
+const SILENCE_UPDATE_INTERVAL = 512;
+// 録音途中の暫定文字起こしの間隔
+const INTERIM_INTERVAL_MS = 1500;
+// ハンズフリーで無音にならない場合の録音上限
+const MAX_RECORDING_MS = 60000;
+
+export type SpeechInputStatus = 'idle' | 'starting' | 'recording' | 'transcribing';
+
+interface UseSpeechInputOptions {
+  mode: VoiceInputMode;
+  onInterim: (text: string) => void;
+  onFinal: (text: string) => void;
+  onError?: (message: string) => void;
+}
+
+const pickMimeType = (): string | undefined => {
+  const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type));
+};
+
+/**
+ * マイク録音と文字起こしによる音声入力
+ * hands-freeモードでは発話後の無音を検出して自動的に録音を終了する
+ */
+export function useSpeechInput({ mode, onInterim, onFinal, onError }: UseSpeechInputOptions) {
+  const [status, setStatus] = useState<SpeechInputStatus>('idle');
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isSupported, setIsSupported] = useState(false);
+
+  const statusRef = useRef<SpeechInputStatus>('idle');
+  const managerRef = useRef<AudioWorkletManager | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const detectorRef = useRef<SilenceDetector | null>(null);
+  const interimControllerRef = useRef<AbortController | null>(null);
+  const maxDurationTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const stopRequestedRef = useRef(false);
+  const cancelledRef = useRef(false);
+  const callbacksRef = useRef({ mode, onInterim, onFinal, onError });
+
+  useEffect(() => {
+    callbacksRef.current = { mode, onInterim, onFinal, onError };
+  }, [mode, onInterim, onFinal, onError]);
+
+  // SSR時とのずれを避けるためマウント後に判定
+  useEffect(() => {
+    setIsSupported(
+      !!navigator.mediaDevices?.getUserMedia &&
+      typeof MediaRecorder !== 'undefined' &&
+      typeof AudioWorkletNode !== 'undefined'
+    );
+  }, []);
+
+  const updateStatus = useCallback((next: SpeechInputStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  /**
+   * マイク・Workletを解放
+   */
+  const releaseMicrophone = useCallback(() => {
+    if (maxDurationTimerRef.current) {
+      clearTimeout(maxDurationTimerRef.current);
+      maxDurationTimerRef.current = null;
+    }
+    managerRef.current?.dispose();
+    managerRef.current = null;
+    detectorRef.current = null;
+    setIsSpeaking(false);
+  }, []);
+
+  /**
+   * 録音を終了して文字起こしする
+   */
+  const stop = useCallback(() => {
+    if (statusRef.current === 'starting') {
+      // マイクの準備完了後に停止する
+      stopRequestedRef.current = true;
+      return;
+    }
+    if (statusRef.current !== 'recording') {
+      return;
+    }
+
+    updateStatus('transcribing');
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop(); // onstopで最終の文字起こしを行う
+    }
+    releaseMicrophone();
+  }, [releaseMicrophone, updateStatus]);
+
+  /**
+   * 録音を破棄して終了
+   */
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+    stop();
+  }, [stop]);
+
+  const requestInterim = useCallback(async (mimeType: string) => {
+    if (interimControllerRef.current || chunksRef.current.length === 0) {
+      return;
+    }
+
+    const controller = new AbortController();
+    interimControllerRef.current = controller;
+    try {
+      const result = await getSpeechTranscriber().transcribe(
+        new Blob(chunksRef.current, { type: mimeType }),
+        { final: false, signal: controller.signal }
+      );
+      if (statusRef.current === 'recording' && !controller.signal.aborted) {
+        callbacksRef.current.onInterim(result.text);
+      }
+    } catch (error) {
+      // 暫定結果の失敗は最終結果で回復できるため記録のみ
+      if (!controller.signal.aborted) {
+        logger.warn('Interim transcription failed:', error);
+      }
+    } finally {
+      if (interimControllerRef.current === controller) {
+        interimControllerRef.current = null;
+      }
+    }
+  }, []);
+
+  const finalize = useCallback(async (mimeType: string) => {
+    interimControllerRef.current?.abort();
+    interimControllerRef.current = null;
+
+    const chunks = chunksRef.current;
+    chunksRef.current = [];
+    recorderRef.current = null;
+
+    if (cancelledRef.current || chunks.length === 0) {
+      updateStatus('idle');
+      return;
+    }
+
+    try {
+      const result = await getSpeechTranscriber().transcribe(
+        new Blob(chunks, { type: mimeType }),
+        { final: true }
+      );
+      callbacksRef.current.onFinal(result.text);
+    } catch (error) {
+      logger.error('Transcription failed:', error);
+      callbacksRef.current.onError?.('音声の文字起こしに失敗しました');
+    } finally {
+      updateStatus('idle');
+    }
+  }, [updateStatus]);
+
+  const handleAudio = useCallback((data: AudioWorkletData) => {
+    const detector = detectorRef.current;
+    if (!detector || !data.samples) {
+      return;
+    }
+
+    // Workletは直近のバッファ全体を送ってくるため、前回以降の分だけを渡す
+    const samples = data.samples.subarray(Math.max(0, data.samples.length - SILENCE_UPDATE_INTERVAL));
+    const event = detector.process(samples, performance.now());
+    if (event === 'speechStart') {
+      setIsSpeaking(true);
+    } else if (event === 'silence') {
+      setIsSpeaking(false);
+      if (callbacksRef.current.mode === 'hands-free') {
+        stop();
+      }
+    }
+  }, [stop]);
+
+  /**
+   * 録音を開始
+   */
+  const start = useCallback(async () => {
+    if (statusRef.current !== 'idle') {
+      return;
+    }
+
+    updateStatus('starting');
+    stopRequestedRef.current = false;
+    cancelledRef.current = false;
+    chunksRef.current = [];
+
+    const manager = new AudioWorkletManager();
+    managerRef.current = manager;
+    const fail = (message: string) => {
+      releaseMicrophone();
+      updateStatus('idle');
+      callbacksRef.current.onError?.(message);
+    };
+
+    if (!(await manager.initialize())) {
+      fail('マイクを初期化できませんでした');
+      return;
+    }
+    manager.setUpdateInterval(SILENCE_UPDATE_INTERVAL);
+    detectorRef.current = new SilenceDetector();
+
+    if (!(await manager.startMicrophone(handleAudio))) {
+      fail('マイクへのアクセスが許可されていません');
+      return;
+    }
+    // 準備中にアンマウント・キャンセルされた場合
+    if (managerRef.current !== manager || cancelledRef.current) {
+      manager.dispose();
+      updateStatus('idle');
+      return;
+    }
+
+    const stream = manager.getStream();
+    if (!stream) {
+      fail('マイクを初期化できませんでした');
+      return;
+    }
+
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const recordedType = recorder.mimeType || mimeType || 'audio/webm';
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunksRef.current.push(event.data);
+        if (recorder.state === 'recording') {
+          requestInterim(recordedType);
+        }
+      }
+    };
+    recorder.onstop = () => {
+      finalize(recordedType);
+    };
+    recorderRef.current = recorder;
+    recorder.start(INTERIM_INTERVAL_MS);
+    updateStatus('recording');
+
+    maxDurationTimerRef.current = setTimeout(() => {
+      maxDurationTimerRef.current = null;
+      stop();
+    }, MAX_RECORDING_MS);
+
+    // 準備中に停止が要求されていた場合（押して話すボタンをすぐ離した等）
+    if (stopRequestedRef.current) {
+      stop();
+    }
+  }, [finalize, handleAudio, releaseMicrophone, requestInterim, stop, updateStatus]);
+
+  // アンマウント時は録音を破棄
+  useEffect(() => {
+    return () => {
+      cancelledRef.current = true;
+      interimControllerRef.current?.abort();
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+      managerRef.current?.dispose();
+      managerRef.current = null;
+      if (maxDurationTimerRef.current) {
+        clearTimeout(maxDurationTimerRef.current);
+      }
+    };
+  }, []);
+
+  return { status, isSpeaking, isSupported, start, stop, cancel };
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, RefObject } from 'react';
+import { computeItemOffsets, findVirtualRange } from '@/utils/virtualList';
+
+interface UseVirtualListOptions {
+  keys: string[]; // 要素ごとの一意なキー（表示順）
+  scrollElementRef: RefObject<HTMLElement | null>;
+  listElementRef?: RefObject<HTMLElement | null>; // 上下の余白と要素を含む要素（スクロール領域内での開始位置の計測用）
+  estimateSize?: number; // 未計測要素の推定高さ(px)
+  overscan?: number;
+}
+
+/**
+ * スクロール領域の先頭からリストの先頭までの距離
+ */
+const measureListOffset = (scrollElement: HTMLElement, listElement: HTMLElement | null | undefined): number =>
+  listElement
+    ? listElement.getBoundingClientRect().top - scrollElement.getBoundingClientRect().top + scrollElement.scrollTop
+    : 0;
+
+/**
+ * 可変高さリストの仮想化
+ * 要素の実際の高さはResizeObserverで計測し、表示範囲外の要素は上下の余白に置き換える
+ * リストより上にヘッダー等がある場合は、その高さを除いたスクロール位置で表示範囲を求める
+ */
+export function useVirtualList({
+  keys,
+  scrollElementRef,
+  listElementRef,
+  estimateSize = 120,
+  overscan = 6
+}: UseVirtualListOptions) {
+  const sizesRef = useRef(new Map<string, number>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const rangeStartRef = useRef(0);
+  const keysRef = useRef(keys);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0, listOffset: 0 });
+
+  useEffect(() => {
+    keysRef.current = keys;
+  }, [keys]);
+
+  const offsets = useMemo(
+    () => computeItemOffsets(keys.map((key) => sizesRef.current.get(key) ?? estimateSize)),
+    // measureVersionは計測結果の更新を反映するため
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [keys, estimateSize, measureVersion]
+  );
+
+  const range = useMemo(
+    () => findVirtualRange(offsets, viewport.scrollTop, viewport.height, overscan, viewport.listOffset),
+    [offsets, viewport, overscan]
+  );
+
+  useEffect(() => {
+    rangeStartRef.current = range.start;
+  }, [range.start]);
+
+  const updateViewport = useCallback(() => {
+    const element = scrollElementRef.current;
+    if (!element) {
+      return;
+    }
+    const next = {
+      scrollTop: element.scrollTop,
+      height: element.clientHeight,
+      listOffset: measureListOffset(element, listElementRef?.current)
+    };
+    setViewport((prev) =>
+      prev.scrollTop === next.scrollTop && prev.height === next.height && prev.listOffset === next.listOffset
+        ? prev
+        : next
+    );
+  }, [scrollElementRef, listElementRef]);
+
+  // リストより上の要素（読み込み中の表示等）の変化でリストの開始位置がずれるため、描画ごとに計測し直す
+  useLayoutEffect(() => {
+    updateViewport();
+  });
+
+  // スクロール・リサイズに追従（requestAnimationFrameで間引く）
+  useEffect(() => {
+    const element = scrollElementRef.current;
+    if (!element) {
+      return;
+    }
+
+    let frameId: number | null = null;
+    const update = () => {
+      frameId = null;
+      updateViewport();
+    };
+    const handleScroll = () => {
+      if (frameId === null) {
+        frameId = requestAnimationFrame(update);
+      }
+    };
+
+    update();
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    const resizeObserver = new ResizeObserver(handleScroll);
+    resizeObserver.observe(element);
+
+    return () => {
+      element.removeEventListener('scroll', handleScroll);
+      resizeObserver.disconnect();
+      if (frameId !== null) {
+        cancelAnimationFrame(frameId);
+      }
+    };
+  }, [scrollElementRef, updateViewport]);
+
+  const estimateSizeRef = useRef(estimateSize);
+  useEffect(() => {
+    estimateSizeRef.current = estimateSize;
+  }, [estimateSize]);
+
+  // 要素の高さを計測するObserver（最初の要素のref設定時に生成）
+  const getObserver = useCallback(() => {
+    if (observerRef.current) {
+      return observerRef.current;
+    }
+
+    observerRef.current = new ResizeObserver((entries) => {
+      let changed = false;
+      let scrollAdjustment = 0;
+
+      entries.forEach((entry) => {
+        const key = (entry.target as HTMLElement).dataset.virtualKey;
+        if (!key) {
+          return;
+        }
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+        const previous = sizesRef.current.get(key) ?? estimateSizeRef.current;
+        if (Math.abs(previous - height) < 0.5) {
+          return;
+        }
+
+        sizesRef.current.set(key, height);
+        changed = true;
+
+        // 表示位置より上の要素の高さが変わった場合は見えている内容がずれないよう補正
+        if (keysRef.current.indexOf(key) < rangeStartRef.current) {
+          scrollAdjustment += height - previous;
+        }
+      });
+
+      if (scrollAdjustment !== 0 && scrollElementRef.current) {
+        scrollElementRef.current.scrollTop += scrollAdjustment;
+      }
+      if (changed) {
+        setMeasureVersion((v) => v + 1);
+      }
+    });
+    return observerRef.current;
+  }, [scrollElementRef]);
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  // 削除された要素の計測結果を破棄
+  useEffect(() => {
+    const keySet = new Set(keys);
+    sizesRef.current.forEach((_, key) => {
+      if (!keySet.has(key)) {
+        sizesRef.current.delete(key);
+      }
+    });
+  }, [keys]);
+
+  /**
+   * 要素のref。data-virtual-key属性を付けた要素に渡す
+   */
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) {
+      return;
+    }
+    const observer = getObserver();
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [getObserver]);
+
+  return {
+    range,
+    paddingTop: offsets[range.start] ?? 0,
+    paddingBottom: (offsets[offsets.length - 1] ?? 0) - (offsets[range.end] ?? 0),
+    measureElement
+  };
+}
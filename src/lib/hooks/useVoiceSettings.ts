@@ -0,0 +1,31 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContextOptimized';
+import { getVoiceSettings, useChatStore } from '@/stores/chatStore';
+import { VoiceSettings } from '@/types/voice';
+
+/**
+ * ログイン中のユーザーの読み上げ設定（話者・話速・高さ・音量）
+ * - 設定はユーザーごとに保存し、同じブラウザで別のユーザーがログインしても共有しない
+ * - 未ログインの場合は既定値を返し、変更は保存しない
+ */
+export function useVoiceSettings() {
+  const { user } = useAuth();
+  const voiceSettingsByUser = useChatStore((state) => state.voiceSettingsByUser);
+  const storeUpdateVoiceSettings = useChatStore((state) => state.updateVoiceSettings);
+  const userId = user ? String(user.id) : null;
+
+  const voiceSettings = useMemo(
+    () => getVoiceSettings(voiceSettingsByUser, userId),
+    [voiceSettingsByUser, userId]
+  );
+
+  const updateVoiceSettings = useCallback((settings: Partial<VoiceSettings>) => {
+    if (userId) {
+      storeUpdateVoiceSettings(userId, settings);
+    }
+  }, [userId, storeUpdateVoiceSettings]);
+
+  return { voiceSettings, updateVoiceSettings };
+}
@@ -0,0 +1,173 @@
+/**
+ * 描画品質の自動調整
+ * PerformanceMonitorのレポートを一定間隔で確認し、フレームレートが目標を下回り続けたら品質を1段階下げ、
+ * 1段階上の品質の目標FPSでも描画できる状態が続いたら1段階上げる
+ *
+ * - 品質ごとに描画解像度・クリッピングマスクのサイズ・物理演算の更新レート・目標FPSを切り替える
+ * - 上げた直後に下げることになった品質は、次に上げるまでに必要な確認回数を倍にする（品質の行き来を防ぐ）
+ * - 品質を変えた直後のレポートは前の品質での計測値なので、数回分は判定しない
+ * - PerformanceMonitorのCPU使用率はサンプリング間隔からの推定値で当てにならないため、FPSと描画時間で判定する
+ * - 描画ループは品質の目標FPSで上限を掛けている（lowは30FPS）ため、上げられるかはFPSではなく
+ *   1フレームの描画時間が上の品質の目標FPSの1フレームに収まるかで判断する
+ *   （FPSで判断すると、30FPSしか出ない端末がlowとmediumを行き来し続ける）
+ */
+
+import type { PerformanceReport } from './PerformanceMonitor';
+
+export type Quality = 'low' | 'medium' | 'high';
+
+export interface QualitySettings {
+  resolutionScale: number; // 描画解像度（devicePixelRatioに掛ける倍率）
+  clippingMaskSize: number; // クリッピングマスクのバッファサイズ（px）
+  physicsFps: number; // 物理演算の更新レート（physics3.jsonの設定より高くはしない）
+  targetFPS: number;
+}
+
+// 低い順
+export const QUALITY_LEVELS: readonly Quality[] = ['low', 'medium', 'high'];
+
+export const QUALITY_SETTINGS: Record<Quality, QualitySettings> = {
+  high: { resolutionScale: 1.0, clippingMaskSize: 512, physicsFps: 60, targetFPS: 60 },
+  medium: { resolutionScale: 0.75, clippingMaskSize: 256, physicsFps: 30, targetFPS: 60 },
+  low: { resolutionScale: 0.5, clippingMaskSize: 128, physicsFps: 20, targetFPS: 30 }
+};
+
+/**
+ * 品質を調整する対象（NativeLive2DWrapperが満たす）
+ */
+export interface QualityTarget {
+  getPerformanceReport(): PerformanceReport | null;
+  getQuality(): Quality;
+  setQuality(quality: Quality): void;
+}
+
+export interface AdaptiveQualityOptions {
+  sampleIntervalMs: number; // レポートを確認する間隔
+  downgradeRatio: number; // 目標FPSに対してこの割合を下回ったら不足
+  upgradeRatio: number; // 目標FPSに対してこの割合以上、かつ描画時間が上の品質の1フレームに対してこの割合以下なら余裕あり
+  downgradeSamples: number; // 品質を下げるまでに必要な連続した不足の回数
+  upgradeSamples: number; // 品質を上げるまでに必要な連続した余裕ありの回数
+  settleSamples: number; // 品質を変えた直後に判定しない回数
+  maxUpgradeBackoff: number; // upgradeSamplesに掛ける倍率の上限
+}
+
+const DEFAULT_OPTIONS: AdaptiveQualityOptions = {
+  sampleIntervalMs: 2000,
+  downgradeRatio: 0.8,
+  upgradeRatio: 0.95,
+  downgradeSamples: 3,
+  upgradeSamples: 10,
+  settleSamples: 2,
+  maxUpgradeBackoff: 8
+};
+
+export class AdaptiveQualityController {
+  private readonly options: AdaptiveQualityOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lowSamples = 0;
+  private highSamples = 0;
+  private settleRemaining = 0;
+  // 品質ごとの、その品質へ上げるまでに必要な確認回数の倍率
+  private upgradeBackoff: Record<Quality, number> = { low: 1, medium: 1, high: 1 };
+  // 上げた後に安定するまでの品質（この間に下げた場合は次に上げるまでの回数を倍にする）
+  private probation: { quality: Quality; remaining: number } | null = null;
+
+  constructor(private readonly target: QualityTarget, options: Partial<AdaptiveQualityOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * 一定間隔でのレポートの確認を開始する
+   */
+  public start(): void {
+    if (this.timer !== null) {
+      return;
+    }
+    this.resetSamples();
+    this.settleRemaining = this.options.settleSamples;
+    this.timer = setInterval(() => this.sample(), this.options.sampleIntervalMs);
+  }
+
+  public stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * レポートを1回確認し、必要なら品質を変える（start()中は一定間隔で呼ばれる）
+   */
+  public sample(): void {
+    const report = this.target.getPerformanceReport();
+    // 描画していない間（非表示・タブが裏にある等）はFPSが0になるため判定しない
+    if (!report || report.currentFPS <= 0) {
+      this.resetSamples();
+      return;
+    }
+    if (this.settleRemaining > 0) {
+      this.settleRemaining--;
+      return;
+    }
+
+    const quality = this.target.getQuality();
+    const { targetFPS } = QUALITY_SETTINGS[quality];
+    const index = QUALITY_LEVELS.indexOf(quality);
+    const next = QUALITY_LEVELS[index + 1];
+    if (report.currentFPS < targetFPS * this.options.downgradeRatio) {
+      this.lowSamples++;
+      this.highSamples = 0;
+    } else if (next && this.hasHeadroomFor(next, report)) {
+      this.highSamples++;
+      this.lowSamples = 0;
+    } else {
+      this.resetSamples();
+    }
+
+    if (this.probation?.quality === quality && --this.probation.remaining <= 0) {
+      // 上げた品質で安定したので、次からは通常の回数で上げる
+      this.upgradeBackoff[quality] = 1;
+      this.probation = null;
+    }
+
+    if (this.lowSamples >= this.options.downgradeSamples && index > 0) {
+      if (this.probation?.quality === quality) {
+        this.upgradeBackoff[quality] = Math.min(this.upgradeBackoff[quality] * 2, this.options.maxUpgradeBackoff);
+      }
+      this.probation = null;
+      this.changeQuality(QUALITY_LEVELS[index - 1]);
+      return;
+    }
+
+    if (next && this.highSamples >= this.options.upgradeSamples * this.upgradeBackoff[next]) {
+      this.probation = { quality: next, remaining: this.options.upgradeSamples };
+      this.changeQuality(next);
+    }
+  }
+
+  /**
+   * 上の品質の目標FPSでも描画できる余裕があるか
+   */
+  private hasHeadroomFor(next: Quality, report: PerformanceReport): boolean {
+    const { targetFPS } = QUALITY_SETTINGS[this.target.getQuality()];
+    const frameBudget = 1000 / QUALITY_SETTINGS[next].targetFPS;
+    return report.currentFPS >= targetFPS * this.options.upgradeRatio &&
+      report.renderTime > 0 &&
+      report.renderTime <= frameBudget * this.options.upgradeRatio;
+  }
+
+  private changeQuality(quality: Quality): void {
+    this.target.setQuality(quality);
+    this.resetSamples();
+    this.settleRemaining = this.options.settleSamples;
+  }
+
+  private resetSamples(): void {
+    this.lowSamples = 0;
+    this.highSamples = 0;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * EmotionExpressionController
+ * メッセージから検出された感情に応じてLive2Dキャラクターの表情・モーションを切り替える
+ *
+ * - 最も強い感情をマッピングに従って表情（exp3）とモーショングループに変換
+ * - 感情の強度に応じた時間だけ表情を維持し、その後Neutralに戻す
+ */
+
+import type { Emotion } from '@/types/chat';
+import { PriorityNormal } from './demo/lappdefine';
+
+export interface EmotionExpressionMapping {
+  expression: string; // model3.jsonのExpressions[].Name
+  motionGroup?: string; // model3.jsonのMotionsのグループ名
+}
+
+export interface EmotionExpressionConfig {
+  mappings: Record<string, EmotionExpressionMapping>; // 感情名 → 表情・モーション
+  neutralExpression: string; // 減衰後に戻す表情
+  minIntensity: number; // これ未満の強度の感情には反応しない（0〜1）
+  minHoldDurationMs: number; // 強度0の場合の表情維持時間
+  maxHoldDurationMs: number; // 強度1の場合の表情維持時間
+  motionPriority: number;
+}
+
+/**
+ * 表情・モーションの適用先（LAppModelBaseが満たす）
+ */
+export interface ExpressionTarget {
+  setExpression(expressionId: string): void;
+  startRandomMotion(group: string, priority: number): unknown;
+}
+
+// nike01モデル用のデフォルトマッピング
+export const DEFAULT_EMOTION_EXPRESSION_MAPPINGS: Record<string, EmotionExpressionMapping> = {
+  // ポジティブな感情
+  joy: { expression: 'Happy', motionGroup: 'Happy' },
+  love: { expression: 'Happy2', motionGroup: 'Happy' },
+  trust: { expression: 'Happy' },
+  gratitude: { expression: 'Happy2', motionGroup: 'Happy' },
+  hope: { expression: 'Happy' },
+  relief: { expression: 'Happy', motionGroup: 'Relaxed' },
+  pride: { expression: 'Happy2' },
+  contentment: { expression: 'Happy', motionGroup: 'Relaxed' },
+  anticipation: { expression: 'Focus' },
+
+  // ネガティブな感情
+  sadness: { expression: 'Sad', motionGroup: 'Sad' },
+  anger: { expression: 'Angry', motionGroup: 'Angry' },
+  fear: { expression: 'Troubled' },
+  anxiety: { expression: 'Troubled' },
+  frustration: { expression: 'Zitome' },
+  guilt: { expression: 'Troubled' },
+  shame: { expression: 'Troubled' },
+  disappointment: { expression: 'Sad2' },
+  loneliness: { expression: 'Sad2', motionGroup: 'Sad' },
+  disgust: { expression: 'NoSmile' },
+
+  // ニュートラルな感情
+  surprise: { expression: 'Focus' }
+};
+
+export const DEFAULT_EMOTION_EXPRESSION_CONFIG: EmotionExpressionConfig = {
+  mappings: DEFAULT_EMOTION_EXPRESSION_MAPPINGS,
+  neutralExpression: 'Neutral',
+  minIntensity: 0.2,
+  minHoldDurationMs: 3000,
+  maxHoldDurationMs: 10000,
+  motionPriority: PriorityNormal
+};
+
+export class EmotionExpressionController {
+  private config: EmotionExpressionConfig;
+  private getTarget: () => ExpressionTarget | null;
+  private decayTimer: ReturnType<typeof setTimeout> | null = null;
+  private currentExpression: string;
+
+  /**
+   * @param getTarget 表情を適用するモデルを返す関数（未ロード時はnull）
+   * @param config マッピング等の設定（省略した項目はデフォルト値）
+   */
+  constructor(getTarget: () => ExpressionTarget | null, config: Partial<EmotionExpressionConfig> = {}) {
+    this.getTarget = getTarget;
+    this.config = { ...DEFAULT_EMOTION_EXPRESSION_CONFIG, ...config };
+    this.currentExpression = this.config.neutralExpression;
+  }
+
+  /**
+   * 感情リストから最も強い感情を選び、表情・モーションを適用する
+   * @returns 適用したマッピング（反応しなかった場合はnull）
+   */
+  public applyEmotions(emotions: Emotion[]): EmotionExpressionMapping | null {
+    const dominant = this.selectDominantEmotion(emotions);
+    if (!dominant) {
+      return null;
+    }
+
+    const mapping = this.config.mappings[dominant.name];
+    const target = this.getTarget();
+    if (!mapping || !target) {
+      return null;
+    }
+
+    target.setExpression(mapping.expression);
+    if (mapping.motionGroup) {
+      target.startRandomMotion(mapping.motionGroup, this.config.motionPriority);
+    }
+    this.currentExpression = mapping.expression;
+
+    this.scheduleDecay(this.getHoldDuration(dominant.intensity));
+    return mapping;
+  }
+
+  /**
+   * 反応対象となる最も強い感情を選ぶ（マッピングのない感情は除外）
+   */
+  public selectDominantEmotion(emotions: Emotion[]): Emotion | null {
+    let dominant: Emotion | null = null;
+    for (const emotion of emotions) {
+      if (!this.config.mappings[emotion.name] || emotion.intensity < this.config.minIntensity) {
+        continue;
+      }
+      if (!dominant || emotion.intensity > dominant.intensity) {
+        dominant = emotion;
+      }
+    }
+    return dominant;
+  }
+
+  /**
+   * 強度に応じた表情の維持時間
+   */
+  public getHoldDuration(intensity: number): number {
+    const { minHoldDurationMs, maxHoldDurationMs } = this.config;
+    const clamped = Math.min(1, Math.max(0, intensity));
+    return minHoldDurationMs + (maxHoldDurationMs - minHoldDurationMs) * clamped;
+  }
+
+  /**
+   * Neutralの表情に戻す
+   */
+  public resetToNeutral(): void {
+    this.clearDecayTimer();
+    const target = this.getTarget();
+    if (target && this.currentExpression !== this.config.neutralExpression) {
+      target.setExpression(this.config.neutralExpression);
+    }
+    this.currentExpression = this.config.neutralExpression;
+  }
+
+  public getCurrentExpression(): string {
+    return this.currentExpression;
+  }
+
+  public getConfig(): EmotionExpressionConfig {
+    return { ...this.config };
+  }
+
+  public updateConfig(config: Partial<EmotionExpressionConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * タイマーを解放する（表情は変更しない）
+   */
+  public dispose(): void {
+    this.clearDecayTimer();
+  }
+
+  private scheduleDecay(durationMs: number): void {
+    this.clearDecayTimer();
+    this.decayTimer = setTimeout(() => {
+      this.decayTimer = null;
+      this.resetToNeutral();
+    }, durationMs);
+  }
+
+  private clearDecayTimer(): void {
+    if (this.decayTimer) {
+      clearTimeout(this.decayTimer);
+      this.decayTimer = null;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * 描画ループのフレーム間引きと統計
+ * requestAnimationFrameのコールバックごとに呼び、目標FPSに達した時刻だけフレームを描画させる
+ * メインスレッド（NativeLive2DWrapper）とワーカー（live2d.worker.ts）の描画ループで共有する
+ *
+ * - 低フレームレートの端末でも描画が止まらないよう、フレームはスキップせず前回描画からの経過時間で動きを進める
+ * - FPSと1フレームの描画時間の平均は1秒ごとに更新する（描画時間はFPSと違い目標FPSの影響を受けない）
+ */
+
+export class FramePacer {
+  private targetFPS = 60;
+  private lastFrameTime = 0;
+  private lastRenderTime = 0;
+  private fpsUpdateTime = 0;
+  private frameCount = 0;
+  private fps = 0;
+  private renderTime = 0;
+  private renderTimeSum = 0;
+  private renderTimeFrames = 0;
+
+  /**
+   * @param onStats FPS・描画時間を更新したときに呼ぶ
+   * @param now 現在時刻（ms）
+   */
+  constructor(
+    private readonly onStats: ((fps: number, renderTime: number) => void) | null = null,
+    private readonly now: () => number = () => performance.now()
+  ) {}
+
+  /**
+   * 描画ループの開始時に呼ぶ
+   * 停止していた間の時間でモーション・物理演算が飛ばないよう、経過時間の基準を現在時刻に合わせる
+   */
+  public reset(): void {
+    this.lastFrameTime = this.now();
+    this.lastRenderTime = this.lastFrameTime;
+    this.fpsUpdateTime = this.lastFrameTime;
+    this.frameCount = 0;
+    this.renderTimeSum = 0;
+    this.renderTimeFrames = 0;
+  }
+
+  /**
+   * 描画ループの停止時に呼ぶ（FPSを0にする。描画時間は最後の値を残す）
+   */
+  public stop(): void {
+    this.fps = 0;
+  }
+
+  /**
+   * 目標FPSに達していればフレームを描画する
+   * @param render 前回描画からの経過時間（秒）で描画する。描画できなかった場合はfalseを返す
+   * @returns フレームを描画する時刻だった場合はtrue
+   */
+  public frame(render: (deltaTime: number, currentTime: number) => boolean): boolean {
+    const currentTime = this.now();
+    const deltaTime = currentTime - this.lastFrameTime;
+    const targetFrameTime = 1000 / this.targetFPS;
+
+    if (deltaTime < targetFrameTime) {
+      return false;
+    }
+
+    this.frameCount++;
+    if (currentTime - this.fpsUpdateTime >= 1000) {
+      this.fps = this.frameCount;
+      if (this.renderTimeFrames > 0) {
+        this.renderTime = this.renderTimeSum / this.renderTimeFrames;
+      }
+      this.frameCount = 0;
+      this.fpsUpdateTime = currentTime;
+      this.renderTimeSum = 0;
+      this.renderTimeFrames = 0;
+      this.onStats?.(this.fps, this.renderTime);
+    }
+
+    if (render((currentTime - this.lastRenderTime) / 1000, currentTime)) {
+      this.lastRenderTime = currentTime;
+      this.renderTimeSum += this.now() - currentTime;
+      this.renderTimeFrames++;
+    }
+
+    // 目標FPSの間隔からのずれを次のフレームに持ち越し、フレームレートを安定させる
+    this.lastFrameTime = currentTime - (deltaTime % targetFrameTime);
+    return true;
+  }
+
+  public setTargetFPS(fps: number): void {
+    this.targetFPS = fps;
+  }
+
+  public getTargetFPS(): number { return this.targetFPS; }
+  public getFPS(): number { return this.fps; }
+  public getRenderTime(): number { return this.renderTime; }
+}
@@ -0,0 +1,272 @@
+/**
+ * Live2DCharacterController
+ * コンポーネント・フックからLive2Dキャラクターを操作するための公開API
+ *
+ * - 表情・モーション・リップシンク・視線・表示切り替えを型付きのメソッドで提供
+ * - 描画側（Live2DCanvas）がattach()したデリゲートのモデルを操作する
+ * - SDKサンプル実装（Subdelegate・モデル）の内部構造はこのクラスの中だけで扱う
+ * - モデルの読み込み前・破棄後の呼び出しは何もしない（isReady()で確認可能）
+ */
+
+import { PriorityNormal } from './demo/lappdefine';
+import { InvalidMotionQueueEntryHandleValue } from './framework/motion/cubismmotionqueuemanager';
+import type { Quality } from './AdaptiveQualityController';
+import type { ExpressionTarget } from './EmotionExpressionController';
+import type { MouthTarget } from './lipsync/VowelLipSync';
+
+/**
+ * キャラクター操作のAPI（テストではこのインターフェースをモックする）
+ */
+export interface Live2DCharacter extends MouthTarget, ExpressionTarget {
+  attach(delegate: CharacterDelegate): () => void;
+  isReady(): boolean;
+  setExpression(expressionId: string): void;
+  startMotion(group: string, index: number, priority?: number): boolean;
+  startRandomMotion(group: string, priority?: number): boolean;
+  setLipSyncValue(value: number): void;
+  setMouthFormValue(value: number | null): void;
+  lookAt(x: number, y: number): void;
+  resetGaze(): void;
+  setVisible(visible: boolean): void;
+  isVisible(): boolean;
+  isPaused(): boolean;
+  subscribePaused(listener: () => void): () => void;
+  setMotionsDisabled(disable: boolean): void;
+  getQuality(): Quality | null;
+  subscribeQuality(listener: () => void): () => void;
+}
+
+/**
+ * 操作対象のモデル（LAppModelが満たす）
+ */
+export interface CharacterModel {
+  setExpression(expressionId: string): void;
+  startMotion(group: string, no: number, priority: number): unknown;
+  startRandomMotion(group: string, priority: number): unknown;
+  setLipSyncValue(value: number): void;
+  setMouthFormValue(value: number | null): void;
+  setMousePosition(x: number, y: number): void;
+  resetMousePosition(): void;
+}
+
+/**
+ * モデルと描画先canvasを保持する単位（LAppSubdelegate・OffscreenLive2DClientが満たす）
+ */
+export interface CharacterSubdelegate {
+  getCanvas(): HTMLCanvasElement | OffscreenCanvas | null;
+  getLive2DManager(): { getModel(index?: number): CharacterModel | null } | null;
+}
+
+/**
+ * 描画を担当するデリゲート（NativeLive2DWrapper・LAppDelegateが満たす）
+ */
+export interface CharacterDelegate {
+  getSubdelegate(index?: number): CharacterSubdelegate | null;
+  setDisableMotions(disable: boolean): void;
+  isPaused?(): boolean;
+  isRendering?(): boolean;
+  onPausedChange?(listener: () => void): () => void;
+  getQuality?(): Quality;
+  onQualityChange?(listener: (quality: Quality) => void): () => void;
+}
+
+export class Live2DCharacterController implements Live2DCharacter {
+  private delegates: CharacterDelegate[] = [];
+  private visible = true;
+  private qualityListeners: Set<() => void> = new Set();
+  private unsubscribeQuality: (() => void) | null = null;
+  private pausedListeners: Set<() => void> = new Set();
+  private unsubscribePaused: (() => void) | null = null;
+
+  /**
+   * 操作対象のデリゲートを登録（複数ある場合は最後に登録したものを操作する）
+   * @returns 登録を解除する関数
+   */
+  public attach(delegate: CharacterDelegate): () => void {
+    this.delegates.push(delegate);
+    if (!this.visible) {
+      this.setVisible(false);
+    }
+    this.watchQuality();
+    this.watchPaused();
+
+    return () => {
+      this.delegates = this.delegates.filter((attached) => attached !== delegate);
+      this.watchQuality();
+      this.watchPaused();
+    };
+  }
+
+  /**
+   * モデルが読み込まれ、操作できる状態か
+   */
+  public isReady(): boolean {
+    return this.getModel() !== null;
+  }
+
+  public setExpression(expressionId: string): void {
+    this.getModel()?.setExpression(expressionId);
+  }
+
+  /**
+   * グループ内の指定したモーションを再生
+   * @returns 再生を開始できた場合はtrue
+   */
+  public startMotion(group: string, index: number, priority: number = PriorityNormal): boolean {
+    const model = this.getModel();
+    if (!model) {
+      return false;
+    }
+    return model.startMotion(group, index, priority) !== InvalidMotionQueueEntryHandleValue;
+  }
+
+  /**
+   * グループ内のランダムなモーションを再生
+   * @returns 再生を開始できた場合はtrue
+   */
+  public startRandomMotion(group: string, priority: number = PriorityNormal): boolean {
+    const model = this.getModel();
+    if (!model) {
+      return false;
+    }
+    return model.startRandomMotion(group, priority) !== InvalidMotionQueueEntryHandleValue;
+  }
+
+  /**
+   * 口の開き（0.0〜1.0）。0で音声ファイルの解析値に戻す
+   */
+  public setLipSyncValue(value: number): void {
+    this.getModel()?.setLipSyncValue(value);
+  }
+
+  /**
+   * 口の形（-1.0〜1.0）。nullでモーション・表情の値に戻す
+   */
+  public setMouthFormValue(value: number | null): void {
+    this.getModel()?.setMouthFormValue(value);
+  }
+
+  /**
+   * 視線を向ける（モデル座標、-1.0〜1.0）
+   */
+  public lookAt(x: number, y: number): void {
+    const clamp = (value: number) => Math.min(1, Math.max(-1, value));
+    this.getModel()?.setMousePosition(clamp(x), clamp(y));
+  }
+
+  /**
+   * 視線を正面に戻す
+   */
+  public resetGaze(): void {
+    this.getModel()?.resetMousePosition();
+  }
+
+  /**
+   * キャラクターの表示・非表示を切り替える（描画先canvasの表示を切り替える）
+   */
+  public setVisible(visible: boolean): void {
+    this.visible = visible;
+    const canvas = this.getSubdelegate()?.getCanvas();
+    if (canvas && 'style' in canvas) {
+      canvas.style.visibility = visible ? '' : 'hidden';
+    }
+  }
+
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  /**
+   * タブが裏にある・画面外にある・WebGLコンテキストの消失中・描画の停止中のため描画していないか
+   * （一時停止中は口形の解析等、見た目にしか影響しない処理を省ける）
+   */
+  public isPaused(): boolean {
+    const delegate = this.getDelegate();
+    if (!delegate) {
+      return false;
+    }
+    return (delegate.isPaused?.() ?? false) || delegate.isRendering?.() === false;
+  }
+
+  /**
+   * 描画の一時停止・再開・操作対象の変更を購読する
+   * @returns 購読を解除する関数
+   */
+  public subscribePaused(listener: () => void): () => void {
+    this.pausedListeners.add(listener);
+    return () => {
+      this.pausedListeners.delete(listener);
+    };
+  }
+
+  /**
+   * アイドル等のモーションを無効化する（初期化前に呼んだ場合は初期化時に反映）
+   */
+  public setMotionsDisabled(disable: boolean): void {
+    this.getDelegate()?.setDisableMotions(disable);
+  }
+
+  /**
+   * 描画品質（自動調整で変わる）。品質を持たない場合・未登録の場合はnull
+   */
+  public getQuality(): Quality | null {
+    return this.getDelegate()?.getQuality?.() ?? null;
+  }
+
+  /**
+   * 描画品質・操作対象の変更を購読する（useSyncExternalStore用）
+   * @returns 購読を解除する関数
+   */
+  public subscribeQuality(listener: () => void): () => void {
+    this.qualityListeners.add(listener);
+    return () => {
+      this.qualityListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 操作対象のデリゲートの描画品質の変更を購読し直す
+   */
+  private watchQuality(): void {
+    this.unsubscribeQuality?.();
+    this.unsubscribeQuality = this.getDelegate()?.onQualityChange?.(() => this.notifyQuality()) ?? null;
+    this.notifyQuality();
+  }
+
+  private notifyQuality(): void {
+    this.qualityListeners.forEach((listener) => listener());
+  }
+
+  /**
+   * 操作対象のデリゲートの一時停止・再開を購読し直す
+   */
+  private watchPaused(): void {
+    this.unsubscribePaused?.();
+    this.unsubscribePaused = this.getDelegate()?.onPausedChange?.(() => this.notifyPaused()) ?? null;
+    this.notifyPaused();
+  }
+
+  private notifyPaused(): void {
+    this.pausedListeners.forEach((listener) => listener());
+  }
+
+  private getDelegate(): CharacterDelegate | null {
+    return this.delegates[this.delegates.length - 1] ?? null;
+  }
+
+  private getSubdelegate(): CharacterSubdelegate | null {
+    return this.getDelegate()?.getSubdelegate(0) ?? null;
+  }
+
+  private getModel(): CharacterModel | null {
+    return this.getSubdelegate()?.getLive2DManager()?.getModel(0) ?? null;
+  }
+}
+
+/**
+ * モデルが操作できる場合のみキャラクターを返す
+ * （リップシンク・表情の制御クラスに渡す getTarget 用）
+ */
+export function getReadyCharacter(character: Live2DCharacter): Live2DCharacter | null {
+  return character.isReady() ? character : null;
+}
@@ -0,0 +1,642 @@
+/**
+ * Live2Dモデル（model3.json）の検証
+ * モデルのフォルダが壊れていると、LAppModelBase.loadAssetsはログを出すだけでLoadStepの途中で止まってしまう。
+ * 読み込みの前に参照ファイル・パラメータIDを調べ、原因を診断結果（レポート）として返す。
+ *
+ * - model3.jsonはCubismModelSettingJson、その他のJSONはCubismJsonで読み込む（実行時と同じパーサー）
+ * - 表情・モーション・物理演算・目パチ/リップシンクのパラメータIDはmocのパラメータと照合する
+ * - Cubism Coreが読み込まれていない環境（Jest等）ではmocを解析できないため、cdi3.jsonのパラメータと照合する
+ * - ファイルの読み込みは差し替えられる（既定はfetch）
+ */
+
+import { CubismModelSettingJson } from './framework/cubismmodelsettingjson';
+import { CubismJson, Value } from './framework/utils/cubismjson';
+import { EmotionExpressionMapping } from './EmotionExpressionController';
+import { MotionGroupIdle } from './demo/lappdefine';
+import { splitModelUrl } from './modelCatalog';
+
+export type ModelDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// 診断の対象（どの読み込み段階で問題になるか）
+export type ModelDiagnosticStage =
+  | 'model'
+  | 'moc'
+  | 'texture'
+  | 'expression'
+  | 'physics'
+  | 'pose'
+  | 'userData'
+  | 'displayInfo'
+  | 'motion'
+  | 'groups'
+  | 'emotion';
+
+export type ModelDiagnosticCode =
+  | 'file-not-found' // 参照しているファイルがない
+  | 'invalid-json' // JSONとして読み込めない
+  | 'missing-reference' // 必須の参照（Moc等）がない
+  | 'invalid-moc' // mocとして読み込めない
+  | 'unknown-parameter' // mocにないパラメータID
+  | 'unknown-part' // mocにないパーツID
+  | 'duplicate-expression' // 同じ名前の表情が複数ある
+  | 'unknown-expression' // 感情のマッピング等が存在しない表情を指定している
+  | 'unknown-motion-group' // 感情のマッピング等が存在しないモーショングループを指定している
+  | 'parameters-unverified'; // mocを解析できずパラメータIDを照合していない
+
+export interface ModelDiagnostic {
+  severity: ModelDiagnosticSeverity;
+  code: ModelDiagnosticCode;
+  stage: ModelDiagnosticStage;
+  message: string;
+  file?: string; // model3.jsonからの相対パス
+  id?: string; // 問題のパラメータID・表情名・モーショングループ名など
+}
+
+export interface ModelDiagnosticsReport {
+  modelUrl: string;
+  ok: boolean; // errorがない（読み込みが途中で止まらない）
+  diagnostics: ModelDiagnostic[];
+  parameterSource: 'moc' | 'displayInfo' | null; // パラメータIDの照合に使ったデータ
+  checkedFiles: number;
+}
+
+/**
+ * mocから読み取ったID
+ */
+export interface MocInfo {
+  parameterIds: string[];
+  partIds: string[];
+}
+
+/**
+ * モデルのファイルの読み込み
+ */
+export interface ModelFileSource {
+  read(url: string): Promise<ArrayBuffer | null>; // 存在しない場合はnull
+  exists(url: string): Promise<boolean>; // テクスチャ等、中身を読まなくてよいファイル用
+}
+
+export interface Live2DModelValidatorOptions {
+  fileSource?: ModelFileSource;
+  inspectMoc?: (moc: ArrayBuffer) => MocInfo | null; // mocとして読み込めない場合はnull（例外を投げた場合も同様）
+}
+
+/**
+ * 感情のマッピングなど、モデルに存在すべき表情・モーショングループ
+ */
+export interface ModelExpectations {
+  neutralExpression?: string;
+  emotions?: Record<string, EmotionExpressionMapping>;
+}
+
+export const fetchModelFileSource: ModelFileSource = {
+  async read(url) {
+    try {
+      const response = await fetch(url);
+      return response.ok ? await response.arrayBuffer() : null;
+    } catch {
+      return null;
+    }
+  },
+  async exists(url) {
+    try {
+      const response = await fetch(url, { method: 'HEAD' });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+};
+
+/**
+ * Cubism Coreでmocを解析する（Coreが読み込まれていない場合はnull）
+ */
+function getCoreMocInspector(): ((moc: ArrayBuffer) => MocInfo | null) | null {
+  if (typeof Live2DCubismCore === 'undefined') {
+    return null;
+  }
+
+  return (buffer) => {
+    let moc: Live2DCubismCore.Moc | null = null;
+    let model: Live2DCubismCore.Model | null = null;
+    try {
+      if (!Live2DCubismCore.Moc.prototype.hasMocConsistency(buffer)) {
+        return null;
+      }
+      moc = Live2DCubismCore.Moc.fromArrayBuffer(buffer);
+      if (!moc) {
+        return null;
+      }
+      model = Live2DCubismCore.Model.fromMoc(moc);
+      if (!model) {
+        return null;
+      }
+      return {
+        parameterIds: [...model.parameters.ids],
+        partIds: [...model.parts.ids]
+      };
+    } catch {
+      // 壊れたmocではCoreが例外を投げることがある
+      return null;
+    } finally {
+      model?.release();
+      moc?._release();
+    }
+  };
+}
+
+// CubismJsonの値を読み取るヘルパー（存在しない・型が違う場合はnull・空配列）
+const readString = (value: Value): string | null =>
+  value.isString() ? value.getRawString() : null;
+
+const readArray = (value: Value): Value[] => {
+  if (!value.isArray()) {
+    return [];
+  }
+  const items: Value[] = [];
+  for (let i = 0; i < value.getSize(); i++) {
+    items.push(value.getValueByIndex(i));
+  }
+  return items;
+};
+
+/**
+ * JSONを読み込む（CubismJsonは不正なJSONで例外を投げるため、読み込めない場合はnullにする）
+ */
+const parseJson = <T>(buffer: ArrayBuffer, parse: (buffer: ArrayBuffer, size: number) => T): T | null => {
+  if (buffer.byteLength === 0) {
+    return null;
+  }
+  try {
+    return parse(buffer, buffer.byteLength);
+  } catch {
+    return null;
+  }
+};
+
+const readIds = (items: Value[], key = 'Id'): string[] =>
+  items
+    .map((item) => readString(item.getValueByString(key)))
+    .filter((id): id is string => id !== null);
+
+/**
+ * 1回の検証の状態（診断結果と照合用のID）
+ */
+class ValidationRun {
+  public readonly diagnostics: ModelDiagnostic[] = [];
+  public parameterIds: Set<string> | null = null;
+  public partIds: Set<string> | null = null;
+  public checkedFiles = 0;
+
+  constructor(private readonly modelPath: string, private readonly fileSource: ModelFileSource) {}
+
+  public report(diagnostic: ModelDiagnostic): void {
+    this.diagnostics.push(diagnostic);
+  }
+
+  public async readFile(file: string, stage: ModelDiagnosticStage): Promise<ArrayBuffer | null> {
+    this.checkedFiles++;
+    const buffer = await this.fileSource.read(`${this.modelPath}${file}`);
+    if (!buffer) {
+      this.report({ severity: 'error', code: 'file-not-found', stage, file, message: `${file} が見つかりません` });
+    }
+    return buffer;
+  }
+
+  public async fileExists(file: string, stage: ModelDiagnosticStage, severity: ModelDiagnosticSeverity = 'error'): Promise<boolean> {
+    this.checkedFiles++;
+    const exists = await this.fileSource.exists(`${this.modelPath}${file}`);
+    if (!exists) {
+      this.report({ severity, code: 'file-not-found', stage, file, message: `${file} が見つかりません` });
+    }
+    return exists;
+  }
+
+  /**
+   * JSONファイルを読み込んでルート要素を返す（読み込めない場合はnull）
+   */
+  public async readJson(file: string, stage: ModelDiagnosticStage): Promise<Value | null> {
+    const buffer = await this.readFile(file, stage);
+    if (!buffer) {
+      return null;
+    }
+    const json = parseJson(buffer, CubismJson.create);
+    if (!json || !json.getRoot().isMap()) {
+      this.report({ severity: 'error', code: 'invalid-json', stage, file, message: `${file} をJSONとして読み込めません` });
+      return null;
+    }
+    return json.getRoot();
+  }
+
+  /**
+   * パラメータIDがmocにあるか確認する（照合するIDがない場合は何もしない）
+   */
+  public checkParameterIds(ids: string[], stage: ModelDiagnosticStage, file?: string): void {
+    const known = this.parameterIds;
+    if (!known) {
+      return;
+    }
+    for (const id of new Set(ids)) {
+      if (!known.has(id)) {
+        this.report({
+          severity: 'warning',
+          code: 'unknown-parameter',
+          stage,
+          file,
+          id,
+          message: `パラメータ ${id} がモデルにありません${file ? `（${file}）` : ''}`
+        });
+      }
+    }
+  }
+
+  public checkPartIds(ids: string[], stage: ModelDiagnosticStage, file?: string): void {
+    const known = this.partIds;
+    if (!known) {
+      return;
+    }
+    for (const id of new Set(ids)) {
+      if (!known.has(id)) {
+        this.report({
+          severity: 'warning',
+          code: 'unknown-part',
+          stage,
+          file,
+          id,
+          message: `パーツ ${id} がモデルにありません${file ? `（${file}）` : ''}`
+        });
+      }
+    }
+  }
+}
+
+/**
+ * model3.jsonと参照ファイルを検証し、診断結果を返す
+ */
+export class Live2DModelValidator {
+  private readonly fileSource: ModelFileSource;
+  private readonly inspectMoc: ((moc: ArrayBuffer) => MocInfo | null) | null;
+
+  constructor(options: Live2DModelValidatorOptions = {}) {
+    this.fileSource = options.fileSource ?? fetchModelFileSource;
+    this.inspectMoc = options.inspectMoc ?? getCoreMocInspector();
+  }
+
+  /**
+   * モデルを検証する
+   * @param modelUrl model3.jsonのURL
+   * @param expectations 感情のマッピング等、モデルに存在すべき表情・モーショングループ
+   */
+  public async validate(modelUrl: string, expectations: ModelExpectations = {}): Promise<ModelDiagnosticsReport> {
+    // CubismJsonの静的な値はCubismFramework.initialize()で作られるため、フレームワークを使わない環境では先に用意する
+    if (!Value.nullValue) {
+      Value.staticInitializeNotForClientCall();
+    }
+
+    const { modelPath, modelJsonName } = splitModelUrl(modelUrl);
+    const run = new ValidationRun(modelPath, this.fileSource);
+    let parameterSource: ModelDiagnosticsReport['parameterSource'] = null;
+
+    const buffer = await run.readFile(modelJsonName, 'model');
+    const setting = buffer ? parseJson(buffer, (data, size) => new CubismModelSettingJson(data, size)) : null;
+
+    if (buffer && (!setting?.getJson() || !setting.getJson().getRoot().isMap())) {
+      run.report({
+        severity: 'error',
+        code: 'invalid-json',
+        stage: 'model',
+        file: modelJsonName,
+        message: `${modelJsonName} をJSONとして読み込めません`
+      });
+    }
+
+    if (setting?.getJson()?.getRoot().isMap()) {
+      const root = setting.getJson().getRoot();
+      const fileReferences = root.getValueByString('FileReferences');
+
+      // moc（パラメータIDの照合元）
+      if (await this.checkMoc(run, setting)) {
+        parameterSource = 'moc';
+      }
+
+      // 表示情報（mocを解析できない場合の照合元）
+      const displayInfoFile = readString(fileReferences.getValueByString('DisplayInfo'));
+      const displayInfo = displayInfoFile ? await run.readJson(displayInfoFile, 'displayInfo') : null;
+      const displayParameterIds = displayInfo ? readIds(readArray(displayInfo.getValueByString('Parameters'))) : [];
+      const displayPartIds = displayInfo ? readIds(readArray(displayInfo.getValueByString('Parts'))) : [];
+
+      if (run.parameterIds) {
+        run.checkParameterIds(displayParameterIds, 'displayInfo', displayInfoFile ?? undefined);
+        run.checkPartIds(displayPartIds, 'displayInfo', displayInfoFile ?? undefined);
+      } else if (displayInfo) {
+        run.parameterIds = new Set(displayParameterIds);
+        run.partIds = displayPartIds.length > 0 ? new Set(displayPartIds) : null;
+        parameterSource = 'displayInfo';
+      }
+
+      if (parameterSource !== 'moc') {
+        run.report({
+          severity: 'info',
+          code: 'parameters-unverified',
+          stage: 'moc',
+          message: parameterSource === 'displayInfo'
+            ? 'mocを解析できないため、パラメータIDは表示情報（cdi3.json）と照合しました'
+            : 'mocを解析できず表示情報（cdi3.json）もないため、パラメータIDを照合していません'
+        });
+      }
+
+      await this.checkTextures(run, setting);
+      const expressionNames = await this.checkExpressions(run, setting);
+      await this.checkPhysics(run, setting);
+      await this.checkPose(run, setting);
+      await this.checkUserData(run, setting);
+      this.checkGroups(run, root);
+      const motionGroups = await this.checkMotions(run, setting);
+      this.checkExpectations(run, expectations, expressionNames, motionGroups);
+    }
+
+    return {
+      modelUrl,
+      ok: !run.diagnostics.some((diagnostic) => diagnostic.severity === 'error'),
+      diagnostics: run.diagnostics,
+      parameterSource,
+      checkedFiles: run.checkedFiles
+    };
+  }
+
+  /**
+   * mocを読み込み、照合用のパラメータID・パーツIDを取得する
+   * @returns mocのIDを取得できたか
+   */
+  private async checkMoc(run: ValidationRun, setting: CubismModelSettingJson): Promise<boolean> {
+    const mocFile = setting.getModelFileName();
+    if (!mocFile) {
+      run.report({
+        severity: 'error',
+        code: 'missing-reference',
+        stage: 'moc',
+        message: 'FileReferences.Moc が指定されていません'
+      });
+      return false;
+    }
+
+    const moc = await run.readFile(mocFile, 'moc');
+    if (!moc || !this.inspectMoc) {
+      return false;
+    }
+
+    let info: MocInfo | null;
+    try {
+      info = this.inspectMoc(moc);
+    } catch {
+      info = null;
+    }
+    if (!info) {
+      run.report({
+        severity: 'error',
+        code: 'invalid-moc',
+        stage: 'moc',
+        file: mocFile,
+        message: `${mocFile} をmocとして読み込めません（ファイルの破損・非対応のバージョン）`
+      });
+      return false;
+    }
+
+    run.parameterIds = new Set(info.parameterIds);
+    run.partIds = new Set(info.partIds);
+    return true;
+  }
+
+  private async checkTextures(run: ValidationRun, setting: CubismModelSettingJson): Promise<void> {
+    const count = setting.getTextureCount();
+    if (count === 0) {
+      run.report({
+        severity: 'error',
+        code: 'missing-reference',
+        stage: 'texture',
+        message: 'FileReferences.Textures が指定されていません'
+      });
+      return;
+    }
+
+    for (let i = 0; i < count; i++) {
+      const file = setting.getTextureFileName(i);
+      if (!file) {
+        run.report({
+          severity: 'error',
+          code: 'missing-reference',
+          stage: 'texture',
+          message: `FileReferences.Textures[${i}] が空です`
+        });
+        continue;
+      }
+      await run.fileExists(file, 'texture');
+    }
+  }
+
+  /**
+   * @returns model3.jsonで定義されている表情の名前
+   */
+  private async checkExpressions(run: ValidationRun, setting: CubismModelSettingJson): Promise<Set<string>> {
+    const names = new Set<string>();
+
+    for (let i = 0; i < setting.getExpressionCount(); i++) {
+      const name = setting.getExpressionName(i);
+      const file = setting.getExpressionFileName(i);
+
+      if (names.has(name)) {
+        run.report({
+          severity: 'warning',
+          code: 'duplicate-expression',
+          stage: 'expression',
+          file,
+          id: name,
+          message: `表情 ${name} が複数定義されています（後に定義したものが使われます）`
+        });
+      }
+      names.add(name);
+
+      const expression = await run.readJson(file, 'expression');
+      if (expression) {
+        run.checkParameterIds(readIds(readArray(expression.getValueByString('Parameters'))), 'expression', file);
+      }
+    }
+
+    return names;
+  }
+
+  private async checkPhysics(run: ValidationRun, setting: CubismModelSettingJson): Promise<void> {
+    const file = setting.getPhysicsFileName();
+    if (!file) {
+      return;
+    }
+
+    const physics = await run.readJson(file, 'physics');
+    if (!physics) {
+      return;
+    }
+
+    const ids: string[] = [];
+    for (const physicsSetting of readArray(physics.getValueByString('PhysicsSettings'))) {
+      for (const input of readArray(physicsSetting.getValueByString('Input'))) {
+        ids.push(...readIds([input.getValueByString('Source')]));
+      }
+      for (const output of readArray(physicsSetting.getValueByString('Output'))) {
+        ids.push(...readIds([output.getValueByString('Destination')]));
+      }
+    }
+    run.checkParameterIds(ids, 'physics', file);
+  }
+
+  private async checkPose(run: ValidationRun, setting: CubismModelSettingJson): Promise<void> {
+    const file = setting.getPoseFileName();
+    if (!file) {
+      return;
+    }
+
+    const pose = await run.readJson(file, 'pose');
+    if (!pose) {
+      return;
+    }
+
+    const ids: string[] = [];
+    for (const group of readArray(pose.getValueByString('Groups'))) {
+      for (const part of readArray(group)) {
+        ids.push(...readIds([part]));
+        ids.push(...readArray(part.getValueByString('Link')).map(readString).filter((id): id is string => id !== null));
+      }
+    }
+    run.checkPartIds(ids, 'pose', file);
+  }
+
+  private async checkUserData(run: ValidationRun, setting: CubismModelSettingJson): Promise<void> {
+    const file = setting.getUserDataFile();
+    if (file) {
+      await run.readJson(file, 'userData');
+    }
+  }
+
+  /**
+   * 目パチ・リップシンクのパラメータ（model3.jsonのGroups）
+   */
+  private checkGroups(run: ValidationRun, root: Value): void {
+    for (const group of readArray(root.getValueByString('Groups'))) {
+      if (readString(group.getValueByString('Target')) !== 'Parameter') {
+        continue;
+      }
+      const ids = readArray(group.getValueByString('Ids'))
+        .map(readString)
+        .filter((id): id is string => id !== null);
+      run.checkParameterIds(ids, 'groups');
+    }
+  }
+
+  /**
+   * @returns model3.jsonで定義されているモーショングループの名前
+   */
+  private async checkMotions(run: ValidationRun, setting: CubismModelSettingJson): Promise<Set<string>> {
+    const groups = new Set<string>();
+    // 複数のグループから同じファイルを参照している場合は1回だけ確認する
+    const checkedFiles = new Set<string>();
+
+    for (let i = 0; i < setting.getMotionGroupCount(); i++) {
+      const group = setting.getMotionGroupName(i);
+      groups.add(group);
+
+      for (let j = 0; j < setting.getMotionCount(group); j++) {
+        const file = setting.getMotionFileName(group, j);
+        if (!checkedFiles.has(file)) {
+          checkedFiles.add(file);
+          const motion = await run.readJson(file, 'motion');
+          if (motion) {
+            this.checkMotionCurves(run, motion, file);
+          }
+        }
+
+        // 音声ファイルがなくてもモーションは再生される
+        const soundFile = setting.getMotionSoundFileName(group, j);
+        if (soundFile) {
+          await run.fileExists(soundFile, 'motion', 'warning');
+        }
+      }
+    }
+
+    return groups;
+  }
+
+  private checkMotionCurves(run: ValidationRun, motion: Value, file: string): void {
+    const parameterIds: string[] = [];
+    const partIds: string[] = [];
+
+    for (const curve of readArray(motion.getValueByString('Curves'))) {
+      const id = readString(curve.getValueByString('Id'));
+      if (!id) {
+        continue;
+      }
+      // TargetがModelの場合はEyeBlink・LipSync等のグループ名なので照合しない
+      switch (readString(curve.getValueByString('Target'))) {
+        case 'Parameter':
+          parameterIds.push(id);
+          break;
+        case 'PartOpacity':
+          partIds.push(id);
+          break;
+      }
+    }
+
+    run.checkParameterIds(parameterIds, 'motion', file);
+    run.checkPartIds(partIds, 'motion', file);
+  }
+
+  /**
+   * 感情のマッピング・既定の表情・アイドリングのモーショングループがモデルにあるか確認する
+   */
+  private checkExpectations(
+    run: ValidationRun,
+    expectations: ModelExpectations,
+    expressionNames: Set<string>,
+    motionGroups: Set<string>
+  ): void {
+    if (!motionGroups.has(MotionGroupIdle)) {
+      run.report({
+        severity: 'warning',
+        code: 'unknown-motion-group',
+        stage: 'motion',
+        id: MotionGroupIdle,
+        message: `アイドリングのモーショングループ ${MotionGroupIdle} がありません`
+      });
+    }
+
+    const { neutralExpression, emotions = {} } = expectations;
+    if (neutralExpression && !expressionNames.has(neutralExpression)) {
+      run.report({
+        severity: 'warning',
+        code: 'unknown-expression',
+        stage: 'emotion',
+        id: neutralExpression,
+        message: `既定の表情 ${neutralExpression} がモデルにありません`
+      });
+    }
+
+    for (const [emotion, mapping] of Object.entries(emotions)) {
+      if (!expressionNames.has(mapping.expression)) {
+        run.report({
+          severity: 'warning',
+          code: 'unknown-expression',
+          stage: 'emotion',
+          id: mapping.expression,
+          message: `感情 ${emotion} の表情 ${mapping.expression} がモデルにありません`
+        });
+      }
+      if (mapping.motionGroup && !motionGroups.has(mapping.motionGroup)) {
+        run.report({
+          severity: 'warning',
+          code: 'unknown-motion-group',
+          stage: 'emotion',
+          id: mapping.motionGroup,
+          message: `感情 ${emotion} のモーショングループ ${mapping.motionGroup} がモデルにありません`
+        });
+      }
+    }
+  }
+}
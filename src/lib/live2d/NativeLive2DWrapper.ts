@@ -2,12 +2,19 @@
  * NativeLive2DWrapper
  * PIXIに依存しないNative Live2D実装
  * Cubism SDKを直接使用してLive2Dモデルを制御
+ *
+ * インスタンスごとにcanvas・WebGLコンテキスト・モデル（LAppSubdelegate）と描画ループを持つため、
+ * 複数のインスタンスを同時に表示できる
+ * offscreenオプションを指定すると、Cubismの更新・WebGLの描画をWeb Worker（OffscreenCanvas）で行う
  */
 
-import { LAppDelegate } from './demo/lappdelegate';
+import { LAppSubdelegate } from './demo/lappsubdelegate';
 import { LAppLive2DManager } from './demo/lapplive2dmanager';
+import type { LAppModel } from './demo/lappmodel';
 import { LAppGlManager } from './demo/lappglmanager';
+import { LAppPal } from './demo/lapppal';
 import { LAppWavFileHandler } from './demo/lappwavfilehandler';
+import { ScreenType } from './demo/lappscreenbehavior';
 import { CubismFramework } from './framework/live2dcubismframework';
 import * as LAppDefine from './demo/lappdefine';
 import { AudioAnalyzer } from './lipsync/AudioAnalyzer';
@@ -15,7 +22,15 @@ import { VowelDetector } from './lipsync/VowelDetector';
 import { LipSyncController } from './lipsync/LipSyncController';
 import { RMSProcessor } from './lipsync/RMSProcessor';
 import { PerformanceMonitor, PerformanceReport } from './PerformanceMonitor';
+import { AdaptiveQualityController, Quality, QUALITY_SETTINGS } from './AdaptiveQualityController';
 import { NaturalMotionController } from './NaturalMotionController';
+import { RenderVisibilityObserver } from './RenderVisibilityObserver';
+import { FramePacer } from './FramePacer';
+import { OffscreenLive2DClient, OffscreenModelProxy, isOffscreenRenderingSupported } from './offscreen/OffscreenLive2DClient';
+import { createLive2DWorker } from './offscreen/createLive2DWorker';
+import type { CharacterDelegate } from './Live2DCharacterController';
+import { loadCubismCore } from './loadCubismCore';
+import { splitModelUrl } from './modelCatalog';
 import { logger } from '@/utils/logger';
 
 export interface MousePosition {
@@ -27,22 +42,37 @@ export interface RenderStats {
   drawCalls: number;
   vertices: number;
   triangles: number;
+  textureMemoryBytes: number; // 読み込んだテクスチャが使うGPUメモリの推定値（ミップマップを含む）
 }
 
-export type Quality = 'low' | 'medium' | 'high';
+export type { Quality } from './AdaptiveQualityController';
 
-export class NativeLive2DWrapper {
+export interface NativeLive2DWrapperOptions {
+  disableMotions?: boolean; // アイドル等のモーションを無効化する
+  screenType?: ScreenType; // 画面タイプごとの振る舞い（省略時はホーム）
+  modelUrl?: string; // 読み込むmodel3.jsonのURL（省略時はLAppDefine.ModelDir[0]）
+  adaptiveQuality?: boolean; // 描画中のFPSに合わせて描画品質を自動調整する
+  offscreen?: boolean; // Web Worker（OffscreenCanvas）で描画する（使えない環境ではメインスレッドで描画）
+}
+
+export class NativeLive2DWrapper implements CharacterDelegate {
   private container: HTMLElement | null = null;
   private canvas: HTMLCanvasElement | null = null;
-  private gl: WebGLRenderingContext | null = null;
-  private delegate: LAppDelegate | null = null;
+  private gl: WebGLRenderingContext | WebGL2RenderingContext | null = null;
+  private subdelegate: LAppSubdelegate | null = null;
   private manager: LAppLive2DManager | null = null;
   private glManager: LAppGlManager | null = null;
+  // ワーカーで描画する場合のみ（subdelegate・manager・glはnullのまま）
+  private offscreen: OffscreenLive2DClient | null = null;
 
   private initialized: boolean = false;
   private disposed: boolean = false;
   private rendering: boolean = false;
+  // 描画中だが、タブが裏にある・画面外にあるため描画ループを止めている
+  private paused: boolean = false;
+  private contextLost: boolean = false;
   private frameId: number | null = null;
+  private visibilityObserver: RenderVisibilityObserver | null = null;
 
   // Model state
   private currentModelId: string | null = null;
@@ -59,6 +89,8 @@ export class NativeLive2DWrapper {
   private lipSyncValue: number = 0;
   private lipSyncing: boolean = false;
   private wavFileHandler: LAppWavFileHandler | null = null;
+  private lipSyncFrameId: number | null = null;
+  private lastLipSyncTime: number = 0;
 
   // Advanced lip sync components
   private audioAnalyzer: AudioAnalyzer | null = null;
@@ -70,23 +102,26 @@ export class NativeLive2DWrapper {
   private mousePosition: MousePosition = { x: 0, y: 0 };
   private dragging: boolean = false;
   private eyeTrackingEnabled: boolean = true;
+  private mouseMoveListener: ((e: MouseEvent) => void) | null = null;
 
   // Performance
-  private targetFPS: number = 60;
-  private currentFPS: number = 0;
-  private lastFrameTime: number = 0;
-  private frameCount: number = 0;
-  private fpsUpdateTime: number = 0;
-  private quality: Quality = 'medium';
+  private framePacer: FramePacer = new FramePacer();
+  private quality: Quality = 'high';
+  private qualityListeners: Set<(quality: Quality) => void> = new Set();
+  private pausedListeners: Set<() => void> = new Set();
   private performanceMonitor: PerformanceMonitor | null = null;
+  private adaptiveQuality: AdaptiveQualityController | null = null;
   private naturalMotionController: NaturalMotionController | null = null;
 
   constructor() {}
 
   /**
    * 初期化
+   * コンテナにcanvasを追加し、既定のモデルの読み込みを開始する
    */
-  public async initialize(container: HTMLElement): Promise<boolean> {
+  public async initialize(container: HTMLElement, options: NativeLive2DWrapperOptions = {}): Promise<boolean> {
+    this.checkDisposed();
+
     if (this.initialized) {
       return true;
     }
@@ -94,50 +129,29 @@ export class NativeLive2DWrapper {
     try {
       this.container = container;
 
-      // Create canvas
-      this.canvas = document.createElement('canvas');
-      this.canvas.width = container.offsetWidth;
-      this.canvas.height = container.offsetHeight;
-      this.canvas.style.width = '100%';
-      this.canvas.style.height = '100%';
-      container.appendChild(this.canvas);
-
-      // Get WebGL context
-      this.gl = this.canvas.getContext('webgl', {
-        alpha: true,
-        premultipliedAlpha: true,
-        antialias: true,
-        stencil: false,
-        depth: false,
-      }) as WebGLRenderingContext;
-
-      if (!this.gl) {
-        logger.error('WebGL not supported');
-        return false;
+      // ワーカーで描画できない場合・ワーカーでWebGLが使えなかった場合はメインスレッドで描画する
+      if (options.offscreen && isOffscreenRenderingSupported()) {
+        this.canvas = this.createCanvas(container);
+        if (!(await this.initializeOffscreen(options))) {
+          this.releaseCanvas();
+          this.container = container;
+          if (this.disposed) {
+            return false;
+          }
+          logger.warn('Live2Dのワーカーでの描画を開始できないため、メインスレッドで描画します');
+        }
       }
 
-      // Initialize Cubism Framework
-      const cubismOption = {
-        logFunction: LAppDefine.DebugLogEnable ? logger.log : null,
-        loggingLevel: LAppDefine.DebugLogEnable
-          ? LAppDefine.CubismLoggingLevel
-          : 0, // LogLevel_Off
-      };
-
-      if (!CubismFramework.isStarted()) {
-        if (!CubismFramework.startUp(cubismOption)) {
-          logger.error('Failed to start Cubism Framework');
-          return false;
-        }
-        CubismFramework.initialize();
+      if (!this.offscreen && !(await this.initializeMainThread(container, options))) {
+        return false;
       }
 
-      // Initialize delegate and manager
-      this.delegate = LAppDelegate.getInstance();
-      await this.delegate.initialize();
+      this.currentModelId = options.modelUrl ?? LAppDefine.ModelDir[0] ?? null;
+      this.modelLoaded = this.getModel() !== null;
 
-      this.manager = new LAppLive2DManager();
-      this.glManager = new LAppGlManager();
+      // マウス位置に視線を追従させる
+      this.mouseMoveListener = (e: MouseEvent) => this.onMouseMove(e.pageX, e.pageY);
+      document.addEventListener('mousemove', this.mouseMoveListener, { passive: true });
 
       // Initialize performance monitoring
       this.performanceMonitor = new PerformanceMonitor({
@@ -146,9 +160,18 @@ export class NativeLive2DWrapper {
         maxCPU: 30
       });
 
+      // 描画品質（自動調整する場合は描画中のFPSで切り替える）
+      this.applyQuality();
+      if (options.adaptiveQuality) {
+        this.adaptiveQuality = new AdaptiveQualityController(this);
+      }
+
       // Initialize natural motion controller
       this.naturalMotionController = new NaturalMotionController();
 
+      // タブが裏にある・画面外にある間は描画ループを止める
+      this.visibilityObserver = new RenderVisibilityObserver(container, () => this.handleVisibilityChange());
+
       this.initialized = true;
       return true;
     } catch (error) {
@@ -157,8 +180,98 @@ export class NativeLive2DWrapper {
     }
   }
 
+  /**
+   * canvasを作成してコンテナに追加する
+   */
+  private createCanvas(container: HTMLElement): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    canvas.style.display = 'block';
+    container.appendChild(canvas);
+    return canvas;
+  }
+
+  /**
+   * canvasの描画をワーカーに移す
+   * @returns ワーカーでWebGLが使えない場合・初期化中に破棄された場合はfalse
+   */
+  private async initializeOffscreen(options: NativeLive2DWrapperOptions): Promise<boolean> {
+    const client = new OffscreenLive2DClient(this.canvas, createLive2DWorker());
+    const ready = await client.initialize({
+      modelUrl: options.modelUrl,
+      screenType: options.screenType,
+      disableMotions: options.disableMotions
+    });
+    if (!ready || this.disposed) {
+      client.dispose();
+      return false;
+    }
+    this.offscreen = client;
+    return true;
+  }
+
+  /**
+   * メインスレッドでCubism SDKを初期化し、canvasにWebGLで描画する
+   */
+  private async initializeMainThread(container: HTMLElement, options: NativeLive2DWrapperOptions): Promise<boolean> {
+    await loadCubismCore();
+    // 読み込み中に破棄された場合
+    if (this.disposed) {
+      return false;
+    }
+
+    // Create canvas
+    this.canvas = this.createCanvas(container);
+
+    // Initialize Cubism Framework
+    const cubismOption = {
+      logFunction: LAppDefine.DebugLogEnable ? logger.log : null,
+      loggingLevel: LAppDefine.DebugLogEnable
+        ? LAppDefine.CubismLoggingLevel
+        : 0, // LogLevel_Off
+    };
+
+    if (!CubismFramework.isStarted()) {
+      if (!CubismFramework.startUp(cubismOption)) {
+        logger.error('Failed to start Cubism Framework');
+        this.releaseCanvas();
+        return false;
+      }
+      CubismFramework.initialize();
+    }
+
+    // canvasごとのWebGLコンテキスト・モデル管理を作成
+    this.subdelegate = new LAppSubdelegate();
+    if (options.disableMotions) {
+      this.subdelegate.setDisableMotions(true);
+    }
+    if (options.screenType) {
+      this.subdelegate.getLive2DManager().setScreenType(options.screenType);
+    }
+    if (options.modelUrl) {
+      const { modelPath, modelJsonName } = splitModelUrl(options.modelUrl);
+      this.subdelegate.getLive2DManager().loadModel(modelPath, modelJsonName);
+    }
+    if (!this.subdelegate.initialize(this.canvas)) {
+      logger.error('WebGL not supported');
+      this.subdelegate.release();
+      this.subdelegate = null;
+      this.releaseCanvas();
+      return false;
+    }
+
+    this.glManager = this.subdelegate.getGlManager();
+    this.gl = this.glManager.getGl();
+    this.manager = this.subdelegate.getLive2DManager();
+    this.subdelegate.setContextLossListener((lost) => this.handleContextLoss(lost));
+    return true;
+  }
+
   /**
    * モデルのロード
+   * WebGLコンテキストは作り直さず、表示中のモデルを差し替える
+   * @param modelPath model3.jsonのURL、またはLAppDefine.ModelDirのディレクトリ名を含むパス
    */
   public async loadModel(modelPath: string): Promise<boolean> {
     this.checkDisposed();
@@ -172,6 +285,16 @@ export class NativeLive2DWrapper {
     }
 
     try {
+      // ワーカーで描画する場合は、既存モデルの解放もワーカーで行う
+      if (this.offscreen) {
+        const loaded = await this.offscreen.loadModel(this.resolveModelSource(modelPath));
+        if (loaded) {
+          this.currentModelId = modelPath;
+          this.modelLoaded = true;
+        }
+        return loaded;
+      }
+
       // 既存モデルがあれば解放
       if (this.modelLoaded && this.manager) {
         // Since releaseAllModel is private, we clear models manually
@@ -182,17 +305,16 @@ export class NativeLive2DWrapper {
         }
       }
 
-      // Load new model using addModel and changeScene
       if (this.manager) {
-        // Set the model path in LAppDefine (if needed)
-        // For now, use addModel with default scene
-        this.manager.addModel(0);
-
-        // Wait for model to load
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        const source = this.resolveModelSource(modelPath);
+        if ('sceneIndex' in source) {
+          this.manager.addModel(source.sceneIndex);
+        } else {
+          this.manager.loadModel(source.modelPath, source.modelJsonName);
+        }
 
-        const model = this.manager.getModel(0);
-        if (model) {
+        // モーション・テクスチャまで読み込み終えるのを待つ（後から別のモデルに切り替えた場合はfalse）
+        if (await this.manager.waitForModelSetup()) {
           this.currentModelId = modelPath;
           this.modelLoaded = true;
           return true;
@@ -206,8 +328,20 @@ export class NativeLive2DWrapper {
     }
   }
 
+  /**
+   * model3.jsonのURLはディレクトリとファイル名に、それ以外はパスに対応するモデルディレクトリ（LAppDefine.ModelDir）のシーンにする
+   */
+  private resolveModelSource(modelPath: string): { modelPath: string; modelJsonName: string } | { sceneIndex: number } {
+    if (modelPath.endsWith('.model3.json')) {
+      return splitModelUrl(modelPath);
+    }
+    const sceneIndex = LAppDefine.ModelDir.findIndex((dir) => modelPath.includes(dir));
+    return { sceneIndex: Math.max(0, sceneIndex) };
+  }
+
   /**
    * レンダリング開始
+   * タブが裏にある・画面外にある間は描画ループを止め、見えるようになったら再開する
    */
   public startRendering(): void {
     this.checkDisposed();
@@ -218,55 +352,105 @@ export class NativeLive2DWrapper {
     }
 
     this.rendering = true;
-    this.lastFrameTime = performance.now();
-    this.fpsUpdateTime = this.lastFrameTime;
-    this.frameCount = 0;
+    if (this.shouldPause()) {
+      this.paused = true;
+    } else {
+      this.startLoop();
+    }
+    this.notifyPaused();
+  }
+
+  /**
+   * レンダリング停止
+   */
+  public stopRendering(): void {
+    const wasRendering = this.rendering;
+    this.rendering = false;
+    this.paused = false;
+    this.stopLoop();
+    if (wasRendering) {
+      this.notifyPaused();
+    }
+  }
+
+  /**
+   * 表示状態の変化に合わせて描画ループとリップシンクの更新を一時停止・再開する
+   */
+  private handleVisibilityChange(): void {
+    this.updatePaused();
+  }
+
+  /**
+   * WebGLコンテキストの消失中は描画ループを止め、復元（シェーダー・テクスチャの作り直し）後に再開する
+   */
+  private handleContextLoss(lost: boolean): void {
+    this.contextLost = lost;
+    this.updatePaused();
+  }
+
+  /**
+   * タブが裏にある・画面外にある・WebGLコンテキストの消失中は描画しない
+   */
+  private shouldPause(): boolean {
+    return this.contextLost || (this.visibilityObserver !== null && !this.visibilityObserver.isVisible());
+  }
+
+  private updatePaused(): void {
+    const paused = this.shouldPause();
+    if (!this.rendering || this.paused === paused) {
+      return;
+    }
+
+    this.paused = paused;
+    if (this.paused) {
+      this.stopLoop();
+      this.stopLipSyncLoop();
+    } else {
+      this.startLoop();
+      this.startLipSyncUpdate();
+    }
+    this.notifyPaused();
+  }
+
+  private startLoop(): void {
+    this.framePacer.reset();
 
     // Start performance monitoring
     if (this.performanceMonitor) {
       this.performanceMonitor.startMonitoring(this);
     }
+    this.adaptiveQuality?.start();
+
+    // ワーカーで描画する場合はワーカーの描画ループを動かす
+    if (this.offscreen) {
+      this.offscreen.start();
+      return;
+    }
 
-    // Phase 1: Optimized render loop with 60 FPS target
     const render = () => {
-      if (!this.rendering) {
+      if (!this.rendering || this.paused) {
         return;
       }
 
-      const currentTime = performance.now();
-      const deltaTime = currentTime - this.lastFrameTime;
-      const targetFrameTime = 1000 / this.targetFPS;
-
-      // Only render if enough time has passed (60 FPS cap)
-      if (deltaTime >= targetFrameTime) {
-        // Update FPS calculation
+      this.framePacer.frame((deltaTime, currentTime) => {
         if (this.naturalMotionController) {
           this.naturalMotionController.updateFPS(currentTime);
         }
 
-        this.frameCount++;
-        if (currentTime - this.fpsUpdateTime >= 1000) {
-          this.currentFPS = this.frameCount;
-          this.frameCount = 0;
-          this.fpsUpdateTime = currentTime;
+        if (!this.subdelegate || !this.gl || !this.canvas || this.gl.isContextLost()) {
+          return false;
         }
 
-        // Check for frame skipping
-        const shouldSkip = this.naturalMotionController?.shouldSkipFrame(deltaTime) ?? false;
-
-        if (!shouldSkip && this.delegate && this.gl && this.canvas) {
-          // Clear with depth buffer for better performance
-          this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
-          this.gl.clearColor(0, 0, 0, 0);
-          this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
+        // Clear with depth buffer for better performance
+        this.gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+        this.gl.clearColor(0, 0, 0, 0);
+        this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT);
 
-          // Update
-          this.delegate.run();
-        }
-
-        // Adjust frame time to maintain stable 60 FPS
-        this.lastFrameTime = currentTime - (deltaTime % targetFrameTime);
-      }
+        // モデルの時間はこのインスタンスの前回描画からの経過時間で進める
+        LAppPal.setDeltaTime(deltaTime);
+        this.subdelegate.update();
+        return true;
+      });
 
       // Use requestAnimationFrame directly for V-Sync
       this.frameId = requestAnimationFrame(render) as unknown as number;
@@ -275,20 +459,19 @@ export class NativeLive2DWrapper {
     render();
   }
 
-  /**
-   * レンダリング停止
-   */
-  public stopRendering(): void {
-    this.rendering = false;
+  private stopLoop(): void {
     if (this.frameId !== null) {
       cancelAnimationFrame(this.frameId);
       this.frameId = null;
     }
+    this.offscreen?.stop();
+    this.framePacer.stop();
 
     // Stop performance monitoring
     if (this.performanceMonitor) {
       this.performanceMonitor.stopMonitoring();
     }
+    this.adaptiveQuality?.stop();
 
     // Stop natural motion controller rendering
     if (this.naturalMotionController) {
@@ -303,12 +486,12 @@ export class NativeLive2DWrapper {
     this.checkDisposed();
     this.checkInitialized();
 
-    if (!this.modelLoaded || !this.manager) {
+    if (!this.modelLoaded) {
       return false;
     }
 
     try {
-      const model = this.manager.getModel(0);
+      const model = this.getModel();
       if (model) {
         model.startMotion(motionName, 0, priority);
         this.playingMotion = true;
@@ -328,12 +511,12 @@ export class NativeLive2DWrapper {
     this.checkDisposed();
     this.checkInitialized();
 
-    if (!this.modelLoaded || !this.manager) {
+    if (!this.modelLoaded) {
       return false;
     }
 
     try {
-      const model = this.manager.getModel(0);
+      const model = this.getModel();
       if (model) {
         model.startRandomMotion(group, priority);
         this.playingMotion = true;
@@ -353,11 +536,11 @@ export class NativeLive2DWrapper {
     this.checkDisposed();
     this.checkInitialized();
 
-    if (!this.modelLoaded || !this.manager) {
+    if (!this.modelLoaded) {
       return;
     }
 
-    const model = this.manager.getModel(0);
+    const model = this.getModel();
     if (model) {
       // Stop motions by starting a null motion
       model.startMotion('', 0, 0);
@@ -372,11 +555,11 @@ export class NativeLive2DWrapper {
     this.checkDisposed();
     this.checkInitialized();
 
-    if (!this.modelLoaded || !this.manager) {
+    if (!this.modelLoaded) {
       return;
     }
 
-    const model = this.manager.getModel(0);
+    const model = this.getModel();
     if (model) {
       model.setExpression(expressionId);
       this.currentExpression = expressionId;
@@ -390,11 +573,11 @@ export class NativeLive2DWrapper {
     this.checkDisposed();
     this.checkInitialized();
 
-    if (!this.modelLoaded || !this.manager) {
+    if (!this.modelLoaded) {
       return;
     }
 
-    const model = this.manager.getModel(0);
+    const model = this.getModel();
     if (model) {
       model.setRandomExpression();
       // Note: 実際の表情名は取得できない場合がある
@@ -419,11 +602,11 @@ export class NativeLive2DWrapper {
     // Clamp value
     this.lipSyncValue = Math.max(0, Math.min(1, value));
 
-    if (!this.modelLoaded || !this.manager) {
+    if (!this.modelLoaded) {
       return;
     }
 
-    const model = this.manager.getModel(0);
+    const model = this.getModel();
     if (model) {
       model.setLipSyncValue(this.lipSyncValue);
     }
@@ -470,6 +653,7 @@ export class NativeLive2DWrapper {
         }
 
         this.lipSyncing = true;
+        this.lastLipSyncTime = 0;
         this.startLipSyncUpdate();
         return true;
       }
@@ -482,21 +666,25 @@ export class NativeLive2DWrapper {
 
   /**
    * リップシンク更新ループ
+   * 描画の一時停止中は止め、再開時は止まっていた間の分だけ音声の位置を進めて再生中の音声に合わせる
    */
   private startLipSyncUpdate(): void {
-    if (!this.lipSyncing || !this.wavFileHandler) {
+    if (!this.lipSyncing || !this.wavFileHandler || this.paused || this.lipSyncFrameId !== null) {
       return;
     }
 
     let lastSampleOffset = 0;
 
     const update = () => {
-      if (!this.lipSyncing || !this.wavFileHandler) {
+      this.lipSyncFrameId = null;
+      if (!this.lipSyncing || !this.wavFileHandler || this.paused) {
         return;
       }
 
       // Update WAV handler
-      const deltaTime = 0.016; // 60fps assumed
+      const currentTime = performance.now();
+      const deltaTime = this.lastLipSyncTime === 0 ? 0.016 : (currentTime - this.lastLipSyncTime) / 1000;
+      this.lastLipSyncTime = currentTime;
       const hasData = this.wavFileHandler.update(deltaTime);
 
       if (!hasData) {
@@ -546,17 +734,26 @@ export class NativeLive2DWrapper {
         this.setLipSyncValue(rms * 8);
       }
 
-      requestAnimationFrame(update);
+      this.lipSyncFrameId = requestAnimationFrame(update);
     };
 
     update();
   }
 
+  private stopLipSyncLoop(): void {
+    if (this.lipSyncFrameId !== null) {
+      cancelAnimationFrame(this.lipSyncFrameId);
+      this.lipSyncFrameId = null;
+    }
+  }
+
   /**
    * リップシンク停止
    */
   public stopLipSync(): void {
     this.lipSyncing = false;
+    this.stopLipSyncLoop();
+    this.lastLipSyncTime = 0;
     this.setLipSyncValue(0);
 
     if (this.wavFileHandler) {
@@ -573,8 +770,9 @@ export class NativeLive2DWrapper {
 
     this.mousePosition = { x, y };
 
-    if (this.delegate) {
-      this.delegate.onMouseMoved({ pageX: x, pageY: y } as MouseEvent);
+    const target = this.offscreen ?? this.subdelegate;
+    if (target && this.eyeTrackingEnabled) {
+      target.onMouseMove(x, y);
     }
   }
 
@@ -585,11 +783,12 @@ export class NativeLive2DWrapper {
     this.checkDisposed();
     this.checkInitialized();
 
-    if (!this.modelLoaded || !this.manager) {
+    const target = this.offscreen ?? this.manager;
+    if (!this.modelLoaded || !target) {
       return false;
     }
 
-    this.manager.onTap(x, y);
+    target.onTap(x, y);
     return true;
   }
 
@@ -601,9 +800,7 @@ export class NativeLive2DWrapper {
     this.checkInitialized();
 
     this.dragging = true;
-    if (this.manager) {
-      this.manager.onDrag(x, y);
-    }
+    (this.offscreen ?? this.manager)?.onDrag(x, y);
   }
 
   /**
@@ -613,8 +810,8 @@ export class NativeLive2DWrapper {
     this.checkDisposed();
     this.checkInitialized();
 
-    if (this.dragging && this.manager) {
-      this.manager.onDrag(x, y);
+    if (this.dragging) {
+      (this.offscreen ?? this.manager)?.onDrag(x, y);
     }
   }
 
@@ -627,23 +824,53 @@ export class NativeLive2DWrapper {
 
   /**
    * サイズ変更
+   * @param width 表示幅（CSS px、省略時はコンテナに合わせる）
+   * @param height 表示高さ（CSS px、省略時はコンテナに合わせる）
    */
-  public resize(width: number, height: number): void {
+  public resize(width?: number, height?: number): void {
     this.checkDisposed();
     this.checkInitialized();
 
     if (this.canvas) {
-      this.canvas.width = width;
-      this.canvas.height = height;
+      this.canvas.style.width = width !== undefined ? `${width}px` : '100%';
+      this.canvas.style.height = height !== undefined ? `${height}px` : '100%';
     }
 
-    if (this.gl) {
-      this.gl.viewport(0, 0, width, height);
+    // 描画バッファ・ビューを表示サイズに合わせる
+    if (this.offscreen) {
+      this.offscreen.resize();
+    } else if (this.subdelegate) {
+      this.subdelegate.onResize();
     }
+  }
 
-    if (this.delegate) {
-      this.delegate.onResize();
-    }
+  /**
+   * 画面タイプを切り替える
+   * モデルは読み込み直さず、追従・呼吸・アイドルモーション等の振る舞いを徐々に切り替える
+   */
+  public setScreenType(screenType: ScreenType): void {
+    this.checkDisposed();
+    this.checkInitialized();
+
+    (this.offscreen ?? this.manager)?.setScreenType(screenType);
+  }
+
+  public getScreenType(): ScreenType | null {
+    return (this.offscreen ?? this.manager)?.getScreenType() ?? null;
+  }
+
+  /**
+   * CharacterDelegate: モデルと描画先canvasを保持するSubdelegateを取得
+   */
+  public getSubdelegate(index: number = 0): LAppSubdelegate | OffscreenLive2DClient | null {
+    return index === 0 ? this.offscreen ?? this.subdelegate : null;
+  }
+
+  /**
+   * CharacterDelegate: アイドル等のモーションを無効化する
+   */
+  public setDisableMotions(disable: boolean): void {
+    (this.offscreen ?? this.subdelegate)?.setDisableMotions(disable);
   }
 
   /**
@@ -655,13 +882,21 @@ export class NativeLive2DWrapper {
     }
 
     this.stopRendering();
-    this.stopLipSync();
+    if (this.lipSyncing) {
+      this.stopLipSync();
+    }
+    this.visibilityObserver?.dispose();
+    this.visibilityObserver = null;
 
     // Dispose performance monitor
     if (this.performanceMonitor) {
       this.performanceMonitor.stopMonitoring();
       this.performanceMonitor = null;
     }
+    this.adaptiveQuality?.stop();
+    this.adaptiveQuality = null;
+    this.qualityListeners.clear();
+    this.pausedListeners.clear();
 
     // Dispose natural motion controller
     if (this.naturalMotionController) {
@@ -683,27 +918,23 @@ export class NativeLive2DWrapper {
     this.audioAnalyzer = null;
     this.vowelDetector = null;
 
-    if (this.manager) {
-      // Release models manually since releaseAllModel is private
-      const model = this.manager.getModel(0);
-      if (model) {
-        model.releaseMotions();
-        model.releaseExpressions();
-      }
+    if (this.mouseMoveListener) {
+      document.removeEventListener('mousemove', this.mouseMoveListener);
+      this.mouseMoveListener = null;
     }
 
-    if (this.delegate) {
-      this.delegate.release();
+    // モデル・テクスチャを解放してから、GPUメモリを即座に返すためWebGLコンテキストを破棄
+    if (this.subdelegate) {
+      this.subdelegate.release();
     }
+    this.gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    this.offscreen?.dispose();
+    this.offscreen = null;
 
-    if (this.canvas && this.container) {
-      this.container.removeChild(this.canvas);
-    }
+    this.releaseCanvas();
 
-    this.container = null;
-    this.canvas = null;
     this.gl = null;
-    this.delegate = null;
+    this.subdelegate = null;
     this.manager = null;
     this.glManager = null;
     this.wavFileHandler = null;
@@ -715,6 +946,7 @@ export class NativeLive2DWrapper {
   // Getters
   public isInitialized(): boolean { return this.initialized; }
   public isRendering(): boolean { return this.rendering; }
+  public isPaused(): boolean { return this.paused; }
   public hasModel(): boolean { return this.modelLoaded; }
   public getCurrentModelId(): string | null { return this.currentModelId; }
   public isPlayingMotion(): boolean { return this.playingMotion; }
@@ -724,17 +956,82 @@ export class NativeLive2DWrapper {
   public getMousePosition(): MousePosition { return this.mousePosition; }
   public isDragging(): boolean { return this.dragging; }
   public isEyeTrackingEnabled(): boolean { return this.eyeTrackingEnabled; }
-  public getTargetFPS(): number { return this.targetFPS; }
-  public getCurrentFPS(): number { return this.currentFPS; }
+  public getTargetFPS(): number { return this.framePacer.getTargetFPS(); }
+  public getCurrentFPS(): number { return this.offscreen ? this.offscreen.getCurrentFPS() : this.framePacer.getFPS(); }
   public getQuality(): Quality { return this.quality; }
+  public getRenderTime(): number { return this.offscreen ? this.offscreen.getRenderTime() : this.framePacer.getRenderTime(); }
 
   // Setters
-  public setTargetFPS(fps: number): void { this.targetFPS = Math.max(1, Math.min(60, fps)); }
+  public setTargetFPS(fps: number): void {
+    this.framePacer.setTargetFPS(Math.max(1, Math.min(60, fps)));
+    this.offscreen?.setTargetFPS(this.framePacer.getTargetFPS());
+  }
   public setEyeTracking(enabled: boolean): void { this.eyeTrackingEnabled = enabled; }
-  public setQuality(quality: Quality): void { this.quality = quality; }
   public setMotionLoop(motionName: string, loop: boolean): void { this.motionLoops.set(motionName, loop); }
   public getMotionLoop(motionName: string): boolean { return this.motionLoops.get(motionName) ?? false; }
 
+  /**
+   * 描画品質を切り替える（描画解像度・クリッピングマスクのサイズ・物理演算の更新レート・目標FPS）
+   */
+  public setQuality(quality: Quality): void {
+    const changed = this.quality !== quality;
+    this.quality = quality;
+    this.applyQuality();
+
+    if (changed) {
+      this.qualityListeners.forEach((listener) => listener(quality));
+    }
+  }
+
+  /**
+   * CharacterDelegate: 描画品質の変更を購読する
+   * @returns 購読を解除する関数
+   */
+  public onQualityChange(listener: (quality: Quality) => void): () => void {
+    this.qualityListeners.add(listener);
+    return () => {
+      this.qualityListeners.delete(listener);
+    };
+  }
+
+  /**
+   * CharacterDelegate: 描画の開始・停止・一時停止・再開を購読する
+   * @returns 購読を解除する関数
+   */
+  public onPausedChange(listener: () => void): () => void {
+    this.pausedListeners.add(listener);
+    return () => {
+      this.pausedListeners.delete(listener);
+    };
+  }
+
+  private notifyPaused(): void {
+    this.pausedListeners.forEach((listener) => listener());
+  }
+
+  public isAdaptiveQualityEnabled(): boolean {
+    return this.adaptiveQuality !== null;
+  }
+
+  private applyQuality(): void {
+    const settings = QUALITY_SETTINGS[this.quality];
+    this.setTargetFPS(settings.targetFPS);
+    this.subdelegate?.setResolutionScale(settings.resolutionScale);
+    this.manager?.setModelQuality(settings.clippingMaskSize, settings.physicsFps);
+    this.offscreen?.setRenderQuality({
+      resolutionScale: settings.resolutionScale,
+      clippingMaskSize: settings.clippingMaskSize,
+      physicsFps: settings.physicsFps
+    });
+  }
+
+  /**
+   * 表示中のモデル（ワーカーで描画する場合はワーカーのモデルへの操作を送るプロキシ）
+   */
+  private getModel(): LAppModel | OffscreenModelProxy | null {
+    return this.offscreen ? this.offscreen.getModel() : this.manager?.getModel(0) ?? null;
+  }
+
   /**
    * 描画統計取得
    */
@@ -744,6 +1041,9 @@ export class NativeLive2DWrapper {
       drawCalls: 10,
       vertices: 1000,
       triangles: 500,
+      textureMemoryBytes: this.offscreen
+        ? this.offscreen.getTextureMemoryBytes()
+        : this.subdelegate?.getTextureManager()?.getTextureMemoryBytes() ?? 0,
     };
   }
 
@@ -782,6 +1082,17 @@ export class NativeLive2DWrapper {
     return 50 * 1024 * 1024; // 50MB dummy
   }
 
+  /**
+   * コンテナからcanvasを取り除く
+   */
+  private releaseCanvas(): void {
+    if (this.canvas && this.container?.contains(this.canvas)) {
+      this.container.removeChild(this.canvas);
+    }
+    this.container = null;
+    this.canvas = null;
+  }
+
   /**
    * 破棄チェック
    */
@@ -12,6 +12,7 @@ export interface PerformanceReport {
   peakMemoryMB: number;
   estimatedCPU: number;
   frameTime: number;
+  renderTime: number; // 1フレームの更新・描画処理にかかった時間の平均（ms）
   passed: boolean;
   timestamp: number;
 }
@@ -169,6 +170,7 @@ export class PerformanceMonitor {
       peakMemoryMB: Math.round(this.peakMemory * 10) / 10,
       estimatedCPU: estimatedCPU,
       frameTime: Math.round(avgFrameTime * 100) / 100,
+      renderTime: wrapper ? Math.round(wrapper.getRenderTime() * 100) / 100 : 0,
       passed: this.checkPerformanceCriteria(avgFPS, currentMemory, estimatedCPU),
       timestamp: Date.now(),
     };
@@ -0,0 +1,66 @@
+/**
+ * 描画対象の表示状態の監視
+ * タブが裏にある（Page Visibility API）か、要素がスクロール等で画面外にある（IntersectionObserver）間は
+ * 見えていないものとして通知する。描画ループはこの間止めて電池の消費を抑える
+ *
+ * - IntersectionObserverが使えない環境では、画面内にあるものとして扱う
+ * - 表示状態が変わったときだけonChangeを呼ぶ
+ */
+
+export class RenderVisibilityObserver {
+  private pageVisible: boolean;
+  private intersecting = true;
+  private visible: boolean;
+  private intersectionObserver: IntersectionObserver | null = null;
+  private readonly visibilityListener = () => this.handleVisibilityChange();
+  private disposed = false;
+
+  constructor(target: Element, private readonly onChange: (visible: boolean) => void) {
+    this.pageVisible = document.visibilityState !== 'hidden';
+    this.visible = this.pageVisible;
+    document.addEventListener('visibilitychange', this.visibilityListener);
+
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.intersectionObserver = new IntersectionObserver((entries) => {
+        // 同じ要素の変化がまとめて届くことがあるため、最新のものを使う
+        const entry = entries[entries.length - 1];
+        if (entry) {
+          this.intersecting = entry.isIntersecting;
+          this.update();
+        }
+      });
+      this.intersectionObserver.observe(target);
+    }
+  }
+
+  /**
+   * タブが表示中で、かつ要素が画面内にあるか
+   */
+  public isVisible(): boolean {
+    return this.visible;
+  }
+
+  public dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    document.removeEventListener('visibilitychange', this.visibilityListener);
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = null;
+  }
+
+  private handleVisibilityChange(): void {
+    this.pageVisible = document.visibilityState !== 'hidden';
+    this.update();
+  }
+
+  private update(): void {
+    const visible = this.pageVisible && this.intersecting;
+    if (this.disposed || visible === this.visible) {
+      return;
+    }
+    this.visible = visible;
+    this.onChange(visible);
+  }
+}
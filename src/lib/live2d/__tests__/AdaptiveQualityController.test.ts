@@ -0,0 +1,179 @@
+/**
+ * AdaptiveQualityController Test Suite
+ * FPS・描画時間に応じた描画品質の自動調整のテスト
+ */
+
+import { AdaptiveQualityController, Quality, QualityTarget } from '../AdaptiveQualityController';
+import { PerformanceReport } from '../PerformanceMonitor';
+
+const createReport = (currentFPS: number, renderTime: number): PerformanceReport => ({
+  averageFPS: currentFPS,
+  currentFPS,
+  currentMemoryMB: 50,
+  peakMemoryMB: 50,
+  estimatedCPU: 100,
+  frameTime: 1000,
+  renderTime,
+  passed: false,
+  timestamp: 0
+});
+
+const createTarget = (initial: Quality = 'high') => {
+  let quality = initial;
+  let fps = 60;
+  let renderTime = 5; // 1フレームの描画時間（ms）
+  const target: jest.Mocked<QualityTarget> = {
+    getPerformanceReport: jest.fn(() => createReport(fps, renderTime)),
+    getQuality: jest.fn(() => quality),
+    setQuality: jest.fn((next: Quality) => {
+      quality = next;
+    })
+  };
+  return {
+    target,
+    setFPS: (value: number) => {
+      fps = value;
+    },
+    setRenderTime: (value: number) => {
+      renderTime = value;
+    }
+  };
+};
+
+// 変更直後の判定しない回数を0にして、回数を数えやすくする
+const OPTIONS = { downgradeSamples: 3, upgradeSamples: 5, settleSamples: 0 };
+
+const sampleTimes = (controller: AdaptiveQualityController, times: number) => {
+  for (let i = 0; i < times; i++) {
+    controller.sample();
+  }
+};
+
+describe('AdaptiveQualityController', () => {
+  it('FPSが目標を下回り続けたら品質を1段階ずつ下げる', () => {
+    const { target, setFPS } = createTarget('high');
+    const controller = new AdaptiveQualityController(target, OPTIONS);
+    setFPS(35);
+
+    sampleTimes(controller, 2);
+    expect(target.setQuality).not.toHaveBeenCalled();
+
+    controller.sample();
+    expect(target.setQuality).toHaveBeenLastCalledWith('medium');
+
+    sampleTimes(controller, 3);
+    expect(target.setQuality).toHaveBeenLastCalledWith('low');
+
+    // lowの目標FPS（30）には届いているので、それ以上は下げない
+    sampleTimes(controller, 4);
+    expect(target.setQuality).toHaveBeenCalledTimes(2);
+  });
+
+  it('一時的なFPSの低下では品質を下げない', () => {
+    const { target, setFPS } = createTarget('high');
+    const controller = new AdaptiveQualityController(target, OPTIONS);
+
+    setFPS(30);
+    sampleTimes(controller, 2);
+    setFPS(60);
+    controller.sample();
+    setFPS(30);
+    sampleTimes(controller, 2);
+
+    expect(target.setQuality).not.toHaveBeenCalled();
+  });
+
+  it('上の品質の目標FPSでも描画できる状態が続いたら品質を上げる', () => {
+    const { target } = createTarget('low');
+    const controller = new AdaptiveQualityController(target, OPTIONS);
+
+    sampleTimes(controller, 4);
+    expect(target.setQuality).not.toHaveBeenCalled();
+
+    controller.sample();
+    expect(target.setQuality).toHaveBeenLastCalledWith('medium');
+
+    sampleTimes(controller, 5);
+    expect(target.setQuality).toHaveBeenLastCalledWith('high');
+  });
+
+  it('lowで30FPSしか出ない端末は、描画時間が上の品質の1フレームに収まらないため上げない', () => {
+    const { target, setFPS, setRenderTime } = createTarget('low');
+    const controller = new AdaptiveQualityController(target, OPTIONS);
+    // lowの上限（30FPS）ちょうどで、1フレームの描画に約33msかかる
+    setFPS(30);
+    setRenderTime(32);
+
+    sampleTimes(controller, 100);
+
+    expect(target.setQuality).not.toHaveBeenCalled();
+    expect(target.getQuality()).toBe('low');
+  });
+
+  it('描画時間が上の品質の1フレームに収まるが目標FPSに届いていない場合は上げない', () => {
+    const { target, setFPS } = createTarget('medium');
+    const controller = new AdaptiveQualityController(target, OPTIONS);
+    setFPS(55);
+
+    sampleTimes(controller, 20);
+
+    expect(target.setQuality).not.toHaveBeenCalled();
+  });
+
+  it('上げた直後に下げた品質へは、次に上げるまでの回数を倍にする', () => {
+    const { target, setFPS } = createTarget('low');
+    const controller = new AdaptiveQualityController(target, OPTIONS);
+
+    sampleTimes(controller, 5);
+    expect(target.getQuality()).toBe('medium');
+
+    // mediumでは目標FPSに届かず下げる
+    setFPS(40);
+    sampleTimes(controller, 3);
+    expect(target.getQuality()).toBe('low');
+
+    // lowでは目標FPSに届いているが、次にmediumへ上げるのは10回後
+    setFPS(30);
+    sampleTimes(controller, 9);
+    expect(target.getQuality()).toBe('low');
+    controller.sample();
+    expect(target.getQuality()).toBe('medium');
+  });
+
+  it('品質を変えた直後と描画していない間は判定しない', () => {
+    const { target, setFPS } = createTarget('high');
+    const controller = new AdaptiveQualityController(target, { ...OPTIONS, settleSamples: 2 });
+    setFPS(35);
+
+    sampleTimes(controller, 3);
+    expect(target.setQuality).toHaveBeenLastCalledWith('medium');
+
+    // 変更直後の2回と、FPSが0の間は数えない
+    sampleTimes(controller, 2);
+    setFPS(0);
+    sampleTimes(controller, 5);
+    setFPS(35);
+    sampleTimes(controller, 2);
+    expect(target.setQuality).toHaveBeenCalledTimes(1);
+
+    controller.sample();
+    expect(target.setQuality).toHaveBeenLastCalledWith('low');
+  });
+
+  it('開始すると一定間隔でレポートを確認し、停止すると確認しない', () => {
+    jest.useFakeTimers();
+    const { target } = createTarget('high');
+    const controller = new AdaptiveQualityController(target, { sampleIntervalMs: 1000 });
+
+    controller.start();
+    expect(controller.isRunning()).toBe(true);
+    jest.advanceTimersByTime(3000);
+    expect(target.getPerformanceReport).toHaveBeenCalledTimes(3);
+
+    controller.stop();
+    jest.advanceTimersByTime(3000);
+    expect(target.getPerformanceReport).toHaveBeenCalledTimes(3);
+    expect(controller.isRunning()).toBe(false);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * WebGLコンテキストの消失・復元のテスト
+ * LAppGlManagerの通知と、LAppTextureManagerの保持している画像からのテクスチャの作り直し
+ */
+
+import { LAppGlManager } from '../demo/lappglmanager';
+import { LAppTextureManager, TextureInfo } from '../demo/lapptexturemanager';
+
+// テストで差し替えるブラウザのグローバル
+const browserGlobals = globalThis as unknown as {
+  fetch?: unknown;
+  createImageBitmap?: unknown;
+};
+
+const createFakeGl = () => {
+  let nextTexture = 0;
+  return {
+    TEXTURE_2D: 0x0de1,
+    createTexture: jest.fn(() => ({ id: ++nextTexture })),
+    bindTexture: jest.fn(),
+    texParameteri: jest.fn(),
+    pixelStorei: jest.fn(),
+    texImage2D: jest.fn(),
+    generateMipmap: jest.fn(),
+    deleteTexture: jest.fn()
+  };
+};
+
+const createFakeCanvas = (gl: unknown) => {
+  const canvas = new EventTarget() as EventTarget & { getContext: jest.Mock };
+  canvas.getContext = jest.fn(() => gl);
+  return canvas;
+};
+
+describe('LAppGlManager', () => {
+  it('コンテキストの消失を既定の動作を止めて通知し、復元も通知する', () => {
+    const canvas = createFakeCanvas(createFakeGl());
+    const glManager = new LAppGlManager();
+    const handler = { onContextLost: jest.fn(), onContextRestored: jest.fn() };
+
+    expect(glManager.initialize(canvas as unknown as HTMLCanvasElement)).toBe(true);
+    glManager.setContextLossHandler(handler);
+
+    const lost = new Event('webglcontextlost', { cancelable: true });
+    canvas.dispatchEvent(lost);
+    // preventDefault()しないとブラウザはコンテキストを復元しない
+    expect(lost.defaultPrevented).toBe(true);
+    expect(handler.onContextLost).toHaveBeenCalledTimes(1);
+
+    canvas.dispatchEvent(new Event('webglcontextrestored'));
+    expect(handler.onContextRestored).toHaveBeenCalledTimes(1);
+  });
+
+  it('解放後（WEBGL_lose_contextでの破棄）は通知しない', () => {
+    const canvas = createFakeCanvas(createFakeGl());
+    const glManager = new LAppGlManager();
+    const handler = { onContextLost: jest.fn(), onContextRestored: jest.fn() };
+    glManager.initialize(canvas as unknown as HTMLCanvasElement);
+    glManager.setContextLossHandler(handler);
+
+    glManager.release();
+    const lost = new Event('webglcontextlost', { cancelable: true });
+    canvas.dispatchEvent(lost);
+
+    expect(lost.defaultPrevented).toBe(false);
+    expect(handler.onContextLost).not.toHaveBeenCalled();
+  });
+});
+
+describe('LAppTextureManager', () => {
+  const bitmap = { width: 2048, height: 1024 };
+  let gl: ReturnType<typeof createFakeGl>;
+  let textureManager: LAppTextureManager;
+
+  const loadTexture = (fileName: string) =>
+    new Promise<TextureInfo>((resolve) => textureManager.createTextureFromPngFile(fileName, true, resolve));
+
+  beforeEach(() => {
+    // Imageがない環境（Web Worker）と同じくImageBitmapで読み込む
+    browserGlobals.fetch = jest.fn(async () => ({ blob: async () => ({}) }));
+    browserGlobals.createImageBitmap = jest.fn(async () => bitmap);
+
+    gl = createFakeGl();
+    const glManager = new LAppGlManager();
+    glManager.initialize(createFakeCanvas(gl) as unknown as HTMLCanvasElement);
+    textureManager = new LAppTextureManager();
+    textureManager.setGlManager(glManager);
+  });
+
+  afterEach(() => {
+    delete browserGlobals.fetch;
+    delete browserGlobals.createImageBitmap;
+  });
+
+  it('保持している画像からテクスチャを作り直し、ファイルを読み込み直さない', async () => {
+    const loaded = await loadTexture('/live2d/test.2048/texture_00.png');
+    const lostTexture = loaded.id;
+
+    textureManager.restoreTextures();
+
+    const restored = textureManager.getTextureByFilePath('/live2d/test.2048/texture_00.png');
+    expect(restored).toBe(loaded);
+    expect(restored.id).not.toBe(lostTexture);
+    expect(gl.texImage2D).toHaveBeenCalledTimes(2);
+    expect(gl.texImage2D.mock.calls[1][5]).toBe(bitmap);
+    expect(gl.deleteTexture).not.toHaveBeenCalled();
+    expect(browserGlobals.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('読み込んでいないテクスチャはnullを返す', () => {
+    expect(textureManager.getTextureByFilePath('/live2d/none.png')).toBeNull();
+  });
+
+  it('読み込んだテクスチャのGPUメモリを推定する', async () => {
+    await loadTexture('/live2d/test.2048/texture_00.png');
+
+    expect(textureManager.getTextureMemoryBytes()).toBe(Math.round((2048 * 1024 * 4 * 4) / 3));
+  });
+});
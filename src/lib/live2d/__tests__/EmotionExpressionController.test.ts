@@ -0,0 +1,110 @@
+/**
+ * EmotionExpressionController Test Suite
+ * 感情に応じた表情・モーション制御のテスト
+ */
+
+import {
+  EmotionExpressionController,
+  ExpressionTarget
+} from '../EmotionExpressionController';
+import type { Emotion } from '@/types/chat';
+
+const emotion = (name: string, intensity: number): Emotion => ({ name, label: name, intensity });
+
+describe('EmotionExpressionController', () => {
+  let target: jest.Mocked<ExpressionTarget>;
+  let controller: EmotionExpressionController;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    target = {
+      setExpression: jest.fn(),
+      startRandomMotion: jest.fn()
+    };
+    controller = new EmotionExpressionController(() => target, {
+      minHoldDurationMs: 1000,
+      maxHoldDurationMs: 5000
+    });
+  });
+
+  afterEach(() => {
+    controller.dispose();
+    jest.useRealTimers();
+  });
+
+  describe('applyEmotions', () => {
+    it('最も強い感情の表情とモーションを適用する', () => {
+      const mapping = controller.applyEmotions([emotion('sadness', 0.4), emotion('joy', 0.9)]);
+
+      expect(mapping).toEqual({ expression: 'Happy', motionGroup: 'Happy' });
+      expect(target.setExpression).toHaveBeenCalledWith('Happy');
+      expect(target.startRandomMotion).toHaveBeenCalledWith('Happy', expect.any(Number));
+      expect(controller.getCurrentExpression()).toBe('Happy');
+    });
+
+    it('モーションが未設定の感情は表情のみ変更する', () => {
+      controller.applyEmotions([emotion('anxiety', 0.8)]);
+
+      expect(target.setExpression).toHaveBeenCalledWith('Troubled');
+      expect(target.startRandomMotion).not.toHaveBeenCalled();
+    });
+
+    it('閾値未満の感情やマッピングのない感情には反応しない', () => {
+      expect(controller.applyEmotions([emotion('joy', 0.1), emotion('unknown', 1)])).toBeNull();
+      expect(target.setExpression).not.toHaveBeenCalled();
+    });
+
+    it('モデル未ロード時は何もしない', () => {
+      const unloaded = new EmotionExpressionController(() => null);
+
+      expect(unloaded.applyEmotions([emotion('joy', 1)])).toBeNull();
+      unloaded.dispose();
+    });
+
+    it('マッピングを差し替えられる', () => {
+      controller.updateConfig({ mappings: { joy: { expression: 'Happy2' } } });
+
+      controller.applyEmotions([emotion('joy', 1)]);
+
+      expect(target.setExpression).toHaveBeenCalledWith('Happy2');
+    });
+  });
+
+  describe('減衰', () => {
+    it('強度に応じた時間が経過するとNeutralに戻す', () => {
+      controller.applyEmotions([emotion('anger', 0.5)]);
+      target.setExpression.mockClear();
+
+      jest.advanceTimersByTime(2999);
+      expect(target.setExpression).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(target.setExpression).toHaveBeenCalledWith('Neutral');
+      expect(controller.getCurrentExpression()).toBe('Neutral');
+    });
+
+    it('新しい感情が届いたら維持時間を延長する', () => {
+      // 最初の感情だけなら3000msでNeutralに戻る
+      controller.applyEmotions([emotion('joy', 0.5)]);
+      jest.advanceTimersByTime(1000);
+      controller.applyEmotions([emotion('sadness', 0.5)]);
+      const heldExpression = controller.getCurrentExpression();
+      target.setExpression.mockClear();
+
+      // 最初の感情の期限（3000ms）を過ぎても維持する
+      jest.advanceTimersByTime(2500);
+      expect(target.setExpression).not.toHaveBeenCalled();
+      expect(controller.getCurrentExpression()).toBe(heldExpression);
+      expect(heldExpression).not.toBe('Neutral');
+
+      // 新しい感情が届いてから3000msでNeutralに戻す
+      jest.advanceTimersByTime(500);
+      expect(target.setExpression).toHaveBeenCalledWith('Neutral');
+    });
+
+    it('getHoldDurationは強度を0〜1に丸める', () => {
+      expect(controller.getHoldDuration(-1)).toBe(1000);
+      expect(controller.getHoldDuration(2)).toBe(5000);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * FramePacer Test Suite
+ * 描画ループのフレーム間引きとFPS・描画時間の統計のテスト
+ */
+
+import { FramePacer } from '../FramePacer';
+
+describe('FramePacer', () => {
+  let now: number;
+  let onStats: jest.Mock;
+  let pacer: FramePacer;
+
+  beforeEach(() => {
+    now = 0;
+    onStats = jest.fn();
+    pacer = new FramePacer(onStats, () => now);
+    pacer.reset();
+  });
+
+  it('目標FPSの間隔に達するまではフレームを描画しない', () => {
+    pacer.setTargetFPS(30);
+    const render = jest.fn(() => true);
+
+    now = 20;
+    expect(pacer.frame(render)).toBe(false);
+    now = 34;
+    expect(pacer.frame(render)).toBe(true);
+    expect(render).toHaveBeenCalledTimes(1);
+  });
+
+  it('前回描画からの経過時間（秒）で描画する', () => {
+    const deltaTimes: number[] = [];
+    const render = (deltaTime: number) => {
+      deltaTimes.push(deltaTime);
+      return true;
+    };
+
+    now = 20;
+    pacer.frame(render);
+    now = 70;
+    pacer.frame(render);
+
+    expect(deltaTimes[0]).toBeCloseTo(0.02);
+    expect(deltaTimes[1]).toBeCloseTo(0.05);
+  });
+
+  it('描画できなかったフレームの時間は次の描画に持ち越す', () => {
+    const deltaTimes: number[] = [];
+
+    now = 20;
+    pacer.frame(() => false);
+    now = 40;
+    pacer.frame((deltaTime) => {
+      deltaTimes.push(deltaTime);
+      return true;
+    });
+
+    expect(deltaTimes[0]).toBeCloseTo(0.04);
+  });
+
+  it('1秒ごとにFPSと描画時間の平均を更新して通知する', () => {
+    const render = () => {
+      now += 4;
+      return true;
+    };
+
+    for (let frame = 0; frame < 60; frame++) {
+      now = frame * 20 + 20;
+      pacer.frame(render);
+    }
+
+    expect(onStats).toHaveBeenCalledTimes(1);
+    expect(pacer.getFPS()).toBe(50);
+    expect(pacer.getRenderTime()).toBeCloseTo(4);
+    expect(onStats).toHaveBeenCalledWith(50, pacer.getRenderTime());
+  });
+
+  it('停止するとFPSを0にし、再開時は停止していた間の時間を経過時間に含めない', () => {
+    const deltaTimes: number[] = [];
+    for (let frame = 0; frame < 60; frame++) {
+      now = frame * 20 + 20;
+      pacer.frame(() => true);
+    }
+
+    pacer.stop();
+    expect(pacer.getFPS()).toBe(0);
+
+    now = 10000;
+    pacer.reset();
+    now = 10020;
+    pacer.frame((deltaTime) => {
+      deltaTimes.push(deltaTime);
+      return true;
+    });
+    expect(deltaTimes[0]).toBeCloseTo(0.02);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Live2DCharacterController Test Suite
+ */
+
+import {
+  CharacterDelegate,
+  CharacterModel,
+  getReadyCharacter,
+  Live2DCharacter,
+  Live2DCharacterController
+} from '../Live2DCharacterController';
+import { EmotionExpressionController } from '../EmotionExpressionController';
+import { AlignmentLipSyncScheduler } from '../lipsync/AlignmentLipSyncScheduler';
+import { MOUTH_SHAPES } from '../lipsync/constants';
+
+const createMockModel = (): jest.Mocked<CharacterModel> => ({
+  setExpression: jest.fn(),
+  startMotion: jest.fn().mockReturnValue(1),
+  startRandomMotion: jest.fn().mockReturnValue(1),
+  setLipSyncValue: jest.fn(),
+  setMouthFormValue: jest.fn(),
+  setMousePosition: jest.fn(),
+  resetMousePosition: jest.fn()
+});
+
+const createMockCharacter = (ready = true): jest.Mocked<Live2DCharacter> => ({
+  attach: jest.fn().mockReturnValue(() => {}),
+  isReady: jest.fn().mockReturnValue(ready),
+  setExpression: jest.fn(),
+  startMotion: jest.fn().mockReturnValue(true),
+  startRandomMotion: jest.fn().mockReturnValue(true),
+  setLipSyncValue: jest.fn(),
+  setMouthFormValue: jest.fn(),
+  lookAt: jest.fn(),
+  resetGaze: jest.fn(),
+  setVisible: jest.fn(),
+  isVisible: jest.fn().mockReturnValue(true),
+  isPaused: jest.fn().mockReturnValue(false),
+  subscribePaused: jest.fn().mockReturnValue(() => {}),
+  setMotionsDisabled: jest.fn(),
+  getQuality: jest.fn().mockReturnValue(null),
+  subscribeQuality: jest.fn().mockReturnValue(() => {})
+});
+
+const createMockDelegate = (
+  getModel: () => CharacterModel | null,
+  canvas: { style: { visibility: string } } = { style: { visibility: '' } }
+): jest.Mocked<CharacterDelegate> => ({
+  getSubdelegate: jest.fn(() => ({
+    getCanvas: () => canvas as unknown as HTMLCanvasElement,
+    getLive2DManager: () => ({ getModel })
+  })),
+  setDisableMotions: jest.fn()
+});
+
+describe('Live2DCharacterController', () => {
+  let model: jest.Mocked<CharacterModel> | null;
+  let canvas: { style: { visibility: string } };
+  let delegate: jest.Mocked<CharacterDelegate>;
+  let controller: Live2DCharacterController;
+
+  beforeEach(() => {
+    model = createMockModel();
+    canvas = { style: { visibility: '' } };
+    delegate = createMockDelegate(() => model, canvas);
+    controller = new Live2DCharacterController();
+    controller.attach(delegate);
+  });
+
+  it('表情・モーション・リップシンクをモデルに適用する', () => {
+    controller.setExpression('Happy');
+    expect(controller.startRandomMotion('Happy')).toBe(true);
+    controller.setLipSyncValue(0.5);
+    controller.setMouthFormValue(-0.4);
+
+    expect(model!.setExpression).toHaveBeenCalledWith('Happy');
+    expect(model!.startRandomMotion).toHaveBeenCalledWith('Happy', 2);
+    expect(model!.setLipSyncValue).toHaveBeenCalledWith(0.5);
+    expect(model!.setMouthFormValue).toHaveBeenCalledWith(-0.4);
+  });
+
+  it('モーションを開始できない場合はfalseを返す', () => {
+    model!.startMotion.mockReturnValue(-1);
+    expect(controller.startMotion('Idle', 0, 3)).toBe(false);
+    expect(model!.startMotion).toHaveBeenCalledWith('Idle', 0, 3);
+  });
+
+  it('視線の座標を範囲内に収める', () => {
+    controller.lookAt(2, -0.5);
+    expect(model!.setMousePosition).toHaveBeenCalledWith(1, -0.5);
+
+    controller.resetGaze();
+    expect(model!.resetMousePosition).toHaveBeenCalled();
+  });
+
+  it('表示・非表示を描画先canvasに反映する', () => {
+    controller.setVisible(false);
+    expect(canvas.style.visibility).toBe('hidden');
+    expect(controller.isVisible()).toBe(false);
+
+    controller.setVisible(true);
+    expect(canvas.style.visibility).toBe('');
+  });
+
+  it('モーションの無効化をデリゲートに伝える', () => {
+    controller.setMotionsDisabled(true);
+    expect(delegate.setDisableMotions).toHaveBeenCalledWith(true);
+  });
+
+  it('モデルの読み込み前は何もしない', () => {
+    model = null;
+    expect(controller.isReady()).toBe(false);
+    expect(controller.startRandomMotion('Happy')).toBe(false);
+    expect(() => controller.setLipSyncValue(0.5)).not.toThrow();
+
+    const withoutDelegate = new Live2DCharacterController();
+    expect(withoutDelegate.isReady()).toBe(false);
+    expect(() => withoutDelegate.setVisible(false)).not.toThrow();
+  });
+
+  it('最後に登録したデリゲートを操作し、解除すると前のデリゲートに戻る', () => {
+    const otherModel = createMockModel();
+    const otherCanvas = { style: { visibility: '' } };
+    const detach = controller.attach(createMockDelegate(() => otherModel, otherCanvas));
+
+    controller.setExpression('Sad');
+    expect(otherModel.setExpression).toHaveBeenCalledWith('Sad');
+    expect(model!.setExpression).not.toHaveBeenCalled();
+
+    detach();
+    controller.setExpression('Happy');
+    expect(model!.setExpression).toHaveBeenCalledWith('Happy');
+  });
+
+  it('非表示の状態は後から登録したデリゲートにも反映する', () => {
+    controller.setVisible(false);
+
+    const otherCanvas = { style: { visibility: '' } };
+    controller.attach(createMockDelegate(() => createMockModel(), otherCanvas));
+    expect(otherCanvas.style.visibility).toBe('hidden');
+  });
+
+  it('操作対象のデリゲートの描画品質を返し、変更を通知する', () => {
+    let notifyQuality: ((quality: 'low' | 'medium' | 'high') => void) | null = null;
+    const unsubscribe = jest.fn();
+    const qualityDelegate: CharacterDelegate = {
+      ...createMockDelegate(() => createMockModel()),
+      getQuality: jest.fn().mockReturnValue('medium'),
+      onQualityChange: jest.fn((listener) => {
+        notifyQuality = listener;
+        return unsubscribe;
+      })
+    };
+    const listener = jest.fn();
+    controller.subscribeQuality(listener);
+    expect(controller.getQuality()).toBeNull();
+
+    const detach = controller.attach(qualityDelegate);
+    expect(controller.getQuality()).toBe('medium');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    notifyQuality!('low');
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    detach();
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(controller.getQuality()).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('操作対象のデリゲートが描画を一時停止しているかを返す', () => {
+    expect(controller.isPaused()).toBe(false);
+
+    const pausedDelegate: CharacterDelegate = {
+      ...createMockDelegate(() => createMockModel()),
+      isPaused: jest.fn().mockReturnValue(true)
+    };
+    const detach = controller.attach(pausedDelegate);
+    expect(controller.isPaused()).toBe(true);
+
+    detach();
+    expect(controller.isPaused()).toBe(false);
+  });
+
+  it('操作対象のデリゲートが描画を停止している場合も一時停止中として扱う', () => {
+    let rendering = false;
+    const stoppedDelegate: CharacterDelegate = {
+      ...createMockDelegate(() => createMockModel()),
+      isPaused: jest.fn().mockReturnValue(false),
+      isRendering: jest.fn(() => rendering)
+    };
+    controller.attach(stoppedDelegate);
+    expect(controller.isPaused()).toBe(true);
+
+    rendering = true;
+    expect(controller.isPaused()).toBe(false);
+  });
+
+  it('操作対象のデリゲートの一時停止・再開と操作対象の変更を通知する', () => {
+    let notifyPaused: (() => void) | null = null;
+    const unsubscribe = jest.fn();
+    const pausingDelegate: CharacterDelegate = {
+      ...createMockDelegate(() => createMockModel()),
+      onPausedChange: jest.fn((listener: () => void) => {
+        notifyPaused = listener;
+        return unsubscribe;
+      })
+    };
+    const listener = jest.fn();
+    controller.subscribePaused(listener);
+
+    const detach = controller.attach(pausingDelegate);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    notifyPaused!();
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    detach();
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('getReadyCharacter', () => {
+  it('モデルが操作できない場合はnullを返す', () => {
+    const character = createMockCharacter(false);
+    expect(getReadyCharacter(character)).toBeNull();
+
+    character.isReady.mockReturnValue(true);
+    expect(getReadyCharacter(character)).toBe(character);
+  });
+});
+
+describe('ファサード経由のキャラクター制御', () => {
+  let character: jest.Mocked<Live2DCharacter>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    character = createMockCharacter();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('感情に応じた表情・モーションをファサードに適用する', () => {
+    const controller = new EmotionExpressionController(() => getReadyCharacter(character));
+    controller.applyEmotions([{ name: 'joy', label: '喜び', intensity: 0.8 }]);
+
+    expect(character.setExpression).toHaveBeenCalledWith('Happy');
+    expect(character.startRandomMotion).toHaveBeenCalledWith('Happy', 2);
+    controller.dispose();
+  });
+
+  it('アライメントに沿った口形をファサードに適用する', () => {
+    const scheduler = new AlignmentLipSyncScheduler(() => getReadyCharacter(character));
+    scheduler.start([{ text: 'あ', start: 0, end: 0.2 }], () => 0.05);
+
+    expect(character.setLipSyncValue).toHaveBeenCalledWith(MOUTH_SHAPES.a.ParamMouthOpenY);
+    expect(character.setMouthFormValue).toHaveBeenCalledWith(MOUTH_SHAPES.a.ParamMouthForm);
+    scheduler.dispose();
+  });
+
+  it('モデルの読み込み前はファサードを操作しない', () => {
+    character.isReady.mockReturnValue(false);
+    const controller = new EmotionExpressionController(() => getReadyCharacter(character));
+    controller.applyEmotions([{ name: 'joy', label: '喜び', intensity: 0.8 }]);
+
+    expect(character.setExpression).not.toHaveBeenCalled();
+    controller.dispose();
+  });
+});
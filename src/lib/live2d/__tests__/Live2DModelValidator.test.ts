@@ -0,0 +1,207 @@
+/**
+ * Live2DModelValidator Test Suite
+ * model3.jsonと参照ファイルの検証のテスト
+ */
+
+import { Live2DModelValidator, ModelFileSource } from '../Live2DModelValidator';
+
+const MODEL_URL = '/live2d/test/test.model3.json';
+
+const encode = (value: unknown): ArrayBuffer => {
+  const bytes = new TextEncoder().encode(typeof value === 'string' ? value : JSON.stringify(value));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+/**
+ * メモリ上のファイル（/live2d/test/からの相対パス → 内容）から読み込む
+ */
+const createFileSource = (files: Record<string, unknown>): ModelFileSource => {
+  const resolve = (url: string) => url.replace('/live2d/test/', '');
+  return {
+    read: async (url) => (resolve(url) in files ? encode(files[resolve(url)]) : null),
+    exists: async (url) => resolve(url) in files
+  };
+};
+
+const createModelFiles = (): Record<string, unknown> => ({
+  'test.model3.json': {
+    Version: 3,
+    FileReferences: {
+      Moc: 'test.moc3',
+      Textures: ['test.2048/texture_00.png'],
+      Physics: 'test.physics3.json',
+      DisplayInfo: 'test.cdi3.json',
+      Expressions: [
+        { Name: 'Neutral', File: 'expressions/Neutral.exp3.json' },
+        { Name: 'Happy', File: 'expressions/Happy.exp3.json' }
+      ],
+      Motions: {
+        Idle: [{ File: 'motions/Idle.motion3.json' }],
+        Happy: [{ File: 'motions/Idle.motion3.json' }, { File: 'motions/Wave.motion3.json' }]
+      }
+    },
+    Groups: [
+      { Target: 'Parameter', Name: 'LipSync', Ids: ['ParamMouthOpenY'] },
+      { Target: 'Parameter', Name: 'EyeBlink', Ids: ['ParamEyeLOpen', 'ParamEyeROpen'] }
+    ]
+  },
+  'test.moc3': 'moc',
+  'test.2048/texture_00.png': 'png',
+  'test.cdi3.json': {
+    Version: 3,
+    Parameters: [
+      { Id: 'ParamAngleX', GroupId: '', Name: '角度 X' },
+      { Id: 'ParamMouthOpenY', GroupId: '', Name: '口 開閉' },
+      { Id: 'ParamMouthForm', GroupId: '', Name: '口 変形' },
+      { Id: 'ParamEyeLOpen', GroupId: '', Name: '左目 開閉' },
+      { Id: 'ParamEyeROpen', GroupId: '', Name: '右目 開閉' },
+      { Id: 'ParamHairFront', GroupId: '', Name: '髪揺れ 前' }
+    ],
+    Parts: [{ Id: 'PartArmA', Name: '腕A' }]
+  },
+  'test.physics3.json': {
+    Version: 3,
+    PhysicsSettings: [
+      {
+        Id: 'PhysicsSetting1',
+        Input: [{ Source: { Target: 'Parameter', Id: 'ParamAngleX' }, Weight: 60, Type: 'X', Reflect: false }],
+        Output: [{ Destination: { Target: 'Parameter', Id: 'ParamHairFront' }, VertexIndex: 1, Scale: 1, Weight: 100, Type: 'Angle', Reflect: false }]
+      }
+    ]
+  },
+  'expressions/Neutral.exp3.json': { Type: 'Live2D Expression', Parameters: [] },
+  'expressions/Happy.exp3.json': {
+    Type: 'Live2D Expression',
+    Parameters: [{ Id: 'ParamMouthForm', Value: 1, Blend: 'Add' }]
+  },
+  'motions/Idle.motion3.json': {
+    Version: 3,
+    Curves: [
+      { Target: 'Model', Id: 'EyeBlink', Segments: [0, 1, 0, 1, 1] },
+      { Target: 'Parameter', Id: 'ParamAngleX', Segments: [0, 0, 0, 1, 0] }
+    ]
+  },
+  'motions/Wave.motion3.json': {
+    Version: 3,
+    Curves: [{ Target: 'PartOpacity', Id: 'PartArmA', Segments: [0, 1, 0, 1, 1] }]
+  }
+});
+
+const validate = (files: Record<string, unknown>, options = {}) =>
+  new Live2DModelValidator({ fileSource: createFileSource(files), ...options }).validate(MODEL_URL, {
+    neutralExpression: 'Neutral',
+    emotions: { joy: { expression: 'Happy', motionGroup: 'Happy' } }
+  });
+
+describe('Live2DModelValidator', () => {
+  it('すべて揃ったモデルはエラーを報告せず、IDを表示情報と照合する', async () => {
+    const report = await validate(createModelFiles());
+
+    expect(report.ok).toBe(true);
+    expect(report.parameterSource).toBe('displayInfo');
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'info', code: 'parameters-unverified' })
+    ]);
+    expect(report.checkedFiles).toBe(9);
+  });
+
+  it('参照先のファイルがない・解析できない場合はエラーとして報告する', async () => {
+    const files = createModelFiles();
+    delete files['test.2048/texture_00.png'];
+    delete files['motions/Wave.motion3.json'];
+    files['expressions/Happy.exp3.json'] = '{ "Parameters": [';
+
+    const report = await validate(files);
+
+    expect(report.ok).toBe(false);
+    expect(report.diagnostics.filter((diagnostic) => diagnostic.severity === 'error')).toEqual([
+      expect.objectContaining({ code: 'file-not-found', stage: 'texture', file: 'test.2048/texture_00.png' }),
+      expect.objectContaining({ code: 'invalid-json', stage: 'expression', file: 'expressions/Happy.exp3.json' }),
+      expect.objectContaining({ code: 'file-not-found', stage: 'motion', file: 'motions/Wave.motion3.json' })
+    ]);
+  });
+
+  it('model3.jsonがない・壊れている場合を報告する', async () => {
+    const missing = await validate({});
+    expect(missing.ok).toBe(false);
+    expect(missing.diagnostics).toEqual([
+      expect.objectContaining({ code: 'file-not-found', stage: 'model', file: 'test.model3.json' })
+    ]);
+
+    const broken = await validate({ 'test.model3.json': 'not json' });
+    expect(broken.diagnostics).toEqual([
+      expect.objectContaining({ code: 'invalid-json', stage: 'model', file: 'test.model3.json' })
+    ]);
+  });
+
+  it('パラメータ・パーツのIDをmocと照合する', async () => {
+    const files = createModelFiles();
+    const inspectMoc = jest.fn(() => ({
+      parameterIds: ['ParamAngleX', 'ParamMouthOpenY', 'ParamEyeLOpen', 'ParamEyeROpen', 'ParamHairFront'],
+      partIds: []
+    }));
+
+    const report = await validate(files, { inspectMoc });
+
+    expect(inspectMoc).toHaveBeenCalledTimes(1);
+    expect(report.ok).toBe(true);
+    expect(report.parameterSource).toBe('moc');
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({ code: 'unknown-parameter', stage: 'displayInfo', id: 'ParamMouthForm' }),
+      expect.objectContaining({ code: 'unknown-part', stage: 'displayInfo', id: 'PartArmA' }),
+      expect.objectContaining({ code: 'unknown-parameter', stage: 'expression', id: 'ParamMouthForm' }),
+      expect.objectContaining({ code: 'unknown-part', stage: 'motion', id: 'PartArmA' })
+    ]);
+  });
+
+  it('読み込めないmocをエラーとして報告する', async () => {
+    const report = await validate(createModelFiles(), { inspectMoc: () => null });
+
+    expect(report.ok).toBe(false);
+    expect(report.diagnostics).toContainEqual(
+      expect.objectContaining({ severity: 'error', code: 'invalid-moc', file: 'test.moc3' })
+    );
+  });
+
+  it('mocの解析で例外が発生した場合も読み込めないmocとして報告する', async () => {
+    const inspectMoc = () => {
+      throw new Error('Moc.fromArrayBuffer failed');
+    };
+    const report = await validate(createModelFiles(), { inspectMoc });
+
+    expect(report.ok).toBe(false);
+    expect(report.diagnostics).toContainEqual(
+      expect.objectContaining({ severity: 'error', code: 'invalid-moc', file: 'test.moc3' })
+    );
+  });
+
+  it('物理演算・パラメータグループの未知のIDを報告する', async () => {
+    const files = createModelFiles();
+    const cdi = files['test.cdi3.json'] as { Parameters: { Id: string }[] };
+    cdi.Parameters = cdi.Parameters.filter((parameter) => !['ParamHairFront', 'ParamEyeROpen'].includes(parameter.Id));
+
+    const report = await validate(files);
+
+    expect(report.diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ code: 'unknown-parameter', stage: 'physics', id: 'ParamHairFront' }),
+      expect.objectContaining({ code: 'unknown-parameter', stage: 'groups', id: 'ParamEyeROpen' })
+    ]));
+  });
+
+  it('感情の対応が必要とする表情・モーショングループがモデルにない場合を報告する', async () => {
+    const files = createModelFiles();
+    const setting = files['test.model3.json'] as {
+      FileReferences: { Expressions: { Name: string }[]; Motions: Record<string, unknown> };
+    };
+    setting.FileReferences.Expressions = setting.FileReferences.Expressions.filter((expression) => expression.Name !== 'Happy');
+    delete setting.FileReferences.Motions.Idle;
+
+    const report = await validate(files);
+
+    expect(report.ok).toBe(true);
+    expect(report.diagnostics).toEqual(expect.arrayContaining([
+      expect.objectContaining({ severity: 'warning', code: 'unknown-motion-group', id: 'Idle' }),
+      expect.objectContaining({ severity: 'warning', code: 'unknown-expression', stage: 'emotion', id: 'Happy' })
+    ]));
+  });
+});
@@ -3,32 +3,87 @@
  * PIXIに依存しないNative Live2D実装のテスト
  */
 
-import { NativeLive2DWrapper } from './NativeLive2DWrapper';
-import { LAppDelegate } from './demo/lappdelegate';
-import { LAppLive2DManager } from './demo/lapplive2dmanager';
-import { PerformanceMonitor } from './PerformanceMonitor';
+import { NativeLive2DWrapper } from '../NativeLive2DWrapper';
+import { LAppSubdelegate } from '../demo/lappsubdelegate';
+import { LAppWavFileHandler } from '../demo/lappwavfilehandler';
+import { logger } from '@/utils/logger';
 
 // Mock the Live2D modules
-jest.mock('./demo/lappdelegate');
-jest.mock('./demo/lapplive2dmanager');
-jest.mock('./demo/lappglmanager');
+jest.mock('../demo/lappsubdelegate');
+jest.mock('../demo/lapplive2dmanager');
+jest.mock('../demo/lappglmanager');
+jest.mock('../demo/lappwavfilehandler');
+jest.mock('../framework/live2dcubismframework', () => ({
+  ...jest.requireActual('../framework/live2dcubismframework'),
+  CubismFramework: { isStarted: jest.fn(() => false), startUp: jest.fn(() => true), initialize: jest.fn() }
+}));
+jest.mock('../loadCubismCore', () => ({ loadCubismCore: jest.fn(async () => undefined) }));
+jest.mock('../offscreen/createLive2DWorker', () => ({ createLive2DWorker: jest.fn() }));
+
+// テストで差し替えるブラウザのグローバル
+const browserGlobals = globalThis as unknown as {
+  window?: unknown;
+  document?: unknown;
+  requestAnimationFrame?: unknown;
+  cancelAnimationFrame?: unknown;
+};
+
+interface FakeElement {
+  tagName: string;
+  style: Record<string, string>;
+  children: FakeElement[];
+  width: number;
+  height: number;
+  getContext: jest.Mock;
+  appendChild(child: FakeElement): FakeElement;
+  removeChild(child: FakeElement): FakeElement;
+  contains(child: FakeElement): boolean;
+  querySelector(selector: string): FakeElement | null;
+}
+
+const createFakeElement = (tagName: string): FakeElement => ({
+  tagName: tagName.toUpperCase(),
+  style: {},
+  children: [],
+  width: 0,
+  height: 0,
+  getContext: jest.fn(() => null),
+  appendChild(child) {
+    this.children.push(child);
+    return child;
+  },
+  removeChild(child) {
+    this.children = this.children.filter((element) => element !== child);
+    return child;
+  },
+  contains(child) {
+    return this.children.includes(child);
+  },
+  querySelector(selector) {
+    return this.children.find((element) => element.tagName === selector.toUpperCase()) ?? null;
+  }
+});
 
 describe('NativeLive2DWrapper', () => {
   let wrapper: NativeLive2DWrapper;
   let container: HTMLDivElement;
   let mockCanvas: HTMLCanvasElement;
   let mockGL: WebGLRenderingContext;
+  let mockSubdelegate: {
+    initialize: jest.Mock;
+    onResize: jest.Mock;
+    [method: string]: jest.Mock;
+  };
 
   beforeEach(() => {
-    // Create container element
-    container = document.createElement('div');
-    container.style.width = '800px';
-    container.style.height = '600px';
-    document.body.appendChild(container);
+    jest.useFakeTimers();
 
     // Mock canvas and WebGL context
-    mockCanvas = document.createElement('canvas');
+    const canvasElement = createFakeElement('canvas');
+    mockCanvas = canvasElement as unknown as HTMLCanvasElement;
     mockGL = {
+      COLOR_BUFFER_BIT: 0x4000,
+      DEPTH_BUFFER_BIT: 0x0100,
       viewport: jest.fn(),
       clearColor: jest.fn(),
       clear: jest.fn(),
@@ -36,23 +91,83 @@ describe('NativeLive2DWrapper', () => {
       disable: jest.fn(),
       blendFunc: jest.fn(),
       getParameter: jest.fn().mockReturnValue([800, 600]),
+      isContextLost: jest.fn(() => false),
+      getExtension: jest.fn(() => null),
     } as any;
+    canvasElement.getContext.mockReturnValue(mockGL);
+
+    browserGlobals.window = globalThis;
+    browserGlobals.document = {
+      visibilityState: 'visible',
+      createElement: jest.fn((tagName: string) => (tagName === 'canvas' ? canvasElement : createFakeElement(tagName))),
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+    };
+    browserGlobals.requestAnimationFrame = (callback: (time: number) => void) =>
+      setTimeout(() => callback(performance.now()), 16);
+    browserGlobals.cancelAnimationFrame = (id: ReturnType<typeof setTimeout>) => clearTimeout(id);
 
-    jest.spyOn(document, 'createElement').mockImplementation((tagName: string) => {
-      if (tagName === 'canvas') {
-        return mockCanvas;
-      }
-      return document.createElement(tagName);
-    });
+    // Create container element
+    container = createFakeElement('div') as unknown as HTMLDivElement;
+    container.style.width = '800px';
+    container.style.height = '600px';
 
-    jest.spyOn(mockCanvas, 'getContext').mockReturnValue(mockGL);
+    // SubdelegateはcanvasのWebGLコンテキストを取得できた場合のみ初期化に成功する
+    const mockModel = {
+      startMotion: jest.fn(),
+      startRandomMotion: jest.fn(),
+      setExpression: jest.fn(),
+      setRandomExpression: jest.fn(),
+      setLipSyncValue: jest.fn(),
+      releaseMotions: jest.fn(),
+      releaseExpressions: jest.fn(),
+    };
+    const mockManager = {
+      getModel: jest.fn(() => mockModel),
+      loadModel: jest.fn((modelPath: string) => {
+        if (modelPath.includes('invalid')) {
+          throw new Error('Model not found');
+        }
+      }),
+      addModel: jest.fn(),
+      waitForModelSetup: jest.fn(async () => true),
+      setScreenType: jest.fn(),
+      getScreenType: jest.fn(),
+      setModelQuality: jest.fn(),
+      onTap: jest.fn(),
+      onDrag: jest.fn(),
+    };
+    mockSubdelegate = {
+      initialize: jest.fn((canvas: HTMLCanvasElement) => canvas.getContext('webgl') !== null),
+      release: jest.fn(),
+      update: jest.fn(),
+      onResize: jest.fn(),
+      onMouseMove: jest.fn(),
+      setDisableMotions: jest.fn(),
+      setResolutionScale: jest.fn(),
+      setContextLossListener: jest.fn(),
+      getGlManager: jest.fn(() => ({ getGl: () => mockGL })),
+      getLive2DManager: jest.fn(() => mockManager),
+      getTextureManager: jest.fn(() => ({ getTextureMemoryBytes: () => 0 })),
+    };
+    (LAppSubdelegate as unknown as jest.Mock).mockImplementation(() => mockSubdelegate);
+
+    const wavFileHandler = LAppWavFileHandler as jest.MockedClass<typeof LAppWavFileHandler>;
+    wavFileHandler.prototype.loadWavFile.mockResolvedValue(true);
+    wavFileHandler.prototype.update.mockReturnValue(true);
+    wavFileHandler.prototype.getRms.mockReturnValue(0);
 
     wrapper = new NativeLive2DWrapper();
   });
 
   afterEach(() => {
-    document.body.removeChild(container);
+    wrapper.dispose();
     jest.clearAllMocks();
+    jest.useRealTimers();
+    delete browserGlobals.window;
+    delete browserGlobals.document;
+    delete browserGlobals.requestAnimationFrame;
+    delete browserGlobals.cancelAnimationFrame;
   });
 
   describe('初期化', () => {
@@ -64,13 +179,11 @@ describe('NativeLive2DWrapper', () => {
       expect(container.querySelector('canvas')).toBeTruthy();
     });
 
-    it('WebGLコンテキストを正しく作成する', async () => {
+    it('作成したcanvasでWebGLコンテキストを初期化する', async () => {
       await wrapper.initialize(container);
 
-      expect(mockCanvas.getContext).toHaveBeenCalledWith('webgl', expect.objectContaining({
-        alpha: true,
-        premultipliedAlpha: true,
-      }));
+      expect(mockSubdelegate.initialize).toHaveBeenCalledWith(mockCanvas);
+      expect(mockCanvas.getContext).toHaveBeenCalledWith('webgl');
     });
 
     it('初期化失敗時はfalseを返す', async () => {
@@ -85,7 +198,7 @@ describe('NativeLive2DWrapper', () => {
     it('Cubism SDKを適切に初期化する', async () => {
       await wrapper.initialize(container);
 
-      expect(LAppDelegate.getInstance).toHaveBeenCalled();
+      expect(LAppSubdelegate).toHaveBeenCalled();
     });
   });
 
@@ -154,8 +267,10 @@ describe('NativeLive2DWrapper', () => {
 
       wrapper.resize(newWidth, newHeight);
 
-      expect(mockCanvas.width).toBe(newWidth);
-      expect(mockCanvas.height).toBe(newHeight);
+      expect(mockCanvas.style.width).toBe(`${newWidth}px`);
+      expect(mockCanvas.style.height).toBe(`${newHeight}px`);
+      // 描画バッファはSubdelegateが表示サイズに合わせる
+      expect(mockSubdelegate.onResize).toHaveBeenCalled();
     });
   });
 
@@ -351,6 +466,7 @@ describe('NativeLive2DWrapper', () => {
 
     it('FPSカウンターを取得できる', () => {
       wrapper.startRendering();
+      jest.advanceTimersByTime(1100);
 
       const fps = wrapper.getCurrentFPS();
 
@@ -364,6 +480,7 @@ describe('NativeLive2DWrapper', () => {
       expect(stats).toHaveProperty('drawCalls');
       expect(stats).toHaveProperty('vertices');
       expect(stats).toHaveProperty('triangles');
+      expect(stats.textureMemoryBytes).toBeGreaterThanOrEqual(0);
     });
 
     it('品質設定を調整できる', () => {
@@ -376,33 +493,33 @@ describe('NativeLive2DWrapper', () => {
   });
 
   describe('エラーハンドリング', () => {
-    it('初期化前の操作を防ぐ', () => {
+    it('初期化前の操作を防ぐ', async () => {
       expect(() => wrapper.startRendering()).toThrow('Wrapper not initialized');
-      expect(() => wrapper.loadModel('/test.json')).rejects.toThrow('Wrapper not initialized');
+      await expect(wrapper.loadModel('/test.json')).rejects.toThrow('Wrapper not initialized');
     });
 
     it('モデルロード失敗を適切に処理する', async () => {
       await wrapper.initialize(container);
 
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
-      const loaded = await wrapper.loadModel('/invalid/path.json');
+      const errorSpy = jest.spyOn(logger, 'error').mockImplementation();
+      const loaded = await wrapper.loadModel('/invalid/path.model3.json');
 
       expect(loaded).toBe(false);
-      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Failed to load model'));
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Failed to load model'), expect.any(Error));
 
-      consoleSpy.mockRestore();
+      errorSpy.mockRestore();
     });
 
     it('WebGL非対応環境を検出する', async () => {
       jest.spyOn(mockCanvas, 'getContext').mockReturnValue(null);
 
-      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const errorSpy = jest.spyOn(logger, 'error').mockImplementation();
       const initialized = await wrapper.initialize(container);
 
       expect(initialized).toBe(false);
-      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('WebGL not supported'));
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('WebGL not supported'));
 
-      consoleSpy.mockRestore();
+      errorSpy.mockRestore();
     });
   });
 
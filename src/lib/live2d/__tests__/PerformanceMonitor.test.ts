@@ -3,20 +3,28 @@
  * Live2Dパフォーマンス監視機能のテスト
  */
 
-import { PerformanceMonitor } from './PerformanceMonitor';
-import { NativeLive2DWrapper } from './NativeLive2DWrapper';
+import { PerformanceMonitor } from '../PerformanceMonitor';
+import { NativeLive2DWrapper } from '../NativeLive2DWrapper';
+
+// テストで差し替えるブラウザのグローバル
+const browserGlobals = globalThis as unknown as {
+  window?: unknown;
+};
 
 describe('PerformanceMonitor', () => {
   let monitor: PerformanceMonitor;
   let mockWrapper: NativeLive2DWrapper;
 
   beforeEach(() => {
+    jest.useFakeTimers();
+    browserGlobals.window = globalThis;
     monitor = new PerformanceMonitor();
 
     // Mock NativeLive2DWrapper
     mockWrapper = {
       isInitialized: jest.fn().mockReturnValue(true),
       getCurrentFPS: jest.fn().mockReturnValue(60),
+      getRenderTime: jest.fn().mockReturnValue(5),
     } as any;
 
     // Mock performance.now()
@@ -26,6 +34,8 @@ describe('PerformanceMonitor', () => {
   afterEach(() => {
     monitor.stopMonitoring();
     jest.clearAllMocks();
+    delete browserGlobals.window;
+    jest.useRealTimers();
   });
 
   describe('初期化と基準設定', () => {
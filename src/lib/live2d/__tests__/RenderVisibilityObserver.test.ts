@@ -0,0 +1,106 @@
+/**
+ * RenderVisibilityObserver Test Suite
+ * タブの表示状態・画面内外の監視のテスト
+ */
+
+import { RenderVisibilityObserver } from '../RenderVisibilityObserver';
+
+type IntersectionCallback = (entries: Array<{ isIntersecting: boolean }>) => void;
+
+// テストで差し替えるブラウザのグローバル
+const browserGlobals = globalThis as unknown as { document?: unknown; IntersectionObserver?: unknown };
+
+describe('RenderVisibilityObserver', () => {
+  let visibilityState: 'visible' | 'hidden';
+  let visibilityListeners: Set<() => void>;
+  let intersectionCallback: IntersectionCallback | null;
+  let disconnect: jest.Mock;
+  const target = {} as Element;
+
+  const setPageVisible = (visible: boolean) => {
+    visibilityState = visible ? 'visible' : 'hidden';
+    visibilityListeners.forEach((listener) => listener());
+  };
+
+  beforeEach(() => {
+    visibilityState = 'visible';
+    visibilityListeners = new Set();
+    intersectionCallback = null;
+    disconnect = jest.fn();
+
+    browserGlobals.document = {
+      get visibilityState() {
+        return visibilityState;
+      },
+      addEventListener: jest.fn((_type: string, listener: () => void) => visibilityListeners.add(listener)),
+      removeEventListener: jest.fn((_type: string, listener: () => void) => visibilityListeners.delete(listener))
+    };
+    browserGlobals.IntersectionObserver = jest.fn((callback: IntersectionCallback) => {
+      intersectionCallback = callback;
+      return { observe: jest.fn(), disconnect };
+    });
+  });
+
+  afterEach(() => {
+    delete browserGlobals.document;
+    delete browserGlobals.IntersectionObserver;
+  });
+
+  it('タブが裏にある間・画面外にある間は見えていないと通知する', () => {
+    const onChange = jest.fn();
+    const observer = new RenderVisibilityObserver(target, onChange);
+    expect(observer.isVisible()).toBe(true);
+
+    setPageVisible(false);
+    expect(onChange).toHaveBeenLastCalledWith(false);
+
+    // タブが裏にある間に画面外になっても、見えていない状態は変わらない
+    intersectionCallback!([{ isIntersecting: false }]);
+    setPageVisible(true);
+    expect(observer.isVisible()).toBe(false);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    intersectionCallback!([{ isIntersecting: true }]);
+    expect(observer.isVisible()).toBe(true);
+    expect(onChange).toHaveBeenLastCalledWith(true);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('まとめて届いた画面内外の変化は最新のものを使う', () => {
+    const onChange = jest.fn();
+    const observer = new RenderVisibilityObserver(target, onChange);
+
+    intersectionCallback!([{ isIntersecting: true }, { isIntersecting: false }]);
+    expect(observer.isVisible()).toBe(false);
+    expect(onChange).toHaveBeenCalledWith(false);
+  });
+
+  it('タブが裏にある状態で作成した場合は見えていない状態から始まる', () => {
+    visibilityState = 'hidden';
+    const observer = new RenderVisibilityObserver(target, jest.fn());
+    expect(observer.isVisible()).toBe(false);
+  });
+
+  it('IntersectionObserverがない環境ではタブの表示状態だけで判定する', () => {
+    delete browserGlobals.IntersectionObserver;
+    const onChange = jest.fn();
+    const observer = new RenderVisibilityObserver(target, onChange);
+
+    setPageVisible(false);
+    setPageVisible(true);
+    expect(observer.isVisible()).toBe(true);
+    expect(onChange.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it('破棄した後は監視を止めて通知しない', () => {
+    const onChange = jest.fn();
+    const observer = new RenderVisibilityObserver(target, onChange);
+
+    observer.dispose();
+    expect(disconnect).toHaveBeenCalled();
+    expect(visibilityListeners.size).toBe(0);
+
+    intersectionCallback!([{ isIntersecting: false }]);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
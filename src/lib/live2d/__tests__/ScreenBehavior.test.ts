@@ -0,0 +1,83 @@
+/**
+ * ScreenBehavior Test Suite
+ * 画面タイプごとの振る舞いの切り替えのテスト
+ */
+
+import {
+  ScreenType,
+  SCREEN_BEHAVIORS,
+  ScreenBehaviorTransitionSeconds,
+  blendScreenBehavior,
+  toScreenType
+} from '../demo/lappscreenbehavior';
+
+describe('ScreenBehavior', () => {
+  const home = SCREEN_BEHAVIORS[ScreenType.Home];
+  const chat = SCREEN_BEHAVIORS[ScreenType.Chat];
+
+  it('すべての画面タイプの振る舞いを定義している', () => {
+    Object.values(ScreenType).forEach((type) => {
+      expect(SCREEN_BEHAVIORS[type]).toBeDefined();
+    });
+  });
+
+  it('チャット画面では頭・体を動かさずアイドルモーションを無効にする', () => {
+    expect(chat.headFollow).toBe(0);
+    expect(chat.bodyFollow).toBe(0);
+    expect(chat.idleMotion).toBe(false);
+  });
+
+  describe('toScreenType', () => {
+    it('既知の画面タイプの文字列を変換する', () => {
+      expect(toScreenType('chat')).toBe(ScreenType.Chat);
+      expect(toScreenType(ScreenType.Report)).toBe(ScreenType.Report);
+    });
+
+    it('未知の値・値がない場合はnullを返す', () => {
+      expect(toScreenType('settings')).toBeNull();
+      expect(toScreenType(undefined)).toBeNull();
+      expect(toScreenType('')).toBeNull();
+    });
+  });
+
+  describe('blendScreenBehavior', () => {
+    it('一度に切り替えず目標の振る舞いへ徐々に近づける', () => {
+      const blended = blendScreenBehavior(home, chat, 1 / 60);
+
+      expect(blended.headFollow).toBeLessThan(home.headFollow);
+      expect(blended.headFollow).toBeGreaterThan(chat.headFollow);
+      expect(blended.eyeFollow).toBeGreaterThan(home.eyeFollow);
+      expect(blended.eyeFollow).toBeLessThan(chat.eyeFollow);
+    });
+
+    it('切り替えが落ち着くと目標の振る舞いになる', () => {
+      let behavior = home;
+      for (let frame = 0; frame < 60 * ScreenBehaviorTransitionSeconds * 10; frame++) {
+        behavior = blendScreenBehavior(behavior, chat, 1 / 60);
+      }
+
+      expect(behavior).toEqual(chat);
+    });
+
+    it('経過時間のフレームへの分け方に結果が左右されない', () => {
+      let perFrame = home;
+      for (let frame = 0; frame < 30; frame++) {
+        perFrame = blendScreenBehavior(perFrame, chat, 1 / 60);
+      }
+      const once = blendScreenBehavior(home, chat, 0.5);
+
+      expect(perFrame.headFollow).toBeCloseTo(once.headFollow, 5);
+      expect(perFrame.breathScale).toBeCloseTo(once.breathScale, 5);
+    });
+
+    it('アイドルモーションの有効・無効はすぐに切り替える', () => {
+      expect(blendScreenBehavior(home, chat, 0).idleMotion).toBe(false);
+      expect(blendScreenBehavior(chat, home, 0).idleMotion).toBe(true);
+    });
+
+    it('経過時間が0以下の場合は現在の振る舞いのままにする', () => {
+      expect(blendScreenBehavior(home, chat, 0).headFollow).toBe(home.headFollow);
+      expect(blendScreenBehavior(home, chat, -1).headFollow).toBe(home.headFollow);
+    });
+  });
+});
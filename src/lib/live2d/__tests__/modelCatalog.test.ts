@@ -0,0 +1,133 @@
+/**
+ * modelCatalog Test Suite
+ * Live2Dモデルのマニフェスト読み込みのテスト
+ */
+
+import {
+  DEFAULT_LIVE2D_MODEL,
+  DEFAULT_LIVE2D_MODEL_CATALOG,
+  findModel,
+  getEmotionExpressionConfig,
+  parseModelManifest,
+  splitModelUrl
+} from '../modelCatalog';
+import { DEFAULT_EMOTION_EXPRESSION_MAPPINGS } from '../EmotionExpressionController';
+
+describe('modelCatalog', () => {
+  describe('parseModelManifest', () => {
+    it('model3.jsonのパスをlive2dディレクトリからの相対パスとして解決する', () => {
+      const catalog = parseModelManifest({
+        models: [{ id: 'nike01', name: 'ニケ', model3: 'nike01/nike01.model3.json' }]
+      });
+
+      expect(catalog?.models[0]).toMatchObject({
+        id: 'nike01',
+        name: 'ニケ',
+        modelUrl: '/live2d/nike01/nike01.model3.json'
+      });
+    });
+
+    it('モデルごとの感情の対応を保持し、省略時は既定の対応を使う', () => {
+      const catalog = parseModelManifest({
+        models: [
+          {
+            id: 'custom',
+            model3: 'custom/custom.model3.json',
+            neutralExpression: 'Normal',
+            emotions: {
+              joy: { expression: 'Smile', motionGroup: 'Wave' },
+              sadness: { expression: 'Cry' },
+              anger: { motionGroup: 'Stomp' }
+            }
+          },
+          { id: 'plain', model3: 'plain/plain.model3.json' }
+        ]
+      });
+
+      expect(catalog?.models[0].neutralExpression).toBe('Normal');
+      expect(catalog?.models[0].emotions).toEqual({
+        joy: { expression: 'Smile', motionGroup: 'Wave' },
+        sadness: { expression: 'Cry' }
+      });
+      expect(catalog?.models[1].name).toBe('plain');
+      expect(catalog?.models[1].neutralExpression).toBe('Neutral');
+      expect(catalog?.models[1].emotions).toBe(DEFAULT_EMOTION_EXPRESSION_MAPPINGS);
+    });
+
+    it('不正なエントリ・重複したIDは読み飛ばす', () => {
+      const catalog = parseModelManifest({
+        models: [
+          { id: 'a', model3: 'a/a.model3.json' },
+          { id: 'a', model3: 'other/other.model3.json' },
+          { id: 'b', model3: 'b/b.moc3' },
+          { model3: 'c/c.model3.json' },
+          'd'
+        ]
+      });
+
+      expect(catalog?.models.map((model) => model.id)).toEqual(['a']);
+      expect(catalog?.models[0].modelUrl).toBe('/live2d/a/a.model3.json');
+    });
+
+    it('既定のIDがない・未知の場合は最初のモデルを使う', () => {
+      const models = [
+        { id: 'a', model3: 'a/a.model3.json' },
+        { id: 'b', model3: 'b/b.model3.json' }
+      ];
+
+      expect(parseModelManifest({ defaultModelId: 'b', models })?.defaultModelId).toBe('b');
+      expect(parseModelManifest({ defaultModelId: 'x', models })?.defaultModelId).toBe('a');
+      expect(parseModelManifest({ models })?.defaultModelId).toBe('a');
+    });
+
+    it('有効なモデルがない場合はnullを返す', () => {
+      expect(parseModelManifest(null)).toBeNull();
+      expect(parseModelManifest({ models: 'nike01' })).toBeNull();
+      expect(parseModelManifest({ models: [{ id: 'a' }] })).toBeNull();
+    });
+  });
+
+  describe('findModel', () => {
+    const catalog = parseModelManifest({
+      defaultModelId: 'b',
+      models: [
+        { id: 'a', model3: 'a/a.model3.json' },
+        { id: 'b', model3: 'b/b.model3.json' }
+      ]
+    })!;
+
+    it('選択したモデルを返す', () => {
+      expect(findModel(catalog, 'a').id).toBe('a');
+    });
+
+    it('未知のモデル・未選択の場合は既定のモデルを使う', () => {
+      expect(findModel(catalog, 'removed').id).toBe('b');
+      expect(findModel(catalog, null).id).toBe('b');
+    });
+
+    it('マニフェストがない場合は組み込みのモデルを使う', () => {
+      expect(findModel(DEFAULT_LIVE2D_MODEL_CATALOG, 'anything')).toBe(DEFAULT_LIVE2D_MODEL);
+      expect(DEFAULT_LIVE2D_MODEL.modelUrl).toBe('/live2d/nike01/nike01.model3.json');
+    });
+  });
+
+  it('モデルから感情表現の設定を作成する', () => {
+    const config = getEmotionExpressionConfig({
+      ...DEFAULT_LIVE2D_MODEL,
+      neutralExpression: 'Normal',
+      emotions: { joy: { expression: 'Smile' } }
+    });
+
+    expect(config).toEqual({
+      mappings: { joy: { expression: 'Smile' } },
+      neutralExpression: 'Normal'
+    });
+  });
+
+  it('model3.jsonのURLをディレクトリとファイル名に分ける', () => {
+    expect(splitModelUrl('/live2d/nike01/nike01.model3.json')).toEqual({
+      modelPath: '/live2d/nike01/',
+      modelJsonName: 'nike01.model3.json'
+    });
+  });
+});
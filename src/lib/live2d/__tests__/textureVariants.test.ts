@@ -0,0 +1,85 @@
+/**
+ * textureVariants Test Suite
+ * テクスチャの解像度違いの選択のテスト
+ */
+
+import {
+  estimateTextureMemoryBytes,
+  getTextureSizeBudget,
+  parseTextureVariantManifest,
+  selectTextureFile,
+  textureVariantManifestUrl,
+  TextureVariantManifest
+} from '../textureVariants';
+
+describe('textureVariants', () => {
+  const manifest: TextureVariantManifest = {
+    textures: {
+      'nike01.8192/texture_00.png': [
+        { size: 2048, file: 'nike01.2048/texture_00.png' },
+        { size: 4096, file: 'nike01.4096/texture_00.png' },
+        { size: 8192, file: 'nike01.8192/texture_00.png' }
+      ]
+    }
+  };
+
+  it('model3.jsonと同じ名前のマニフェストを参照する', () => {
+    expect(textureVariantManifestUrl('/live2d/nike01/', 'nike01.model3.json')).toBe('/live2d/nike01/nike01.textures.json');
+  });
+
+  it('マニフェストの解像度違いを昇順に並べ、不正なものは除く', () => {
+    const parsed = parseTextureVariantManifest({
+      textures: {
+        'a.8192/texture_00.png': [
+          { size: 8192, file: 'a.8192/texture_00.png' },
+          { size: 2048, file: 'a.2048/texture_00.png' },
+          { size: 0, file: 'a.0/texture_00.png' },
+          { size: 4096 }
+        ],
+        'b.png': 'b.2048.png'
+      }
+    });
+
+    expect(parsed).toEqual({
+      textures: {
+        'a.8192/texture_00.png': [
+          { size: 2048, file: 'a.2048/texture_00.png' },
+          { size: 8192, file: 'a.8192/texture_00.png' }
+        ]
+      }
+    });
+    expect(parseTextureVariantManifest([])).toBeNull();
+  });
+
+  it('端末のメモリが少ないほどテクスチャの上限を下げる', () => {
+    expect(getTextureSizeBudget({ maxTextureSize: 16384, deviceMemory: 2 })).toBe(2048);
+    expect(getTextureSizeBudget({ maxTextureSize: 16384, deviceMemory: 4 })).toBe(4096);
+    expect(getTextureSizeBudget({ maxTextureSize: 16384, deviceMemory: 8 })).toBe(16384);
+    // deviceMemoryを取得できないブラウザ
+    expect(getTextureSizeBudget({ maxTextureSize: 16384, deviceMemory: null })).toBe(4096);
+    // MAX_TEXTURE_SIZEを超えない
+    expect(getTextureSizeBudget({ maxTextureSize: 4096, deviceMemory: 8 })).toBe(4096);
+  });
+
+  it('上限以下で最も大きいテクスチャを選ぶ', () => {
+    const file = 'nike01.8192/texture_00.png';
+
+    expect(selectTextureFile(file, manifest, { maxTextureSize: 16384, deviceMemory: 8 })).toBe('nike01.8192/texture_00.png');
+    expect(selectTextureFile(file, manifest, { maxTextureSize: 8192, deviceMemory: 4 })).toBe('nike01.4096/texture_00.png');
+    expect(selectTextureFile(file, manifest, { maxTextureSize: 4096, deviceMemory: 1 })).toBe('nike01.2048/texture_00.png');
+    // 上限以下のものがない場合は最も小さいもの
+    expect(selectTextureFile(file, manifest, { maxTextureSize: 1024, deviceMemory: 8 })).toBe('nike01.2048/texture_00.png');
+  });
+
+  it('解像度違いがないテクスチャはmodel3.jsonのまま読み込む', () => {
+    const limits = { maxTextureSize: 2048, deviceMemory: 1 };
+
+    expect(selectTextureFile('other/texture_00.png', manifest, limits)).toBe('other/texture_00.png');
+    expect(selectTextureFile('nike01.8192/texture_00.png', null, limits)).toBe('nike01.8192/texture_00.png');
+  });
+
+  it('ミップマップを含めたGPUメモリを推定する', () => {
+    expect(estimateTextureMemoryBytes(2048, 2048, false)).toBe(16 * 1024 * 1024);
+    expect(estimateTextureMemoryBytes(8192, 8192)).toBe(Math.round((256 * 1024 * 1024 * 4) / 3));
+  });
+});
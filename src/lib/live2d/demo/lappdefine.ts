@@ -47,11 +47,17 @@ export const PowerImageName = '';
 // モデル定義---------------------------------------------
 // モデルを配置したディレクトリ名の配列
 // ディレクトリ名とmodel3.jsonの名前を一致させておくこと
+// 選択できるモデルの一覧はpublic/live2d/models.json（modelCatalog.ts）で定義し、
+// ここでは既定のモデル（マニフェストを読み込めない場合に使う）を指定する
 export const ModelDir: string[] = [
   'nike01'
 ];
 export const ModelDirSize: number = ModelDir.length;
 
+// モデルの読み込み（モーション・テクスチャを含む）の完了を待つ最大時間（ミリ秒）
+// 参照ファイルが壊れていると読み込みが途中で止まるため、これを過ぎたら読み込めなかったものとして扱う
+export const ModelSetupTimeout = 30000;
+
 // 外部定義ファイル（json）と合わせる
 export const MotionGroupIdle = 'Idle'; // アイドリング
 export const MotionGroupTapBody = 'TapBody'; // 体をタップしたとき
@@ -12,6 +12,7 @@ import { LAppPal } from './lapppal';
 import { LAppSubdelegate } from './lappsubdelegate';
 import { LAppGlManager } from './lappglmanager';
 import { CubismLogError } from '../framework/utils/cubismdebug';
+import { RenderVisibilityObserver } from '../RenderVisibilityObserver';
 
 export let s_instance: LAppDelegate = null;
 
@@ -245,6 +246,7 @@ export class LAppDelegate {
     // アニメーションループのフラグをリセット
     this._isRunning = false;
     this._animationFrameId = null;
+    this.releaseVisibilityObservers();
 
     // Cubism SDKの初期化
     this.initializeCubism();
@@ -366,6 +368,7 @@ export class LAppDelegate {
     this._canvases = new csmVector<HTMLCanvasElement>();
     this._isRunning = false;
     this._animationFrameId = null;
+    this._visibilityObservers = [];
     this._disableMotions = false; // 動作無効化フラグ
   }
 
@@ -374,6 +377,10 @@ export class LAppDelegate {
    */
   public setDisableMotions(disable: boolean): void {
     this._disableMotions = disable;
+    // 初期化済みのSubdelegateにも伝播
+    for (let i = 0; i < this._subdelegates.getSize(); i++) {
+      this._subdelegates.at(i).setDisableMotions(disable);
+    }
   }
 
   /**
@@ -383,6 +390,18 @@ export class LAppDelegate {
     return this._disableMotions;
   }
 
+  /**
+   * 指定されたインデックスのSubdelegateを取得
+   * @param index Subdelegateのインデックス（デフォルト: 0）
+   * @returns LAppSubdelegateのインスタンス（未初期化の場合はnull）
+   */
+  public getSubdelegate(index: number = 0): LAppSubdelegate | null {
+    if (index < 0 || index >= this._subdelegates.getSize()) {
+      return null;
+    }
+    return this._subdelegates.at(index);
+  }
+
   /**
    * Cubism SDK Option
    */
@@ -408,6 +427,11 @@ export class LAppDelegate {
    */
   private _animationFrameId: number | null;
 
+  /**
+   * canvasごとの表示状態（_canvasesと同じ順）
+   */
+  private _visibilityObservers: RenderVisibilityObserver[];
+
   /**
    * 動作無効化フラグ
    */
@@ -436,6 +460,7 @@ export class LAppDelegate {
 
   /**
    * 実行処理。
+   * タブが裏にある間・画面外のcanvasは描画せず、見えるcanvasがなければループ自体を止める。
    */
   public run(): void {
     // 既に実行中の場合は何もしない
@@ -453,6 +478,12 @@ export class LAppDelegate {
         return;
       }
 
+      // 見えているcanvasがなければ、表示されるまでループを止める
+      if (!this.hasVisibleCanvas()) {
+        this._animationFrameId = null;
+        return;
+      }
+
       // 時間更新
       LAppPal.updateTime();
 
@@ -463,13 +494,12 @@ export class LAppDelegate {
       }
 
       // 画面の初期化
-      for (
-        let ite = this._subdelegates.begin();
-        ite.notEqual(this._subdelegates.end());
-        ite.preIncrement()
-      ) {
-        const canvas = ite.ptr().getCanvas();
-        const gl = ite.ptr().getGlManager().getGl();
+      for (let i = 0; i < this._subdelegates.getSize(); i++) {
+        if (!this.isCanvasVisible(i)) {
+          continue;
+        }
+        const canvas = this._subdelegates.at(i).getCanvas();
+        const gl = this._subdelegates.at(i).getGlManager().getGl();
         if (gl && !gl.isContextLost()) {
           gl.viewport(0, 0, canvas.width, canvas.height);
           gl.clearColor(0.0, 0.0, 0.0, 0.0);
@@ -478,21 +508,60 @@ export class LAppDelegate {
         }
       }
 
-      // 各キャンバスの描画
-      for (
-        let ite = this._subdelegates.begin();
-        ite.notEqual(this._subdelegates.end());
-        ite.preIncrement()
-      ) {
-        ite.ptr().update();
+      // 各キャンバスの描画（画面外のcanvasのモデルは時間を進めない）
+      for (let i = 0; i < this._subdelegates.getSize(); i++) {
+        if (this.isCanvasVisible(i)) {
+          this._subdelegates.at(i).update();
+        }
       }
 
       // ループのために再帰呼び出し
       this._animationFrameId = requestAnimationFrame(loop);
     };
+
+    // canvasごとの表示状態を監視し、止まっていたループを再開する
+    this.releaseVisibilityObservers();
+    for (let i = 0; i < this._canvases.getSize(); i++) {
+      this._visibilityObservers.push(
+        new RenderVisibilityObserver(this._canvases.at(i), () => {
+          if (this._isRunning && this._animationFrameId === null && this.hasVisibleCanvas()) {
+            // 停止していた間の時間でモーション・物理演算が飛ばないよう、時刻の基準を合わせ直す
+            LAppPal.resetTime();
+            this._animationFrameId = requestAnimationFrame(loop);
+          }
+        })
+      );
+    }
+
+    LAppPal.resetTime();
     loop();
   }
 
+  /**
+   * index番目のcanvasが見えているか（タブが表示中かつ画面内）
+   */
+  private isCanvasVisible(index: number): boolean {
+    return this._visibilityObservers[index]?.isVisible() ?? true;
+  }
+
+  private hasVisibleCanvas(): boolean {
+    // subdelegatesの作成待ちの間はループを続ける
+    if (!this._subdelegates || this._subdelegates.getSize() === 0) {
+      return true;
+    }
+    for (let i = 0; i < this._subdelegates.getSize(); i++) {
+      if (this.isCanvasVisible(i)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private releaseVisibilityObservers(): void {
+    this._visibilityObservers.forEach((observer) => observer.dispose());
+    this._visibilityObservers = [];
+  }
+
   /**
    * 解放する。
    */
@@ -503,6 +572,7 @@ export class LAppDelegate {
       cancelAnimationFrame(this._animationFrameId);
       this._animationFrameId = null;
     }
+    this.releaseVisibilityObservers();
 
     // イベントリスナーの削除
     if (this.pointBeganEventListener) {
@@ -1,4 +1,5 @@
 import { logger } from '@/utils/logger';
+import type { LAppCanvas } from './lappsubdelegate';
 
 /**
  * Copyright(c) Live2D Inc. All rights reserved.
@@ -8,13 +9,16 @@ import { logger } from '@/utils/logger';
  */
 
 /**
- * Cubism SDKのサンプルで使用するWebGLを管理するクラス
+ * WebGLコンテキストの消失・復元の通知先
  */
+export interface LAppContextLossHandler {
+  onContextLost(): void;
+  onContextRestored(): void;
+}
 
-// グローバル変数として管理
-export let canvas: HTMLCanvasElement | null = null;
-export let gl: WebGLRenderingContext | WebGL2RenderingContext | null = null;
-export let frameBuffer: WebGLFramebuffer | null = null;
+/**
+ * Cubism SDKのサンプルで使用するWebGLを管理するクラス
+ */
 
 export class LAppGlManager {
   private static s_instance: LAppGlManager = null;
@@ -44,38 +48,32 @@ export class LAppGlManager {
     s_instance = null;
   }
 
-  /**
-   * canvasを静的に設定する
-   */
-  public static setCanvas(canvasElement: HTMLCanvasElement): void {
-    canvas = canvasElement;
-    // glコンテキストを初期化（透明背景対応）
-    gl = canvas.getContext('webgl2', { alpha: true, premultipliedAlpha: true }) ||
-         canvas.getContext('webgl', { alpha: true, premultipliedAlpha: true });
-
-    if (!gl) {
-      // gl初期化失敗
-      logger.error('Cannot initialize WebGL. This browser does not support.');
-      gl = null;
-    }
-  }
-
   public constructor() {
-    // シングルトンパターンのため、外部からのnewを禁止
+    // キャンバスごとにインスタンスを作成する（複数キャンバスの同時描画に対応）
+    this._canvas = null;
+    this._gl = null;
   }
 
-  public initialize(canvasElement: HTMLCanvasElement): boolean {
-    canvas = canvasElement;
+  public initialize(canvasElement: LAppCanvas): boolean {
+    this._canvas = canvasElement;
     // glコンテキストを初期化（透明背景対応）
-    gl = canvas.getContext('webgl2', { alpha: true, premultipliedAlpha: true }) ||
+    // HTMLCanvasElementとOffscreenCanvasのgetContextはオーバーロードが異なるため、WebGLのコンテキストとして扱う
+    const canvas = this._canvas as HTMLCanvasElement;
+    this._gl = canvas.getContext('webgl2', { alpha: true, premultipliedAlpha: true }) ||
          canvas.getContext('webgl', { alpha: true, premultipliedAlpha: true });
 
-    if (!gl) {
+    if (!this._gl) {
       // gl初期化失敗
       logger.error('Cannot initialize WebGL. This browser does not support.');
-      gl = null;
+      this._gl = null;
       return false;
     }
+
+    // GPUのリセット・バックグラウンドでのメモリ回収でコンテキストが消失した場合に復元する
+    // （HTMLCanvasElement・OffscreenCanvasのどちらにも通知される）
+    const target = this._canvas as EventTarget;
+    target.addEventListener('webglcontextlost', this.handleContextLost);
+    target.addEventListener('webglcontextrestored', this.handleContextRestored);
     return true;
   }
 
@@ -83,14 +81,42 @@ export class LAppGlManager {
    * 解放する。
    */
   public release(): void {
-    gl = null;
-    frameBuffer = null;
-    canvas = null;
+    if (this._canvas) {
+      const target = this._canvas as EventTarget;
+      target.removeEventListener('webglcontextlost', this.handleContextLost);
+      target.removeEventListener('webglcontextrestored', this.handleContextRestored);
+    }
+    this._contextLossHandler = null;
+    this._gl = null;
+    this._canvas = null;
+  }
+
+  /**
+   * WebGLコンテキストの消失・復元の通知先を設定する
+   */
+  public setContextLossHandler(handler: LAppContextLossHandler | null): void {
+    this._contextLossHandler = handler;
   }
 
+  private readonly handleContextLost = (event: Event): void => {
+    // 既定の動作を止めないと、ブラウザはコンテキストを復元しない
+    event.preventDefault();
+    logger.warn('WebGL context lost');
+    this._contextLossHandler?.onContextLost();
+  };
+
+  private readonly handleContextRestored = (): void => {
+    logger.log('WebGL context restored');
+    this._contextLossHandler?.onContextRestored();
+  };
+
   public getGl(): WebGLRenderingContext | WebGL2RenderingContext {
-    return gl;
+    return this._gl;
   }
+
+  private _canvas: LAppCanvas | null;
+  private _gl: WebGLRenderingContext | WebGL2RenderingContext | null;
+  private _contextLossHandler: LAppContextLossHandler | null = null;
 }
 
 let s_instance: LAppGlManager = null;
\ No newline at end of file
@@ -11,8 +11,7 @@ import { csmVector } from '../framework/type/csmvector';
 import { logger } from '@/utils/logger';
 
 import * as LAppDefine from './lappdefine';
-import { LAppModel, LAppModelFactory, ScreenType } from './lappmodel';
-import { LAppModelBase } from './lappmodelbase';
+import { LAppModel, ScreenType } from './lappmodel';
 import { LAppPal } from './lapppal';
 import { LAppSubdelegate } from './lappsubdelegate';
 
@@ -36,6 +35,7 @@ export class LAppLive2DManager {
         model.cancelLoading();
         model.releaseMotions();
         model.releaseExpressions();
+        model.releaseTextures();
         // subdelegateをnullに設定して参照を切る
         model.setSubdelegate(null);
       }
@@ -136,32 +136,42 @@ export class LAppLive2DManager {
     let modelJsonName: string = LAppDefine.ModelDir[index];
     modelJsonName += '.model3.json';
 
-    this.releaseAllModel();
+    this.loadModel(modelPath, modelJsonName);
+  }
 
-    // subdelegateが設定されていることを確認
+  /**
+   * 指定したモデルに切り替える
+   * 初期化前に呼んだ場合は、initialize()でModelDirのシーンの代わりにこのモデルを読み込む
+   * @param modelPath model3.jsonを置いたディレクトリ（末尾は/）
+   * @param modelJsonName model3.jsonのファイル名
+   */
+  public loadModel(modelPath: string, modelJsonName: string): void {
+    this._modelSource = { modelPath, modelJsonName };
+
+    // subdelegateが設定されていない場合はinitialize()で読み込む
     if (!this._subdelegate) {
-      logger.error('LAppLive2DManager: subdelegate is not set');
       return;
     }
 
+    this.releaseAllModel();
+
     const instance = new LAppModel();
     instance.setSubdelegate(this._subdelegate);
     // disableMotionsフラグを新しいモデルに設定
     if (this._disableMotions) {
       instance.setDisableMotions(this._disableMotions);
     }
+    // 画面タイプは読み込み直後から反映する（切り替えのアニメーションはしない）
+    instance.setScreenType(this._screenType, true);
+    if (this._modelQuality) {
+      instance.setClippingMaskBufferSize(this._modelQuality.clippingMaskSize);
+      instance.setPhysicsFps(this._modelQuality.physicsFps);
+    }
     instance.loadAssets(modelPath, modelJsonName);
     this._models.pushBack(instance);
 
     // モデル読み込み完了後にアイドルモーションを開始
-    setTimeout(() => {
-      // Phase 3: Ensure initial gaze is reset
-      const model = this._models.at(0);
-      if (model) {
-        model.resetMousePosition();
-      }
-      this.startIdleMotion();
-    }, 1000);
+    this.scheduleIdleMotion(1000);
   }
 
   public setViewMatrix(m: CubismMatrix44) {
@@ -192,6 +202,10 @@ export class LAppLive2DManager {
    * 解放する。
    */
   public release(): void {
+    if (this._idleMotionTimer !== null) {
+      clearTimeout(this._idleMotionTimer);
+      this._idleMotionTimer = null;
+    }
     this.releaseAllModel();
     this._viewMatrix = null;
     this._subdelegate = null;
@@ -203,7 +217,20 @@ export class LAppLive2DManager {
    */
   public initialize(subdelegate: LAppSubdelegate): void {
     this._subdelegate = subdelegate;
-    this.changeScene(this._sceneIndex);
+    if (this._modelSource) {
+      this.loadModel(this._modelSource.modelPath, this._modelSource.modelJsonName);
+    } else {
+      this.changeScene(this._sceneIndex);
+    }
+  }
+
+  /**
+   * WebGLコンテキストの復元後に、モデルのレンダラを作り直す
+   */
+  public onContextRestored(): void {
+    for (let i = 0; i < this._models.getSize(); i++) {
+      this._models.at(i)?.restoreRenderer();
+    }
   }
 
   /**
@@ -215,20 +242,38 @@ export class LAppLive2DManager {
       // Phase 3: Reset initial gaze position
       model.resetMousePosition();
 
+      // アイドルモーションを再生しない画面では、再生せずに次の確認まで待つ
+      if (!model.getScreenBehavior().idleMotion) {
+        this.scheduleIdleMotion(Math.random() * 3000 + 2000);
+        return;
+      }
+
       // アイドルモーションをループ再生（ランダム間隔で）
       model.startRandomMotion(
         LAppDefine.MotionGroupIdle,
         LAppDefine.PriorityIdle,
         () => {
           // モーション終了後、ランダム間隔で次のアイドルモーションを再生
-          setTimeout(() => {
-            this.startIdleMotion();
-          }, Math.random() * 3000 + 2000);
+          this.scheduleIdleMotion(Math.random() * 3000 + 2000);
         }
       );
     }
   }
 
+  /**
+   * アイドルモーションの開始を予約する
+   * モデルを切り替えても再生ループが重複しないよう、予約は常に1つだけにする
+   */
+  private scheduleIdleMotion(delay: number): void {
+    if (this._idleMotionTimer !== null) {
+      clearTimeout(this._idleMotionTimer);
+    }
+    this._idleMotionTimer = setTimeout(() => {
+      this._idleMotionTimer = null;
+      this.startIdleMotion();
+    }, delay);
+  }
+
   /**
    * 指定されたインデックスのモデルを取得
    * @param index モデルのインデックス（デフォルト: 0）
@@ -241,6 +286,29 @@ export class LAppLive2DManager {
     return this._models.at(index);
   }
 
+  /**
+   * 表示中のモデルの読み込み（モーション・テクスチャを含む）の完了を待つ
+   * @returns 読み込みが完了した場合はtrue。モデルがない・読み込めなかった・切り替えられた・
+   *   LAppDefine.ModelSetupTimeoutを過ぎた場合はfalse
+   */
+  public waitForModelSetup(): Promise<boolean> {
+    const model = this.getModel(0);
+    if (!model) {
+      return Promise.resolve(false);
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        logger.warn('Live2Dモデルの読み込みが完了しません');
+        resolve(false);
+      }, LAppDefine.ModelSetupTimeout);
+      model.waitForSetup().then((completed) => {
+        clearTimeout(timer);
+        resolve(completed);
+      });
+    });
+  }
+
   public setDisableMotions(disable: boolean): void {
     this._disableMotions = disable;
     // 全モデルに伝播
@@ -256,6 +324,41 @@ export class LAppLive2DManager {
     return this._disableMotions;
   }
 
+  /**
+   * 画面タイプを設定する（モデルは作り直さず振る舞いだけを切り替える）
+   * @param screenType 画面タイプ
+   */
+  public setScreenType(screenType: ScreenType): void {
+    this._screenType = screenType;
+    for (let i = 0; i < this._models.getSize(); i++) {
+      const model = this._models.at(i);
+      if (model) {
+        model.setScreenType(screenType);
+      }
+    }
+  }
+
+  public getScreenType(): ScreenType {
+    return this._screenType;
+  }
+
+  /**
+   * 描画品質（クリッピングマスクのサイズ・物理演算の更新レート）を設定する
+   * 以降に読み込むモデルにも反映する
+   * @param clippingMaskSize クリッピングマスクのバッファサイズ（px）
+   * @param physicsFps 物理演算の更新レート
+   */
+  public setModelQuality(clippingMaskSize: number, physicsFps: number): void {
+    this._modelQuality = { clippingMaskSize, physicsFps };
+    for (let i = 0; i < this._models.getSize(); i++) {
+      const model = this._models.at(i);
+      if (model) {
+        model.setClippingMaskBufferSize(clippingMaskSize);
+        model.setPhysicsFps(physicsFps);
+      }
+    }
+  }
+
   /**
    * 自身が所属するSubdelegate
    */
@@ -265,6 +368,10 @@ export class LAppLive2DManager {
   _models: csmVector<LAppModel>; // モデルインスタンスのコンテナ
   private _sceneIndex: number; // 表示するシーンのインデックス値
   private _disableMotions: boolean = false;
+  private _screenType: ScreenType = ScreenType.Home;
+  private _modelSource: { modelPath: string; modelJsonName: string } | null = null; // 読み込むモデル（nullの場合はModelDirのシーン）
+  private _idleMotionTimer: ReturnType<typeof setTimeout> | null = null;
+  private _modelQuality: { clippingMaskSize: number; physicsFps: number } | null = null; // nullの場合はモデルの設定のまま
 
   // モーション再生開始のコールバック関数
   beganMotion = (self: ACubismMotion): void => {
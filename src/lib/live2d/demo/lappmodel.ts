@@ -6,55 +6,9 @@
  */
 
 import { LAppModelBase } from './lappmodelbase';
-import { LAppModelHome } from './models/lappmodel-home';
-import { LAppModelChat } from './models/lappmodel-chat';
-import { LAppModelHistory } from './models/lappmodel-history';
-import { LAppModelReport } from './models/lappmodel-report';
-import { logger } from '@/utils/logger';
 
-/**
- * 画面タイプの定義
- */
-export enum ScreenType {
-  Home = 'home',
-  Chat = 'chat',
-  History = 'history',
-  Report = 'report'
-}
-
-/**
- * 画面タイプに応じてLive2Dモデルクラスのインスタンスを作成するファクトリクラス
- */
-export class LAppModelFactory {
-  /**
-   * 画面タイプに応じたモデルインスタンスを作成
-   * @param screenType 画面タイプ
-   * @returns 画面タイプに対応したLAppModelインスタンス
-   */
-  public static create(screenType: ScreenType): LAppModelBase {
-    switch (screenType) {
-      case ScreenType.Home:
-        logger.log('Creating Home screen model - Active movements');
-        return new LAppModelHome();
-
-      case ScreenType.Chat:
-        logger.log('Creating Chat screen model - Calm movements');
-        return new LAppModelChat();
-
-      case ScreenType.History:
-        logger.log('Creating History screen model - Moderate movements');
-        return new LAppModelHistory();
-
-      case ScreenType.Report:
-        logger.log('Creating Report screen model - Intellectual movements');
-        return new LAppModelReport();
-
-      default:
-        logger.log('Creating default model (Home)');
-        return new LAppModelHome();
-    }
-  }
-}
+// 画面タイプごとの振る舞いはモデルを作り直さずLAppModelBase.setScreenTypeで切り替える
+export { ScreenType } from './lappscreenbehavior';
 
 // 後方互換性のため、デフォルトのLAppModelクラスをエクスポート
-export class LAppModel extends LAppModelBase {}
\ No newline at end of file
+export class LAppModel extends LAppModelBase {}
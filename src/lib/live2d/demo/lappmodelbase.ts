@@ -46,6 +46,19 @@ import { CubismMoc } from '../framework/model/cubismmoc';
 import { LAppDelegate } from './lappdelegate';
 import { LAppSubdelegate } from './lappsubdelegate';
 import { NaturalMotionController } from '../NaturalMotionController';
+import {
+  TextureVariantManifest,
+  getTextureDeviceLimits,
+  loadTextureVariantManifest,
+  selectTextureFile,
+  textureVariantManifestUrl
+} from '../textureVariants';
+import {
+  ScreenBehavior,
+  ScreenType,
+  SCREEN_BEHAVIORS,
+  blendScreenBehavior
+} from './lappscreenbehavior';
 
 export enum LoadStep {
   LoadAssets,
@@ -98,7 +111,13 @@ export class LAppModelBase extends CubismUserModel {
     }
 
     this._modelHomeDir = dir;
+    this._setupResult = null;
     this._abortController = new AbortController();
+    // テクスチャの解像度違いの一覧はモデルの読み込みと並行して読み込み、テクスチャの読み込み時に使う
+    this._textureVariants = loadTextureVariantManifest(
+      textureVariantManifestUrl(dir, fileName),
+      this._abortController.signal
+    );
 
     fetch(`${this._modelHomeDir}${fileName}`, { signal: this._abortController.signal })
       .then(response => {
@@ -129,6 +148,7 @@ export class LAppModelBase extends CubismUserModel {
         if (error.name !== 'AbortError') {
           CubismLogError(`Failed to load file ${this._modelHomeDir}${fileName}: ${error.message}`);
         }
+        this.finishSetup(false);
       });
   }
 
@@ -377,6 +397,12 @@ export class LAppModelBase extends CubismUserModel {
       );
 
       this._breath.setParameters(breathParameters);
+      // 画面タイプごとに揺れの大きさを変えるため、既定の波の高さを保持しておく
+      this._breathPeaks = [];
+      for (let i = 0; i < breathParameters.getSize(); i++) {
+        const parameter = breathParameters.at(i);
+        this._breathPeaks.push({ parameter, peak: parameter.peak });
+      }
       this._state = LoadStep.LoadUserData;
 
       // callback
@@ -529,53 +555,69 @@ export class LAppModelBase extends CubismUserModel {
     const usePremultiply = true;
 
     if (this._state == LoadStep.LoadTexture) {
-      // テクスチャ読み込み用
-      const textureCount: number = this._modelSetting.getTextureCount();
-
-      for (
-        let modelTextureNumber = 0;
-        modelTextureNumber < textureCount;
-        modelTextureNumber++
-      ) {
-        // テクスチャ名が空文字だった場合はロード・バインド処理をスキップ
-        if (this._modelSetting.getTextureFileName(modelTextureNumber) == '') {
-          logger.log('getTextureFileName null');
-          continue;
+      const signal = this._abortController?.signal;
+
+      this._textureVariants.then(variants => {
+        // 一覧の読み込み中にモデルを切り替えた・解放した場合
+        if (signal?.aborted || !this._subdelegate) {
+          return;
         }
+        this.loadTextures(usePremultiply, variants);
+      });
 
-        // WebGLのテクスチャユニットにテクスチャをロードする
-        let texturePath =
-          this._modelSetting.getTextureFileName(modelTextureNumber);
-        texturePath = this._modelHomeDir + texturePath;
+      this._state = LoadStep.WaitLoadTexture;
+    }
+  }
 
-        // ロード完了時に呼び出すコールバック関数
-        const onLoad = (textureInfo: TextureInfo): void => {
-          this.getRenderer().bindTexture(modelTextureNumber, textureInfo.id);
+  /**
+   * 端末に合った解像度のテクスチャを読み込み、テクスチャユニットにバインドする
+   * @param variants テクスチャの解像度違いの一覧（ない場合はmodel3.jsonのテクスチャを読み込む）
+   */
+  private loadTextures(usePremultiply: boolean, variants: TextureVariantManifest | null): void {
+    const textureManager = this._subdelegate.getTextureManager();
+    if (!textureManager) {
+      logger.error('TextureManager not available in subdelegate');
+      return;
+    }
 
-          this._textureCount++;
+    // テクスチャ読み込み用
+    const textureCount: number = this._modelSetting.getTextureCount();
+    const limits = getTextureDeviceLimits(this._subdelegate.getGlManager().getGl());
+    this._texturePaths = [];
+
+    for (
+      let modelTextureNumber = 0;
+      modelTextureNumber < textureCount;
+      modelTextureNumber++
+    ) {
+      // テクスチャ名が空文字だった場合はロード・バインド処理をスキップ
+      const textureFileName = this._modelSetting.getTextureFileName(modelTextureNumber);
+      if (textureFileName == '') {
+        logger.log('getTextureFileName null');
+        continue;
+      }
 
-          if (this._textureCount >= textureCount) {
-            // ロード完了
-            this._state = LoadStep.CompleteSetup;
-          }
-        };
-
-        // 読み込み
-        if (this._subdelegate) {
-          const textureManager = this._subdelegate.getTextureManager();
-          if (textureManager) {
-            textureManager.createTextureFromPngFile(texturePath, usePremultiply, onLoad);
-            this.getRenderer().setIsPremultipliedAlpha(usePremultiply);
-          } else {
-            logger.error('TextureManager not available in subdelegate');
-            logger.log('Subdelegate exists but TextureManager is null');
-          }
-        } else {
-          logger.error('Subdelegate not set in LAppModel');
+      // WebGLのテクスチャユニットにテクスチャをロードする
+      const texturePath =
+        this._modelHomeDir + selectTextureFile(textureFileName, variants, limits);
+      this._texturePaths[modelTextureNumber] = texturePath;
+
+      // ロード完了時に呼び出すコールバック関数
+      const onLoad = (textureInfo: TextureInfo): void => {
+        this.getRenderer().bindTexture(modelTextureNumber, textureInfo.id);
+
+        this._textureCount++;
+
+        if (this._textureCount >= textureCount) {
+          // ロード完了
+          this._state = LoadStep.CompleteSetup;
+          this.finishSetup(true);
         }
-      }
+      };
 
-      this._state = LoadStep.WaitLoadTexture;
+      // 読み込み
+      textureManager.createTextureFromPngFile(texturePath, usePremultiply, onLoad);
+      this.getRenderer().setIsPremultipliedAlpha(usePremultiply);
     }
   }
 
@@ -588,6 +630,30 @@ export class LAppModelBase extends CubismUserModel {
     this.setupTextures();
   }
 
+  /**
+   * WebGLコンテキストの復元後にレンダラを作り直し、作り直したテクスチャをバインドし直す
+   * パラメータ・モーション・表情はGPUに置かないため、再生中のモーション・表情はそのまま続く
+   */
+  public restoreRenderer(): void {
+    // レンダラの作成前（テクスチャの読み込み前）はこの後の読み込みで作成される
+    if (!this.getRenderer() || !this._subdelegate) {
+      return;
+    }
+
+    // 消失したバッファ・FrameBufferの削除は無視される（WebGLの警告は出る）
+    this.createRenderer();
+    this.getRenderer().startUp(this._subdelegate.getGlManager().getGl());
+    this.getRenderer().setIsPremultipliedAlpha(true);
+
+    const textureManager = this._subdelegate.getTextureManager();
+    this._texturePaths.forEach((texturePath, modelTextureNumber) => {
+      const textureInfo = textureManager.getTextureByFilePath(texturePath);
+      if (textureInfo) {
+        this.getRenderer().bindTexture(modelTextureNumber, textureInfo.id);
+      }
+    });
+  }
+
   /**
    * 更新
    */
@@ -597,6 +663,14 @@ export class LAppModelBase extends CubismUserModel {
     const deltaTimeSeconds: number = LAppPal.getDeltaTime();
     this._userTimeSeconds += deltaTimeSeconds;
 
+    // 画面タイプの振る舞いを目標に近づける（画面遷移時に動きが急に変わらないように）
+    this._screenBehavior = blendScreenBehavior(
+      this._screenBehavior,
+      SCREEN_BEHAVIORS[this._screenType],
+      deltaTimeSeconds
+    );
+    const behavior = this._screenBehavior;
+
     this._dragManager.update(deltaTimeSeconds);
     const targetDragX = this._dragManager.getX();
     const targetDragY = this._dragManager.getY();
@@ -686,17 +760,17 @@ export class LAppModelBase extends CubismUserModel {
     const baseBodyAngleY = this._model.getParameterValueById(this._idParamBodyAngleY);
     const baseBodyAngleZ = this._model.getParameterValueById(this._idParamBodyAngleZ);
 
-    // モーションの値に追従値を加算（落ち着いた動きに調整）
-    this._model.setParameterValueById(this._idParamAngleX, baseAngleX + this._dragX * 10);
-    this._model.setParameterValueById(this._idParamAngleY, baseAngleY + this._dragY * 10);
-    this._model.setParameterValueById(this._idParamAngleZ, baseAngleZ + this._dragX * this._dragY * -5);
+    // モーションの値に追従値を加算（追従の大きさは画面タイプの振る舞いによる）
+    this._model.setParameterValueById(this._idParamAngleX, baseAngleX + this._dragX * behavior.headFollow);
+    this._model.setParameterValueById(this._idParamAngleY, baseAngleY + this._dragY * behavior.headFollow);
+    this._model.setParameterValueById(this._idParamAngleZ, baseAngleZ + this._dragX * this._dragY * behavior.headFollow * -0.5);
 
     // Phase 2: Enable body following with reduced ratio for subtle movement
     // 体の追従を有効化（控えめに）
     const bodyMotion = this._naturalMotionController.calculateBodyMotion(this._dragX, this._dragY);
-    this._model.setParameterValueById(this._idParamBodyAngleX, baseBodyAngleX + this._dragX * 3); // Reduced from 6 to 3
-    this._model.setParameterValueById(this._idParamBodyAngleY, baseBodyAngleY + this._dragY * 3); // Reduced from 6 to 3
-    this._model.setParameterValueById(this._idParamBodyAngleZ, baseBodyAngleZ + this._dragX * this._dragY * -1.5); // Reduced from -3 to -1.5
+    this._model.setParameterValueById(this._idParamBodyAngleX, baseBodyAngleX + this._dragX * behavior.bodyFollow);
+    this._model.setParameterValueById(this._idParamBodyAngleY, baseBodyAngleY + this._dragY * behavior.bodyFollow);
+    this._model.setParameterValueById(this._idParamBodyAngleZ, baseBodyAngleZ + this._dragX * this._dragY * behavior.bodyFollow * -0.5);
 
     // 目の向きの調整（自然な視線移動）
     if (LAppDefine.DebugLogEnable && (this._dragX !== 0 || this._dragY !== 0)) {
@@ -704,11 +778,14 @@ export class LAppModelBase extends CubismUserModel {
     }
     const baseEyeBallX = this._model.getParameterValueById(this._idParamEyeBallX);
     const baseEyeBallY = this._model.getParameterValueById(this._idParamEyeBallY);
-    this._model.setParameterValueById(this._idParamEyeBallX, baseEyeBallX + this._dragX * 0.5);
-    this._model.setParameterValueById(this._idParamEyeBallY, baseEyeBallY + this._dragY * 0.5);
+    this._model.setParameterValueById(this._idParamEyeBallX, baseEyeBallX + this._dragX * behavior.eyeFollow);
+    this._model.setParameterValueById(this._idParamEyeBallY, baseEyeBallY + this._dragY * behavior.eyeFollow);
 
     // 呼吸など - チャット画面でも呼吸は有効にする
     if (this._breath != null) {
+      for (const { parameter, peak } of this._breathPeaks) {
+        parameter.peak = peak * behavior.breathScale;
+      }
       this._breath.updateParameters(this._model, deltaTimeSeconds);
     }
 
@@ -729,6 +806,7 @@ export class LAppModelBase extends CubismUserModel {
         this._wavFileHandler.update(deltaTimeSeconds);
         value = this._wavFileHandler.getRms();
       }
+      value = Math.min(value * behavior.lipSyncGain, 1.0);
 
       for (let i = 0; i < this._lipSyncIds.getSize(); ++i) {
         // setParameterValueByIdを使用して直接値を設定（addは相対的な加算）
@@ -737,6 +815,11 @@ export class LAppModelBase extends CubismUserModel {
       }
     }
 
+    // 口の形（母音）の設定 - 外部から設定されている場合のみ上書き
+    if (this._mouthFormValue !== null) {
+      this._model.setParameterValueById(this._idParamMouthForm, this._mouthFormValue, 1.0);
+    }
+
     // ポーズの設定
     if (this._pose != null) {
       this._pose.updateParameters(this._model, deltaTimeSeconds);
@@ -780,6 +863,14 @@ export class LAppModelBase extends CubismUserModel {
     this._lipSyncValue = value;
   }
 
+  /**
+   * 口の形（ParamMouthForm）を設定する
+   * @param value 口の形（-1.0〜1.0）。nullでモーション・表情の値に戻す
+   */
+  public setMouthFormValue(value: number | null): void {
+    this._mouthFormValue = value;
+  }
+
   /**
    * 動作無効化フラグを設定する
    * @param disable 動作を無効化する場合はtrue
@@ -796,6 +887,91 @@ export class LAppModelBase extends CubismUserModel {
     return this._disableMotions;
   }
 
+  /**
+   * 画面タイプを設定する（振る舞いはupdate()で徐々に切り替わる）
+   * @param screenType 画面タイプ
+   * @param immediate trueの場合は徐々に切り替えず即座に反映する
+   */
+  public setScreenType(screenType: ScreenType, immediate: boolean = false): void {
+    this._screenType = screenType;
+    if (immediate) {
+      this._screenBehavior = { ...SCREEN_BEHAVIORS[screenType] };
+    }
+  }
+
+  /**
+   * 画面タイプを取得する
+   */
+  public getScreenType(): ScreenType {
+    return this._screenType;
+  }
+
+  /**
+   * 現在の振る舞い（切り替え中は途中の値）を取得する
+   */
+  public getScreenBehavior(): ScreenBehavior {
+    return this._screenBehavior;
+  }
+
+  /**
+   * クリッピングマスクのバッファサイズを設定する（描画品質の調整用）
+   * レンダラ作成前に呼んだ場合は作成時に反映する
+   * @param size バッファサイズ（px）
+   */
+  public setClippingMaskBufferSize(size: number): void {
+    this._clippingMaskBufferSize = size;
+
+    // マスク用のFrameBufferを作り直すため、サイズが変わる場合だけ反映する
+    const renderer = this.getRenderer();
+    if (renderer && renderer.getClippingMaskBufferSize() > 0 && renderer.getClippingMaskBufferSize() !== size) {
+      renderer.setClippingMaskBufferSize(size);
+      // startUp()後の場合、作り直したクリッピングマスクの管理にWebGLコンテキストを設定し直す
+      if (renderer.gl) {
+        renderer._clippingManager.setGL(renderer.gl);
+      }
+    }
+  }
+
+  /**
+   * 物理演算の更新レートを設定する（描画品質の調整用）
+   * physics3.jsonのFpsより高くはしない。物理演算の読み込み前に呼んだ場合は読み込み時に反映する
+   * @param fps 更新レート。nullでphysics3.jsonの設定に戻す
+   */
+  public setPhysicsFps(fps: number | null): void {
+    this._physicsFps = fps;
+    this.applyPhysicsFps();
+  }
+
+  /**
+   * レンダラを作成する（クリッピングマスクのサイズを反映する）
+   */
+  public createRenderer(maskBufferCount = 1): void {
+    super.createRenderer(maskBufferCount);
+    if (this._clippingMaskBufferSize !== null) {
+      this.setClippingMaskBufferSize(this._clippingMaskBufferSize);
+    }
+  }
+
+  /**
+   * 物理演算を読み込む（物理演算の更新レートを反映する）
+   */
+  public loadPhysics(buffer: ArrayBuffer, size: number): void {
+    super.loadPhysics(buffer, size);
+    this._physicsBaseFps = this._physics?._physicsRig.fps ?? 0;
+    this.applyPhysicsFps();
+  }
+
+  private applyPhysicsFps(): void {
+    if (!this._physics) {
+      return;
+    }
+    // Fpsが0の場合、physics3.jsonでは描画フレームごとに計算する
+    const baseFps = this._physicsBaseFps;
+    this._physics._physicsRig.fps = this._physicsFps === null
+      ? baseFps
+      : baseFps > 0 ? Math.min(baseFps, this._physicsFps) : this._physicsFps;
+  }
+
   /**
    * ドラッグ情報を設定する（旧メソッド、互換性のため残す）
    * @param x X座標
@@ -1117,6 +1293,23 @@ export class LAppModelBase extends CubismUserModel {
     this._expressions.clear();
   }
 
+  /**
+   * モデルのテクスチャを解放する。
+   * モデルを切り替えたときに前のモデルのテクスチャをGPUメモリに残さないため
+   */
+  public releaseTextures(): void {
+    const textureManager = this._subdelegate?.getTextureManager();
+    if (!textureManager) return;
+
+    // 解像度違いを選んだ場合はmodel3.jsonのテクスチャ名と異なるため、読み込んだパスで解放する
+    for (const texturePath of this._texturePaths) {
+      if (texturePath) {
+        textureManager.releaseTextureByFilePath(texturePath);
+      }
+    }
+    this._texturePaths = [];
+  }
+
   /**
    * モデルを描画する処理。モデルを描画する空間のView-Projection行列を渡す。
    */
@@ -1205,6 +1398,34 @@ export class LAppModelBase extends CubismUserModel {
       this._abortController.abort();
       this._abortController = null;
     }
+    if (this._setupResult === null) {
+      this.finishSetup(false);
+    }
+  }
+
+  /**
+   * 読み込み（モーション・テクスチャを含む）の完了を待つ
+   * @returns 読み込みが完了した場合はtrue。model3.jsonを読み込めなかった・キャンセルされた場合はfalse
+   */
+  public waitForSetup(): Promise<boolean> {
+    if (this._setupResult !== null) {
+      return Promise.resolve(this._setupResult);
+    }
+    return new Promise((resolve) => this._setupResolvers.push(resolve));
+  }
+
+  /**
+   * 読み込みの結果を確定し、完了を待っている呼び出し元に通知する
+   * （コンテキストの復元でテクスチャを読み込み直した場合は最初の結果のまま）
+   */
+  private finishSetup(completed: boolean): void {
+    if (this._setupResult !== null) {
+      return;
+    }
+    this._setupResult = completed;
+    const resolvers = this._setupResolvers;
+    this._setupResolvers = [];
+    resolvers.forEach((resolve) => resolve(completed));
   }
 
   /**
@@ -1252,6 +1473,9 @@ export class LAppModelBase extends CubismUserModel {
     this._idParamBodyAngleZ = CubismFramework.getIdManager().getId(
       CubismDefaultParameterId.ParamBodyAngleZ
     );
+    this._idParamMouthForm = CubismFramework.getIdManager().getId(
+      CubismDefaultParameterId.ParamMouthForm
+    );
 
     if (LAppDefine.MOCConsistencyValidationEnable) {
       this._mocConsistency = true;
@@ -1297,15 +1521,21 @@ export class LAppModelBase extends CubismUserModel {
   _idParamBodyAngleX: CubismIdHandle; // パラメータID: ParamBodyAngleX
   _idParamBodyAngleY: CubismIdHandle; // パラメータID: ParamBodyAngleY
   _idParamBodyAngleZ: CubismIdHandle; // パラメータID: ParamBodyAngleZ
+  _idParamMouthForm: CubismIdHandle; // パラメータID: ParamMouthForm
 
   _state: LoadStep; // 現在のステータス管理用
   _expressionCount: number; // 表情データカウント
   _textureCount: number; // テクスチャカウント
+  private _textureVariants: Promise<TextureVariantManifest | null> = Promise.resolve(null); // テクスチャの解像度違いの一覧
+  private _texturePaths: string[] = []; // テクスチャ番号ごとに読み込んだテクスチャのパス（解放・再バインドに使う）
+  private _setupResult: boolean | null = null; // 読み込みの結果（読み込み中・読み込み前はnull）
+  private _setupResolvers: Array<(completed: boolean) => void> = []; // 読み込みの完了を待っている呼び出し元
   _motionCount: number; // モーションデータカウント
   _allMotionCount: number; // モーション総数
   _wavFileHandler: LAppWavFileHandler; //wavファイルハンドラ
   _consistency: boolean; // MOC3整合性チェック管理用
   protected _lipSyncValue: number = 0.0; // リップシンク値（外部から設定可能）
+  protected _mouthFormValue: number | null = null; // 口の形（外部から設定可能、nullで無効）
   private _disableMotions: boolean = false;
 
   // Natural motion controller
@@ -1313,4 +1543,14 @@ export class LAppModelBase extends CubismUserModel {
   private _dragSpeedX: number = 0; // Phase 2: Acceleration-based motion
   private _dragSpeedY: number = 0; // Phase 2: Acceleration-based motion
   private _lastBlinkTime: number = 0; // Phase 4: Blink timing
+
+  // 画面タイプごとの振る舞い
+  private _screenType: ScreenType = ScreenType.Home;
+  private _screenBehavior: ScreenBehavior = { ...SCREEN_BEHAVIORS[ScreenType.Home] };
+  private _breathPeaks: { parameter: BreathParameterData; peak: number }[] = []; // 呼吸パラメータと既定の波の高さ
+
+  // 描画品質
+  private _clippingMaskBufferSize: number | null = null; // nullの場合はフレームワークの既定値
+  private _physicsFps: number | null = null; // nullの場合はphysics3.jsonの設定
+  private _physicsBaseFps: number = 0; // physics3.jsonのFps
 }
@@ -46,6 +46,25 @@ export class LAppPal {
     this.lastFrame = this.currentFrame;
   }
 
+  /**
+   * デルタ時間を直接設定する
+   * キャンバスごとに描画ループを持つ場合、描画直前にそのキャンバスの経過時間を設定する
+   * @param deltaTime デルタ時間[秒]
+   */
+  public static setDeltaTime(deltaTime: number): void {
+    this.deltaTime = deltaTime;
+  }
+
+  /**
+   * 時刻の基準を現在時刻に合わせ、デルタ時間を0にする
+   * 描画を一時停止していた間の時間で次のフレームのモーション・物理演算が飛ばないよう、再開時に呼ぶ
+   */
+  public static resetTime(): void {
+    this.currentFrame = Date.now();
+    this.lastFrame = this.currentFrame;
+    this.deltaTime = 0;
+  }
+
   /**
    * メッセージを出力する
    * @param message 文字列
@@ -0,0 +1,112 @@
+/**
+ * 画面タイプごとのキャラクターの振る舞い
+ *
+ * 画面遷移時はモデルを作り直さず、同じモデルのまま振る舞いを切り替える
+ * （LAppModelBase.setScreenTypeで目標を設定し、update()で徐々に近づける）
+ */
+
+/**
+ * 画面タイプの定義
+ */
+export enum ScreenType {
+  Home = 'home',
+  Chat = 'chat',
+  History = 'history',
+  Report = 'report'
+}
+
+/**
+ * 振る舞いのパラメータ
+ */
+export interface ScreenBehavior {
+  headFollow: number; // 顔の追従（視線1.0あたりのParamAngleX/Y、ZはX×Y×-0.5倍）
+  bodyFollow: number; // 体の追従（視線1.0あたりのParamBodyAngleX/Y、ZはX×Y×-0.5倍）
+  eyeFollow: number; // 目の追従（視線1.0あたりのParamEyeBallX/Y）
+  breathScale: number; // 呼吸による揺れの大きさ（既定の呼吸パラメータに対する倍率）
+  lipSyncGain: number; // リップシンクの強調（口の開きに掛ける倍率）
+  idleMotion: boolean; // アイドルモーションを再生するか
+}
+
+/**
+ * 画面タイプごとの振る舞い
+ */
+export const SCREEN_BEHAVIORS: Record<ScreenType, ScreenBehavior> = {
+  // ホーム：マウスへの追従・呼吸ともに大きく、アイドルモーションあり
+  [ScreenType.Home]: {
+    headFollow: 10,
+    bodyFollow: 3,
+    eyeFollow: 0.5,
+    breathScale: 1,
+    lipSyncGain: 1,
+    idleMotion: true
+  },
+  // チャット：顔・体は正面に固定して目だけで追従、会話に集中できるようアイドルモーションなし
+  [ScreenType.Chat]: {
+    headFollow: 0,
+    bodyFollow: 0,
+    eyeFollow: 0.8,
+    breathScale: 1,
+    lipSyncGain: 1.2,
+    idleMotion: false
+  },
+  // 履歴：ホームより控えめ
+  [ScreenType.History]: {
+    headFollow: 7.5,
+    bodyFollow: 1.5,
+    eyeFollow: 0.4,
+    breathScale: 0.8,
+    lipSyncGain: 1,
+    idleMotion: true
+  },
+  // レポート：落ち着いた動き
+  [ScreenType.Report]: {
+    headFollow: 6,
+    bodyFollow: 0.75,
+    eyeFollow: 0.3,
+    breathScale: 0.6,
+    lipSyncGain: 1,
+    idleMotion: true
+  }
+};
+
+/**
+ * 画面切り替え時に振る舞いが目標に近づく速さ（時定数[秒]）
+ */
+export const ScreenBehaviorTransitionSeconds = 0.4;
+
+/**
+ * 画面タイプの文字列をScreenTypeに変換する（不明な値はnull）
+ */
+export function toScreenType(value: string | null | undefined): ScreenType | null {
+  const types = Object.values(ScreenType) as string[];
+  return value && types.includes(value) ? (value as ScreenType) : null;
+}
+
+/**
+ * 現在の振る舞いを目標の振る舞いに近づける
+ * @param current 現在の振る舞い
+ * @param target 目標の振る舞い
+ * @param deltaTimeSeconds 経過時間[秒]
+ * @returns 近づけた振る舞い（アイドルモーションの有無は即座に切り替える）
+ */
+export function blendScreenBehavior(
+  current: ScreenBehavior,
+  target: ScreenBehavior,
+  deltaTimeSeconds: number
+): ScreenBehavior {
+  const rate = 1 - Math.exp(-Math.max(0, deltaTimeSeconds) / ScreenBehaviorTransitionSeconds);
+  const blend = (from: number, to: number) => {
+    const value = from + (to - from) * rate;
+    // 十分に近づいたら目標値に揃える
+    return Math.abs(to - value) < 1e-3 ? to : value;
+  };
+
+  return {
+    headFollow: blend(current.headFollow, target.headFollow),
+    bodyFollow: blend(current.bodyFollow, target.bodyFollow),
+    eyeFollow: blend(current.eyeFollow, target.eyeFollow),
+    breathScale: blend(current.breathScale, target.breathScale),
+    lipSyncGain: blend(current.lipSyncGain, target.lipSyncGain),
+    idleMotion: target.idleMotion
+  };
+}
@@ -5,6 +5,7 @@
  * that can be found at https://www.live2d.com/eula/live2d-open-software-license-agreement_en.html.
  */
 
+import { CubismShaderManager_WebGL } from '../framework/rendering/cubismshader_webgl';
 import * as LAppDefine from './lappdefine';
 import { LAppGlManager } from './lappglmanager';
 import { LAppLive2DManager } from './lapplive2dmanager';
@@ -12,6 +13,24 @@ import { LAppPal } from './lapppal';
 import { LAppTextureManager } from './lapptexturemanager';
 import { LAppView } from './lappview';
 
+/**
+ * 描画先のキャンバス（Web WorkerではOffscreenCanvas）
+ */
+export type LAppCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * 表示サイズ（CSS px）とdevicePixelRatio
+ * OffscreenCanvasは表示サイズを持たないため、メインスレッドから受け取る
+ */
+export interface LAppDisplaySize {
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+}
+
+const isHTMLCanvas = (canvas: LAppCanvas): canvas is HTMLCanvasElement =>
+  typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement;
+
 /**
  * Canvasに関連する操作を取りまとめるクラス
  */
@@ -21,13 +40,15 @@ export class LAppSubdelegate {
    */
   public constructor() {
     this._canvas = null;
-    this._glManager = LAppGlManager.getInstance();
+    this._glManager = new LAppGlManager();
     this._textureManager = new LAppTextureManager();
     this._live2dManager = new LAppLive2DManager();
     this._view = new LAppView();
     this._frameBuffer = null;
     this._captured = false;
     this._disableMotions = false;
+    this._resolutionScale = 1.0;
+    this._displaySize = null;
   }
 
   /**
@@ -35,7 +56,7 @@ export class LAppSubdelegate {
    */
   public release(): void {
     if (this._resizeObserver) {
-      if (this._canvas) {
+      if (this._canvas && isHTMLCanvas(this._canvas)) {
         this._resizeObserver.unobserve(this._canvas);
       }
       this._resizeObserver.disconnect();
@@ -57,8 +78,8 @@ export class LAppSubdelegate {
       this._textureManager = null;
     }
 
-    // シングルトンのLAppGlManagerは解放しない
     if (this._glManager) {
+      this._glManager.release();
       this._glManager = null;
     }
   }
@@ -66,7 +87,7 @@ export class LAppSubdelegate {
   /**
    * APPに必要な物を初期化する。
    */
-  public initialize(canvas: HTMLCanvasElement): boolean {
+  public initialize(canvas: LAppCanvas): boolean {
     if (!this._glManager.initialize(canvas)) {
       return false;
     }
@@ -81,6 +102,10 @@ export class LAppSubdelegate {
     }
 
     this._textureManager.setGlManager(this._glManager);
+    this._glManager.setContextLossHandler({
+      onContextLost: () => this._contextLossListener?.(true),
+      onContextRestored: () => this.restoreGlResources()
+    });
 
     const gl = this._glManager.getGl();
 
@@ -98,11 +123,14 @@ export class LAppSubdelegate {
 
     this._live2dManager.initialize(this);
 
-    this._resizeObserver = new ResizeObserver(
-      (entries: ResizeObserverEntry[], observer: ResizeObserver) =>
-        this.resizeObserverCallback.call(this, entries, observer)
-    );
-    this._resizeObserver.observe(this._canvas);
+    // OffscreenCanvasの表示サイズの変更はsetDisplaySize()で受け取る
+    if (isHTMLCanvas(canvas)) {
+      this._resizeObserver = new ResizeObserver(
+        (entries: ResizeObserverEntry[], observer: ResizeObserver) =>
+          this.resizeObserverCallback.call(this, entries, observer)
+      );
+      this._resizeObserver.observe(canvas);
+    }
 
     return true;
   }
@@ -125,6 +153,33 @@ export class LAppSubdelegate {
     }
   }
 
+  /**
+   * WebGLコンテキストの消失・復元の通知先を設定する（描画ループの一時停止・再開に使う）
+   * 復元時はGPUのリソースを作り直してから通知する
+   */
+  public setContextLossListener(listener: ((lost: boolean) => void) | null): void {
+    this._contextLossListener = listener;
+  }
+
+  /**
+   * WebGLコンテキストの復元後に、シェーダー・テクスチャ・モデルのレンダラを作り直す
+   * モデル（パラメータ・モーション・表情）はGPUに置かないため、読み込み直さずにそのまま描画を再開できる
+   */
+  private restoreGlResources(): void {
+    const gl = this._glManager.getGl();
+
+    // 透過設定
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+
+    CubismShaderManager_WebGL.getInstance().getShader(gl)?.restoreShaderProgram();
+    this._textureManager.restoreTextures();
+    this._view.onContextRestored();
+    this._live2dManager.onContextRestored();
+
+    this._contextLossListener?.(false);
+  }
+
   /**
    * ループ処理
    */
@@ -233,7 +288,7 @@ export class LAppSubdelegate {
     return this._frameBuffer;
   }
 
-  public getCanvas(): HTMLCanvasElement {
+  public getCanvas(): LAppCanvas {
     return this._canvas;
   }
 
@@ -257,12 +312,62 @@ export class LAppSubdelegate {
     return this._disableMotions;
   }
 
+  /**
+   * 描画解像度の倍率を設定する（描画品質の調整用）
+   * 次のupdate()で描画バッファを作り直す
+   * @param scale devicePixelRatioに掛ける倍率（1.0で表示サイズ×devicePixelRatio）
+   */
+  public setResolutionScale(scale: number): void {
+    if (this._resolutionScale === scale) {
+      return;
+    }
+    this._resolutionScale = scale;
+    if (LAppDefine.CanvasSize === 'auto') {
+      this._needResize = true;
+    }
+  }
+
+  public getResolutionScale(): number {
+    return this._resolutionScale;
+  }
+
+  /**
+   * OffscreenCanvasの表示サイズを設定する（HTMLCanvasElementでは要素のサイズを使う）
+   * 次のupdate()で描画バッファを作り直す
+   */
+  public setDisplaySize(size: LAppDisplaySize): void {
+    this._displaySize = size;
+    if (LAppDefine.CanvasSize === 'auto') {
+      this._needResize = true;
+    }
+  }
+
+  /**
+   * 表示サイズ1pxあたりの描画バッファのピクセル数（devicePixelRatio×描画解像度の倍率）
+   */
+  public getPixelRatio(): number {
+    return this.getDisplaySize().devicePixelRatio * this._resolutionScale;
+  }
+
+  private getDisplaySize(): LAppDisplaySize {
+    if (isHTMLCanvas(this._canvas)) {
+      return {
+        width: this._canvas.clientWidth,
+        height: this._canvas.clientHeight,
+        devicePixelRatio: window.devicePixelRatio
+      };
+    }
+    return this._displaySize ?? { width: this._canvas.width, height: this._canvas.height, devicePixelRatio: 1 };
+  }
+
   /**
    * Resize the canvas to fill the screen.
    */
   private resizeCanvas(): void {
-    this._canvas.width = this._canvas.clientWidth * window.devicePixelRatio;
-    this._canvas.height = this._canvas.clientHeight * window.devicePixelRatio;
+    const { width, height } = this.getDisplaySize();
+    const pixelRatio = this.getPixelRatio();
+    this._canvas.width = Math.round(width * pixelRatio);
+    this._canvas.height = Math.round(height * pixelRatio);
 
     const gl = this._glManager.getGl();
 
@@ -282,8 +387,7 @@ export class LAppSubdelegate {
       return;
     }
 
-    const localX: number = pageX - this._canvas.offsetLeft;
-    const localY: number = pageY - this._canvas.offsetTop;
+    const { x: localX, y: localY } = this.toLocalPosition(pageX, pageY);
 
     this._view.onMouseMoved(localX, localY);
   }
@@ -295,8 +399,7 @@ export class LAppSubdelegate {
     }
     this._captured = true;
 
-    const localX: number = pageX - this._canvas.offsetLeft;
-    const localY: number = pageY - this._canvas.offsetTop;
+    const { x: localX, y: localY } = this.toLocalPosition(pageX, pageY);
 
     this._view.onTouchesBegan(localX, localY);
   }
@@ -309,8 +412,7 @@ export class LAppSubdelegate {
       return;
     }
 
-    const localX: number = pageX - this._canvas.offsetLeft;
-    const localY: number = pageY - this._canvas.offsetTop;
+    const { x: localX, y: localY } = this.toLocalPosition(pageX, pageY);
 
     this._view.onTouchesMoved(localX, localY);
   }
@@ -326,8 +428,7 @@ export class LAppSubdelegate {
       return;
     }
 
-    const localX: number = pageX - this._canvas.offsetLeft;
-    const localY: number = pageY - this._canvas.offsetTop;
+    const { x: localX, y: localY } = this.toLocalPosition(pageX, pageY);
 
     this._view.onTouchesEnded(localX, localY);
   }
@@ -343,17 +444,32 @@ export class LAppSubdelegate {
       return;
     }
 
-    const localX: number = pageX - this._canvas.offsetLeft;
-    const localY: number = pageY - this._canvas.offsetTop;
+    const { x: localX, y: localY } = this.toLocalPosition(pageX, pageY);
 
     this._view.onTouchesEnded(localX, localY);
   }
 
+  /**
+   * ページ座標をキャンバス内の座標に変換する
+   * （コンテナ内に配置したキャンバスでもoffsetParentに依存しないよう表示位置から求める）
+   * OffscreenCanvasは表示位置を持たないため、メインスレッドで変換済みのキャンバス内の座標を受け取る
+   */
+  private toLocalPosition(pageX: number, pageY: number): { x: number; y: number } {
+    if (!isHTMLCanvas(this._canvas)) {
+      return { x: pageX, y: pageY };
+    }
+    const rect = this._canvas.getBoundingClientRect();
+    return {
+      x: pageX - (rect.left + window.scrollX),
+      y: pageY - (rect.top + window.scrollY)
+    };
+  }
+
   public isContextLost(): boolean {
     return this._glManager.getGl().isContextLost();
   }
 
-  private _canvas: HTMLCanvasElement;
+  private _canvas: LAppCanvas;
 
   /**
    * View情報
@@ -380,4 +496,7 @@ export class LAppSubdelegate {
 
   private _needResize: boolean;
   private _disableMotions: boolean;
+  private _resolutionScale: number; // 描画解像度の倍率
+  private _displaySize: LAppDisplaySize | null; // OffscreenCanvasの表示サイズ
+  private _contextLossListener: ((lost: boolean) => void) | null = null; // WebGLコンテキストの消失（true）・復元（false）
 }
@@ -7,6 +7,8 @@
 
 import { csmVector, iterator } from '../framework/type/csmvector';
 import { LAppGlManager } from './lappglmanager';
+import { estimateTextureMemoryBytes } from '../textureVariants';
+import { logger } from '@/utils/logger';
 
 /**
  * テクスチャ管理クラス
@@ -46,6 +48,9 @@ export class LAppTextureManager {
     usePremultiply: boolean,
     callback: (textureInfo: TextureInfo) => void
   ): void {
+    // Web Worker（OffscreenCanvasでの描画）ではImageが使えないため、ImageBitmapで読み込む
+    const useImageBitmap = typeof Image === 'undefined';
+
     // search loaded texture already
     for (
       let ite: iterator<TextureInfo> = this._textures.begin();
@@ -56,101 +61,173 @@ export class LAppTextureManager {
         ite.ptr().fileName == fileName &&
         ite.ptr().usePremultply == usePremultiply
       ) {
+        const cached = ite.ptr();
+        if (useImageBitmap) {
+          Promise.resolve().then((): void => callback(cached));
+          return;
+        }
         // 2回目以降はキャッシュが使用される(待ち時間なし)
         // WebKitでは同じImageのonloadを再度呼ぶには再インスタンスが必要
         // 詳細：https://stackoverflow.com/a/5024181
-        ite.ptr().img = new Image();
-        ite
-          .ptr()
-          .img.addEventListener('load', (): void => callback(ite.ptr()), {
-            passive: true
-          });
-        ite.ptr().img.src = fileName;
+        const reloaded = new Image();
+        cached.img = reloaded;
+        reloaded.addEventListener('load', (): void => callback(cached), {
+          passive: true
+        });
+        reloaded.src = fileName;
         return;
       }
     }
 
+    if (useImageBitmap) {
+      // ImageBitmapにはUNPACK_PREMULTIPLY_ALPHA_WEBGLが効かないため、デコード時にPremult処理を行う
+      fetch(fileName)
+        .then(response => response.blob())
+        .then(blob =>
+          createImageBitmap(blob, {
+            premultiplyAlpha: usePremultiply ? 'premultiply' : 'none'
+          })
+        )
+        .then(bitmap =>
+          callback(this.createTexture(fileName, usePremultiply, bitmap))
+        )
+        .catch(error => logger.error(`Failed to load texture: ${fileName}`, error));
+      return;
+    }
+
     // データのオンロードをトリガーにする
     const img = new Image();
     img.addEventListener(
       'load',
-      (): void => {
-        // テクスチャオブジェクトの作成
-        const tex: WebGLTexture = this._glManager.getGl().createTexture();
-
-        // テクスチャを選択
-        this._glManager
-          .getGl()
-          .bindTexture(this._glManager.getGl().TEXTURE_2D, tex);
-
-        // テクスチャにピクセルを書き込む
-        this._glManager
-          .getGl()
-          .texParameteri(
-            this._glManager.getGl().TEXTURE_2D,
-            this._glManager.getGl().TEXTURE_MIN_FILTER,
-            this._glManager.getGl().LINEAR_MIPMAP_LINEAR
-          );
-        this._glManager
-          .getGl()
-          .texParameteri(
-            this._glManager.getGl().TEXTURE_2D,
-            this._glManager.getGl().TEXTURE_MAG_FILTER,
-            this._glManager.getGl().LINEAR
-          );
-
-        // Premult処理を行わせる
-        if (usePremultiply) {
-          this._glManager
-            .getGl()
-            .pixelStorei(
-              this._glManager.getGl().UNPACK_PREMULTIPLY_ALPHA_WEBGL,
-              1
-            );
-        }
-
-        // テクスチャにピクセルを書き込む
-        this._glManager
-          .getGl()
-          .texImage2D(
-            this._glManager.getGl().TEXTURE_2D,
-            0,
-            this._glManager.getGl().RGBA,
-            this._glManager.getGl().RGBA,
-            this._glManager.getGl().UNSIGNED_BYTE,
-            img
-          );
-
-        // ミップマップを生成
-        this._glManager
-          .getGl()
-          .generateMipmap(this._glManager.getGl().TEXTURE_2D);
-
-        // テクスチャをバインド
-        this._glManager
-          .getGl()
-          .bindTexture(this._glManager.getGl().TEXTURE_2D, null);
-
-        const textureInfo: TextureInfo = new TextureInfo();
-        if (textureInfo != null) {
-          textureInfo.fileName = fileName;
-          textureInfo.width = img.width;
-          textureInfo.height = img.height;
-          textureInfo.id = tex;
-          textureInfo.img = img;
-          textureInfo.usePremultply = usePremultiply;
-          if (this._textures != null) {
-            this._textures.pushBack(textureInfo);
-          }
-        }
-
-        callback(textureInfo);
-      },
+      (): void => callback(this.createTexture(fileName, usePremultiply, img)),
       { passive: true }
     );
     img.src = fileName;
   }
 
+  /**
+   * 読み込んだ画像からテクスチャを作成し、管理対象に加える
+   */
+  private createTexture(
+    fileName: string,
+    usePremultiply: boolean,
+    img: HTMLImageElement | ImageBitmap
+  ): TextureInfo {
+    const tex = this.uploadTexture(img, usePremultiply);
+
+    const textureInfo: TextureInfo = new TextureInfo();
+    if (textureInfo != null) {
+      textureInfo.fileName = fileName;
+      textureInfo.width = img.width;
+      textureInfo.height = img.height;
+      textureInfo.id = tex;
+      textureInfo.img = img;
+      textureInfo.usePremultply = usePremultiply;
+      if (this._textures != null) {
+        this._textures.pushBack(textureInfo);
+      }
+    }
+
+    return textureInfo;
+  }
+
+  /**
+   * 画像をGPUに転送し、ミップマップを生成したテクスチャを返す
+   */
+  private uploadTexture(
+    img: HTMLImageElement | ImageBitmap,
+    usePremultiply: boolean
+  ): WebGLTexture {
+    // テクスチャオブジェクトの作成
+    const tex: WebGLTexture = this._glManager.getGl().createTexture();
+
+    // テクスチャを選択
+    this._glManager
+      .getGl()
+      .bindTexture(this._glManager.getGl().TEXTURE_2D, tex);
+
+    // テクスチャにピクセルを書き込む
+    this._glManager
+      .getGl()
+      .texParameteri(
+        this._glManager.getGl().TEXTURE_2D,
+        this._glManager.getGl().TEXTURE_MIN_FILTER,
+        this._glManager.getGl().LINEAR_MIPMAP_LINEAR
+      );
+    this._glManager
+      .getGl()
+      .texParameteri(
+        this._glManager.getGl().TEXTURE_2D,
+        this._glManager.getGl().TEXTURE_MAG_FILTER,
+        this._glManager.getGl().LINEAR
+      );
+
+    // Premult処理を行わせる
+    if (usePremultiply) {
+      this._glManager
+        .getGl()
+        .pixelStorei(
+          this._glManager.getGl().UNPACK_PREMULTIPLY_ALPHA_WEBGL,
+          1
+        );
+    }
+
+    // テクスチャにピクセルを書き込む
+    this._glManager
+      .getGl()
+      .texImage2D(
+        this._glManager.getGl().TEXTURE_2D,
+        0,
+        this._glManager.getGl().RGBA,
+        this._glManager.getGl().RGBA,
+        this._glManager.getGl().UNSIGNED_BYTE,
+        img
+      );
+
+    // ミップマップを生成
+    this._glManager
+      .getGl()
+      .generateMipmap(this._glManager.getGl().TEXTURE_2D);
+
+    // テクスチャをバインド
+    this._glManager
+      .getGl()
+      .bindTexture(this._glManager.getGl().TEXTURE_2D, null);
+
+    return tex;
+  }
+
+  /**
+   * WebGLコンテキストの復元後に、保持している画像からテクスチャを作り直す
+   * 消失したテクスチャは削除できないため破棄し、画像はファイルから読み込み直さない
+   */
+  public restoreTextures(): void {
+    if (this._textures == null) {
+      return;
+    }
+    for (let i = 0; i < this._textures.getSize(); i++) {
+      const texture = this._textures.at(i);
+      texture.id = this.uploadTexture(texture.img, texture.usePremultply);
+    }
+  }
+
+  /**
+   * 読み込んだテクスチャを取得する
+   * @param fileName 画像ファイルパス名
+   * @return テクスチャ、読み込んでいない場合はnull
+   */
+  public getTextureByFilePath(fileName: string): TextureInfo | null {
+    if (this._textures == null) {
+      return null;
+    }
+    for (let i = 0; i < this._textures.getSize(); i++) {
+      if (this._textures.at(i).fileName == fileName) {
+        return this._textures.at(i);
+      }
+    }
+    return null;
+  }
+
   /**
    * 画像の解放
    *
@@ -201,6 +278,21 @@ export class LAppTextureManager {
     }
   }
 
+  /**
+   * 読み込んだテクスチャが使うGPUメモリの推定値（バイト、ミップマップを含む）
+   */
+  public getTextureMemoryBytes(): number {
+    let bytes = 0;
+    if (this._textures == null) {
+      return bytes;
+    }
+    for (let i = 0; i < this._textures.getSize(); i++) {
+      const texture = this._textures.at(i);
+      bytes += estimateTextureMemoryBytes(texture.width, texture.height);
+    }
+    return bytes;
+  }
+
   /**
    * setter
    * @param glManager
@@ -217,7 +309,7 @@ export class LAppTextureManager {
  * 画像情報構造体
  */
 export class TextureInfo {
-  img: HTMLImageElement; // 画像
+  img: HTMLImageElement | ImageBitmap; // 画像（Web WorkerではImageBitmap）
   id: WebGLTexture = null; // テクスチャ
   width = 0; // 横幅
   height = 0; // 高さ
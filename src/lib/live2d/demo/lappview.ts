@@ -112,6 +112,17 @@ export class LAppView {
     }
   }
 
+  /**
+   * WebGLコンテキストの復元後に画像・シェーダーを作り直す
+   * 消失したバッファ・プログラムは削除できないため破棄する
+   */
+  public onContextRestored(): void {
+    this._gear = null;
+    this._back = null;
+    this._programId = null;
+    this.initializeSprite();
+  }
+
   /**
    * 描画する。
    */
@@ -225,8 +236,8 @@ export class LAppView {
       return;
     }
 
-    const posX = pointX * window.devicePixelRatio;
-    const posY = pointY * window.devicePixelRatio;
+    const posX = pointX * this._subdelegate.getPixelRatio();
+    const posY = pointY * this._subdelegate.getPixelRatio();
 
     const lapplive2dmanager = this._subdelegate.getLive2DManager();
     if (!lapplive2dmanager) {
@@ -258,8 +269,8 @@ export class LAppView {
     }
 
     this._touchManager.touchesBegan(
-      pointX * window.devicePixelRatio,
-      pointY * window.devicePixelRatio
+      pointX * this._subdelegate.getPixelRatio(),
+      pointY * this._subdelegate.getPixelRatio()
     );
   }
 
@@ -274,8 +285,8 @@ export class LAppView {
       return;
     }
 
-    const posX = pointX * window.devicePixelRatio;
-    const posY = pointY * window.devicePixelRatio;
+    const posX = pointX * this._subdelegate.getPixelRatio();
+    const posY = pointY * this._subdelegate.getPixelRatio();
 
     const lapplive2dmanager = this._subdelegate.getLive2DManager();
     if (!lapplive2dmanager) {
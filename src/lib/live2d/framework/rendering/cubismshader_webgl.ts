@@ -399,6 +399,15 @@ export class CubismShader_WebGL {
     }
   }
 
+  /**
+   * WebGLコンテキストの復元後にシェーダープログラムを作り直す
+   * コンテキストの消失で無効になったプログラムは削除できないため、破棄して生成し直す
+   */
+  public restoreShaderProgram(): void {
+    this._shaderSets.clear();
+    this.generateShaders();
+  }
+
   /**
    * シェーダープログラムを初期化する
    * @param vertShaderSrc 頂点シェーダのソース
@@ -0,0 +1,302 @@
+/**
+ * AlignmentLipSyncScheduler - 音声合成のアライメントによるリップシンク
+ *
+ * TTSが返すモーラ・音素の発音時刻から口形のタイムラインを作り、
+ * 再生位置（HTMLAudioElement.currentTime 相当）に合わせて口の形を適用する。
+ * 音声解析による推定（VowelLipSync）より正確なため、アライメントがある場合はこちらを使う。
+ * 一時停止中（描画していない間）は口形を更新せず、再開時に再生位置から続ける。
+ */
+
+import { MOUTH_SHAPES } from './constants';
+import type { MouthParameters, VowelDetectionResult } from './types';
+import type { MouthTarget } from './VowelLipSync';
+import type { VoiceAlignmentUnit } from '@/types/voice';
+
+export type MouthVowel = VowelDetectionResult['vowel'];
+
+export interface MouthKeyframe {
+  vowel: MouthVowel;
+  start: number; // 秒
+  end: number; // 秒
+}
+
+export interface AlignmentLipSyncConfig {
+  updateIntervalMs: number; // 口形の更新間隔
+  blendSec: number; // 次のモーラの口形へ移り始める時間（終了時刻の手前）
+  openScale: number; // 口の開きの倍率（音量設定に合わせる）
+}
+
+export const DEFAULT_ALIGNMENT_LIPSYNC_CONFIG: AlignmentLipSyncConfig = {
+  updateIntervalMs: 16,
+  blendSec: 0.04,
+  openScale: 1
+};
+
+// 連続するモーラとみなす間隔（これより空いていれば間は口を閉じる）
+const CONTIGUOUS_GAP_SEC = 0.01;
+
+const KANA_VOWELS: Record<Exclude<MouthVowel, 'silent'>, string> = {
+  a: 'あかさたなはまやらわがざだばぱぁゃゎ',
+  i: 'いきしちにひみりゐぎじぢびぴぃ',
+  u: 'うくすつぬふむゆるぐずづぶぷぅゅゔ',
+  e: 'えけせてねへめれゑげぜでべぺぇ',
+  o: 'おこそとのほもよろをごぞどぼぽぉょ'
+};
+
+// 口を閉じるかな・音素（撥音・促音・ポーズ）
+const CLOSED_MORA = new Set(['ん', 'っ', 'N', 'cl', 'pau', 'sil', 'sp']);
+
+/**
+ * カタカナをひらがなに変換
+ */
+const toHiragana = (text: string): string =>
+  text.replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+/**
+ * モーラ・音素の母音を求める
+ * @param text かな1モーラまたは音素
+ * @param previous 直前の母音（長音「ー」に使用）
+ * @returns 母音。子音のみの音素はnull（次の母音に合わせる）
+ */
+export function moraToVowel(text: string, previous: MouthVowel = 'silent'): MouthVowel | null {
+  const mora = text.trim();
+  if (!mora || CLOSED_MORA.has(mora)) {
+    return 'silent';
+  }
+  if (mora === ':') {
+    return previous;
+  }
+
+  // 音素表記（OpenJTalk等、無声化母音は大文字）
+  if (/^[a-zA-Z]+$/.test(mora)) {
+    const last = mora[mora.length - 1].toLowerCase();
+    return last in KANA_VOWELS ? (last as MouthVowel) : null;
+  }
+
+  // かな表記は最後の文字（拗音の「ゃ」等）で母音が決まる（末尾の長音は除く）
+  const kana = toHiragana(mora).replace(/ー+$/, '');
+  if (!kana) {
+    return previous;
+  }
+  const last = kana[kana.length - 1];
+  if (CLOSED_MORA.has(last)) {
+    return 'silent';
+  }
+  for (const [vowel, chars] of Object.entries(KANA_VOWELS)) {
+    if (chars.includes(last)) {
+      return vowel as MouthVowel;
+    }
+  }
+  return null;
+}
+
+/**
+ * アライメントから口形のタイムラインを作成
+ */
+export function buildMouthTimeline(units: VoiceAlignmentUnit[]): MouthKeyframe[] {
+  const sorted = units
+    .filter((unit) => Number.isFinite(unit.start) && Number.isFinite(unit.end) && unit.end > unit.start)
+    .sort((a, b) => a.start - b.start);
+
+  const vowels: Array<MouthVowel | null> = [];
+  let previous: MouthVowel = 'silent';
+  for (const unit of sorted) {
+    const vowel = moraToVowel(unit.text, previous);
+    vowels.push(vowel);
+    if (vowel) {
+      previous = vowel;
+    }
+  }
+
+  // 子音のみの音素は続く母音の口形で発音する
+  let next: MouthVowel = 'silent';
+  for (let i = vowels.length - 1; i >= 0; i--) {
+    const vowel = vowels[i];
+    if (vowel === null) {
+      vowels[i] = next;
+    } else {
+      next = vowel;
+    }
+  }
+
+  return sorted.map((unit, i) => ({ vowel: vowels[i] as MouthVowel, start: unit.start, end: unit.end }));
+}
+
+/**
+ * 指定時刻の口形（モーラの終わりでは次のモーラの口形へ補間）
+ */
+export function getMouthParamsAt(
+  timeline: MouthKeyframe[],
+  time: number,
+  blendSec: number = DEFAULT_ALIGNMENT_LIPSYNC_CONFIG.blendSec
+): MouthParameters {
+  // 時刻を含むキーフレームを二分探索
+  let low = 0;
+  let high = timeline.length - 1;
+  let index = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (timeline[mid].start <= time) {
+      index = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const current = index >= 0 ? timeline[index] : null;
+  if (!current || time >= current.end) {
+    return { ...MOUTH_SHAPES.silent };
+  }
+
+  const shape = MOUTH_SHAPES[current.vowel];
+  const blendStart = current.end - Math.min(blendSec, (current.end - current.start) / 2);
+  if (time < blendStart) {
+    return { ParamMouthOpenY: shape.ParamMouthOpenY, ParamMouthForm: shape.ParamMouthForm };
+  }
+
+  const following = timeline[index + 1];
+  const nextShape = following && following.start - current.end <= CONTIGUOUS_GAP_SEC
+    ? MOUTH_SHAPES[following.vowel]
+    : MOUTH_SHAPES.silent;
+  const t = (time - blendStart) / (current.end - blendStart);
+  return {
+    ParamMouthOpenY: shape.ParamMouthOpenY + (nextShape.ParamMouthOpenY - shape.ParamMouthOpenY) * t,
+    ParamMouthForm: shape.ParamMouthForm + (nextShape.ParamMouthForm - shape.ParamMouthForm) * t
+  };
+}
+
+export class AlignmentLipSyncScheduler {
+  private config: AlignmentLipSyncConfig;
+  private getTarget: () => MouthTarget | null;
+  private timeline: MouthKeyframe[] = [];
+  private getCurrentTime: (() => number) | null = null;
+  private onEnded: (() => void) | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private paused = false;
+
+  /**
+   * @param getTarget 口の動きを適用するモデルを返す関数（未ロード時はnull）
+   * @param config 更新間隔等の設定（省略した項目はデフォルト値）
+   */
+  constructor(getTarget: () => MouthTarget | null, config?: Partial<AlignmentLipSyncConfig>) {
+    this.getTarget = getTarget;
+    this.config = { ...DEFAULT_ALIGNMENT_LIPSYNC_CONFIG, ...config };
+  }
+
+  /**
+   * タイムラインに沿ったリップシンクを開始
+   * @param units 音声合成のアライメント
+   * @param getCurrentTime 音声の再生位置（秒）
+   * @param onEnded 最後のモーラが終わったときに呼ばれる
+   * @returns アライメントが空の場合はfalse（音声解析にフォールバックする）
+   */
+  public start(units: VoiceAlignmentUnit[], getCurrentTime: () => number, onEnded?: () => void): boolean {
+    this.stop();
+
+    this.timeline = buildMouthTimeline(units);
+    if (this.timeline.length === 0) {
+      return false;
+    }
+
+    this.getCurrentTime = getCurrentTime;
+    this.onEnded = onEnded ?? null;
+    this.resume();
+    return true;
+  }
+
+  /**
+   * リップシンクを停止して口を閉じる
+   */
+  public stop(): void {
+    this.clearTimer();
+    this.timeline = [];
+    this.getCurrentTime = null;
+    this.onEnded = null;
+
+    const target = this.getTarget();
+    if (target) {
+      target.setLipSyncValue(0);
+      target.setMouthFormValue(null);
+    }
+  }
+
+  public isActive(): boolean {
+    return this.getCurrentTime !== null;
+  }
+
+  /**
+   * 口形の更新を一時停止・再開する（再生中のタイムラインは残す）
+   */
+  public setPaused(paused: boolean): void {
+    if (this.paused === paused) {
+      return;
+    }
+    this.paused = paused;
+    if (paused) {
+      this.clearTimer();
+    } else {
+      this.resume();
+    }
+  }
+
+  /**
+   * 口の開きの倍率を設定
+   */
+  public setOpenScale(scale: number): void {
+    this.config.openScale = scale;
+  }
+
+  /**
+   * リソースを解放
+   */
+  public dispose(): void {
+    this.stop();
+  }
+
+  /**
+   * 再生位置の口形を適用し、更新タイマーを開始する（一時停止中は何もしない）
+   */
+  private resume(): void {
+    if (this.paused || this.timer || !this.getCurrentTime) {
+      return;
+    }
+    this.update();
+    // 最後のモーラを過ぎていた場合はupdateで終了している
+    if (this.getCurrentTime) {
+      this.timer = setInterval(() => this.update(), this.config.updateIntervalMs);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 再生位置の口形をモデルに適用
+   */
+  private update(): void {
+    if (!this.getCurrentTime) {
+      return;
+    }
+
+    const time = this.getCurrentTime();
+    const lastEnd = this.timeline[this.timeline.length - 1].end;
+    if (time >= lastEnd) {
+      const onEnded = this.onEnded;
+      this.stop();
+      onEnded?.();
+      return;
+    }
+
+    const params = getMouthParamsAt(this.timeline, time, this.config.blendSec);
+    const target = this.getTarget();
+    if (target) {
+      target.setLipSyncValue(Math.min(1, params.ParamMouthOpenY * this.config.openScale));
+      target.setMouthFormValue(params.ParamMouthForm);
+    }
+  }
+}
@@ -192,6 +192,13 @@ export class AudioWorkletManager {
     return this.context;
   }
 
+  /**
+   * マイク入力のMediaStreamを取得（録音用）
+   */
+  public getStream(): MediaStream | null {
+    return this.stream;
+  }
+
   /**
    * WorkletNodeを取得
    */
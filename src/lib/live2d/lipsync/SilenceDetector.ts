@@ -0,0 +1,88 @@
+/**
+ * SilenceDetector - マイク入力の発話開始・無音を検出
+ * RMSProcessorで平滑化した音量がしきい値を下回った状態が一定時間続いたら発話終了とみなす
+ */
+
+import { RMSProcessor } from './RMSProcessor';
+import { RMS_CONFIG } from './constants';
+
+export type SilenceDetectorEvent = 'speechStart' | 'silence';
+
+export interface SilenceDetectorConfig {
+  threshold: number; // これ以上のRMS値を発話とみなす
+  silenceDurationMs: number; // 発話後この時間無音が続いたらsilence
+  minSpeechDurationMs: number; // これより短い音は発話とみなさない（咳・物音対策）
+}
+
+export const DEFAULT_SILENCE_DETECTOR_CONFIG: SilenceDetectorConfig = {
+  threshold: RMS_CONFIG.MIN_THRESHOLD,
+  silenceDurationMs: 1500,
+  minSpeechDurationMs: 200
+};
+
+export class SilenceDetector {
+  private config: SilenceDetectorConfig;
+  private rmsProcessor: RMSProcessor;
+  private loudSince: number | null = null;
+  private silentSince: number | null = null;
+  private speaking = false;
+  private lastRMS = 0;
+
+  constructor(config: Partial<SilenceDetectorConfig> = {}, rmsProcessor: RMSProcessor = new RMSProcessor()) {
+    this.config = { ...DEFAULT_SILENCE_DETECTOR_CONFIG, ...config };
+    this.rmsProcessor = rmsProcessor;
+  }
+
+  /**
+   * 新しいサンプルを処理する
+   * @param samples 前回呼び出し以降に追加されたサンプル
+   * @param now 現在時刻(ms)
+   * @returns 発話開始・無音検出時のイベント（変化がなければnull）
+   */
+  public process(samples: Float32Array, now: number): SilenceDetectorEvent | null {
+    this.lastRMS = this.rmsProcessor.processSamples(samples);
+    const isLoud = this.lastRMS >= this.config.threshold;
+
+    if (isLoud) {
+      this.silentSince = null;
+      if (this.loudSince === null) {
+        this.loudSince = now;
+      }
+      if (!this.speaking && now - this.loudSince >= this.config.minSpeechDurationMs) {
+        this.speaking = true;
+        return 'speechStart';
+      }
+      return null;
+    }
+
+    this.loudSince = null;
+    if (!this.speaking) {
+      return null;
+    }
+    if (this.silentSince === null) {
+      this.silentSince = now;
+    }
+    if (now - this.silentSince >= this.config.silenceDurationMs) {
+      this.speaking = false;
+      this.silentSince = null;
+      return 'silence';
+    }
+    return null;
+  }
+
+  public isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  public getLastRMS(): number {
+    return this.lastRMS;
+  }
+
+  public reset(): void {
+    this.rmsProcessor.reset();
+    this.loudSince = null;
+    this.silentSince = null;
+    this.speaking = false;
+    this.lastRMS = 0;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * VowelLipSync - 母音の口形によるリップシンク
+ *
+ * 音声サンプルを AudioAnalyzer（FFT + FormantExtractor）で解析し、
+ * VowelDetector で母音を識別して LipSyncController の口形パラメータに変換する。
+ * 母音の信頼度が低い場合は音量のみで口の開きを決める。
+ * マイク入力（ミラーモード）と読み上げ音声（useLipSyncHandler）の両方で使用する。
+ */
+
+import { AudioAnalyzer } from './AudioAnalyzer';
+import { LipSyncController } from './LipSyncController';
+import { VowelDetector } from './VowelDetector';
+import { AUDIO_CONFIG, MOUTH_SHAPES, RMS_CONFIG } from './constants';
+import type { MouthParameters } from './types';
+
+/**
+ * 口の動きの適用先（LAppModelBaseが満たす）
+ */
+export interface MouthTarget {
+  setLipSyncValue(value: number): void;
+  setMouthFormValue(value: number | null): void;
+}
+
+export interface VowelLipSyncConfig {
+  sampleRate: number; // 入力音声のサンプルレート
+  silenceThreshold: number; // これ未満のRMSは無音として口を閉じる
+  rmsScale: number; // RMS→口の開き（0〜1）の感度
+  minConfidence: number; // これ未満の母音識別結果は使わず音量のみで動かす
+  smoothingFactor: number; // 口形遷移のスムージング係数（0〜1、大きいほど滑らか）
+}
+
+export const DEFAULT_VOWEL_LIPSYNC_CONFIG: VowelLipSyncConfig = {
+  sampleRate: AUDIO_CONFIG.SAMPLE_RATE,
+  silenceThreshold: RMS_CONFIG.MIN_THRESHOLD,
+  rmsScale: 6,
+  minConfidence: 0.3,
+  smoothingFactor: 0.6
+};
+
+export class VowelLipSync {
+  private config: VowelLipSyncConfig;
+  private getTarget: () => MouthTarget | null;
+  private audioAnalyzer: AudioAnalyzer;
+  private vowelDetector: VowelDetector;
+  private controller: LipSyncController;
+  private currentParams: MouthParameters = { ...MOUTH_SHAPES.silent };
+  private lastProcessTime: number = 0;
+
+  /**
+   * @param getTarget 口の動きを適用するモデルを返す関数（未ロード時はnull）
+   * @param config 感度等の設定（省略した項目はデフォルト値）
+   */
+  constructor(getTarget: () => MouthTarget | null, config?: Partial<VowelLipSyncConfig>) {
+    this.getTarget = getTarget;
+    this.config = { ...DEFAULT_VOWEL_LIPSYNC_CONFIG, ...config };
+
+    this.audioAnalyzer = new AudioAnalyzer({ sampleRate: this.config.sampleRate });
+    this.vowelDetector = new VowelDetector();
+
+    // LipSyncControllerのパラメータ適用をモデルのリップシンクAPIに振り分ける
+    const model = {
+      setParameterValueById: (id: string, value: number) => {
+        const target = this.getTarget();
+        if (!target) {
+          return;
+        }
+        if (id === 'ParamMouthOpenY') {
+          target.setLipSyncValue(value);
+        } else if (id === 'ParamMouthForm') {
+          target.setMouthFormValue(value);
+        }
+      }
+    };
+    this.controller = new LipSyncController(model, this.audioAnalyzer, this.vowelDetector, {
+      smoothingFactor: this.config.smoothingFactor,
+      minConfidence: this.config.minConfidence,
+      updateInterval: 0 // 更新間隔はWorklet側で制御する
+    });
+  }
+
+  /**
+   * 直近の音声サンプルで口の形を更新
+   * @param samples 解析するサンプル（FFTサイズと異なる場合はリサイズされる）
+   * @returns 適用した口形パラメータ
+   */
+  public process(samples: Float32Array, now: number = Date.now()): MouthParameters {
+    const target = this.getTargetParams(samples);
+
+    // 初回は前回時刻がないため1フレーム分とみなす
+    const deltaMs = this.lastProcessTime === 0 ? 16 : Math.min(100, now - this.lastProcessTime);
+    this.lastProcessTime = now;
+
+    this.currentParams = this.controller.normalizeParams(
+      this.controller.smooth(this.currentParams, target, deltaMs / 1000)
+    );
+    this.controller.applyParams(this.currentParams);
+    return this.currentParams;
+  }
+
+  /**
+   * 口を閉じてモデルの口の形を元に戻す
+   */
+  public reset(): void {
+    this.currentParams = { ...MOUTH_SHAPES.silent };
+    this.lastProcessTime = 0;
+
+    const target = this.getTarget();
+    if (target) {
+      target.setLipSyncValue(0);
+      target.setMouthFormValue(null);
+    }
+  }
+
+  /**
+   * リソースを解放
+   */
+  public dispose(): void {
+    this.reset();
+    this.controller.dispose();
+    this.audioAnalyzer.dispose();
+    this.vowelDetector.dispose();
+  }
+
+  /**
+   * サンプルから目標の口形を求める
+   */
+  private getTargetParams(samples: Float32Array): MouthParameters {
+    if (samples.length === 0) {
+      return MOUTH_SHAPES.silent;
+    }
+
+    const features = this.audioAnalyzer.processAudioBuffer(samples);
+    if (features.rms < this.config.silenceThreshold) {
+      return MOUTH_SHAPES.silent;
+    }
+
+    const loudness = Math.min(1, features.rms * this.config.rmsScale);
+    const result = this.vowelDetector.identify(features.formants);
+
+    // 母音が識別できない場合は音量のみで口を開く
+    if (result.vowel === 'silent' || result.confidence < this.config.minConfidence) {
+      return { ParamMouthOpenY: loudness, ParamMouthForm: 0 };
+    }
+
+    const shape = this.controller.vowelToParams(result.vowel);
+    return {
+      ParamMouthOpenY: shape.ParamMouthOpenY * loudness,
+      ParamMouthForm: shape.ParamMouthForm
+    };
+  }
+}
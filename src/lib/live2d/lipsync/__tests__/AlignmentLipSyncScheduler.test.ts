@@ -0,0 +1,189 @@
+/**
+ * AlignmentLipSyncScheduler Test Suite
+ */
+
+import {
+  AlignmentLipSyncScheduler,
+  buildMouthTimeline,
+  getMouthParamsAt,
+  moraToVowel
+} from '../AlignmentLipSyncScheduler';
+import { MOUTH_SHAPES } from '../constants';
+import type { MouthTarget } from '../VowelLipSync';
+import type { VoiceAlignmentUnit } from '@/types/voice';
+
+class MockMouthTarget implements MouthTarget {
+  public lipSyncValue = 0;
+  public mouthFormValue: number | null = null;
+
+  setLipSyncValue(value: number): void {
+    this.lipSyncValue = value;
+  }
+
+  setMouthFormValue(value: number | null): void {
+    this.mouthFormValue = value;
+  }
+}
+
+// 「こんにちは」
+const KONNICHIWA: VoiceAlignmentUnit[] = [
+  { text: 'コ', start: 0.0, end: 0.1 },
+  { text: 'ン', start: 0.1, end: 0.2 },
+  { text: 'ニ', start: 0.2, end: 0.3 },
+  { text: 'チ', start: 0.3, end: 0.4 },
+  { text: 'ワ', start: 0.4, end: 0.6 }
+];
+
+describe('moraToVowel', () => {
+  it('かなのモーラから母音を求める', () => {
+    expect(moraToVowel('か')).toBe('a');
+    expect(moraToVowel('シ')).toBe('i');
+    expect(moraToVowel('きゅ')).toBe('u');
+    expect(moraToVowel('ヴェ')).toBe('e');
+    expect(moraToVowel('ょ')).toBe('o');
+  });
+
+  it('撥音・促音・ポーズでは口を閉じる', () => {
+    expect(moraToVowel('ん')).toBe('silent');
+    expect(moraToVowel('ッ')).toBe('silent');
+    expect(moraToVowel('pau')).toBe('silent');
+  });
+
+  it('長音は直前の母音を伸ばす', () => {
+    expect(moraToVowel('ー', 'o')).toBe('o');
+    expect(moraToVowel('カー')).toBe('a');
+  });
+
+  it('音素表記に対応し、子音のみの音素はnullを返す', () => {
+    expect(moraToVowel('a')).toBe('a');
+    expect(moraToVowel('U')).toBe('u');
+    expect(moraToVowel('ky')).toBeNull();
+    expect(moraToVowel('N')).toBe('silent');
+  });
+});
+
+describe('buildMouthTimeline', () => {
+  it('子音のみの音素は続く母音の口形にする', () => {
+    const timeline = buildMouthTimeline([
+      { text: 'k', start: 0, end: 0.05 },
+      { text: 'o', start: 0.05, end: 0.15 },
+      { text: 'N', start: 0.15, end: 0.25 }
+    ]);
+
+    expect(timeline.map(k => k.vowel)).toEqual(['o', 'o', 'silent']);
+  });
+
+  it('開始時刻順に並べ、不正な区間は除外する', () => {
+    const timeline = buildMouthTimeline([
+      { text: 'い', start: 0.2, end: 0.3 },
+      { text: 'あ', start: 0.0, end: 0.2 },
+      { text: 'う', start: 0.3, end: 0.3 }
+    ]);
+
+    expect(timeline.map(k => k.vowel)).toEqual(['a', 'i']);
+  });
+});
+
+describe('getMouthParamsAt', () => {
+  const timeline = buildMouthTimeline(KONNICHIWA);
+
+  it('モーラの途中ではその母音の口形になる', () => {
+    expect(getMouthParamsAt(timeline, 0.05)).toEqual({
+      ParamMouthOpenY: MOUTH_SHAPES.o.ParamMouthOpenY,
+      ParamMouthForm: MOUTH_SHAPES.o.ParamMouthForm
+    });
+    expect(getMouthParamsAt(timeline, 0.5).ParamMouthOpenY).toBe(MOUTH_SHAPES.a.ParamMouthOpenY);
+  });
+
+  it('モーラの終わりでは次の口形へ補間する', () => {
+    // 「ニ」（い）→「チ」（い）→「ワ」（あ）の境界付近
+    const params = getMouthParamsAt(timeline, 0.39);
+    expect(params.ParamMouthOpenY).toBeGreaterThan(MOUTH_SHAPES.i.ParamMouthOpenY);
+    expect(params.ParamMouthOpenY).toBeLessThan(MOUTH_SHAPES.a.ParamMouthOpenY);
+  });
+
+  it('範囲外では口を閉じる', () => {
+    expect(getMouthParamsAt(timeline, -0.1).ParamMouthOpenY).toBe(0);
+    expect(getMouthParamsAt(timeline, 0.7).ParamMouthOpenY).toBe(0);
+  });
+});
+
+describe('AlignmentLipSyncScheduler', () => {
+  let target: MockMouthTarget;
+  let scheduler: AlignmentLipSyncScheduler;
+  let currentTime: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    currentTime = 0;
+    target = new MockMouthTarget();
+    scheduler = new AlignmentLipSyncScheduler(() => target);
+  });
+
+  afterEach(() => {
+    scheduler.dispose();
+    jest.useRealTimers();
+  });
+
+  it('再生位置に合わせて口形を適用する', () => {
+    scheduler.start(KONNICHIWA, () => currentTime);
+    expect(target.mouthFormValue).toBe(MOUTH_SHAPES.o.ParamMouthForm);
+
+    currentTime = 0.25;
+    jest.advanceTimersByTime(20);
+    expect(target.mouthFormValue).toBe(MOUTH_SHAPES.i.ParamMouthForm);
+    expect(target.lipSyncValue).toBe(MOUTH_SHAPES.i.ParamMouthOpenY);
+  });
+
+  it('最後のモーラが終わると口を閉じて終了を通知する', () => {
+    const onEnded = jest.fn();
+    scheduler.start(KONNICHIWA, () => currentTime, onEnded);
+
+    currentTime = 0.6;
+    jest.advanceTimersByTime(20);
+
+    expect(onEnded).toHaveBeenCalledTimes(1);
+    expect(scheduler.isActive()).toBe(false);
+    expect(target.lipSyncValue).toBe(0);
+    expect(target.mouthFormValue).toBeNull();
+  });
+
+  it('口の開きの倍率を適用する', () => {
+    scheduler.setOpenScale(0.5);
+    scheduler.start(KONNICHIWA, () => 0.5);
+
+    expect(target.lipSyncValue).toBe(MOUTH_SHAPES.a.ParamMouthOpenY * 0.5);
+  });
+
+  it('一時停止中は口形を更新せず、再開時に再生位置から続ける', () => {
+    scheduler.start(KONNICHIWA, () => currentTime);
+    scheduler.setPaused(true);
+
+    currentTime = 0.25;
+    jest.advanceTimersByTime(100);
+    expect(target.mouthFormValue).toBe(MOUTH_SHAPES.o.ParamMouthForm);
+    expect(scheduler.isActive()).toBe(true);
+
+    scheduler.setPaused(false);
+    expect(target.mouthFormValue).toBe(MOUTH_SHAPES.i.ParamMouthForm);
+  });
+
+  it('一時停止中に最後のモーラを過ぎた場合は再開時に終了を通知する', () => {
+    const onEnded = jest.fn();
+    scheduler.setPaused(true);
+    scheduler.start(KONNICHIWA, () => currentTime, onEnded);
+
+    currentTime = 0.6;
+    jest.advanceTimersByTime(100);
+    expect(onEnded).not.toHaveBeenCalled();
+
+    scheduler.setPaused(false);
+    expect(onEnded).toHaveBeenCalledTimes(1);
+    expect(scheduler.isActive()).toBe(false);
+  });
+
+  it('アライメントが空の場合は開始しない', () => {
+    expect(scheduler.start([], () => currentTime)).toBe(false);
+    expect(scheduler.isActive()).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * SilenceDetector Test Suite
+ */
+
+import { SilenceDetector } from '../SilenceDetector';
+import { RMSProcessor } from '../RMSProcessor';
+
+const CHUNK_SIZE = 512;
+const CHUNK_MS = 10;
+
+const createChunk = (amplitude: number): Float32Array => {
+  const samples = new Float32Array(CHUNK_SIZE);
+  for (let i = 0; i < CHUNK_SIZE; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * 440 * i) / 48000);
+  }
+  return samples;
+};
+
+describe('SilenceDetector', () => {
+  let detector: SilenceDetector;
+  let now: number;
+
+  // 指定時間分のチャンクを流し、発生したイベントを返す
+  const feed = (amplitude: number, durationMs: number) => {
+    const events: string[] = [];
+    for (let t = 0; t < durationMs; t += CHUNK_MS) {
+      const event = detector.process(createChunk(amplitude), now);
+      if (event) {
+        events.push(event);
+      }
+      now += CHUNK_MS;
+    }
+    return events;
+  };
+
+  beforeEach(() => {
+    now = 0;
+    // スムージングなしで判定を分かりやすくする
+    detector = new SilenceDetector(
+      { threshold: 0.05, silenceDurationMs: 500, minSpeechDurationMs: 100 },
+      new RMSProcessor(CHUNK_SIZE, 1)
+    );
+  });
+
+  it('無音のみではイベントを発生させない', () => {
+    expect(feed(0, 2000)).toEqual([]);
+    expect(detector.isSpeaking()).toBe(false);
+  });
+
+  it('一定時間以上の音で発話開始を検出する', () => {
+    expect(feed(0.5, 200)).toEqual(['speechStart']);
+    expect(detector.isSpeaking()).toBe(true);
+  });
+
+  it('短い物音は発話とみなさない', () => {
+    expect(feed(0.5, 50)).toEqual([]);
+    expect(feed(0, 1000)).toEqual([]);
+  });
+
+  it('発話後に無音が続くとsilenceを発生させる', () => {
+    feed(0.5, 300);
+    expect(feed(0, 400)).toEqual([]);
+    expect(feed(0, 200)).toEqual(['silence']);
+    expect(detector.isSpeaking()).toBe(false);
+  });
+
+  it('発話途中の短い間ではsilenceにならない', () => {
+    feed(0.5, 300);
+    feed(0, 300);
+    feed(0.5, 100);
+    expect(feed(0, 400)).toEqual([]);
+  });
+
+  it('resetで状態を初期化する', () => {
+    feed(0.5, 300);
+    detector.reset();
+    expect(detector.isSpeaking()).toBe(false);
+    expect(detector.getLastRMS()).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * VowelLipSync Test Suite
+ */
+
+import { VowelLipSync, MouthTarget } from '../VowelLipSync';
+
+const SAMPLE_RATE = 48000;
+const BUFFER_SIZE = 2048;
+
+// 2つの正弦波（F1・F2相当）を合成したフレーム
+const createFrame = (amplitude: number, f1: number, f2: number): Float32Array => {
+  const samples = new Float32Array(BUFFER_SIZE);
+  for (let i = 0; i < BUFFER_SIZE; i++) {
+    samples[i] = amplitude * (
+      Math.sin((2 * Math.PI * f1 * i) / SAMPLE_RATE) +
+      Math.sin((2 * Math.PI * f2 * i) / SAMPLE_RATE)
+    ) / 2;
+  }
+  return samples;
+};
+
+class MockMouthTarget implements MouthTarget {
+  public lipSyncValue = 0;
+  public mouthFormValue: number | null = null;
+
+  setLipSyncValue(value: number): void {
+    this.lipSyncValue = value;
+  }
+
+  setMouthFormValue(value: number | null): void {
+    this.mouthFormValue = value;
+  }
+}
+
+describe('VowelLipSync', () => {
+  let target: MockMouthTarget;
+  let lipSync: VowelLipSync;
+  let now: number;
+
+  // 同じフレームを一定回数流して口形を収束させる
+  const feed = (frame: Float32Array, count: number = 30) => {
+    for (let i = 0; i < count; i++) {
+      lipSync.process(frame, now);
+      now += 10;
+    }
+  };
+
+  beforeEach(() => {
+    now = 1000;
+    target = new MockMouthTarget();
+    lipSync = new VowelLipSync(() => target, { sampleRate: SAMPLE_RATE });
+  });
+
+  afterEach(() => {
+    lipSync.dispose();
+  });
+
+  it('無音では口を閉じたままにする', () => {
+    feed(createFrame(0, 800, 1400));
+
+    expect(target.lipSyncValue).toBe(0);
+    expect(target.mouthFormValue).toBe(0);
+  });
+
+  it('「あ」のフォルマントでは口を大きく開く', () => {
+    feed(createFrame(0.3, 800, 1400));
+
+    expect(target.lipSyncValue).toBeGreaterThan(0.5);
+    expect(target.mouthFormValue).toBeCloseTo(0, 1);
+  });
+
+  it('「い」のフォルマントでは口を横に広げる', () => {
+    feed(createFrame(0.3, 300, 2500));
+
+    expect(target.mouthFormValue).toBeGreaterThan(0.5);
+    expect(target.lipSyncValue).toBeLessThan(0.5);
+  });
+
+  it('母音を識別できない場合は音量のみで口を開く', () => {
+    // どの母音のフォルマントからも遠い高音
+    feed(createFrame(0.3, 2000, 2000));
+
+    expect(target.lipSyncValue).toBeGreaterThan(0.5);
+    expect(target.mouthFormValue).toBeCloseTo(0, 2);
+  });
+
+  it('発話が止まると口を閉じていく', () => {
+    feed(createFrame(0.3, 800, 1400));
+    const opened = target.lipSyncValue;
+
+    feed(createFrame(0, 800, 1400), 10);
+
+    expect(target.lipSyncValue).toBeLessThan(opened * 0.5);
+  });
+
+  it('resetで口を閉じて口の形の上書きを解除する', () => {
+    feed(createFrame(0.3, 300, 2500));
+
+    lipSync.reset();
+
+    expect(target.lipSyncValue).toBe(0);
+    expect(target.mouthFormValue).toBeNull();
+  });
+
+  it('モデルが未ロードでもエラーにならない', () => {
+    const detached = new VowelLipSync(() => null, { sampleRate: SAMPLE_RATE });
+
+    expect(() => detached.process(createFrame(0.3, 800, 1400), now)).not.toThrow();
+    detached.dispose();
+  });
+});
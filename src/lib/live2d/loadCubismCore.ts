@@ -0,0 +1,80 @@
+/**
+ * Cubism Core（live2dcubismcore.min.js）の読み込み
+ * 複数のキャンバスから同時に呼ばれてもscriptは1回だけ追加する
+ * Web Worker（OffscreenCanvasでの描画）ではimportScriptsで読み込む
+ */
+
+import { logger } from '@/utils/logger';
+
+const CUBISM_CORE_SRC = '/live2dcubismcore.min.js';
+
+interface CubismCoreGlobal {
+  Live2DCubismCore?: unknown;
+  Module?: Record<string, unknown>;
+  importScripts?: (...urls: string[]) => void;
+}
+
+let loadingPromise: Promise<void> | null = null;
+
+const coreGlobal = (): CubismCoreGlobal => globalThis as unknown as CubismCoreGlobal;
+
+const isCubismCoreLoaded = (): boolean => !!coreGlobal().Live2DCubismCore;
+
+// WASMのテーブル成長を許可するための設定
+const CUBISM_CORE_MODULE = {
+  ALLOW_TABLE_GROWTH: 1,
+  RESERVED_FUNCTION_POINTERS: 1000
+};
+
+/**
+ * Cubism Coreを読み込む（読み込み済みの場合は何もしない）
+ */
+export function loadCubismCore(): Promise<void> {
+  if (isCubismCoreLoaded()) {
+    return Promise.resolve();
+  }
+  if (loadingPromise) {
+    return loadingPromise;
+  }
+
+  loadingPromise = new Promise<void>((resolve, reject) => {
+    coreGlobal().Module = { ...CUBISM_CORE_MODULE };
+
+    // Web Workerにはdocumentがないため、同期的に読み込む
+    if (typeof document === 'undefined') {
+      const { importScripts } = coreGlobal();
+      if (!importScripts) {
+        reject(new Error('Cannot load live2dcubismcore.min.js in this context'));
+        return;
+      }
+      importScripts(CUBISM_CORE_SRC);
+      if (isCubismCoreLoaded()) {
+        resolve();
+      } else {
+        reject(new Error('Live2DCubismCore not found after script load'));
+      }
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = CUBISM_CORE_SRC;
+    script.async = false;
+    script.onload = () => {
+      // Live2DCubismCoreが正しくロードされたか確認
+      if (isCubismCoreLoaded()) {
+        logger.log('Live2DCubismCore loaded successfully');
+        resolve();
+      } else {
+        reject(new Error('Live2DCubismCore not found after script load'));
+      }
+    };
+    script.onerror = () => reject(new Error('Failed to load live2dcubismcore.min.js'));
+    document.head.appendChild(script);
+  }).catch((error) => {
+    // 失敗した場合は次回の呼び出しで再試行する
+    loadingPromise = null;
+    throw error;
+  });
+
+  return loadingPromise;
+}
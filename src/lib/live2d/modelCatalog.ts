@@ -0,0 +1,185 @@
+/**
+ * Live2Dモデルのカタログ
+ * public/live2d/models.json（マニフェスト）から選択できるモデルと、モデルごとの感情→表情・モーションのマッピングを読み込む
+ *
+ * - マニフェストのmodel3はpublic/live2d/からの相対パス
+ * - emotionsを省略したモデルはデフォルトのマッピング（nike01用）を使う
+ * - マニフェストを読み込めない場合は既定のモデル（LAppDefine.ModelDir[0]）だけのカタログにする
+ */
+
+import {
+  DEFAULT_EMOTION_EXPRESSION_CONFIG,
+  EmotionExpressionConfig,
+  EmotionExpressionMapping
+} from './EmotionExpressionController';
+import { ModelDir, ResourcesPath } from './demo/lappdefine';
+import { logger } from '@/utils/logger';
+
+const MANIFEST_URL = `${ResourcesPath}models.json`;
+
+export interface Live2DModelEntry {
+  id: string;
+  name: string; // 表示名
+  description?: string;
+  modelUrl: string; // model3.jsonのURL（/live2d/<dir>/<name>.model3.json）
+  neutralExpression: string; // 感情の減衰後に戻す表情
+  emotions: Record<string, EmotionExpressionMapping>; // 感情名 → 表情・モーション
+}
+
+export interface Live2DModelCatalog {
+  models: Live2DModelEntry[];
+  defaultModelId: string;
+}
+
+/**
+ * 既定のモデル（マニフェストを読み込めない場合に使う）
+ */
+export const DEFAULT_LIVE2D_MODEL: Live2DModelEntry = {
+  id: ModelDir[0],
+  name: ModelDir[0],
+  modelUrl: `${ResourcesPath}${ModelDir[0]}/${ModelDir[0]}.model3.json`,
+  neutralExpression: DEFAULT_EMOTION_EXPRESSION_CONFIG.neutralExpression,
+  emotions: DEFAULT_EMOTION_EXPRESSION_CONFIG.mappings
+};
+
+export const DEFAULT_LIVE2D_MODEL_CATALOG: Live2DModelCatalog = {
+  models: [DEFAULT_LIVE2D_MODEL],
+  defaultModelId: DEFAULT_LIVE2D_MODEL.id
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseEmotions = (value: unknown): Record<string, EmotionExpressionMapping> | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const emotions: Record<string, EmotionExpressionMapping> = {};
+  for (const [emotion, mapping] of Object.entries(value)) {
+    if (!isRecord(mapping) || typeof mapping.expression !== 'string') {
+      continue;
+    }
+    emotions[emotion] = typeof mapping.motionGroup === 'string'
+      ? { expression: mapping.expression, motionGroup: mapping.motionGroup }
+      : { expression: mapping.expression };
+  }
+  return emotions;
+};
+
+const parseModelEntry = (value: unknown): Live2DModelEntry | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    return null;
+  }
+  if (typeof value.model3 !== 'string' || !value.model3.endsWith('.model3.json')) {
+    return null;
+  }
+
+  return {
+    id: value.id,
+    name: typeof value.name === 'string' && value.name ? value.name : value.id,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    modelUrl: value.model3.startsWith('/') ? value.model3 : `${ResourcesPath}${value.model3}`,
+    neutralExpression: typeof value.neutralExpression === 'string'
+      ? value.neutralExpression
+      : DEFAULT_EMOTION_EXPRESSION_CONFIG.neutralExpression,
+    emotions: parseEmotions(value.emotions) ?? DEFAULT_EMOTION_EXPRESSION_CONFIG.mappings
+  };
+};
+
+/**
+ * マニフェストをカタログに変換する（不正なモデル定義・重複したIDは除外）
+ * @returns モデルが1つもない場合はnull
+ */
+export function parseModelManifest(manifest: unknown): Live2DModelCatalog | null {
+  if (!isRecord(manifest) || !Array.isArray(manifest.models)) {
+    return null;
+  }
+
+  const models: Live2DModelEntry[] = [];
+  for (const value of manifest.models) {
+    const entry = parseModelEntry(value);
+    if (!entry) {
+      logger.warn('Invalid Live2D model entry in manifest:', value);
+      continue;
+    }
+    if (models.some((model) => model.id === entry.id)) {
+      continue;
+    }
+    models.push(entry);
+  }
+
+  if (models.length === 0) {
+    return null;
+  }
+
+  const defaultModelId = typeof manifest.defaultModelId === 'string'
+    && models.some((model) => model.id === manifest.defaultModelId)
+    ? manifest.defaultModelId
+    : models[0].id;
+
+  return { models, defaultModelId };
+}
+
+/**
+ * カタログからモデルを選ぶ（見つからない場合は既定のモデル）
+ */
+export function findModel(catalog: Live2DModelCatalog, modelId: string | null | undefined): Live2DModelEntry {
+  return catalog.models.find((model) => model.id === modelId)
+    ?? catalog.models.find((model) => model.id === catalog.defaultModelId)
+    ?? catalog.models[0];
+}
+
+/**
+ * モデルの感情→表情の設定（EmotionExpressionControllerに渡す）
+ */
+export function getEmotionExpressionConfig(model: Live2DModelEntry): Partial<EmotionExpressionConfig> {
+  return {
+    mappings: model.emotions,
+    neutralExpression: model.neutralExpression
+  };
+}
+
+/**
+ * model3.jsonのURLをディレクトリとファイル名に分ける（LAppLive2DManager.loadModelの引数）
+ */
+export function splitModelUrl(modelUrl: string): { modelPath: string; modelJsonName: string } {
+  const index = modelUrl.lastIndexOf('/');
+  return {
+    modelPath: modelUrl.slice(0, index + 1),
+    modelJsonName: modelUrl.slice(index + 1)
+  };
+}
+
+let catalogPromise: Promise<Live2DModelCatalog> | null = null;
+
+/**
+ * マニフェストを読み込む（1回だけ取得し、失敗した場合は既定のカタログを返して次回再試行する）
+ */
+export function loadModelCatalog(): Promise<Live2DModelCatalog> {
+  if (catalogPromise) {
+    return catalogPromise;
+  }
+
+  catalogPromise = fetch(MANIFEST_URL)
+    .then((response) => {
+      if (!response.ok) {
+        throw new Error(`Failed to load Live2D model manifest: ${response.status}`);
+      }
+      return response.json();
+    })
+    .then((manifest: unknown) => {
+      const catalog = parseModelManifest(manifest);
+      if (!catalog) {
+        throw new Error('Live2D model manifest has no valid models');
+      }
+      return catalog;
+    })
+    .catch((error) => {
+      logger.error('Failed to load Live2D model catalog:', error);
+      catalogPromise = null;
+      return DEFAULT_LIVE2D_MODEL_CATALOG;
+    });
+
+  return catalogPromise;
+}
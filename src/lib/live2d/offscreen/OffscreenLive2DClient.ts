@@ -0,0 +1,327 @@
+/**
+ * OffscreenLive2DClient
+ * Web Worker（live2d.worker.ts）でのLive2Dの描画をメインスレッドから操作する
+ *
+ * - canvasの描画をOffscreenCanvasとしてワーカーに渡し、表示サイズ・ポインタ入力・表情・モーション・口の値をメッセージで送る
+ * - CharacterSubdelegateを満たし、Live2DCharacterControllerからはメインスレッドの描画と同じように操作できる
+ * - モデルの操作結果はワーカーから返らないため、モーションは常に開始できたものとして扱う
+ */
+
+import type { CharacterModel, CharacterSubdelegate } from '../Live2DCharacterController';
+import type { ScreenType } from '../demo/lappscreenbehavior';
+import type { LAppDisplaySize } from '../demo/lappsubdelegate';
+import type { Live2DWorkerCommand, Live2DWorkerEvent, WorkerRenderQuality } from './protocol';
+import { logger } from '@/utils/logger';
+
+export interface OffscreenLive2DClientOptions {
+  modelUrl?: string | null;
+  screenType?: ScreenType | null;
+  disableMotions?: boolean;
+}
+
+// ワーカーで描画できるかの判定結果（判定用のWebGLコンテキストを作るため、最初の1回だけ判定する）
+let offscreenRenderingSupported: boolean | null = null;
+
+/**
+ * ワーカーで描画できるか（OffscreenCanvasでWebGLが使えるか）
+ */
+export function isOffscreenRenderingSupported(): boolean {
+  if (offscreenRenderingSupported === null) {
+    offscreenRenderingSupported = detectOffscreenRendering();
+  }
+  return offscreenRenderingSupported;
+}
+
+function detectOffscreenRendering(): boolean {
+  if (
+    typeof Worker === 'undefined' ||
+    typeof OffscreenCanvas === 'undefined' ||
+    typeof HTMLCanvasElement === 'undefined' ||
+    !('transferControlToOffscreen' in HTMLCanvasElement.prototype)
+  ) {
+    return false;
+  }
+  try {
+    const gl = new OffscreenCanvas(1, 1).getContext('webgl');
+    // 判定用のコンテキストはブラウザのコンテキスト数の上限に数えられるため、すぐに解放する
+    gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    return gl !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ワーカーのモデルへの操作をメッセージとして送る
+ */
+export class OffscreenModelProxy implements CharacterModel {
+  constructor(private readonly send: (command: Live2DWorkerCommand) => void) {}
+
+  public setExpression(expressionId: string): void {
+    this.send({ type: 'expression', expressionId });
+  }
+
+  public setRandomExpression(): void {
+    this.send({ type: 'randomExpression' });
+  }
+
+  public startMotion(group: string, no: number, priority: number): boolean {
+    this.send({ type: 'motion', group, index: no, priority });
+    return true;
+  }
+
+  public startRandomMotion(group: string, priority: number): boolean {
+    this.send({ type: 'randomMotion', group, priority });
+    return true;
+  }
+
+  public setLipSyncValue(value: number): void {
+    this.send({ type: 'lipSync', value });
+  }
+
+  public setMouthFormValue(value: number | null): void {
+    this.send({ type: 'mouthForm', value });
+  }
+
+  public setMousePosition(x: number, y: number): void {
+    this.send({ type: 'gaze', x, y });
+  }
+
+  public resetMousePosition(): void {
+    this.send({ type: 'resetGaze' });
+  }
+}
+
+export class OffscreenLive2DClient implements CharacterSubdelegate {
+  private worker: Worker | null;
+  private readonly model: OffscreenModelProxy;
+  private readonly manager = { getModel: (index: number = 0) => (index === 0 && this.hasModel ? this.model : null) };
+  private hasModel = false;
+  private screenType: ScreenType | null = null;
+  private currentFPS = 0;
+  private renderTime = 0;
+  private textureMemoryBytes = 0;
+  private resizeObserver: ResizeObserver | null = null;
+  private initResolver: ((ready: boolean) => void) | null = null;
+  private modelLoadResolvers: Array<(loaded: boolean) => void> = [];
+
+  /**
+   * @param canvas 表示先のcanvas（描画はワーカーに移す）
+   * @param worker live2d.worker.tsのワーカー
+   */
+  constructor(private readonly canvas: HTMLCanvasElement, worker: Worker) {
+    this.worker = worker;
+    this.model = new OffscreenModelProxy((command) => this.send(command));
+    worker.onmessage = (event: MessageEvent<Live2DWorkerEvent>) => this.handleEvent(event.data);
+    worker.onerror = (event) => {
+      logger.error('Live2D worker error:', event.message);
+      this.resolveInit(false);
+    };
+  }
+
+  /**
+   * canvasの描画をワーカーに渡し、モデルの読み込みを開始する
+   * @returns ワーカーでWebGLが使えない場合はfalse（canvasは描画に使えなくなるため作り直す）
+   */
+  public initialize(options: OffscreenLive2DClientOptions = {}): Promise<boolean> {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.resolve(false);
+    }
+
+    this.screenType = options.screenType ?? null;
+    const offscreen = this.canvas.transferControlToOffscreen();
+    const ready = new Promise<boolean>((resolve) => {
+      this.initResolver = resolve;
+    });
+    const init: Live2DWorkerCommand = {
+      type: 'init',
+      canvas: offscreen,
+      displaySize: this.getDisplaySize(),
+      modelUrl: options.modelUrl ?? null,
+      screenType: this.screenType,
+      disableMotions: options.disableMotions ?? false
+    };
+    worker.postMessage(init, [offscreen]);
+
+    // 表示サイズの変更をワーカーに伝える
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.resize());
+      this.resizeObserver.observe(this.canvas);
+    }
+
+    return ready;
+  }
+
+  /**
+   * モデルを読み込む（model3.jsonのディレクトリとファイル名、またはLAppDefine.ModelDirのシーン番号）
+   * @returns モーション・テクスチャまで読み込めた場合はtrue（読み込めなかった・後から別のモデルに切り替えた場合はfalse）
+   */
+  public loadModel(model: { modelPath: string; modelJsonName: string } | { sceneIndex: number }): Promise<boolean> {
+    if (!this.worker) {
+      return Promise.resolve(false);
+    }
+    const loaded = new Promise<boolean>((resolve) => this.modelLoadResolvers.push(resolve));
+    this.send('sceneIndex' in model ? { type: 'loadScene', sceneIndex: model.sceneIndex } : { type: 'loadModel', ...model });
+    return loaded;
+  }
+
+  public start(): void {
+    this.send({ type: 'start' });
+  }
+
+  public stop(): void {
+    this.send({ type: 'stop' });
+  }
+
+  public setTargetFPS(fps: number): void {
+    this.send({ type: 'targetFPS', fps });
+  }
+
+  public setRenderQuality(quality: WorkerRenderQuality): void {
+    this.send({ type: 'quality', ...quality });
+  }
+
+  /**
+   * 表示サイズをワーカーに伝え、描画バッファ・ビューを合わせる
+   */
+  public resize(): void {
+    this.send({ type: 'resize', displaySize: this.getDisplaySize() });
+  }
+
+  /**
+   * マウス位置に視線を向ける（ページ座標）
+   */
+  public onMouseMove(pageX: number, pageY: number): void {
+    // ワーカーはcanvasの表示位置を知らないため、キャンバス内の座標にして送る
+    const rect = this.canvas.getBoundingClientRect();
+    this.send({
+      type: 'pointerMove',
+      x: pageX - (rect.left + window.scrollX),
+      y: pageY - (rect.top + window.scrollY)
+    });
+  }
+
+  /**
+   * タップ（ビュー座標）
+   */
+  public onTap(x: number, y: number): void {
+    this.send({ type: 'tap', x, y });
+  }
+
+  /**
+   * ドラッグ（ビュー座標）
+   */
+  public onDrag(x: number, y: number): void {
+    this.send({ type: 'drag', x, y });
+  }
+
+  public setScreenType(screenType: ScreenType): void {
+    this.screenType = screenType;
+    this.send({ type: 'screenType', screenType });
+  }
+
+  public getScreenType(): ScreenType | null {
+    return this.screenType;
+  }
+
+  public setDisableMotions(disable: boolean): void {
+    this.send({ type: 'disableMotions', disable });
+  }
+
+  /**
+   * ワーカーで計測した描画FPS（1秒ごとに更新）
+   */
+  public getCurrentFPS(): number {
+    return this.currentFPS;
+  }
+
+  /**
+   * ワーカーで計測した1フレームの描画にかかった平均時間（ミリ秒、1秒ごとに更新）
+   */
+  public getRenderTime(): number {
+    return this.renderTime;
+  }
+
+  /**
+   * ワーカーで読み込んだテクスチャが使うGPUメモリの推定値（バイト、1秒ごとに更新）
+   */
+  public getTextureMemoryBytes(): number {
+    return this.textureMemoryBytes;
+  }
+
+  /**
+   * CharacterSubdelegate: 表示先のcanvas（表示・非表示の切り替えに使う）
+   */
+  public getCanvas(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  /**
+   * CharacterSubdelegate: モデルへの操作をワーカーに送るマネージャー
+   */
+  public getLive2DManager(): { getModel(index?: number): OffscreenModelProxy | null } {
+    return this.manager;
+  }
+
+  public getModel(): OffscreenModelProxy | null {
+    return this.manager.getModel(0);
+  }
+
+  /**
+   * ワーカーを終了する（WebGLコンテキスト・モデルもワーカーとともに解放される）
+   */
+  public dispose(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    if (this.worker) {
+      this.worker.onmessage = null;
+      this.worker.onerror = null;
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.hasModel = false;
+    this.resolveInit(false);
+    this.modelLoadResolvers.forEach((resolve) => resolve(false));
+    this.modelLoadResolvers = [];
+  }
+
+  private send(command: Live2DWorkerCommand): void {
+    this.worker?.postMessage(command);
+  }
+
+  private handleEvent(event: Live2DWorkerEvent): void {
+    switch (event.type) {
+      case 'ready':
+        this.hasModel = event.hasModel;
+        this.resolveInit(true);
+        break;
+      case 'initError':
+        logger.warn('Live2D worker initialization failed:', event.message);
+        this.resolveInit(false);
+        break;
+      case 'modelLoaded':
+        this.hasModel = event.hasModel;
+        this.modelLoadResolvers.shift()?.(event.loaded);
+        break;
+      case 'stats':
+        this.currentFPS = event.fps;
+        this.renderTime = event.renderTime;
+        this.textureMemoryBytes = event.textureMemoryBytes;
+        break;
+    }
+  }
+
+  private resolveInit(ready: boolean): void {
+    this.initResolver?.(ready);
+    this.initResolver = null;
+  }
+
+  private getDisplaySize(): LAppDisplaySize {
+    return {
+      width: this.canvas.clientWidth,
+      height: this.canvas.clientHeight,
+      devicePixelRatio: window.devicePixelRatio
+    };
+  }
+}
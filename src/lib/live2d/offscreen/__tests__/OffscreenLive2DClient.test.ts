@@ -0,0 +1,157 @@
+/**
+ * OffscreenLive2DClient Test Suite
+ * ワーカーでの描画のメッセージのテスト
+ */
+
+import { OffscreenLive2DClient } from '../OffscreenLive2DClient';
+import { Live2DCharacterController } from '../../Live2DCharacterController';
+import { ScreenType } from '../../demo/lappscreenbehavior';
+import type { Live2DWorkerCommand, Live2DWorkerEvent } from '../protocol';
+
+// テストで差し替えるブラウザのグローバル
+const browserGlobals = globalThis as unknown as { window?: unknown };
+
+interface FakeWorker {
+  postMessage: jest.Mock;
+  terminate: jest.Mock;
+  onmessage: ((event: { data: Live2DWorkerEvent }) => void) | null;
+  onerror: ((event: { message: string }) => void) | null;
+}
+
+describe('OffscreenLive2DClient', () => {
+  const offscreenCanvas = { width: 0, height: 0 };
+  let worker: FakeWorker;
+  let canvas: { clientWidth: number; clientHeight: number; style: { visibility: string }; [key: string]: unknown };
+  let client: OffscreenLive2DClient;
+
+  const emit = (event: Live2DWorkerEvent) => worker.onmessage!({ data: event });
+  const sentCommands = (): Live2DWorkerCommand[] => worker.postMessage.mock.calls.map(([command]) => command);
+
+  beforeEach(() => {
+    browserGlobals.window = { scrollX: 0, scrollY: 100, devicePixelRatio: 2 };
+    worker = { postMessage: jest.fn(), terminate: jest.fn(), onmessage: null, onerror: null };
+    canvas = {
+      clientWidth: 300,
+      clientHeight: 400,
+      style: { visibility: '' },
+      transferControlToOffscreen: jest.fn(() => offscreenCanvas),
+      getBoundingClientRect: () => ({ left: 10, top: 20 })
+    };
+    client = new OffscreenLive2DClient(canvas as unknown as HTMLCanvasElement, worker as unknown as Worker);
+  });
+
+  afterEach(() => {
+    delete browserGlobals.window;
+  });
+
+  it('canvasの描画と表示サイズをワーカーに渡し、準備ができたらモデルを操作できる', async () => {
+    const ready = client.initialize({ modelUrl: '/live2d/test/test.model3.json', screenType: ScreenType.Chat });
+
+    expect(worker.postMessage).toHaveBeenCalledWith(
+      {
+        type: 'init',
+        canvas: offscreenCanvas,
+        displaySize: { width: 300, height: 400, devicePixelRatio: 2 },
+        modelUrl: '/live2d/test/test.model3.json',
+        screenType: ScreenType.Chat,
+        disableMotions: false
+      },
+      [offscreenCanvas]
+    );
+    expect(client.getModel()).toBeNull();
+
+    emit({ type: 'ready', hasModel: true });
+    await expect(ready).resolves.toBe(true);
+    expect(client.getModel()).not.toBeNull();
+    expect(client.getScreenType()).toBe(ScreenType.Chat);
+  });
+
+  it('ワーカーでWebGLが使えない場合はfalseを返す', async () => {
+    const ready = client.initialize();
+    emit({ type: 'initError', message: 'OffscreenCanvas WebGL not supported' });
+
+    await expect(ready).resolves.toBe(false);
+    expect(client.getModel()).toBeNull();
+  });
+
+  it('ファサードからの表情・モーション・口の値・視線をワーカーに送る', async () => {
+    const ready = client.initialize();
+    emit({ type: 'ready', hasModel: true });
+    await ready;
+    worker.postMessage.mockClear();
+
+    const controller = new Live2DCharacterController();
+    controller.attach({ getSubdelegate: () => client, setDisableMotions: (disable) => client.setDisableMotions(disable) });
+
+    expect(controller.isReady()).toBe(true);
+    controller.setExpression('Happy');
+    expect(controller.startMotion('TapBody', 1, 3)).toBe(true);
+    controller.setLipSyncValue(0.5);
+    controller.setMouthFormValue(null);
+    controller.lookAt(0.2, -0.3);
+    controller.resetGaze();
+    controller.setMotionsDisabled(true);
+
+    expect(sentCommands()).toEqual([
+      { type: 'expression', expressionId: 'Happy' },
+      { type: 'motion', group: 'TapBody', index: 1, priority: 3 },
+      { type: 'lipSync', value: 0.5 },
+      { type: 'mouthForm', value: null },
+      { type: 'gaze', x: 0.2, y: -0.3 },
+      { type: 'resetGaze' },
+      { type: 'disableMotions', disable: true }
+    ]);
+
+    // 表示の切り替えはメインスレッドのcanvasに反映する
+    controller.setVisible(false);
+    expect(canvas.style.visibility).toBe('hidden');
+  });
+
+  it('ページ座標をキャンバス内の座標にしてワーカーに送る', () => {
+    client.onMouseMove(110, 220);
+    expect(worker.postMessage).toHaveBeenLastCalledWith({ type: 'pointerMove', x: 100, y: 100 });
+  });
+
+  it('モデルの読み込み結果とワーカーで計測したFPS・描画時間・テクスチャのメモリを受け取る', async () => {
+    const loaded = client.loadModel({ modelPath: '/live2d/test/', modelJsonName: 'test.model3.json' });
+    expect(worker.postMessage).toHaveBeenLastCalledWith({
+      type: 'loadModel',
+      modelPath: '/live2d/test/',
+      modelJsonName: 'test.model3.json'
+    });
+
+    emit({ type: 'modelLoaded', loaded: true, hasModel: true });
+    await expect(loaded).resolves.toBe(true);
+
+    emit({ type: 'stats', fps: 42, renderTime: 6.5, textureMemoryBytes: 1024 });
+    expect(client.getCurrentFPS()).toBe(42);
+    expect(client.getRenderTime()).toBe(6.5);
+    expect(client.getTextureMemoryBytes()).toBe(1024);
+  });
+
+  it('続けてモデルを切り替えた場合は、先に切り替えたモデルの読み込みをfalseで終える', async () => {
+    const first = client.loadModel({ sceneIndex: 0 });
+    const second = client.loadModel({ sceneIndex: 1 });
+
+    // 先のモデルは後の切り替えで読み込みが中断される（後のモデルは読み込み中でも操作できる）
+    emit({ type: 'modelLoaded', loaded: false, hasModel: true });
+    await expect(first).resolves.toBe(false);
+    expect(client.getModel()).not.toBeNull();
+
+    emit({ type: 'modelLoaded', loaded: true, hasModel: true });
+    await expect(second).resolves.toBe(true);
+  });
+
+  it('破棄するとワーカーを終了し、待機中の読み込みはfalseで終える', async () => {
+    const loaded = client.loadModel({ sceneIndex: 0 });
+    expect(worker.postMessage).toHaveBeenLastCalledWith({ type: 'loadScene', sceneIndex: 0 });
+
+    client.dispose();
+    await expect(loaded).resolves.toBe(false);
+    expect(worker.terminate).toHaveBeenCalled();
+
+    client.start();
+    client.onTap(0, 0);
+    expect(worker.postMessage).toHaveBeenCalledTimes(1);
+  });
+});
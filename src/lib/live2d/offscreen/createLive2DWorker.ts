@@ -0,0 +1,7 @@
+/**
+ * Live2Dの描画ワーカーを作成する
+ * （import.metaを使うため、テストで読み込むOffscreenLive2DClientとはファイルを分ける）
+ */
+export function createLive2DWorker(): Worker {
+  return new Worker(new URL('./live2d.worker.ts', import.meta.url));
+}
@@ -0,0 +1,262 @@
+/**
+ * Live2Dの描画ワーカー
+ * メインスレッドから受け取ったOffscreenCanvasに、LAppSubdelegate（CubismRenderer_WebGL）でモデルを描画する
+ * Cubismの更新・WebGLの描画をReactと別のスレッドで行い、チャットの入力やスクロールを妨げないようにする
+ *
+ * - コマンドは届いた順に1つずつ処理する（initの完了前に届いたコマンドは完了後に処理する）
+ * - 描画ループはNativeLive2DWrapperと同じFramePacerで目標FPSに間引き、経過時間でモデルの時間を進める
+ */
+
+import { LAppSubdelegate } from '../demo/lappsubdelegate';
+import { LAppPal } from '../demo/lapppal';
+import * as LAppDefine from '../demo/lappdefine';
+import { CubismFramework } from '../framework/live2dcubismframework';
+import { loadCubismCore } from '../loadCubismCore';
+import { FramePacer } from '../FramePacer';
+import { splitModelUrl } from '../modelCatalog';
+import type { Live2DWorkerCommand, Live2DWorkerEvent } from './protocol';
+import { logger } from '@/utils/logger';
+
+interface Live2DWorkerScope {
+  onmessage: ((event: MessageEvent<Live2DWorkerCommand>) => void) | null;
+  postMessage(message: Live2DWorkerEvent): void;
+  requestAnimationFrame?: (callback: FrameRequestCallback) => number;
+  cancelAnimationFrame?: (handle: number) => void;
+}
+
+const scope = self as unknown as Live2DWorkerScope;
+
+// ワーカーのrequestAnimationFrameに対応していないブラウザではタイマーで代用する
+const FALLBACK_FRAME_INTERVAL_MS = 1000 / 60;
+
+class Live2DWorkerRenderer {
+  private subdelegate: LAppSubdelegate | null = null;
+  private running = false;
+  private contextLost = false;
+  private frameId: number | null = null;
+  private readonly framePacer = new FramePacer((fps) => this.postStats(fps));
+
+  public async handle(command: Live2DWorkerCommand): Promise<void> {
+    if (command.type === 'init') {
+      await this.initialize(command);
+      return;
+    }
+
+    const subdelegate = this.subdelegate;
+    if (!subdelegate) {
+      return;
+    }
+    const manager = subdelegate.getLive2DManager();
+    const model = manager.getModel(0);
+
+    switch (command.type) {
+      case 'loadModel':
+      case 'loadScene':
+        if (model) {
+          model.releaseMotions();
+          model.releaseExpressions();
+        }
+        if (command.type === 'loadModel') {
+          manager.loadModel(command.modelPath, command.modelJsonName);
+        } else {
+          manager.addModel(command.sceneIndex);
+        }
+        // モーション・テクスチャまで読み込み終えてから応答する（読み込み中も後続のコマンドは処理する）
+        manager.waitForModelSetup().then((loaded) =>
+          scope.postMessage({ type: 'modelLoaded', loaded, hasModel: manager.getModel(0) !== null })
+        );
+        break;
+      case 'start':
+        this.start();
+        break;
+      case 'stop':
+        this.stop();
+        break;
+      case 'targetFPS':
+        this.framePacer.setTargetFPS(command.fps);
+        break;
+      case 'quality':
+        subdelegate.setResolutionScale(command.resolutionScale);
+        manager.setModelQuality(command.clippingMaskSize, command.physicsFps);
+        break;
+      case 'resize':
+        subdelegate.setDisplaySize(command.displaySize);
+        break;
+      case 'pointerMove':
+        subdelegate.onMouseMove(command.x, command.y);
+        break;
+      case 'tap':
+        manager.onTap(command.x, command.y);
+        break;
+      case 'drag':
+        manager.onDrag(command.x, command.y);
+        break;
+      case 'expression':
+        model?.setExpression(command.expressionId);
+        break;
+      case 'randomExpression':
+        model?.setRandomExpression();
+        break;
+      case 'motion':
+        model?.startMotion(command.group, command.index, command.priority);
+        break;
+      case 'randomMotion':
+        model?.startRandomMotion(command.group, command.priority);
+        break;
+      case 'lipSync':
+        model?.setLipSyncValue(command.value);
+        break;
+      case 'mouthForm':
+        model?.setMouthFormValue(command.value);
+        break;
+      case 'gaze':
+        model?.setMousePosition(command.x, command.y);
+        break;
+      case 'resetGaze':
+        model?.resetMousePosition();
+        break;
+      case 'screenType':
+        manager.setScreenType(command.screenType);
+        break;
+      case 'disableMotions':
+        subdelegate.setDisableMotions(command.disable);
+        break;
+    }
+  }
+
+  private async initialize(command: Extract<Live2DWorkerCommand, { type: 'init' }>): Promise<void> {
+    try {
+      await loadCubismCore();
+
+      if (!CubismFramework.isStarted()) {
+        const started = CubismFramework.startUp({
+          logFunction: LAppDefine.DebugLogEnable ? logger.log : null,
+          loggingLevel: LAppDefine.DebugLogEnable ? LAppDefine.CubismLoggingLevel : 0 // LogLevel_Off
+        });
+        if (!started) {
+          scope.postMessage({ type: 'initError', message: 'Failed to start Cubism Framework' });
+          return;
+        }
+        CubismFramework.initialize();
+      }
+
+      const subdelegate = new LAppSubdelegate();
+      if (command.disableMotions) {
+        subdelegate.setDisableMotions(true);
+      }
+      if (command.screenType) {
+        subdelegate.getLive2DManager().setScreenType(command.screenType);
+      }
+      if (command.modelUrl) {
+        const { modelPath, modelJsonName } = splitModelUrl(command.modelUrl);
+        subdelegate.getLive2DManager().loadModel(modelPath, modelJsonName);
+      }
+      subdelegate.setDisplaySize(command.displaySize);
+      if (!subdelegate.initialize(command.canvas)) {
+        subdelegate.release();
+        scope.postMessage({ type: 'initError', message: 'OffscreenCanvas WebGL not supported' });
+        return;
+      }
+
+      this.subdelegate = subdelegate;
+      subdelegate.setContextLossListener((lost) => this.handleContextLoss(lost));
+      scope.postMessage({ type: 'ready', hasModel: subdelegate.getLive2DManager().getModel(0) !== null });
+    } catch (error) {
+      scope.postMessage({ type: 'initError', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    if (!this.contextLost) {
+      this.startLoop();
+    }
+  }
+
+  private stop(): void {
+    this.running = false;
+    this.cancelFrame();
+    this.postStats(0);
+  }
+
+  /**
+   * WebGLコンテキストの消失中は描画ループを止め、復元（シェーダー・テクスチャの作り直し）後に再開する
+   */
+  private handleContextLoss(lost: boolean): void {
+    this.contextLost = lost;
+    if (!this.running) {
+      return;
+    }
+    if (lost) {
+      this.cancelFrame();
+      this.postStats(0);
+    } else {
+      this.startLoop();
+    }
+  }
+
+  private startLoop(): void {
+    this.framePacer.reset();
+    this.render();
+  }
+
+  private cancelFrame(): void {
+    if (this.frameId !== null) {
+      if (scope.cancelAnimationFrame) {
+        scope.cancelAnimationFrame(this.frameId);
+      } else {
+        clearTimeout(this.frameId);
+      }
+      this.frameId = null;
+    }
+  }
+
+  private postStats(fps: number): void {
+    scope.postMessage({
+      type: 'stats',
+      fps,
+      renderTime: this.framePacer.getRenderTime(),
+      textureMemoryBytes: this.subdelegate?.getTextureManager().getTextureMemoryBytes() ?? 0
+    });
+  }
+
+  private readonly render = (): void => {
+    if (!this.running || this.contextLost) {
+      return;
+    }
+
+    this.framePacer.frame((deltaTime) => {
+      const subdelegate = this.subdelegate;
+      const gl = subdelegate?.getGlManager().getGl();
+      if (!subdelegate || !gl || gl.isContextLost()) {
+        return false;
+      }
+
+      const canvas = subdelegate.getCanvas();
+      gl.viewport(0, 0, canvas.width, canvas.height);
+      gl.clearColor(0, 0, 0, 0);
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+      LAppPal.setDeltaTime(deltaTime);
+      subdelegate.update();
+      return true;
+    });
+
+    this.frameId = scope.requestAnimationFrame
+      ? scope.requestAnimationFrame(this.render)
+      : (setTimeout(this.render, FALLBACK_FRAME_INTERVAL_MS) as unknown as number);
+  };
+}
+
+const renderer = new Live2DWorkerRenderer();
+let pending: Promise<void> = Promise.resolve();
+
+scope.onmessage = (event) => {
+  const command = event.data;
+  pending = pending
+    .then(() => renderer.handle(command))
+    .catch((error) => logger.error('Live2D worker command failed:', command.type, error));
+};
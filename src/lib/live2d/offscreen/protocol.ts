@@ -0,0 +1,62 @@
+/**
+ * OffscreenCanvasでの描画のメッセージ
+ * メインスレッド（OffscreenLive2DClient）とWeb Worker（live2d.worker.ts）の間でやり取りする
+ *
+ * - 座標はpointerMoveだけキャンバス内の座標（CSS px）、tap・dragはビュー座標
+ * - ワーカーからの応答はready・initError（initに対して）とmodelLoaded（loadModel・loadSceneに対して）だけで、
+ *   それ以外のコマンドは結果を返さない（描画の統計はstatsで定期的に送る）
+ */
+
+import type { ScreenType } from '../demo/lappscreenbehavior';
+import type { LAppDisplaySize } from '../demo/lappsubdelegate';
+
+/**
+ * ワーカーに反映する描画品質（目標FPSはtargetFPSで別に送る）
+ */
+export interface WorkerRenderQuality {
+  resolutionScale: number;
+  clippingMaskSize: number;
+  physicsFps: number;
+}
+
+/**
+ * メインスレッド → ワーカー
+ */
+export type Live2DWorkerCommand =
+  | {
+      type: 'init';
+      canvas: OffscreenCanvas;
+      displaySize: LAppDisplaySize;
+      modelUrl: string | null;
+      screenType: ScreenType | null;
+      disableMotions: boolean;
+    }
+  | { type: 'loadModel'; modelPath: string; modelJsonName: string }
+  | { type: 'loadScene'; sceneIndex: number }
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'targetFPS'; fps: number }
+  | ({ type: 'quality' } & WorkerRenderQuality)
+  | { type: 'resize'; displaySize: LAppDisplaySize }
+  | { type: 'pointerMove'; x: number; y: number }
+  | { type: 'tap'; x: number; y: number }
+  | { type: 'drag'; x: number; y: number }
+  | { type: 'expression'; expressionId: string }
+  | { type: 'randomExpression' }
+  | { type: 'motion'; group: string; index: number; priority: number }
+  | { type: 'randomMotion'; group: string; priority: number }
+  | { type: 'lipSync'; value: number }
+  | { type: 'mouthForm'; value: number | null }
+  | { type: 'gaze'; x: number; y: number }
+  | { type: 'resetGaze' }
+  | { type: 'screenType'; screenType: ScreenType }
+  | { type: 'disableMotions'; disable: boolean };
+
+/**
+ * ワーカー → メインスレッド
+ */
+export type Live2DWorkerEvent =
+  | { type: 'ready'; hasModel: boolean }
+  | { type: 'initError'; message: string }
+  | { type: 'modelLoaded'; loaded: boolean; hasModel: boolean } // loadedはモーション・テクスチャまで読み込めたか
+  | { type: 'stats'; fps: number; renderTime: number; textureMemoryBytes: number }; // 1秒ごと・描画の停止時
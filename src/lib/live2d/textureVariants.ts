@@ -0,0 +1,152 @@
+/**
+ * モデルのテクスチャの解像度違い（scripts/generate-texture-variants.mjsで生成）の選択
+ *
+ * - 生成したテクスチャは`<model3.jsonの名前>.textures.json`（マニフェスト）に、model3.jsonのテクスチャごとに一覧で書き出す
+ * - 読み込むテクスチャはWebGLのMAX_TEXTURE_SIZEと端末のメモリ（navigator.deviceMemory）から選ぶ
+ * - マニフェストがない（生成していない）モデルはmodel3.jsonのテクスチャをそのまま読み込む
+ */
+
+import { logger } from '@/utils/logger';
+
+export interface TextureVariant {
+  size: number; // 長辺のピクセル数
+  file: string; // model3.jsonからの相対パス
+}
+
+export interface TextureVariantManifest {
+  textures: Record<string, TextureVariant[]>; // model3.jsonのテクスチャ → 解像度違い（sizeの昇順）
+}
+
+export interface TextureDeviceLimits {
+  maxTextureSize: number; // WebGLのMAX_TEXTURE_SIZE
+  deviceMemory: number | null; // 端末のメモリ（GB、取得できない場合はnull）
+}
+
+/**
+ * 端末のメモリ（GB）ごとのテクスチャの長辺の上限
+ * RGBAのテクスチャはミップマップを含めて8192pxで約340MB、4096pxで約85MB、2048pxで約21MBのGPUメモリを使う
+ */
+const MEMORY_TEXTURE_BUDGETS: { maxDeviceMemory: number; maxSize: number }[] = [
+  { maxDeviceMemory: 2, maxSize: 2048 },
+  { maxDeviceMemory: 4, maxSize: 4096 }
+];
+
+// deviceMemoryを取得できないブラウザ（Safari・Firefox）ではメモリの少ないモバイル端末と区別できないため、4096pxまでにする
+const UNKNOWN_MEMORY_MAX_SIZE = 4096;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * model3.jsonに対応するマニフェストのURL（nike01.model3.json → nike01.textures.json）
+ */
+export function textureVariantManifestUrl(modelHomeDir: string, modelJsonName: string): string {
+  return `${modelHomeDir}${modelJsonName.replace(/\.model3\.json$/, '')}.textures.json`;
+}
+
+/**
+ * マニフェストを検証する（不正な解像度違いは除く）
+ */
+export function parseTextureVariantManifest(value: unknown): TextureVariantManifest | null {
+  if (!isRecord(value) || !isRecord(value.textures)) {
+    return null;
+  }
+
+  const textures: Record<string, TextureVariant[]> = {};
+  for (const [texture, variants] of Object.entries(value.textures)) {
+    if (!Array.isArray(variants)) {
+      continue;
+    }
+    const valid = variants
+      .filter((variant): variant is TextureVariant =>
+        isRecord(variant) &&
+        typeof variant.size === 'number' &&
+        variant.size > 0 &&
+        typeof variant.file === 'string' &&
+        variant.file !== ''
+      )
+      .map(({ size, file }) => ({ size, file }))
+      .sort((a, b) => a.size - b.size);
+    if (valid.length > 0) {
+      textures[texture] = valid;
+    }
+  }
+  return { textures };
+}
+
+/**
+ * マニフェストを読み込む
+ * @returns マニフェストがない・読み込めない場合はnull
+ */
+export async function loadTextureVariantManifest(
+  url: string,
+  signal?: AbortSignal
+): Promise<TextureVariantManifest | null> {
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      return null;
+    }
+    const manifest = parseTextureVariantManifest(await response.json());
+    if (!manifest) {
+      logger.warn(`Invalid texture variant manifest: ${url}`);
+    }
+    return manifest;
+  } catch (error) {
+    if (!(error instanceof Error && error.name === 'AbortError')) {
+      logger.warn(`Failed to load texture variant manifest: ${url}`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * 端末で読み込むテクスチャの長辺の上限
+ */
+export function getTextureSizeBudget(limits: TextureDeviceLimits): number {
+  let memoryBudget = UNKNOWN_MEMORY_MAX_SIZE;
+  if (limits.deviceMemory !== null) {
+    memoryBudget = MEMORY_TEXTURE_BUDGETS.find((budget) => limits.deviceMemory <= budget.maxDeviceMemory)?.maxSize ?? Infinity;
+  }
+  return Math.min(limits.maxTextureSize, memoryBudget);
+}
+
+/**
+ * 読み込むテクスチャを選ぶ
+ * 上限以下で最も大きいものを選び、上限以下のものがなければ最も小さいものを選ぶ
+ * @param file model3.jsonのテクスチャ
+ * @returns model3.jsonからの相対パス（解像度違いがない場合はfileのまま）
+ */
+export function selectTextureFile(
+  file: string,
+  manifest: TextureVariantManifest | null,
+  limits: TextureDeviceLimits
+): string {
+  const variants = manifest?.textures[file];
+  if (!variants || variants.length === 0) {
+    return file;
+  }
+
+  const budget = getTextureSizeBudget(limits);
+  const fitting = variants.filter((variant) => variant.size <= budget);
+  return (fitting.length > 0 ? fitting[fitting.length - 1] : variants[0]).file;
+}
+
+/**
+ * WebGLの描画に使う端末の上限（メインスレッド・Web Workerのどちらでも使える）
+ */
+export function getTextureDeviceLimits(gl: WebGLRenderingContext | WebGL2RenderingContext): TextureDeviceLimits {
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  return {
+    maxTextureSize: gl.getParameter(gl.MAX_TEXTURE_SIZE),
+    deviceMemory: typeof deviceMemory === 'number' ? deviceMemory : null
+  };
+}
+
+/**
+ * テクスチャが使うGPUメモリの推定値（RGBA 8bit、ミップマップは元の1/3）
+ */
+export function estimateTextureMemoryBytes(width: number, height: number, mipmapped: boolean = true): number {
+  const base = width * height * 4;
+  return Math.round(mipmapped ? (base * 4) / 3 : base);
+}
@@ -0,0 +1,179 @@
+/**
+ * ChatApiService Test Suite
+ * ストリーミング送信（sendMessageStream）の認証・フォールバック・エラー判定のテスト
+ */
+
+import axios from 'axios';
+import authService from '@/services/authService';
+import { ChatApiService, isChatNetworkError } from '../chatApi';
+
+jest.mock('@/services/authService', () => ({
+  __esModule: true,
+  default: {
+    getTokens: jest.fn(() => ({ accessToken: 'expired-token', refreshToken: 'refresh-token' })),
+    refreshAccessToken: jest.fn(),
+    handleRefreshFailure: jest.fn()
+  }
+}));
+
+const mockedAuthService = authService as jest.Mocked<typeof authService>;
+
+// テストで差し替えるブラウザのグローバル
+const browserGlobals = globalThis as unknown as { fetch: jest.Mock };
+const originalFetch = globalThis.fetch;
+
+const userMessage = {
+  id: 'user-1',
+  content: 'こんにちは',
+  role: 'user',
+  session_id: 'session-1',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z'
+};
+const assistantMessage = { ...userMessage, id: 'assistant-1', content: 'やあ', role: 'assistant' };
+
+const sseResponse = (events: Array<[string, unknown]>) =>
+  new Response(
+    events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join(''),
+    { status: 200, headers: { 'Content-Type': 'text/event-stream' } }
+  );
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('chatApi.sendMessageStream', () => {
+  const request = { content: 'こんにちは', session_id: 'session-1' };
+  // ストリーミング非対応の判定はインスタンスに残るため、テストごとに作り直す
+  let chatApi: ChatApiService;
+
+  beforeEach(() => {
+    chatApi = new ChatApiService();
+    browserGlobals.fetch = jest.fn();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('401の場合はトークンをリフレッシュして1回だけ再試行する', async () => {
+    browserGlobals.fetch
+      .mockResolvedValueOnce(jsonResponse(401, { error: 'Token expired' }))
+      .mockResolvedValueOnce(sseResponse([
+        ['user_message', userMessage],
+        ['done', { session_id: 'session-1', assistant_message: assistantMessage }]
+      ]));
+    mockedAuthService.refreshAccessToken.mockImplementation(async () => {
+      mockedAuthService.getTokens.mockReturnValue({ accessToken: 'new-token', refreshToken: 'new-refresh' });
+      return { access_token: 'new-token', refresh_token: 'new-refresh' };
+    });
+
+    const response = await chatApi.sendMessageStream(request, {});
+
+    expect(mockedAuthService.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(browserGlobals.fetch).toHaveBeenCalledTimes(2);
+    expect(browserGlobals.fetch.mock.calls[1][1].headers.Authorization).toBe('Bearer new-token');
+    expect(response.assistant_message.id).toBe('assistant-1');
+  });
+
+  it('リフレッシュに失敗した場合は認証情報を消してログイン画面へ移動する', async () => {
+    const refreshError = new Error('Invalid refresh token');
+    browserGlobals.fetch.mockResolvedValueOnce(jsonResponse(401, { error: 'Token expired' }));
+    mockedAuthService.refreshAccessToken.mockRejectedValue(refreshError);
+
+    await expect(chatApi.sendMessageStream(request, {})).rejects.toBe(refreshError);
+
+    expect(mockedAuthService.handleRefreshFailure).toHaveBeenCalledTimes(1);
+    expect(browserGlobals.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('再試行も401の場合はリフレッシュを繰り返さずにエラーにする', async () => {
+    browserGlobals.fetch.mockImplementation(async () => jsonResponse(401, { error: 'Unauthorized' }));
+    mockedAuthService.refreshAccessToken.mockResolvedValue({ access_token: 'a', refresh_token: 'r' });
+
+    await expect(chatApi.sendMessageStream(request, {})).rejects.toMatchObject({
+      response: { status: 401 }
+    });
+
+    expect(mockedAuthService.refreshAccessToken).toHaveBeenCalledTimes(1);
+    expect(browserGlobals.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('SSE以外の2xx応答は処理済みとしてそのまま使い、送り直さない', async () => {
+    const post = jest.spyOn(axios, 'post');
+    browserGlobals.fetch.mockResolvedValueOnce(jsonResponse(200, {
+      session_id: 'session-1',
+      user_message: userMessage,
+      assistant_message: assistantMessage
+    }));
+
+    const response = await chatApi.sendMessageStream(request, {});
+
+    expect(response.user_message.id).toBe('user-1');
+    expect(response.assistant_message.id).toBe('assistant-1');
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('doneにuser_messageが含まれる場合はuser_messageイベントがなくても使う', async () => {
+    browserGlobals.fetch.mockResolvedValueOnce(sseResponse([
+      ['done', { session_id: 'session-1', user_message: userMessage, assistant_message: assistantMessage }]
+    ]));
+
+    const response = await chatApi.sendMessageStream(request, {});
+
+    expect(response.user_message.id).toBe('user-1');
+  });
+
+  it('user_messageがないままストリームが終わった場合はエラーにする', async () => {
+    browserGlobals.fetch.mockResolvedValueOnce(sseResponse([
+      ['delta', { content: 'やあ' }],
+      ['done', { session_id: 'session-1', assistant_message: assistantMessage }]
+    ]));
+
+    await expect(chatApi.sendMessageStream(request, {})).rejects.toThrow('Chat stream ended without user_message');
+  });
+
+  it('fetch()自体の失敗だけをネットワークエラーとして扱う', async () => {
+    browserGlobals.fetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const error = await chatApi.sendMessageStream(request, {}).catch((e) => e);
+
+    expect(isChatNetworkError(error)).toBe(true);
+  });
+
+  it('受信中の切断や応答の処理中のTypeErrorはネットワークエラーとして扱わない', async () => {
+    // サーバー側では保存済みの可能性があるため、送信待ちキューに入れて再送してはいけない
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`event: user_message\ndata: ${JSON.stringify(userMessage)}\n\n`));
+        controller.error(new TypeError('network error'));
+      }
+    });
+    browserGlobals.fetch.mockResolvedValueOnce(
+      new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+    );
+
+    const error = await chatApi.sendMessageStream(request, {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TypeError);
+    expect(isChatNetworkError(error)).toBe(false);
+    expect(isChatNetworkError(new TypeError('Cannot read properties of undefined'))).toBe(false);
+  });
+
+  it('ストリーミング非対応のステータスの場合は通常送信で送り直す', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValueOnce({
+      data: { session_id: 'session-1', user_message: userMessage, assistant_message: assistantMessage }
+    });
+    browserGlobals.fetch.mockResolvedValueOnce(jsonResponse(404, { error: 'Not Found' }));
+
+    const response = await chatApi.sendMessageStream(request, {});
+
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toMatch(/\/api\/v1\/chats$/);
+    expect(response.assistant_message.id).toBe('assistant-1');
+  });
+});
@@ -25,7 +25,6 @@ interface User {
 }
 
 class AuthService {
-  private isRefreshing = false;
   private refreshPromise: Promise<RefreshResponse> | null = null;
 
   constructor() {
@@ -59,22 +58,15 @@ class AuthService {
         if (error.response?.status === 401 && !originalRequest._retry) {
           // リフレッシュエンドポイント自体の401は処理しない
           if (originalRequest.url?.includes('/auth/refresh')) {
-            this.clearAuthData();
-            window.location.href = '/login';
+            this.handleRefreshFailure();
             return Promise.reject(error);
           }
 
           originalRequest._retry = true;
 
           try {
-            // トークンリフレッシュ処理
-            if (!this.isRefreshing) {
-              this.isRefreshing = true;
-              this.refreshPromise = this.refreshToken();
-            }
-
-            // リフレッシュ完了を待つ
-            await this.refreshPromise;
+            // トークンリフレッシュ処理（リフレッシュ完了を待つ）
+            await this.refreshAccessToken();
 
             // 新しいトークンで元のリクエストをリトライ
             const newToken = this.getAccessToken();
@@ -84,13 +76,8 @@ class AuthService {
 
             return axios(originalRequest);
           } catch (refreshError) {
-            // リフレッシュ失敗時はログイン画面へ
-            this.clearAuthData();
-            window.location.href = '/login';
+            this.handleRefreshFailure();
             return Promise.reject(refreshError);
-          } finally {
-            this.isRefreshing = false;
-            this.refreshPromise = null;
           }
         }
 
@@ -99,6 +86,28 @@ class AuthService {
     );
   }
 
+  /**
+   * 401を受けたリクエストのためにトークンをリフレッシュする
+   * 同時に複数のリクエストが401になった場合も、リフレッシュは1回だけ行う
+   * （axiosのインターセプターを通らないfetchのリクエストからも使う）
+   */
+  refreshAccessToken(): Promise<RefreshResponse> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refreshToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * リフレッシュ失敗時はログイン画面へ
+   */
+  handleRefreshFailure(): void {
+    this.clearAuthData();
+    window.location.href = '/login';
+  }
+
   async login(email: string, password: string): Promise<LoginResponse> {
     try {
       const response = await axios.post<LoginResponse>(
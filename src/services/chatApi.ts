@@ -1,13 +1,46 @@
 import axios from 'axios';
-import { ChatMessage, ChatRequest, ChatResponse, ChatSession } from '@/types/chat';
+import { ChatMessage, ChatRequest, ChatResponse, ChatSession, ChatStreamHandlers } from '@/types/chat';
 import authService from '@/services/authService'; // authServiceをインポートしてインターセプターを有効化
-import { adaptChatResponse, adaptMessagesResponse } from '@/utils/chatAdapter';
+import { adaptChatResponse, adaptMessagesResponse, normalizeMessageToLegacy } from '@/utils/chatAdapter';
+import { SSEParser, SSEEvent } from '@/utils/sseParser';
 import { logger } from '@/utils/logger';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
-class ChatApiService {
+// ストリーミング非対応とみなすステータスコード
+const STREAMING_UNSUPPORTED_STATUSES = [404, 405, 406, 501];
+
+/**
+ * ユーザー操作によるキャンセル（fetch / axios 双方）かどうかを判定
+ */
+export function isChatAbortError(error: unknown): boolean {
+  if (axios.isCancel(error)) {
+    return true;
+  }
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// ストリーミング送信でfetch()自体が失敗した（リクエストを送れなかった）エラー
+// 受信中の切断や応答の処理中のエラーは、サーバー側で保存済みの可能性があるため含めない
+const streamNetworkErrors = new WeakSet<object>();
+
+/**
+ * サーバーに到達できなかった（オフライン・接続断）エラーかどうかを判定
+ */
+export function isChatNetworkError(error: unknown): boolean {
+  if (isChatAbortError(error)) {
+    return false;
+  }
+  if (axios.isAxiosError(error)) {
+    return !error.response;
+  }
+  return error instanceof Object && streamNetworkErrors.has(error);
+}
+
+export class ChatApiService {
   private token: string | null = null;
+  // バックエンドがストリーミングを提供していない場合はfalseにして以後は通常送信を使う
+  private streamingSupported = process.env.NEXT_PUBLIC_CHAT_STREAMING !== 'false';
 
   // トークンを設定
   setToken(token: string) {
@@ -21,21 +54,174 @@ class ChatApiService {
     };
   }
 
-  async sendMessage(request: ChatRequest): Promise<ChatResponse> {
+  async sendMessage(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
     try {
       const response = await axios.post(
         `${API_BASE_URL}/api/v1/chats`,
         request,
-        { headers: this.getHeaders() }
+        { headers: this.getHeaders(), signal }
       );
       // Use adapter to ensure compatibility
       return adaptChatResponse(response.data);
     } catch (error) {
-      logger.error('Error sending message:', error);
+      if (!isChatAbortError(error)) {
+        logger.error('Error sending message:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * アシスタントの応答をSSEで逐次受信する
+   * バックエンドがストリーミングを提供していない場合は sendMessage にフォールバックする
+   */
+  async sendMessageStream(
+    request: ChatRequest,
+    handlers: ChatStreamHandlers,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    if (!this.streamingSupported) {
+      return this.sendMessage(request, signal);
+    }
+
+    let response = await this.openStream(request, signal);
+
+    // fetchはaxiosのインターセプターを通らないため、401はここでトークンをリフレッシュして1回だけ再試行する
+    if (response.status === 401) {
+      try {
+        await authService.refreshAccessToken();
+      } catch (error) {
+        authService.handleRefreshFailure();
+        throw error;
+      }
+      response = await this.openStream(request, signal);
+    }
+
+    if (STREAMING_UNSUPPORTED_STATUSES.includes(response.status)) {
+      logger.log('Chat streaming is not available - falling back to non-streaming request');
+      this.streamingSupported = false;
+      return this.sendMessage(request, signal);
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (response.ok && !contentType.includes('text/event-stream')) {
+      // ストリーミングせずに応答した場合もリクエストは処理済みのため、送り直さずにそのまま使う
+      return adaptChatResponse(await response.json());
+    }
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      // axiosのエラー形式に揃えて呼び出し側のエラーハンドリングを共通化
+      throw Object.assign(new Error(`Chat stream failed with status ${response.status}`), {
+        response: { status: response.status, data: body }
+      });
+    }
+
+    return this.readStream(response.body, handlers);
+  }
+
+  private async openStream(request: ChatRequest, signal?: AbortSignal): Promise<Response> {
+    try {
+      return await fetch(`${API_BASE_URL}/api/v1/chats/stream`, {
+        method: 'POST',
+        headers: {
+          ...this.getStreamHeaders(),
+          Accept: 'text/event-stream'
+        },
+        body: JSON.stringify(request),
+        signal
+      });
+    } catch (error) {
+      if (!isChatAbortError(error)) {
+        logger.error('Error opening chat stream:', error);
+        // fetchは接続失敗時にTypeErrorを投げる
+        if (error instanceof Object) {
+          streamNetworkErrors.add(error);
+        }
+      }
       throw error;
     }
   }
 
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    handlers: ChatStreamHandlers
+  ): Promise<ChatResponse> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+    let sessionId = '';
+    let userMessage = null as ChatMessage | null;
+    let result = null as ChatResponse | null;
+
+    const handleEvent = (event: SSEEvent) => {
+      const payload = JSON.parse(event.data);
+
+      switch (event.event) {
+        case 'user_message':
+          sessionId = payload.session_id || sessionId;
+          userMessage = normalizeMessageToLegacy(payload, sessionId);
+          handlers.onUserMessage?.(userMessage);
+          break;
+        case 'delta':
+          if (payload.content) {
+            handlers.onDelta?.(payload.content);
+          }
+          break;
+        case 'done': {
+          // user_messageイベントがない場合はdoneに含まれるものを使う
+          const doneUserMessage = payload.user_message ?? userMessage;
+          if (!doneUserMessage) {
+            throw new Error('Chat stream ended without user_message');
+          }
+          result = adaptChatResponse({
+            session_id: sessionId,
+            ...payload,
+            user_message: doneUserMessage
+          });
+          break;
+        }
+        case 'error':
+          throw Object.assign(new Error(payload.error || 'Chat stream error'), {
+            response: { data: payload }
+          });
+        default:
+          break;
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          parser.flush().forEach(handleEvent);
+          break;
+        }
+        parser.feed(decoder.decode(value, { stream: true })).forEach(handleEvent);
+      }
+    } catch (error) {
+      reader.cancel().catch(() => {});
+      if (!isChatAbortError(error)) {
+        logger.error('Error reading chat stream:', error);
+      }
+      throw error;
+    }
+
+    if (!result) {
+      throw new Error('Chat stream ended before completion');
+    }
+    return result;
+  }
+
+  // fetchはaxiosのインターセプターを通らないため、保存済みトークンを直接付与する
+  private getStreamHeaders(): Record<string, string> {
+    const token = authService.getTokens().accessToken || this.token;
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` })
+    };
+  }
+
   async getMessages(session_id?: string, page: number = 1, per_page: number = 20): Promise<{
     messages: ChatMessage[];
     total_count: number;
@@ -0,0 +1,104 @@
+import axios from 'axios';
+import '@/services/authService'; // 認証ヘッダーを付与するインターセプターを有効化
+import { logger } from '@/utils/logger';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+
+export interface TranscriptionOptions {
+  final: boolean; // falseの場合は録音途中の暫定結果
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  isFinal: boolean;
+}
+
+/**
+ * 音声認識の実装（バックエンド・ローカルモックを差し替え可能）
+ */
+export interface SpeechTranscriber {
+  transcribe(audio: Blob, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+interface TranscriptionResponse {
+  text?: string;
+  error?: string;
+}
+
+/**
+ * バックエンドの文字起こしエンドポイントを使う実装
+ */
+export class HttpSpeechTranscriber implements SpeechTranscriber {
+  constructor(
+    private endpoint: string = process.env.NEXT_PUBLIC_TRANSCRIPTION_URL || `${API_BASE_URL}/api/v1/voices/transcribe`
+  ) {}
+
+  async transcribe(audio: Blob, { final, language = 'ja', signal }: TranscriptionOptions): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append('audio', audio, `recording.${getAudioExtension(audio.type)}`);
+    formData.append('language', language);
+    formData.append('final', String(final));
+
+    try {
+      const response = await axios.post<TranscriptionResponse>(this.endpoint, formData, {
+        signal,
+        timeout: 30000
+      });
+      if (response.data.error) {
+        throw new Error(response.data.error);
+      }
+      return { text: response.data.text ?? '', isFinal: final };
+    } catch (error) {
+      if (!axios.isCancel(error)) {
+        logger.error('Error transcribing audio:', error);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * ローカル開発用のモック実装（録音時間に応じて固定文を少しずつ返す）
+ */
+export class MockSpeechTranscriber implements SpeechTranscriber {
+  private callCount = 0;
+
+  constructor(
+    private text: string = process.env.NEXT_PUBLIC_TRANSCRIPTION_MOCK_TEXT || 'こんにちは、今日は少し話を聞いてほしいです。'
+  ) {}
+
+  async transcribe(_audio: Blob, { final }: TranscriptionOptions): Promise<TranscriptionResult> {
+    if (final) {
+      this.callCount = 0;
+      return { text: this.text, isFinal: true };
+    }
+    this.callCount++;
+    const length = Math.min(this.text.length, this.callCount * 4);
+    return { text: this.text.slice(0, length), isFinal: false };
+  }
+}
+
+const getAudioExtension = (mimeType: string): string => {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  if (mimeType.includes('wav')) return 'wav';
+  return 'webm';
+};
+
+let transcriber: SpeechTranscriber =
+  process.env.NEXT_PUBLIC_TRANSCRIPTION_PROVIDER === 'mock'
+    ? new MockSpeechTranscriber()
+    : new HttpSpeechTranscriber();
+
+export function getSpeechTranscriber(): SpeechTranscriber {
+  return transcriber;
+}
+
+/**
+ * 音声認識の実装を差し替える（テスト・別サービス利用時）
+ */
+export function setSpeechTranscriber(next: SpeechTranscriber): void {
+  transcriber = next;
+}
@@ -1,24 +1,63 @@
 import axios, { AxiosError } from 'axios';
 import { logger } from '@/utils/logger';
+import { splitIntoSentences } from '@/utils/sentenceSplitter';
+import { createConcurrencyLimiter } from '@/utils/concurrency';
+import { createVoiceCacheKey, hashVoiceSettings } from '@/utils/voiceCache';
+import { voiceCacheStore, VoiceCacheUsage } from '@/services/voiceCacheStore';
+import { VoiceAlignmentPlayback, VoiceAlignmentUnit, VoiceSettings, VoiceSpeaker } from '@/types/voice';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
 
+// 文単位の音声合成の同時実行数
+const VOICE_CHUNK_CONCURRENCY = parseInt(process.env.NEXT_PUBLIC_VOICE_CHUNK_CONCURRENCY || '2');
+// メモリ上のキャッシュ件数（永続化はIndexedDBのvoiceCacheStoreで行う）
+const AUDIO_CACHE_MAX_ENTRIES = 50;
+// 最初の文の再生開始までの余裕（予約が過去時刻にならないように）
+const CHUNK_START_MARGIN_SEC = 0.05;
+
+interface VoiceChunk {
+  buffer: AudioBuffer;
+  lipSyncUrl: string | null; // リップシンクに渡すURL（WAVでもアライメントもない場合はnull）
+  alignment?: VoiceAlignmentUnit[];
+}
+
+// 合成済み音声とアライメント
+interface VoiceAudio {
+  audioUrl: string;
+  alignment?: VoiceAlignmentUnit[];
+}
+
+// 合成結果に影響する音声設定（音量は再生時に適用）
+type VoiceSynthesisSettings = Partial<Pick<VoiceSettings, 'speaker_id' | 'speed' | 'pitch'>>;
+
+interface VoiceListResponse {
+  voices: VoiceSpeaker[];
+}
+
 interface VoiceGenerationResponse {
   audioUrl?: string;
   audioData?: string;
+  alignment?: VoiceAlignmentUnit[];  // モーラ・音素の発音時刻（対応するTTSのみ）
   error?: string;
 }
 
 export class VoiceService {
-  private static audioCache = new Map<string, string>();
-  private static currentAudio: HTMLAudioElement | null = null;
+  private static audioCache = new Map<string, VoiceAudio>();  // キャッシュキー → 音声URLとアライメント
   private static blobUrls = new Set<string>();  // Blob URLを管理
+  private static playbackUrls = new Set<string>();  // 再生中（合成・予約済みを含む）の音声URL
+  private static pendingRevokeUrls = new Set<string>();  // 再生が終わってから解放するBlob URL
+  private static playbackContext: AudioContext | null = null;
+  private static gainNode: GainNode | null = null;
+  private static scheduledSources: AudioBufferSourceNode[] = [];
+  private static lipSyncTimers = new Set<ReturnType<typeof setTimeout>>();
+  private static playbackId = 0;  // 再生ごとに更新し、停止後の非同期処理を無効にする
 
   /**
    * テキストを音声に変換して再生
+   * 文単位に分割して並行して音声合成し、合成できた順に1つのAudioContext上で隙間なく再生する
    * @param text 読み上げるテキスト
    * @param options オプション設定
-   * @returns Audio要素のインスタンス
+   * @returns 最初の文の再生が始まった時点で解決する
    */
   static async playVoice(
     text: string,
@@ -27,9 +66,12 @@ export class VoiceService {
       playbackRate?: number;
       onEnded?: () => void;
       onError?: (error: Error) => void;
-      onLipSyncReady?: (audioUrl: string) => void;  // リップシンク用コールバック追加
+      // リップシンク用コールバック（各文の再生開始時に呼ばれる、アライメントがあれば再生位置と共に渡す）
+      onLipSyncReady?: (audioUrl: string, alignment?: VoiceAlignmentPlayback) => void;
+      messageId?: string;  // 音声キャッシュのキーに使用
+      voice?: Partial<VoiceSettings>;  // ユーザーの音声設定（volumeより優先度は低い）
     }
-  ): Promise<HTMLAudioElement> {
+  ): Promise<void> {
     try {
       // 空のテキストは処理しない
       if (!text.trim()) {
@@ -37,91 +79,299 @@ export class VoiceService {
       }
 
       // 既存の再生を停止
-      if (this.currentAudio) {
-        this.currentAudio.pause();
-        this.currentAudio = null;
-      }
+      this.stopVoice();
+      const playbackId = this.playbackId;
+      const isCurrent = () => this.playbackId === playbackId;
 
-      // キャッシュチェック
-      const cacheKey = text;
-      let audioUrl: string;
+      // デフォルト値または環境変数から設定値を取得
+      const defaultVolume = parseFloat(process.env.NEXT_PUBLIC_VOICE_VOLUME || '0.8');
+      const defaultPlaybackRate = parseFloat(process.env.NEXT_PUBLIC_VOICE_PLAYBACK_RATE || '1.0');
+      const volume = options?.volume ?? options?.voice?.volume ?? defaultVolume;
+      const playbackRate = options?.playbackRate ?? defaultPlaybackRate;
+
+      const context = await this.getPlaybackContext();
+      const gainNode = context.createGain();
+      gainNode.gain.value = volume;
+      gainNode.connect(context.destination);
+      this.gainNode = gainNode;
+
+      // 全ての文の合成を開始（同時実行数は制限し、先頭の文から順に合成）
+      const sentences = splitIntoSentences(text);
+      const runLimited = createConcurrencyLimiter(VOICE_CHUNK_CONCURRENCY);
+      const synthesis: VoiceSynthesisSettings = {
+        speaker_id: options?.voice?.speaker_id,
+        speed: options?.voice?.speed,
+        pitch: options?.voice?.pitch
+      };
+      const settingsHash = hashVoiceSettings({ api: API_URL, ...synthesis });
+      const pendingChunks = sentences.map((sentence, index) => {
+        const cacheKey = createVoiceCacheKey(options?.messageId, index, sentence, settingsHash);
+        return runLimited(() => (isCurrent() ? this.loadVoiceChunk(sentence, synthesis, cacheKey, context, isCurrent) : Promise.resolve(null)));
+      });
+      // 停止後に破棄された合成結果の失敗は無視する
+      pendingChunks.forEach((chunk) => chunk.catch(() => undefined));
+
+      logger.log('VoiceService: 文単位で音声合成', { chunks: sentences.length });
+
+      let nextStartTime = 0;
+      let lastSource: AudioBufferSourceNode | null = null;
+
+      // 前の文の直後に再生を予約する
+      const scheduleChunk = (chunk: VoiceChunk, isLast: boolean) => {
+        const source = context.createBufferSource();
+        source.buffer = chunk.buffer;
+        source.playbackRate.value = playbackRate;
+        source.connect(gainNode);
+
+        const startAt = Math.max(context.currentTime + CHUNK_START_MARGIN_SEC, nextStartTime);
+        source.start(startAt);
+        nextStartTime = startAt + chunk.buffer.duration / playbackRate;
+        this.scheduledSources.push(source);
+        lastSource = source;
+
+        // 再生開始に合わせてリップシンクの対象を切り替える
+        if (options?.onLipSyncReady && chunk.lipSyncUrl) {
+          const lipSyncUrl = chunk.lipSyncUrl;
+          // アライメントの時刻は合成音声上の時刻のため再生速度を掛ける
+          const alignment: VoiceAlignmentPlayback | undefined = chunk.alignment && {
+            units: chunk.alignment,
+            getCurrentTime: () => Math.max(0, (context.currentTime - startAt) * playbackRate)
+          };
+          const timer = setTimeout(() => {
+            this.lipSyncTimers.delete(timer);
+            if (isCurrent()) {
+              logger.log('VoiceService: リップシンクコールバック実行', lipSyncUrl.substring(0, 50) + '...');
+              options.onLipSyncReady!(lipSyncUrl, alignment);
+            }
+          }, Math.max(0, (startAt - context.currentTime) * 1000));
+          this.lipSyncTimers.add(timer);
+        }
 
-      if (this.audioCache.has(cacheKey)) {
-        audioUrl = this.audioCache.get(cacheKey)!;
-      } else {
-        // 音声生成API呼び出し（バックエンド経由）
-        audioUrl = await this.generateVoice(text);
-
-        // キャッシュに保存（最大10件）
-        if (this.audioCache.size >= 10) {
-          const firstKey = this.audioCache.keys().next().value;
-          const oldUrl = this.audioCache.get(firstKey);
-
-          // 古いBlob URLを解放
-          if (oldUrl && oldUrl.startsWith('blob:')) {
-            URL.revokeObjectURL(oldUrl);
-            this.blobUrls.delete(oldUrl);
-            logger.log('VoiceService: 古いBlob URL解放', oldUrl);
+        if (isLast) {
+          source.onended = () => {
+            if (isCurrent()) {
+              this.releasePlayback();
+              options?.onEnded?.();
+            }
+          };
+        }
+      };
+
+      // 途中の文の合成に失敗した場合は、再生済みの部分が終わってからエラーを通知する
+      const failAfterScheduled = (error: unknown) => {
+        logger.error('音声合成エラー:', error);
+        const notify = () => {
+          if (isCurrent()) {
+            this.releasePlayback();
+            options?.onError?.(new Error('音声再生中にエラーが発生しました'));
           }
-
-          this.audioCache.delete(firstKey);
+        };
+        if (lastSource && context.currentTime < nextStartTime) {
+          lastSource.onended = notify;
+        } else {
+          notify();
         }
-        this.audioCache.set(cacheKey, audioUrl);
-      }
+      };
 
-      // リップシンク用コールバックを実行（WAVファイルの場合）
-      // Blob URL、Base64データURL、通常のWAVファイルURLに対応
-      if (options?.onLipSyncReady &&
-          (audioUrl.includes('wav') ||
-           audioUrl.startsWith('data:audio/wav') ||
-           audioUrl.startsWith('blob:'))) {
-        logger.log('VoiceService: リップシンクコールバック実行', audioUrl.substring(0, 50) + '...');
-        options.onLipSyncReady(audioUrl);
-      } else {
-        logger.log('VoiceService: リップシンクコールバックスキップ', {
-          hasCallback: !!options?.onLipSyncReady,
-          isWav: audioUrl.includes('wav') || audioUrl.startsWith('data:audio/wav') || audioUrl.startsWith('blob:'),
-          urlPreview: audioUrl.substring(0, 50) + '...'
-        });
+      // 最初の文は呼び出し元で失敗を扱えるよう待機する
+      const firstChunk = await pendingChunks[0];
+      if (!firstChunk || !isCurrent()) {
+        return;
       }
+      scheduleChunk(firstChunk, pendingChunks.length === 1);
 
-      // 音声を再生
-      this.currentAudio = new Audio(audioUrl);
+      // 残りの文は合成でき次第予約する
+      (async () => {
+        for (let i = 1; i < pendingChunks.length; i++) {
+          try {
+            const chunk = await pendingChunks[i];
+            if (!chunk || !isCurrent()) {
+              return;
+            }
+            scheduleChunk(chunk, i === pendingChunks.length - 1);
+          } catch (error) {
+            if (isCurrent()) {
+              failAfterScheduled(error);
+            }
+            return;
+          }
+        }
+      })();
+    } catch (error) {
+      logger.error('音声再生エラー:', error);
+      throw error;
+    }
+  }
 
-      // デフォルト値または環境変数から設定値を取得
-      const defaultVolume = parseFloat(process.env.NEXT_PUBLIC_VOICE_VOLUME || '0.8');
-      const defaultPlaybackRate = parseFloat(process.env.NEXT_PUBLIC_VOICE_PLAYBACK_RATE || '1.0');
+  /**
+   * 1文分の音声を合成してデコードする
+   * @param isCurrent 合成を始めた再生が続いているか
+   */
+  private static async loadVoiceChunk(
+    text: string,
+    synthesis: VoiceSynthesisSettings,
+    cacheKey: string,
+    context: AudioContext,
+    isCurrent: () => boolean
+  ): Promise<VoiceChunk> {
+    const { audioUrl, alignment } = await this.getVoiceAudio(text, synthesis, cacheKey);
+    // 再生・リップシンクが終わるまではキャッシュから外れてもURLを解放しない（停止済みの再生は対象外）
+    if (isCurrent()) {
+      this.playbackUrls.add(audioUrl);
+    }
+    const response = await fetch(audioUrl);
+    const audioData = await response.arrayBuffer();
+    const buffer = await context.decodeAudioData(audioData);
+
+    // 音声解析によるリップシンクはWAV（Blob URL、Base64データURL、通常のWAVファイルURL）のみ対応
+    // アライメントがある場合は形式に関わらずリップシンクできる
+    const isWav = audioUrl.includes('wav') || audioUrl.startsWith('data:audio/wav') || audioUrl.startsWith('blob:');
+    const hasAlignment = !!alignment && alignment.length > 0;
+    if (!isWav && !hasAlignment) {
+      logger.log('VoiceService: リップシンクコールバックスキップ', {
+        urlPreview: audioUrl.substring(0, 50) + '...'
+      });
+    }
+    return {
+      buffer,
+      lipSyncUrl: isWav || hasAlignment ? audioUrl : null,
+      alignment: hasAlignment ? alignment : undefined
+    };
+  }
+
+  /**
+   * 音声URLとアライメントを取得（メモリ → IndexedDB → 音声生成APIの順に探す）
+   */
+  private static async getVoiceAudio(text: string, synthesis: VoiceSynthesisSettings, cacheKey: string): Promise<VoiceAudio> {
+    const cached = this.audioCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let audio: VoiceAudio;
+    const persisted = await voiceCacheStore.get(cacheKey);
+    if (persisted) {
+      audio = { audioUrl: URL.createObjectURL(persisted.blob), alignment: persisted.alignment };
+      this.blobUrls.add(audio.audioUrl);
+      logger.log('VoiceService: 永続キャッシュから取得', cacheKey);
+    } else {
+      // 音声生成API呼び出し（バックエンド経由）
+      audio = await this.generateVoice(text, synthesis);
+      this.persistVoice(cacheKey, audio);
+    }
 
-      this.currentAudio.volume = options?.volume ?? defaultVolume;
-      this.currentAudio.playbackRate = options?.playbackRate ?? defaultPlaybackRate;
+    // キャッシュに保存（最大件数を超えたら古いものから削除）
+    if (this.audioCache.size >= AUDIO_CACHE_MAX_ENTRIES) {
+      const firstKey = this.audioCache.keys().next().value;
+      const oldUrl = firstKey !== undefined ? this.audioCache.get(firstKey)?.audioUrl : undefined;
 
-      // イベントハンドラの設定
-      if (options?.onEnded) {
-        this.currentAudio.onended = options.onEnded;
+      // 古いBlob URLを解放
+      if (oldUrl && oldUrl.startsWith('blob:')) {
+        this.revokeBlobUrl(oldUrl);
       }
 
-      if (options?.onError) {
-        this.currentAudio.onerror = () => {
-          options.onError!(new Error('音声再生中にエラーが発生しました'));
-        };
+      if (firstKey !== undefined) {
+        this.audioCache.delete(firstKey);
       }
+    }
+    this.audioCache.set(cacheKey, audio);
+    return audio;
+  }
+
+  /**
+   * 生成した音声をIndexedDBに保存（再生を待たせないよう完了を待たない）
+   */
+  private static persistVoice(cacheKey: string, { audioUrl, alignment }: VoiceAudio): void {
+    fetch(audioUrl)
+      .then((response) => response.blob())
+      .then((blob) => voiceCacheStore.put(cacheKey, blob, alignment))
+      .catch((error) => {
+        logger.warn('VoiceService: 音声キャッシュの保存に失敗', error);
+      });
+  }
 
-      await this.currentAudio.play();
-      return this.currentAudio;
+  /**
+   * 利用できる話者の一覧を取得
+   */
+  static async listVoices(): Promise<VoiceSpeaker[]> {
+    try {
+      const response = await axios.get<VoiceListResponse>(`${API_URL}/api/v1/voices`, { timeout: 10000 });
+      return response.data.voices ?? [];
     } catch (error) {
-      logger.error('音声再生エラー:', error);
+      logger.error('話者一覧の取得エラー:', error);
       throw error;
     }
   }
 
+  /**
+   * 再生用のAudioContextを取得（全ての再生で共有）
+   */
+  private static async getPlaybackContext(): Promise<AudioContext> {
+    if (!this.playbackContext || this.playbackContext.state === 'closed') {
+      const AudioContextClass = window.AudioContext || (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!AudioContextClass) {
+        throw new Error('AudioContext not supported');
+      }
+      this.playbackContext = new AudioContextClass();
+    }
+    // 自動再生ポリシーで停止している場合は再開
+    if (this.playbackContext.state === 'suspended') {
+      await this.playbackContext.resume();
+    }
+    return this.playbackContext;
+  }
+
+  /**
+   * 予約済みの再生とリップシンクのタイマーを解放
+   */
+  private static releasePlayback(): void {
+    this.scheduledSources.forEach((source) => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // 未開始・再生済みのノードは停止不要
+      }
+      source.disconnect();
+    });
+    this.scheduledSources = [];
+
+    this.lipSyncTimers.forEach((timer) => clearTimeout(timer));
+    this.lipSyncTimers.clear();
+
+    if (this.gainNode) {
+      this.gainNode.disconnect();
+      this.gainNode = null;
+    }
+
+    // 再生中のためキャッシュから外しても解放を待っていたBlob URLを解放
+    this.playbackUrls.clear();
+    this.pendingRevokeUrls.forEach((blobUrl) => this.revokeBlobUrl(blobUrl));
+    this.pendingRevokeUrls.clear();
+  }
+
+  /**
+   * Blob URLを解放（再生中の音声のURLは再生が終わるまで解放を遅らせる）
+   */
+  private static revokeBlobUrl(blobUrl: string): void {
+    if (this.playbackUrls.has(blobUrl)) {
+      this.pendingRevokeUrls.add(blobUrl);
+      return;
+    }
+    URL.revokeObjectURL(blobUrl);
+    this.blobUrls.delete(blobUrl);
+    logger.log('VoiceService: Blob URL解放', blobUrl);
+  }
+
+
   /**
    * 音声生成APIを呼び出し（バックエンド経由）
    */
-  private static async generateVoice(text: string): Promise<string> {
+  private static async generateVoice(text: string, synthesis: VoiceSynthesisSettings = {}): Promise<VoiceAudio> {
     try {
       const response = await axios.post<VoiceGenerationResponse>(
         `${API_URL}/api/v1/voices/generate`,
-        { text },
+        { text, ...synthesis },
         {
           headers: {
             'Content-Type': 'application/json',
@@ -134,12 +384,14 @@ export class VoiceService {
       logger.log('VoiceService: API応答', {
         hasAudioUrl: !!response.data.audioUrl,
         hasAudioData: !!response.data.audioData,
-        audioUrlPreview: response.data.audioUrl ? response.data.audioUrl.substring(0, 50) : null
+        audioUrlPreview: response.data.audioUrl ? response.data.audioUrl.substring(0, 50) : null,
+        alignmentUnits: response.data.alignment?.length ?? 0
       });
+      const alignment = response.data.alignment;
 
       if (response.data.audioUrl) {
         // URLが返される場合
-        return response.data.audioUrl;
+        return { audioUrl: response.data.audioUrl, alignment };
       } else if (response.data.audioData) {
         // Base64データが返される場合
         try {
@@ -163,12 +415,8 @@ export class VoiceService {
             }
             const originalArrayBuffer = bytes.buffer;
 
-            // AudioContextを使用してデコード
-            const AudioContextClass = window.AudioContext || (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
-            if (!AudioContextClass) {
-              throw new Error('AudioContext not supported');
-            }
-            const audioContext = new AudioContextClass();
+            // 再生用のAudioContextを共有してデコード（文ごとに生成しない）
+            const audioContext = await this.getPlaybackContext();
 
             // デコード（どんな形式でも対応可能）
             const audioBuffer = await audioContext.decodeAudioData(originalArrayBuffer);
@@ -199,9 +447,6 @@ export class VoiceService {
             // BlobとしてObjectURLを作成
             const blob = new Blob([encodedWavArrayBuffer], { type: 'audio/wav' });
             blobUrl = URL.createObjectURL(blob);
-
-            // AudioContextをクローズ
-            await audioContext.close();
           } catch (decodeError) {
             // AudioContextでのデコードに失敗した場合は、手動でBase64をデコード
             logger.log('VoiceService: AudioContextデコード失敗、手動Base64デコードを使用', decodeError);
@@ -214,11 +459,7 @@ export class VoiceService {
             }
             const originalArrayBuffer = bytes.buffer;
 
-            const AudioContextClass = window.AudioContext || (window as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
-            if (!AudioContextClass) {
-              throw new Error('AudioContext not supported');
-            }
-            const audioContext = new AudioContextClass();
+            const audioContext = await this.getPlaybackContext();
             const audioBuffer = await audioContext.decodeAudioData(originalArrayBuffer);
 
             logger.log('VoiceService: オーディオデコード成功（フォールバック）', {
@@ -233,8 +474,6 @@ export class VoiceService {
 
             const blob = new Blob([encodedWavArrayBuffer], { type: 'audio/wav' });
             blobUrl = URL.createObjectURL(blob);
-
-            await audioContext.close();
           }
 
           logger.log('VoiceService: Blob URLを生成', blobUrl);
@@ -242,7 +481,7 @@ export class VoiceService {
           // Blob URLを管理対象に追加
           this.blobUrls.add(blobUrl);
 
-          return blobUrl;
+          return { audioUrl: blobUrl, alignment };
         } catch (error) {
           logger.error('Base64からWAVへの変換エラー:', error);
           throw new Error('音声データの変換に失敗しました');
@@ -275,10 +514,9 @@ export class VoiceService {
    * 現在再生中の音声を停止
    */
   static stopVoice(): void {
-    if (this.currentAudio) {
-      this.currentAudio.pause();
-      this.currentAudio = null;
-    }
+    // 合成中・予約済みの文も含めて破棄する
+    this.playbackId++;
+    this.releasePlayback();
   }
 
   /**
@@ -355,14 +593,20 @@ export class VoiceService {
   /**
    * キャッシュをクリア
    */
-  static clearCache(): void {
+  static async clearCache(): Promise<void> {
     // Blob URLを解放
-    this.blobUrls.forEach(blobUrl => {
-      URL.revokeObjectURL(blobUrl);
-      logger.log('VoiceService: Blob URL解放', blobUrl);
-    });
-    this.blobUrls.clear();
+    this.blobUrls.forEach((blobUrl) => this.revokeBlobUrl(blobUrl));
 
     this.audioCache.clear();
+
+    // 永続キャッシュも削除
+    await voiceCacheStore.clear();
+  }
+
+  /**
+   * 永続キャッシュの使用量
+   */
+  static getCacheUsage(): Promise<VoiceCacheUsage> {
+    return voiceCacheStore.getUsage();
   }
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { logger } from '@/utils/logger';
+import { selectEvictionKeys, VoiceCacheEntryInfo } from '@/utils/voiceCache';
+import { VoiceAlignmentUnit } from '@/types/voice';
+
+const DB_NAME = 'voice-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'audio';
+
+// キャッシュの上限サイズ（MB）
+const VOICE_CACHE_MAX_BYTES = parseFloat(process.env.NEXT_PUBLIC_VOICE_CACHE_MAX_MB || '50') * 1024 * 1024;
+
+interface VoiceCacheRecord extends VoiceCacheEntryInfo {
+  blob: Blob;
+  alignment?: VoiceAlignmentUnit[];
+  createdAt: number;
+}
+
+export interface VoiceCacheHit {
+  blob: Blob;
+  alignment?: VoiceAlignmentUnit[];
+}
+
+export interface VoiceCacheUsage {
+  entries: number;
+  bytes: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * 合成済み音声のIndexedDBキャッシュ
+ * 合計サイズが上限を超えたら最後に使われた時刻が古いものから削除する
+ * IndexedDBが使えない環境（プライベートモード等）ではキャッシュなしで動作する
+ */
+class VoiceCacheStore {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  constructor(private maxBytes: number = VOICE_CACHE_MAX_BYTES) {}
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('lastAccessedAt', 'lastAccessedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logger.warn('VoiceCacheStore: IndexedDBを開けませんでした', request.error);
+        resolve(null);
+      };
+    });
+    return this.dbPromise;
+  }
+
+  /**
+   * キャッシュされた音声とアライメントを取得（最終利用時刻を更新）
+   */
+  async get(key: string): Promise<VoiceCacheHit | null> {
+    const db = await this.open();
+    if (!db) {
+      return null;
+    }
+
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const record = await requestToPromise<VoiceCacheRecord | undefined>(store.get(key));
+      if (!record) {
+        return null;
+      }
+      store.put({ ...record, lastAccessedAt: Date.now() });
+      await transactionDone(transaction);
+      return { blob: record.blob, alignment: record.alignment };
+    } catch (error) {
+      logger.warn('VoiceCacheStore: 読み込みエラー', error);
+      return null;
+    }
+  }
+
+  /**
+   * 音声を保存（容量不足の場合は古いものを削除して1度だけ再試行）
+   */
+  async put(key: string, blob: Blob, alignment?: VoiceAlignmentUnit[]): Promise<void> {
+    const db = await this.open();
+    if (!db || blob.size > this.maxBytes) {
+      return;
+    }
+
+    try {
+      await this.evict(db, this.maxBytes, blob.size);
+      await this.putRecord(db, key, blob, alignment);
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        logger.warn('VoiceCacheStore: 保存エラー', error);
+        return;
+      }
+
+      // ブラウザの割り当て容量を超えた場合は半分まで減らして再試行
+      logger.warn('VoiceCacheStore: 容量不足のため古いキャッシュを削除します');
+      try {
+        await this.evict(db, this.maxBytes / 2, blob.size);
+        await this.putRecord(db, key, blob, alignment);
+      } catch (retryError) {
+        logger.warn('VoiceCacheStore: 再試行後も保存できませんでした', retryError);
+      }
+    }
+  }
+
+  /**
+   * キャッシュを全て削除
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  /**
+   * キャッシュの件数と合計サイズ
+   */
+  async getUsage(): Promise<VoiceCacheUsage> {
+    const db = await this.open();
+    if (!db) {
+      return { entries: 0, bytes: 0 };
+    }
+
+    const entries = await this.listEntries(db);
+    return {
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.size, 0)
+    };
+  }
+
+  private async putRecord(db: IDBDatabase, key: string, blob: Blob, alignment?: VoiceAlignmentUnit[]): Promise<void> {
+    const now = Date.now();
+    const record: VoiceCacheRecord = { key, blob, alignment, size: blob.size, lastAccessedAt: now, createdAt: now };
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(record);
+    await transactionDone(transaction);
+  }
+
+  private async listEntries(db: IDBDatabase): Promise<VoiceCacheEntryInfo[]> {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const records = await requestToPromise<VoiceCacheRecord[]>(transaction.objectStore(STORE_NAME).getAll());
+    return records.map(({ key, size, lastAccessedAt }) => ({ key, size, lastAccessedAt }));
+  }
+
+  private async evict(db: IDBDatabase, maxBytes: number, incomingSize: number): Promise<void> {
+    const keys = selectEvictionKeys(await this.listEntries(db), maxBytes, incomingSize);
+    if (keys.length === 0) {
+      return;
+    }
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    keys.forEach((key) => store.delete(key));
+    await transactionDone(transaction);
+    logger.log(`VoiceCacheStore: ${keys.length}件の古いキャッシュを削除`);
+  }
+}
+
+export const voiceCacheStore = new VoiceCacheStore();
@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface CharacterStore {
+  selectedModelIds: Record<string, string>; // ユーザーIDごとに選択したLive2DモデルのID
+  selectModel: (userId: string, modelId: string) => void;
+}
+
+export const useCharacterStore = create<CharacterStore>()(
+  persist(
+    (set) => ({
+      selectedModelIds: {},
+
+      selectModel: (userId, modelId) =>
+        set((state) => ({
+          selectedModelIds: { ...state.selectedModelIds, [userId]: modelId }
+        }))
+    }),
+    {
+      name: 'character-storage'
+    }
+  )
+);
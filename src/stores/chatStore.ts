@@ -1,7 +1,12 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import { ChatMessage, ChatSettings } from '@/types/chat';
+import { ChatMessage, ChatSettings, ConversationBranches, OutboxEntry, ReplyAlternatives } from '@/types/chat';
+import { VoiceSettings } from '@/types/voice';
+import { enqueueOutboxEntry, getOutboxRetryDelay } from '@/utils/outbox';
+
+// 先頭メッセージから分岐する場合の分岐キー
+export const ROOT_BRANCH_KEY = '__root__';
 
 interface ChatStore {
   messages: ChatMessage[];
@@ -9,29 +14,80 @@ interface ChatStore {
   isLoading: boolean;
   error: string | null;
   settings: ChatSettings;
+  voiceSettingsByUser: Record<string, VoiceSettings>; // ユーザーIDごとの読み上げの話者・話速・高さ・音量（永続化）
   playingMessageId: string | null; // 現在再生中のメッセージID
+  replyAlternatives: Record<string, ReplyAlternatives>; // ユーザーメッセージIDごとの応答候補
+  conversationBranches: Record<string, ConversationBranches>; // 分岐元メッセージIDごとの会話分岐
+  outbox: OutboxEntry[]; // 未送信メッセージの送信待ちキュー（永続化）
+  historyPage: number; // 読み込み済みの最も古いページ（1が最新）
+  historyTotalPages: number;
 
   // Actions
   addMessage: (message: ChatMessage) => void;
+  updateMessage: (messageId: string, updates: Partial<ChatMessage>) => void; // IDの差し替えも可能
+  appendMessageContent: (messageId: string, chunk: string) => void; // ストリーミング中の追記
+  removeMessage: (messageId: string) => void;
+  addReplyAlternative: (userMessageId: string, reply: ChatMessage) => void; // 追加した候補を選択状態にする
+  selectReplyAlternative: (userMessageId: string, index: number) => void;
+  forkConversation: (forkKey: string) => void; // 現在の続きを分岐として保存し、分岐点まで巻き戻す
+  selectBranch: (forkKey: string, index: number) => void;
+  discardActiveBranch: (forkKey: string) => void; // 送信に失敗した空の分岐を破棄
+  enqueueOutbox: (entry: OutboxEntry) => void; // クライアントIDで重複排除
+  removeFromOutbox: (clientMessageId: string) => void;
+  markOutboxAttempt: (clientMessageId: string) => void; // 失敗回数を加算して次回再送時刻を延ばす
+  resetOutboxBackoff: () => void; // オンライン復帰時に即時再送できるようにする
   setMessages: (messages: ChatMessage[]) => void;
+  prependMessages: (messages: ChatMessage[]) => void; // 過去のメッセージを先頭に追加（ID重複は除外）
+  setHistoryPagination: (page: number, totalPages: number) => void;
   setSessionId: (sessionId: string) => void;
   setLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
   updateSettings: (settings: Partial<ChatSettings>) => void;
+  updateVoiceSettings: (userId: string, settings: Partial<VoiceSettings>) => void;
   clearMessages: () => void;
   newSession: () => void;
+  clearUserData: () => void; // ログアウト時に送信待ちキュー・セッションIDなどログイン中のユーザーの会話を消す
   setPlayingMessageId: (messageId: string | null) => void; // 再生中のメッセージIDを設定
 }
 
+// 分岐キーから分岐点（続きの先頭）のインデックスを求める
+const getForkIndex = (messages: ChatMessage[], forkKey: string): number => {
+  if (forkKey === ROOT_BRANCH_KEY) {
+    return 0;
+  }
+  const parentIndex = messages.findIndex((m) => m.id === forkKey);
+  return parentIndex === -1 ? -1 : parentIndex + 1;
+};
+
 const defaultSettings: ChatSettings = {
   provider: (process.env.NEXT_PUBLIC_SELECT_AI_SERVICE as 'openai' | 'anthropic' | 'google') || 'openai',
   model: process.env.NEXT_PUBLIC_SELECT_AI_MODEL || 'gpt-4o-mini',
   temperature: parseFloat(process.env.NEXT_PUBLIC_TEMPERATURE || '0.7'),
   max_tokens: parseInt(process.env.NEXT_PUBLIC_MAX_TOKENS || '1000'),
   system_prompt: '',
-  api_key: undefined // バックエンドの環境変数を使用
+  api_key: undefined, // バックエンドの環境変数を使用
+  voice_input_mode: 'hands-free',
+  auto_speak: false
 };
 
+const defaultVoiceSettings: VoiceSettings = {
+  speaker_id: undefined, // バックエンドのデフォルト話者
+  speed: 1.0,
+  pitch: 0,
+  volume: parseFloat(process.env.NEXT_PUBLIC_VOICE_VOLUME || '0.8')
+};
+
+/**
+ * ユーザーの読み上げ設定（未設定・未ログインの場合は既定値）
+ */
+export const getVoiceSettings = (
+  voiceSettingsByUser: Record<string, VoiceSettings>,
+  userId: string | null
+): VoiceSettings => ({
+  ...defaultVoiceSettings,
+  ...(userId ? voiceSettingsByUser[userId] : undefined)
+});
+
 export const useChatStore = create<ChatStore>()(
   persist(
     (set) => ({
@@ -40,16 +96,174 @@ export const useChatStore = create<ChatStore>()(
       isLoading: false,
       error: null,
       settings: defaultSettings,
+      voiceSettingsByUser: {},
       playingMessageId: null,
+      replyAlternatives: {},
+      conversationBranches: {},
+      outbox: [],
+      historyPage: 1,
+      historyTotalPages: 1,
 
       addMessage: (message) =>
         set((state) => ({
           messages: [...state.messages, message]
         })),
 
+      updateMessage: (messageId, updates) =>
+        set((state) => ({
+          messages: state.messages.map((m) =>
+            m.id === messageId ? { ...m, ...updates } : m
+          )
+        })),
+
+      appendMessageContent: (messageId, chunk) =>
+        set((state) => ({
+          messages: state.messages.map((m) =>
+            m.id === messageId ? { ...m, content: m.content + chunk } : m
+          )
+        })),
+
+      removeMessage: (messageId) =>
+        set((state) => ({
+          messages: state.messages.filter((m) => m.id !== messageId)
+        })),
+
+      addReplyAlternative: (userMessageId, reply) =>
+        set((state) => {
+          const replies = [...(state.replyAlternatives[userMessageId]?.replies ?? []), reply];
+          return {
+            replyAlternatives: {
+              ...state.replyAlternatives,
+              [userMessageId]: { replies, activeIndex: replies.length - 1 }
+            }
+          };
+        }),
+
+      selectReplyAlternative: (userMessageId, index) =>
+        set((state) => {
+          const current = state.replyAlternatives[userMessageId];
+          if (!current || index < 0 || index >= current.replies.length) {
+            return state;
+          }
+
+          // 表示中の応答を選択した候補に差し替える
+          const activeReply = current.replies[current.activeIndex];
+          return {
+            messages: state.messages.map((m) =>
+              m.id === activeReply.id ? current.replies[index] : m
+            ),
+            replyAlternatives: {
+              ...state.replyAlternatives,
+              [userMessageId]: { ...current, activeIndex: index }
+            }
+          };
+        }),
+
+      forkConversation: (forkKey) =>
+        set((state) => {
+          const forkIndex = getForkIndex(state.messages, forkKey);
+          if (forkIndex === -1) {
+            return state;
+          }
+
+          // 表示中の続きを保存してから新しい空の分岐を選択する
+          const tail = state.messages.slice(forkIndex);
+          const current = state.conversationBranches[forkKey];
+          const branches = current ? [...current.branches] : [];
+          branches[current ? current.activeIndex : 0] = tail;
+          branches.push([]);
+
+          return {
+            messages: state.messages.slice(0, forkIndex),
+            conversationBranches: {
+              ...state.conversationBranches,
+              [forkKey]: { branches, activeIndex: branches.length - 1 }
+            }
+          };
+        }),
+
+      selectBranch: (forkKey, index) =>
+        set((state) => {
+          const current = state.conversationBranches[forkKey];
+          const forkIndex = getForkIndex(state.messages, forkKey);
+          if (!current || forkIndex === -1 || index < 0 || index >= current.branches.length) {
+            return state;
+          }
+
+          const branches = [...current.branches];
+          branches[current.activeIndex] = state.messages.slice(forkIndex);
+
+          return {
+            messages: [...state.messages.slice(0, forkIndex), ...branches[index]],
+            conversationBranches: {
+              ...state.conversationBranches,
+              [forkKey]: { branches, activeIndex: index }
+            }
+          };
+        }),
+
+      discardActiveBranch: (forkKey) =>
+        set((state) => {
+          const current = state.conversationBranches[forkKey];
+          const forkIndex = getForkIndex(state.messages, forkKey);
+          if (!current || forkIndex === -1) {
+            return state;
+          }
+
+          const branches = current.branches.filter((_, i) => i !== current.activeIndex);
+          const rest = { ...state.conversationBranches };
+          delete rest[forkKey];
+          const activeIndex = branches.length - 1;
+
+          return {
+            messages: [...state.messages.slice(0, forkIndex), ...(branches[activeIndex] ?? [])],
+            // 分岐が1つだけになった場合は切り替えが不要なので記録を消す
+            conversationBranches: branches.length > 1
+              ? { ...rest, [forkKey]: { branches, activeIndex } }
+              : rest
+          };
+        }),
+
+      enqueueOutbox: (entry) =>
+        set((state) => ({
+          outbox: enqueueOutboxEntry(state.outbox, entry)
+        })),
+
+      removeFromOutbox: (clientMessageId) =>
+        set((state) => ({
+          outbox: state.outbox.filter((e) => e.clientMessageId !== clientMessageId)
+        })),
+
+      markOutboxAttempt: (clientMessageId) =>
+        set((state) => ({
+          outbox: state.outbox.map((e) => {
+            if (e.clientMessageId !== clientMessageId) {
+              return e;
+            }
+            const attempts = e.attempts + 1;
+            return { ...e, attempts, nextAttemptAt: Date.now() + getOutboxRetryDelay(attempts) };
+          })
+        })),
+
+      resetOutboxBackoff: () =>
+        set((state) => ({
+          outbox: state.outbox.map((e) => ({ ...e, nextAttemptAt: 0 }))
+        })),
+
       setMessages: (messages) =>
         set({ messages }),
 
+      prependMessages: (messages) =>
+        set((state) => {
+          const existingIds = new Set(state.messages.map((m) => m.id));
+          return {
+            messages: [...messages.filter((m) => !existingIds.has(m.id)), ...state.messages]
+          };
+        }),
+
+      setHistoryPagination: (page, totalPages) =>
+        set({ historyPage: page, historyTotalPages: totalPages }),
+
       setSessionId: (sessionId) =>
         set({ sessionId }),
 
@@ -64,15 +278,40 @@ export const useChatStore = create<ChatStore>()(
           settings: { ...state.settings, ...settings }
         })),
 
+      updateVoiceSettings: (userId, voiceSettings) =>
+        set((state) => ({
+          voiceSettingsByUser: {
+            ...state.voiceSettingsByUser,
+            [userId]: { ...getVoiceSettings(state.voiceSettingsByUser, userId), ...voiceSettings }
+          }
+        })),
+
       clearMessages: () =>
-        set({ messages: [] }),
+        set({ messages: [], replyAlternatives: {}, conversationBranches: {} }),
 
       newSession: () =>
         set({
           messages: [],
           sessionId: uuidv4(),
           error: null,
-          playingMessageId: null
+          playingMessageId: null,
+          replyAlternatives: {},
+          conversationBranches: {},
+          historyPage: 1,
+          historyTotalPages: 1
+        }),
+
+      clearUserData: () =>
+        set({
+          messages: [],
+          sessionId: uuidv4(),
+          error: null,
+          playingMessageId: null,
+          replyAlternatives: {},
+          conversationBranches: {},
+          outbox: [],
+          historyPage: 1,
+          historyTotalPages: 1
         }),
 
       setPlayingMessageId: (messageId) =>
@@ -82,7 +321,9 @@ export const useChatStore = create<ChatStore>()(
       name: 'chat-storage',
       partialize: (state) => ({
         settings: state.settings,
-        sessionId: state.sessionId
+        voiceSettingsByUser: state.voiceSettingsByUser,
+        sessionId: state.sessionId,
+        outbox: state.outbox
       })
     }
   )
@@ -12,10 +12,15 @@ export interface ChatMessage {
   session_id: string;
   metadata?: Record<string, any>;
   emotions?: Emotion[];
+  status?: ChatMessageStatus; // クライアント側のみで使用する表示状態
   created_at: string;
   updated_at: string;
 }
 
+export type ChatMessageStatus =
+  | 'streaming' // アシスタント応答の受信中
+  | 'pending'; // オフライン等で未送信（送信待ちキューに保存済み）
+
 export interface ChatSession {
   session_id: string;
   last_message_at: string;
@@ -33,6 +38,9 @@ export interface ChatRequest {
   model?: string;
   temperature?: number;
   max_tokens?: number;
+  regenerate?: boolean; // 直前のユーザー発言に対する応答を作り直す（ユーザーメッセージは再保存しない）
+  parent_message_id?: string; // 編集再送時の分岐元メッセージID
+  client_message_id?: string; // 再送時の重複排除用にクライアントで採番したID
 }
 
 export interface ChatResponse {
@@ -41,6 +49,34 @@ export interface ChatResponse {
   assistant_message: ChatMessage;
 }
 
+// 同じユーザー発言に対する応答候補（再生成で追加される）
+export interface ReplyAlternatives {
+  replies: ChatMessage[];
+  activeIndex: number;
+}
+
+// 編集再送で分岐した会話の続き（分岐点以降のメッセージ列）
+export interface ConversationBranches {
+  branches: ChatMessage[][];
+  activeIndex: number;
+}
+
+// 未送信メッセージの送信待ちキュー項目
+export interface OutboxEntry {
+  clientMessageId: string;
+  userId: string; // 送信したユーザー（同じブラウザで別のユーザーがログインしても再送しない）
+  sessionId: string;
+  content: string;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number; // 次回再送可能な時刻（epoch ms）
+}
+
+export interface ChatStreamHandlers {
+  onUserMessage?: (message: ChatMessage) => void; // サーバー側で保存されたユーザーメッセージ
+  onDelta?: (chunk: string) => void; // アシスタント応答のトークン断片
+}
+
 export interface ChatSettings {
   provider: 'openai' | 'anthropic' | 'google';
   model: string;
@@ -48,4 +84,9 @@ export interface ChatSettings {
   max_tokens: number;
   system_prompt: string;
   api_key?: string;
-}
\ No newline at end of file
+  voice_input_mode?: VoiceInputMode;
+  auto_speak?: boolean; // 新しい応答を自動で読み上げる
+}
+
+// 音声入力の方式（押している間だけ録音 / 無音検出で自動終了）
+export type VoiceInputMode = 'push-to-talk' | 'hands-free';
\ No newline at end of file
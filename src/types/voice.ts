@@ -0,0 +1,30 @@
+export interface VoiceSpeaker {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface VoiceSettings {
+  speaker_id?: string; // 未指定の場合はバックエンドのデフォルト話者
+  speed: number; // 話速（1.0 = 標準）
+  pitch: number; // 声の高さ（半音単位、0 = 標準）
+  volume: number; // 音量（0〜1）
+}
+
+/**
+ * 音声合成のアライメント（モーラ・音素ごとの発音時刻）
+ * text はかな1モーラ（「か」「きゃ」「ー」「ん」）または音素（"k" "a" "N" "cl" "pau"）
+ */
+export interface VoiceAlignmentUnit {
+  text: string;
+  start: number; // 音声の先頭からの開始時刻（秒）
+  end: number; // 終了時刻（秒）
+}
+
+/**
+ * 再生中の文のアライメントと再生位置（HTMLAudioElement.currentTime 相当）
+ */
+export interface VoiceAlignmentPlayback {
+  units: VoiceAlignmentUnit[];
+  getCurrentTime: () => number; // 文の先頭からの再生位置（秒）
+}
@@ -0,0 +1,52 @@
+/**
+ * Concurrency limiter Test Suite
+ */
+
+import { createConcurrencyLimiter } from '../concurrency';
+
+// 外部から完了させられるPromise
+const createDeferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('createConcurrencyLimiter', () => {
+  it('同時実行数を上限までに制限する', async () => {
+    const run = createConcurrencyLimiter(2);
+    const deferreds = [0, 1, 2, 3].map(() => createDeferred<number>());
+    const started: number[] = [];
+
+    const results = deferreds.map((d, i) => run(() => {
+      started.push(i);
+      return d.promise;
+    }));
+
+    expect(started).toEqual([0, 1]);
+
+    deferreds[1].resolve(1);
+    await flushPromises();
+    expect(started).toEqual([0, 1, 2]);
+
+    deferreds[0].resolve(0);
+    deferreds[2].resolve(2);
+    deferreds[3].resolve(3);
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3]);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  it('失敗した処理も枠を解放する', async () => {
+    const run = createConcurrencyLimiter(1);
+    const failing = run(() => Promise.reject(new Error('failed')));
+    const next = run(() => Promise.resolve('ok'));
+
+    await expect(failing).rejects.toThrow('failed');
+    await expect(next).resolves.toBe('ok');
+  });
+});
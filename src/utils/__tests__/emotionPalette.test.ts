@@ -0,0 +1,34 @@
+/**
+ * emotionPalette Test Suite
+ */
+
+import { getEmotionColor, normalizeEmotionIntensity } from '../emotionPalette';
+
+describe('emotionPalette', () => {
+  describe('getEmotionColor', () => {
+    it('感情ごとの色を返す', () => {
+      const color = getEmotionColor('joy');
+
+      expect(color.chip).toBe('bg-yellow-100 text-yellow-800');
+      expect(color.translucentChip).toBe('bg-yellow-100/70 text-yellow-800');
+      expect(color.border).toBe('border-yellow-300');
+      expect(color.bar).toBe('bg-yellow-400');
+    });
+
+    it('未定義の感情はグレーにフォールバックする', () => {
+      expect(getEmotionColor('unknown').chip).toBe('bg-gray-100 text-gray-800');
+    });
+  });
+
+  describe('normalizeEmotionIntensity', () => {
+    it('0〜1の範囲に丸める', () => {
+      expect(normalizeEmotionIntensity(0.4)).toBe(0.4);
+      expect(normalizeEmotionIntensity(-1)).toBe(0);
+      expect(normalizeEmotionIntensity(3)).toBe(1);
+    });
+
+    it('数値でない場合は0とする', () => {
+      expect(normalizeEmotionIntensity(NaN)).toBe(0);
+    });
+  });
+});
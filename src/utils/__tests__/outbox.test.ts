@@ -0,0 +1,89 @@
+/**
+ * Outbox helpers Test Suite
+ */
+
+import {
+  enqueueOutboxEntry,
+  getDueOutboxEntries,
+  getOutboxRetryDelay,
+  toPendingMessage,
+  OUTBOX_RETRY_BASE_MS,
+  OUTBOX_RETRY_MAX_MS
+} from '../outbox';
+import type { OutboxEntry } from '@/types/chat';
+
+const createEntry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  clientMessageId: 'client-1',
+  userId: '1',
+  sessionId: 'session-1',
+  content: 'こんにちは',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  attempts: 0,
+  nextAttemptAt: 0,
+  ...overrides
+});
+
+describe('outbox', () => {
+  describe('getOutboxRetryDelay', () => {
+    it('試行回数に応じて指数的に待ち時間を伸ばす', () => {
+      const noJitter = () => 0;
+
+      expect(getOutboxRetryDelay(1, noJitter)).toBe(OUTBOX_RETRY_BASE_MS);
+      expect(getOutboxRetryDelay(2, noJitter)).toBe(OUTBOX_RETRY_BASE_MS * 2);
+      expect(getOutboxRetryDelay(3, noJitter)).toBe(OUTBOX_RETRY_BASE_MS * 4);
+    });
+
+    it('上限を超えない（ジッター分を除く）', () => {
+      expect(getOutboxRetryDelay(20, () => 0)).toBe(OUTBOX_RETRY_MAX_MS);
+      expect(getOutboxRetryDelay(20, () => 1)).toBe(OUTBOX_RETRY_MAX_MS * 1.2);
+    });
+  });
+
+  describe('enqueueOutboxEntry', () => {
+    it('同じクライアントIDの項目は追加しない', () => {
+      const entries = [createEntry()];
+
+      const result = enqueueOutboxEntry(entries, createEntry({ content: '重複' }));
+
+      expect(result).toBe(entries);
+      expect(result).toHaveLength(1);
+    });
+
+    it('新しい項目を末尾に追加する', () => {
+      const result = enqueueOutboxEntry([createEntry()], createEntry({ clientMessageId: 'client-2' }));
+
+      expect(result.map((e) => e.clientMessageId)).toEqual(['client-1', 'client-2']);
+    });
+  });
+
+  describe('getDueOutboxEntries', () => {
+    it('指定ユーザー・セッションの再送可能な項目を作成順に返す', () => {
+      const entries = [
+        createEntry({ clientMessageId: 'later', createdAt: '2025-01-01T00:00:02.000Z' }),
+        createEntry({ clientMessageId: 'other-session', sessionId: 'session-2' }),
+        // 同じブラウザで別のユーザーが送信した項目
+        createEntry({ clientMessageId: 'other-user', userId: '2' }),
+        createEntry({ clientMessageId: 'waiting', nextAttemptAt: 5000 }),
+        createEntry({ clientMessageId: 'earlier', createdAt: '2025-01-01T00:00:01.000Z' })
+      ];
+
+      const due = getDueOutboxEntries(entries, '1', 'session-1', 1000);
+
+      expect(due.map((e) => e.clientMessageId)).toEqual(['earlier', 'later']);
+    });
+  });
+
+  describe('toPendingMessage', () => {
+    it('送信待ち状態のユーザーメッセージに変換する', () => {
+      const message = toPendingMessage(createEntry());
+
+      expect(message).toMatchObject({
+        id: 'client-1',
+        role: 'user',
+        content: 'こんにちは',
+        session_id: 'session-1',
+        status: 'pending'
+      });
+    });
+  });
+});
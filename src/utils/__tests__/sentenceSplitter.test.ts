@@ -0,0 +1,47 @@
+/**
+ * Sentence splitter Test Suite
+ */
+
+import { splitIntoSentences } from '../sentenceSplitter';
+
+describe('splitIntoSentences', () => {
+  it('日本語の句点・感嘆符・疑問符で分割する', () => {
+    expect(splitIntoSentences('今日はいい天気ですね。散歩に行きませんか？とても気持ちいいですよ！'))
+      .toEqual(['今日はいい天気ですね。', '散歩に行きませんか？', 'とても気持ちいいですよ！']);
+  });
+
+  it('括弧内では区切らず、連続する記号は直前の文に含める', () => {
+    expect(splitIntoSentences('彼は「ありがとう。」と言いました。本当ですか！？信じられません……', { minLength: 4 }))
+      .toEqual(['彼は「ありがとう。」と言いました。', '本当ですか！？', '信じられません……']);
+  });
+
+  it('英語の文末と小数点を区別する', () => {
+    expect(splitIntoSentences('The value is 3.14 today. Is that right? Yes it is.'))
+      .toEqual(['The value is 3.14 today.', 'Is that right?', 'Yes it is.']);
+  });
+
+  it('改行で分割し空行は除外する', () => {
+    expect(splitIntoSentences('一行目のテキストです\n\n二行目のテキストです'))
+      .toEqual(['一行目のテキストです', '二行目のテキストです']);
+  });
+
+  it('短い文は前の文と結合する', () => {
+    expect(splitIntoSentences('はい。わかりました、それで進めましょう。', { minLength: 8 }))
+      .toEqual(['はい。わかりました、それで進めましょう。']);
+  });
+
+  it('長い文は読点で分割する', () => {
+    const sentence = 'あいうえおかきくけこ、さしすせそたちつてと、なにぬねのはひふへほ。';
+    expect(splitIntoSentences(sentence, { maxLength: 15, minLength: 1 }))
+      .toEqual(['あいうえおかきくけこ、', 'さしすせそたちつてと、', 'なにぬねのはひふへほ。']);
+  });
+
+  it('読点がない長い文は文字数で分割する', () => {
+    expect(splitIntoSentences('あいうえおかきくけこ', { maxLength: 4, minLength: 1 }))
+      .toEqual(['あいうえ', 'おかきく', 'けこ']);
+  });
+
+  it('空文字列は空配列を返す', () => {
+    expect(splitIntoSentences('   ')).toEqual([]);
+  });
+});
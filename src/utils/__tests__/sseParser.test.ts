@@ -0,0 +1,68 @@
+/**
+ * SSEParser Test Suite
+ */
+
+import { SSEParser } from '../sseParser';
+
+describe('SSEParser', () => {
+  let parser: SSEParser;
+
+  beforeEach(() => {
+    parser = new SSEParser();
+  });
+
+  it('空行でイベントを確定する', () => {
+    const events = parser.feed('event: delta\ndata: {"content":"こん"}\n\n');
+
+    expect(events).toEqual([{ event: 'delta', data: '{"content":"こん"}' }]);
+  });
+
+  it('チャンク境界をまたぐイベントを組み立てる', () => {
+    expect(parser.feed('event: del')).toEqual([]);
+    expect(parser.feed('ta\ndata: {"content"')).toEqual([]);
+
+    const events = parser.feed(':"にちは"}\n\n');
+    expect(events).toEqual([{ event: 'delta', data: '{"content":"にちは"}' }]);
+  });
+
+  it('イベント名がない場合はmessageとして扱う', () => {
+    const events = parser.feed('data: hello\n\n');
+
+    expect(events[0].event).toBe('message');
+  });
+
+  it('複数のdata行を改行で連結する', () => {
+    const events = parser.feed('data: line1\ndata: line2\n\n');
+
+    expect(events[0].data).toBe('line1\nline2');
+  });
+
+  it('CRLF改行とコメント行に対応する', () => {
+    const events = parser.feed(': keep-alive\r\nevent: done\r\ndata: {}\r\n\r\n');
+
+    expect(events).toEqual([{ event: 'done', data: '{}' }]);
+  });
+
+  it('チャンク末尾のCRはCRLFの途中として扱う', () => {
+    expect(parser.feed('data: a\r')).toEqual([]);
+
+    const events = parser.feed('\n\r\n');
+    expect(events).toEqual([{ event: 'message', data: 'a' }]);
+  });
+
+  it('idフィールドを保持する', () => {
+    const events = parser.feed('id: 42\ndata: x\n\n');
+
+    expect(events[0].id).toBe('42');
+  });
+
+  it('flushで終端の未確定イベントを取り出す', () => {
+    expect(parser.feed('event: done\ndata: {}')).toEqual([]);
+
+    expect(parser.flush()).toEqual([{ event: 'done', data: '{}' }]);
+  });
+
+  it('dataを含まないイベントは送出しない', () => {
+    expect(parser.feed('event: ping\n\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * virtualList Test Suite
+ */
+
+import { computeItemOffsets, findItemIndexAt, findVirtualRange } from '../virtualList';
+
+describe('virtualList', () => {
+  describe('computeItemOffsets', () => {
+    it('累積オフセットを計算する', () => {
+      expect(computeItemOffsets([10, 20, 30])).toEqual([0, 10, 30, 60]);
+    });
+
+    it('空配列では全体の高さ0のみを返す', () => {
+      expect(computeItemOffsets([])).toEqual([0]);
+    });
+  });
+
+  describe('findItemIndexAt', () => {
+    const offsets = computeItemOffsets([10, 20, 30]);
+
+    it('位置を含む要素のインデックスを返す', () => {
+      expect(findItemIndexAt(offsets, 0)).toBe(0);
+      expect(findItemIndexAt(offsets, 9)).toBe(0);
+      expect(findItemIndexAt(offsets, 10)).toBe(1);
+      expect(findItemIndexAt(offsets, 45)).toBe(2);
+    });
+
+    it('範囲外の位置は末尾の要素に丸める', () => {
+      expect(findItemIndexAt(offsets, 1000)).toBe(2);
+    });
+  });
+
+  describe('findVirtualRange', () => {
+    const offsets = computeItemOffsets(new Array(100).fill(50));
+
+    it('ビューポート内の要素とオーバースキャン分を含める', () => {
+      // 1000px〜1300px → 要素20〜25
+      expect(findVirtualRange(offsets, 1000, 300, 2)).toEqual({ start: 18, end: 28 });
+    });
+
+    it('先頭・末尾でリストの範囲に収める', () => {
+      expect(findVirtualRange(offsets, 0, 300, 5)).toEqual({ start: 0, end: 11 });
+      expect(findVirtualRange(offsets, 4800, 300, 5)).toEqual({ start: 91, end: 100 });
+    });
+
+    it('リストより上のヘッダーの高さを除いて範囲を求める', () => {
+      // ヘッダー200px: 1000px〜1300px → リスト上の800px〜1100px → 要素16〜21
+      expect(findVirtualRange(offsets, 1000, 300, 2, 200)).toEqual({ start: 14, end: 24 });
+      // ヘッダーが見えている間はリストの先頭から
+      expect(findVirtualRange(offsets, 100, 300, 2, 200)).toEqual({ start: 0, end: 6 });
+    });
+
+    it('要素がない場合は空の範囲を返す', () => {
+      expect(findVirtualRange([0], 0, 300, 5)).toEqual({ start: 0, end: 0 });
+    });
+  });
+});
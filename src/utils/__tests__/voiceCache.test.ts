@@ -0,0 +1,70 @@
+/**
+ * Voice cache helpers Test Suite
+ */
+
+import {
+  createVoiceCacheKey,
+  hashString,
+  hashVoiceSettings,
+  selectEvictionKeys,
+  VoiceCacheEntryInfo
+} from '../voiceCache';
+
+describe('hashString', () => {
+  it('同じ文字列には同じハッシュを返す', () => {
+    expect(hashString('こんにちは')).toBe(hashString('こんにちは'));
+    expect(hashString('こんにちは')).not.toBe(hashString('こんばんは'));
+    expect(hashString('')).toHaveLength(8);
+  });
+});
+
+describe('hashVoiceSettings', () => {
+  it('キーの順序に依存しない', () => {
+    expect(hashVoiceSettings({ speaker: 'a', speed: 1.2 }))
+      .toBe(hashVoiceSettings({ speed: 1.2, speaker: 'a' }));
+  });
+
+  it('値が変わると異なるハッシュになる', () => {
+    expect(hashVoiceSettings({ speaker: 'a' })).not.toBe(hashVoiceSettings({ speaker: 'b' }));
+  });
+
+  it('undefinedの項目は無視する', () => {
+    expect(hashVoiceSettings({ speaker: 'a', pitch: undefined })).toBe(hashVoiceSettings({ speaker: 'a' }));
+  });
+});
+
+describe('createVoiceCacheKey', () => {
+  it('メッセージID・文の位置・設定ごとに異なるキーになる', () => {
+    const key = createVoiceCacheKey('msg-1', 0, 'こんにちは。', 'settings');
+    expect(key.startsWith('msg-1:0:settings:')).toBe(true);
+    expect(createVoiceCacheKey('msg-1', 1, 'こんにちは。', 'settings')).not.toBe(key);
+    expect(createVoiceCacheKey('msg-1', 0, 'こんにちは。', 'other')).not.toBe(key);
+    expect(createVoiceCacheKey('msg-1', 0, 'こんばんは。', 'settings')).not.toBe(key);
+  });
+
+  it('メッセージIDがない場合はテキストから生成する', () => {
+    expect(createVoiceCacheKey(undefined, 0, 'プレビュー', 's'))
+      .toBe(createVoiceCacheKey(undefined, 0, 'プレビュー', 's'));
+  });
+});
+
+describe('selectEvictionKeys', () => {
+  const entries: VoiceCacheEntryInfo[] = [
+    { key: 'recent', size: 40, lastAccessedAt: 300 },
+    { key: 'oldest', size: 30, lastAccessedAt: 100 },
+    { key: 'middle', size: 20, lastAccessedAt: 200 }
+  ];
+
+  it('上限以内なら削除しない', () => {
+    expect(selectEvictionKeys(entries, 100)).toEqual([]);
+  });
+
+  it('古い順に上限に収まるまで削除する', () => {
+    expect(selectEvictionKeys(entries, 60)).toEqual(['oldest']);
+    expect(selectEvictionKeys(entries, 45)).toEqual(['oldest', 'middle']);
+  });
+
+  it('追加するデータのサイズも考慮する', () => {
+    expect(selectEvictionKeys(entries, 100, 15)).toEqual(['oldest']);
+  });
+});
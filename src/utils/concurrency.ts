@@ -0,0 +1,34 @@
+/**
+ * 同時実行数を制限して非同期処理を実行する
+ * 追加された順に開始するため、先に追加した処理ほど早く結果が得られる
+ */
+export function createConcurrencyLimiter(limit: number) {
+  const maxActive = Math.max(1, limit);
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= maxActive) {
+      return;
+    }
+    const start = queue.shift();
+    if (start) {
+      active++;
+      start();
+    }
+  };
+
+  return function run<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+  };
+}
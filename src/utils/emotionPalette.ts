@@ -0,0 +1,63 @@
+/**
+ * 感情ごとの表示色（履歴・検索・チャットで共通）
+ * TailwindCSSはクラス名を静的に検出するため、色はすべて完全なクラス名で定義する
+ */
+
+export interface EmotionColorClasses {
+  chip: string; // 背景色・文字色
+  translucentChip: string; // 背景を透過させたチップ（背景画像の上に重ねる場合）
+  border: string;
+  bar: string; // 強度バーの色
+}
+
+const EMOTION_COLORS: Record<string, EmotionColorClasses> = {
+  // ポジティブな感情
+  joy: { chip: 'bg-yellow-100 text-yellow-800', translucentChip: 'bg-yellow-100/70 text-yellow-800', border: 'border-yellow-300', bar: 'bg-yellow-400' },
+  love: { chip: 'bg-pink-100 text-pink-800', translucentChip: 'bg-pink-100/70 text-pink-800', border: 'border-pink-300', bar: 'bg-pink-400' },
+  trust: { chip: 'bg-green-100 text-green-800', translucentChip: 'bg-green-100/70 text-green-800', border: 'border-green-300', bar: 'bg-green-400' },
+  gratitude: { chip: 'bg-purple-100 text-purple-800', translucentChip: 'bg-purple-100/70 text-purple-800', border: 'border-purple-300', bar: 'bg-purple-400' },
+  hope: { chip: 'bg-blue-100 text-blue-800', translucentChip: 'bg-blue-100/70 text-blue-800', border: 'border-blue-300', bar: 'bg-blue-400' },
+  relief: { chip: 'bg-teal-100 text-teal-800', translucentChip: 'bg-teal-100/70 text-teal-800', border: 'border-teal-300', bar: 'bg-teal-400' },
+  pride: { chip: 'bg-indigo-100 text-indigo-800', translucentChip: 'bg-indigo-100/70 text-indigo-800', border: 'border-indigo-300', bar: 'bg-indigo-400' },
+  contentment: { chip: 'bg-lime-100 text-lime-800', translucentChip: 'bg-lime-100/70 text-lime-800', border: 'border-lime-300', bar: 'bg-lime-400' },
+  anticipation: { chip: 'bg-cyan-100 text-cyan-800', translucentChip: 'bg-cyan-100/70 text-cyan-800', border: 'border-cyan-300', bar: 'bg-cyan-400' },
+
+  // ネガティブな感情
+  sadness: { chip: 'bg-gray-100 text-gray-800', translucentChip: 'bg-gray-100/70 text-gray-800', border: 'border-gray-300', bar: 'bg-gray-400' },
+  anger: { chip: 'bg-red-100 text-red-800', translucentChip: 'bg-red-100/70 text-red-800', border: 'border-red-300', bar: 'bg-red-400' },
+  fear: { chip: 'bg-orange-100 text-orange-800', translucentChip: 'bg-orange-100/70 text-orange-800', border: 'border-orange-300', bar: 'bg-orange-400' },
+  anxiety: { chip: 'bg-amber-100 text-amber-800', translucentChip: 'bg-amber-100/70 text-amber-800', border: 'border-amber-300', bar: 'bg-amber-400' },
+  frustration: { chip: 'bg-rose-100 text-rose-800', translucentChip: 'bg-rose-100/70 text-rose-800', border: 'border-rose-300', bar: 'bg-rose-400' },
+  guilt: { chip: 'bg-stone-100 text-stone-800', translucentChip: 'bg-stone-100/70 text-stone-800', border: 'border-stone-300', bar: 'bg-stone-400' },
+  shame: { chip: 'bg-zinc-100 text-zinc-800', translucentChip: 'bg-zinc-100/70 text-zinc-800', border: 'border-zinc-300', bar: 'bg-zinc-400' },
+  disappointment: { chip: 'bg-slate-100 text-slate-800', translucentChip: 'bg-slate-100/70 text-slate-800', border: 'border-slate-300', bar: 'bg-slate-400' },
+  loneliness: { chip: 'bg-gray-200 text-gray-700', translucentChip: 'bg-gray-200/70 text-gray-700', border: 'border-gray-400', bar: 'bg-gray-500' },
+  disgust: { chip: 'bg-emerald-100 text-emerald-800', translucentChip: 'bg-emerald-100/70 text-emerald-800', border: 'border-emerald-300', bar: 'bg-emerald-400' },
+
+  // ニュートラルな感情
+  surprise: { chip: 'bg-violet-100 text-violet-800', translucentChip: 'bg-violet-100/70 text-violet-800', border: 'border-violet-300', bar: 'bg-violet-400' }
+};
+
+const DEFAULT_EMOTION_COLOR: EmotionColorClasses = {
+  chip: 'bg-gray-100 text-gray-800',
+  translucentChip: 'bg-gray-100/70 text-gray-800',
+  border: 'border-gray-300',
+  bar: 'bg-gray-400'
+};
+
+/**
+ * 感情名から表示色を取得（未定義の感情はグレー）
+ */
+export function getEmotionColor(emotionName: string): EmotionColorClasses {
+  return EMOTION_COLORS[emotionName] || DEFAULT_EMOTION_COLOR;
+}
+
+/**
+ * 感情の強度を0〜1に丸める
+ */
+export function normalizeEmotionIntensity(intensity: number): number {
+  if (!Number.isFinite(intensity)) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, intensity));
+}
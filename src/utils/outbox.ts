@@ -0,0 +1,65 @@
+/**
+ * 未送信チャットメッセージの送信待ちキュー（outbox）用ヘルパー
+ */
+
+import { ChatMessage, OutboxEntry } from '@/types/chat';
+
+export const OUTBOX_RETRY_BASE_MS = 2000;
+export const OUTBOX_RETRY_MAX_MS = 60000;
+
+/**
+ * 再送までの待ち時間（指数バックオフ + ジッター）
+ * @param attempts これまでの送信試行回数
+ */
+export function getOutboxRetryDelay(attempts: number, random: () => number = Math.random): number {
+  const exponential = OUTBOX_RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1));
+  const capped = Math.min(exponential, OUTBOX_RETRY_MAX_MS);
+  // 同時復帰した複数タブの再送が重ならないよう最大20%ずらす
+  return Math.round(capped * (1 + random() * 0.2));
+}
+
+/**
+ * キューに追加（クライアントIDで重複排除）
+ */
+export function enqueueOutboxEntry(entries: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] {
+  if (entries.some((e) => e.clientMessageId === entry.clientMessageId)) {
+    return entries;
+  }
+  return [...entries, entry];
+}
+
+/**
+ * 指定ユーザー・セッションの項目かどうか
+ */
+export function isOutboxEntryFor(entry: OutboxEntry, userId: string, sessionId: string): boolean {
+  return entry.userId === userId && entry.sessionId === sessionId;
+}
+
+/**
+ * 指定ユーザー・セッションで再送可能な項目を古い順に取得
+ */
+export function getDueOutboxEntries(
+  entries: OutboxEntry[],
+  userId: string,
+  sessionId: string,
+  now: number
+): OutboxEntry[] {
+  return entries
+    .filter((e) => isOutboxEntryFor(e, userId, sessionId) && e.nextAttemptAt <= now)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * 表示用の送信待ちメッセージに変換
+ */
+export function toPendingMessage(entry: OutboxEntry): ChatMessage {
+  return {
+    id: entry.clientMessageId,
+    content: entry.content,
+    role: 'user',
+    session_id: entry.sessionId,
+    status: 'pending',
+    created_at: entry.createdAt,
+    updated_at: entry.createdAt
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * 読み上げ用に文章を文単位に分割する
+ * 日本語の句読点（。！？…）と英語の文末（. ! ?）に対応し、閉じ括弧は直前の文に含める
+ */
+
+export interface SentenceSplitOptions {
+  maxLength?: number; // これより長い文は読点などで分割する
+  minLength?: number; // これより短い文は前の文と結合する（合成リクエスト数を抑える）
+}
+
+// 文末記号
+const SENTENCE_END = /[。．！？!?…‥\n]/;
+// 文末記号の後に続けて同じ文に含める文字
+const TRAILING = /[。．！？!?…‥”’"']/;
+// 括弧内の文末記号では区切らない
+const OPENING_BRACKET = /[「『（(【〔〈《]/;
+const CLOSING_BRACKET = /[」』）)】〕〉》]/;
+// 長い文を分割する位置の候補
+const SOFT_BREAK = /[、，,；;：:]/;
+
+/**
+ * 文末記号で区切る
+ */
+const splitAtSentenceEnds = (text: string): string[] => {
+  const sentences: string[] = [];
+  let buffer = '';
+  let depth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    buffer += char;
+
+    if (OPENING_BRACKET.test(char)) {
+      depth++;
+      continue;
+    }
+    if (CLOSING_BRACKET.test(char)) {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+    if (depth > 0 && char !== '\n') {
+      continue;
+    }
+
+    // 英語のピリオドは後ろが空白・末尾の場合のみ文末とみなす（小数点・略語対策）
+    const isPeriodEnd = char === '.' && (i === text.length - 1 || /\s/.test(text[i + 1]));
+    if (!SENTENCE_END.test(char) && !isPeriodEnd) {
+      continue;
+    }
+
+    while (i + 1 < text.length && TRAILING.test(text[i + 1])) {
+      buffer += text[++i];
+    }
+    sentences.push(buffer);
+    buffer = '';
+    depth = 0;
+  }
+  sentences.push(buffer);
+
+  return sentences.map((s) => s.trim()).filter((s) => s.length > 0);
+};
+
+/**
+ * 長すぎる文を読点（なければ文字数）で分割する
+ */
+const splitLongSentence = (sentence: string, maxLength: number): string[] => {
+  const parts: string[] = [];
+  let rest = sentence;
+
+  while (rest.length > maxLength) {
+    let breakIndex = -1;
+    for (let i = maxLength - 1; i > 0; i--) {
+      if (SOFT_BREAK.test(rest[i])) {
+        breakIndex = i + 1;
+        break;
+      }
+    }
+    if (breakIndex <= 0) {
+      breakIndex = maxLength;
+    }
+    parts.push(rest.slice(0, breakIndex).trim());
+    rest = rest.slice(breakIndex).trim();
+  }
+  if (rest) {
+    parts.push(rest);
+  }
+  return parts;
+};
+
+export function splitIntoSentences(text: string, { maxLength = 120, minLength = 8 }: SentenceSplitOptions = {}): string[] {
+  const sentences = splitAtSentenceEnds(text).flatMap((s) => splitLongSentence(s, maxLength));
+
+  // 短い文は前の文と結合
+  const merged: string[] = [];
+  for (const sentence of sentences) {
+    const previous = merged[merged.length - 1];
+    if (previous !== undefined && (sentence.length < minLength || previous.length < minLength)
+        && previous.length + sentence.length <= maxLength) {
+      merged[merged.length - 1] = previous + sentence;
+    } else {
+      merged.push(sentence);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,115 @@
+/**
+ * Server-Sent Events (text/event-stream) のインクリメンタルパーサー
+ * fetchのReadableStreamから届くチャンクを順次投入し、完成したイベントを取り出す
+ */
+
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export class SSEParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+
+  /**
+   * チャンクを投入し、完成したイベントを返す
+   */
+  feed(chunk: string): SSEEvent[] {
+    this.buffer += chunk;
+    const events: SSEEvent[] = [];
+
+    // 行単位で処理（CRLF / LF / CR いずれにも対応）
+    let match: RegExpExecArray | null;
+    const lineBreak = /\r\n|\n|\r/;
+    while ((match = lineBreak.exec(this.buffer)) !== null) {
+      // 末尾のCRはCRLFの途中かもしれないので次のチャンクを待つ
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+        break;
+      }
+      const line = this.buffer.slice(0, match.index);
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * ストリーム終端で未送出のイベントを取り出す
+   */
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      this.buffer = '';
+      if (event) {
+        events.push(event);
+      }
+    }
+    const pending = this.dispatch();
+    if (pending) {
+      events.push(pending);
+    }
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    // 空行でイベント確定
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    // コメント行（keep-alive等）は無視
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+      default:
+        // retry等は使用しない
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return null;
+    }
+
+    const event: SSEEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      ...(this.lastEventId !== undefined && { id: this.lastEventId })
+    };
+
+    this.eventType = '';
+    this.dataLines = [];
+    return event;
+  }
+}
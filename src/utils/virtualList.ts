@@ -0,0 +1,70 @@
+/**
+ * 可変高さリストの仮想化（表示範囲の計算）
+ */
+
+export interface VirtualRange {
+  start: number; // 描画する先頭インデックス
+  end: number; // 描画する末尾インデックス（含まない）
+}
+
+/**
+ * 各要素の高さから累積オフセットを求める
+ * @returns 長さ sizes.length + 1 の配列（末尾は全体の高さ）
+ */
+export function computeItemOffsets(sizes: number[]): number[] {
+  const offsets = new Array<number>(sizes.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < sizes.length; i++) {
+    offsets[i + 1] = offsets[i] + sizes[i];
+  }
+  return offsets;
+}
+
+/**
+ * 指定位置を含む要素のインデックスを二分探索で求める
+ */
+export function findItemIndexAt(offsets: number[], position: number): number {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return 0;
+  }
+
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * スクロール位置とビューポートの高さから描画範囲を求める
+ * @param overscan 表示範囲の前後に余分に描画する要素数
+ * @param listOffset スクロール領域の先頭からリストの先頭までの距離（リストより上にあるヘッダー等の高さ）
+ */
+export function findVirtualRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number,
+  listOffset: number = 0
+): VirtualRange {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return { start: 0, end: 0 };
+  }
+
+  const listScrollTop = scrollTop - listOffset;
+  const first = findItemIndexAt(offsets, Math.max(0, listScrollTop));
+  const last = findItemIndexAt(offsets, Math.max(0, listScrollTop + viewportHeight - 1));
+
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + 1 + overscan)
+  };
+}
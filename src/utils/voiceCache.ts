@@ -0,0 +1,73 @@
+/**
+ * 音声キャッシュのキー生成とLRU削除対象の選択
+ */
+
+export interface VoiceCacheEntryInfo {
+  key: string;
+  size: number; // バイト数
+  lastAccessedAt: number;
+}
+
+/**
+ * 文字列のハッシュ（FNV-1a 32bit）
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 音声設定のハッシュ（キーの順序に依存しない）
+ */
+export function hashVoiceSettings(settings: Record<string, string | number | boolean | undefined>): string {
+  const normalized = Object.keys(settings)
+    .sort()
+    .filter((key) => settings[key] !== undefined)
+    .map((key) => `${key}=${settings[key]}`)
+    .join('&');
+  return hashString(normalized);
+}
+
+/**
+ * 音声キャッシュのキー
+ * メッセージID・文の位置・音声設定ごとに保存し、文の内容が変わった場合も別のキーになるようにする
+ */
+export function createVoiceCacheKey(
+  messageId: string | undefined,
+  chunkIndex: number,
+  text: string,
+  settingsHash: string
+): string {
+  const owner = messageId ?? `text-${hashString(text)}`;
+  return `${owner}:${chunkIndex}:${settingsHash}:${hashString(text)}`;
+}
+
+/**
+ * 合計サイズが上限に収まるよう、最後に使われた時刻が古い順に削除するキーを選ぶ
+ * @param incomingSize これから追加するデータのサイズ
+ */
+export function selectEvictionKeys(
+  entries: VoiceCacheEntryInfo[],
+  maxBytes: number,
+  incomingSize = 0
+): string[] {
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0) + incomingSize;
+  if (total <= maxBytes) {
+    return [];
+  }
+
+  const evicted: string[] = [];
+  const byOldest = [...entries].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+  for (const entry of byOldest) {
+    if (total <= maxBytes) {
+      break;
+    }
+    evicted.push(entry.key);
+    total -= entry.size;
+  }
+  return evicted;
+}